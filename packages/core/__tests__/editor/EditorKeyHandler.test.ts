@@ -0,0 +1,63 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, jest, test } from '@jest/globals';
+import { Codec, Editor, EditorKeyHandler, registerEditorCodecs } from '../../src';
+import { parseXml } from '../../src/util/xmlUtils';
+
+describe('bindShortcut', () => {
+  test('the shortcut executes the action of the editor', () => {
+    const editor = new Editor(null!);
+    const keyHandler = new EditorKeyHandler(editor);
+    const execute = jest.spyOn(editor, 'execute').mockImplementation(() => {});
+
+    const binding = keyHandler.bindShortcut('Ctrl+K Ctrl+G', 'group');
+    expect(binding.description).toBe('group');
+
+    binding.funct(new KeyboardEvent('keydown'));
+    expect(execute).toHaveBeenCalledWith('group');
+    keyHandler.destroy();
+  });
+
+  test('the codec reads the shortcuts', () => {
+    registerEditorCodecs();
+    const editor = new Editor(null!);
+    const keyHandler = new EditorKeyHandler(editor);
+    const doc = parseXml(
+      `<EditorKeyHandler>
+        <add as="46" action="delete"/>
+        <add shortcut="Ctrl+Shift+G" action="group" description="Group cells"/>
+        <add shortcut="Ctrl+Enter" action="stopEditing" context="editing"/>
+      </EditorKeyHandler>`
+    );
+    new Codec(doc).decode(doc.documentElement, keyHandler);
+
+    expect(
+      keyHandler
+        .handler!.shortcuts.getBindings()
+        .map(({ shortcut, context, description }) => ({
+          shortcut,
+          context,
+          description,
+        }))
+    ).toEqual([
+      { shortcut: 'Ctrl+Shift+G', context: 'canvas', description: 'Group cells' },
+      { shortcut: 'Ctrl+enter', context: 'editing', description: 'stopEditing' },
+    ]);
+    expect(keyHandler.handler!.normalKeys[46]).toBeDefined();
+    keyHandler.destroy();
+  });
+});
@@ -0,0 +1,118 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, test } from '@jest/globals';
+import {
+  arcToCurves,
+  parsePathData,
+  parseTransform,
+  type PathSegment,
+  transformSegments,
+} from '../../src/internal/svg-path-utils';
+
+describe('parsePathData', () => {
+  test('relative, implicit and smooth commands are converted into absolute segments', () => {
+    expect(parsePathData('m10 10 5 0v5h-5zq5-5 10 0t10 0s5 5 10 0').segments).toEqual([
+      { type: 'move', x: 10, y: 10 },
+      { type: 'line', x: 15, y: 10 },
+      { type: 'line', x: 15, y: 15 },
+      { type: 'line', x: 10, y: 15 },
+      { type: 'close' },
+      { type: 'quad', x1: 15, y1: 5, x: 20, y: 10 },
+      { type: 'quad', x1: 25, y1: 15, x: 30, y: 10 },
+      { type: 'curve', x1: 30, y1: 10, x2: 35, y2: 15, x: 40, y: 10 },
+    ]);
+  });
+
+  test('the flags of the arcs can be written without separator', () => {
+    expect(parsePathData('M0 0a5 5 0 1020 0').segments[1]).toEqual({
+      type: 'arc',
+      rx: 5,
+      ry: 5,
+      rotation: 0,
+      largeArc: true,
+      sweep: false,
+      x: 20,
+      y: 0,
+    });
+  });
+
+  test('the segments are parsed until the first error', () => {
+    const { segments, errorIndex } = parsePathData('M0 0L10 10L5');
+    expect(segments).toHaveLength(2);
+    expect(errorIndex).toBe(12);
+  });
+});
+
+test('parseTransform', () => {
+  expect(parseTransform('translate(10) scale(2, 3)')).toEqual([2, 0, 0, 3, 10, 0]);
+  expect(parseTransform('rotate(90 10 10)')?.map((v) => Math.round(v) + 0)).toEqual([
+    0, 1, -1, 0, 20, 0,
+  ]);
+  expect(parseTransform('rotate(1, 2)')).toBeNull();
+  expect(parseTransform('translate(10) unknown(1)')).toBeNull();
+});
+
+describe('transformSegments', () => {
+  const arc: Extract<PathSegment, { type: 'arc' }> = {
+    type: 'arc',
+    rx: 10,
+    ry: 5,
+    rotation: 0,
+    largeArc: false,
+    sweep: true,
+    x: 20,
+    y: 0,
+  };
+
+  test('the arcs are kept by a similarity and the reflections reverse them', () => {
+    expect(
+      transformSegments([{ type: 'move', x: 0, y: 0 }, arc], [0, 2, -2, 0, 0, 0])[1]
+    ).toEqual({ ...arc, rx: 20, ry: 10, rotation: 90, x: 0, y: 40 });
+    expect(
+      transformSegments([{ type: 'move', x: 0, y: 0 }, arc], [-1, 0, 0, 1, 0, 0])[1]
+    ).toEqual({ ...arc, rotation: 0, sweep: false, x: -20 });
+  });
+
+  test('the arcs are converted into curves by a skew', () => {
+    const segments = transformSegments(
+      [{ type: 'move', x: 0, y: 0 }, arc],
+      [1, 0, 1, 1, 0, 0]
+    );
+    expect(segments.slice(1).every((segment) => segment.type === 'curve')).toBeTruthy();
+    expect(segments[segments.length - 1]).toMatchObject({ x: 20, y: 0 });
+  });
+});
+
+test('arcToCurves converts a half circle into 2 curves ending on the circle', () => {
+  const curves = arcToCurves(0, 0, {
+    type: 'arc',
+    rx: 10,
+    ry: 10,
+    rotation: 0,
+    largeArc: false,
+    sweep: true,
+    x: 20,
+    y: 0,
+  });
+
+  expect(curves).toHaveLength(2);
+  expect(curves[0]).toMatchObject({ type: 'curve' });
+  const middle = curves[0] as { x: number; y: number };
+  expect(middle.x).toBeCloseTo(10);
+  expect(middle.y).toBeCloseTo(-10);
+  expect(curves[1]).toMatchObject({ x: 20, y: 0 });
+});
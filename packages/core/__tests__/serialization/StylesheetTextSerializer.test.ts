@@ -0,0 +1,263 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, test } from '@jest/globals';
+import {
+  Perimeter,
+  registerDefaultPerimeters,
+  Stylesheet,
+  StylesheetTextParseError,
+  StylesheetTextSerializer,
+  type StylesheetTextValue,
+} from '../../src';
+
+const text = `/* Shared corporate styles */
+defaultVertex {
+  fillColor: #C3D9FF;
+}
+
+corporate {
+  fontFamily: "Helvetica Neue"; /* quoted to keep the space visible */
+  fontSize: 12;
+  labelPadding: -1.5;
+}
+
+box extends corporate {
+  rounded: true;
+  dashPattern: 3 3;
+  fontColor: "000000"
+}
+`;
+
+describe('import', () => {
+  test('the styles are decoded and stored in the stylesheet', () => {
+    const stylesheet = new Stylesheet();
+    stylesheet.putCellStyle('other', { fillColor: 'red' });
+
+    new StylesheetTextSerializer(stylesheet).import(text);
+
+    expect(stylesheet.getDefaultVertexStyle()).toStrictEqual({ fillColor: '#C3D9FF' });
+    expect(stylesheet.styles.get('corporate')).toStrictEqual({
+      fontFamily: 'Helvetica Neue',
+      fontSize: 12,
+      labelPadding: -1.5,
+    });
+    expect(stylesheet.styles.get('box')).toStrictEqual({
+      baseStyleNames: ['corporate'],
+      rounded: true,
+      dashPattern: '3 3',
+      fontColor: '000000',
+    });
+    expect(stylesheet.styles.get('other')).toStrictEqual({ fillColor: 'red' });
+    expect(stylesheet.resolveCellStyle('box')?.fontSize).toBe(12);
+  });
+
+  test('nothing is stored when the text is invalid', () => {
+    const stylesheet = new Stylesheet();
+    const serializer = new StylesheetTextSerializer(stylesheet);
+
+    expect(() =>
+      serializer.import('box {\n  rounded: true;\n  fillColor red;\n}')
+    ).toThrow(
+      new StylesheetTextParseError([
+        {
+          message: "Expected ':' after 'fillColor red'",
+          line: 3,
+          column: 3,
+          styleName: 'box',
+          property: 'fillColor red',
+        },
+      ])
+    );
+    expect(stylesheet.styles.has('box')).toBeFalsy();
+  });
+});
+
+describe('validate', () => {
+  const validate = (input: string, stylesheet = new Stylesheet()) =>
+    new StylesheetTextSerializer(stylesheet).validate(input);
+
+  test('a valid text', () => {
+    expect(validate(text)).toEqual([]);
+  });
+
+  test('the syntax errors point to the line and the property', () => {
+    expect(
+      validate(`a {
+  fillColor: ;
+  strokeColor: red
+  fontSize: 12;
+  font-family: Arial;
+  label: "unterminated;
+}
+b {
+  rounded: true;
+`)
+    ).toEqual([
+      {
+        message: "Missing value of property 'fillColor'",
+        line: 2,
+        column: 3,
+        styleName: 'a',
+        property: 'fillColor',
+      },
+      {
+        message: "Missing ';' after the value of property 'strokeColor'",
+        line: 3,
+        column: 3,
+        styleName: 'a',
+        property: 'strokeColor',
+      },
+      {
+        message: "Invalid property name 'font-family'",
+        line: 5,
+        column: 3,
+        styleName: 'a',
+        property: 'font-family',
+      },
+      {
+        message: "Unterminated string in property 'label'",
+        line: 6,
+        column: 10,
+        styleName: 'a',
+        property: 'label',
+      },
+      {
+        message: "Missing '}' at the end of style 'b'",
+        line: 8,
+        column: 1,
+        styleName: 'b',
+      },
+    ]);
+  });
+
+  test('the duplicated definitions, the unknown styles and the cycles are reported', () => {
+    const stylesheet = new Stylesheet();
+    stylesheet.putCellStyle('existing', { baseStyleNames: ['a'] });
+
+    expect(
+      validate(
+        `a extends existing { fillColor: red; fillColor: blue; }
+b extends unknown, a {}
+b {}
+c { baseStyleNames: a; }`,
+        stylesheet
+      )
+    ).toEqual([
+      {
+        message: "Style 'a' is part of the inheritance cycle a -> existing -> a",
+        line: 1,
+        column: 1,
+        styleName: 'a',
+      },
+      {
+        message: "Property 'fillColor' is already defined",
+        line: 1,
+        column: 38,
+        styleName: 'a',
+        property: 'fillColor',
+      },
+      {
+        message: "Style 'b' extends the unknown style 'unknown'",
+        line: 2,
+        column: 1,
+        styleName: 'b',
+      },
+      { message: "Style 'b' is already defined", line: 3, column: 1, styleName: 'b' },
+      {
+        message:
+          "Property 'baseStyleNames' is not allowed, use 'extends' to reference other styles",
+        line: 4,
+        column: 5,
+        styleName: 'c',
+        property: 'baseStyleNames',
+      },
+    ]);
+  });
+
+  test('the values are checked by the validateProperty hook', () => {
+    class CustomSerializer extends StylesheetTextSerializer {
+      protected override validateProperty(
+        _styleName: string,
+        property: string,
+        value: StylesheetTextValue
+      ): string | null {
+        return property === 'fontSize' && typeof value !== 'number'
+          ? `Property '${property}' must be a number`
+          : null;
+      }
+    }
+
+    expect(
+      new CustomSerializer(new Stylesheet()).validate('a {\n  fontSize: large;\n}')
+    ).toEqual([
+      {
+        message: "Property 'fontSize' must be a number",
+        line: 2,
+        column: 3,
+        styleName: 'a',
+        property: 'fontSize',
+      },
+    ]);
+  });
+});
+
+test('export', () => {
+  registerDefaultPerimeters();
+  const stylesheet = new Stylesheet();
+  stylesheet.styles.clear();
+  stylesheet.putCellStyle('text', {
+    fontFamily: 'Helvetica Neue',
+    fontColor: '000000',
+    labelPadding: 2,
+    rounded: true,
+    spacing: undefined,
+    perimeter: Perimeter.EllipsePerimeter,
+  });
+  stylesheet.putCellStyle('label', {
+    baseStyleNames: ['text'],
+    fontColor: '#000000',
+    verticalLabelPosition: 'bottom',
+    dashPattern: 'a;b',
+  });
+  stylesheet.putDefaultVertexStyle({ fillColor: 'white' });
+  const serializer = new StylesheetTextSerializer(stylesheet);
+
+  const exported = serializer.export();
+
+  expect(exported).toBe(`defaultVertex {
+  fillColor: white;
+}
+
+text {
+  fontFamily: Helvetica Neue;
+  fontColor: "000000";
+  labelPadding: 2;
+  rounded: true;
+  perimeter: ellipsePerimeter;
+}
+
+label extends text {
+  fontColor: #000000;
+  verticalLabelPosition: bottom;
+  dashPattern: "a;b";
+}
+`);
+
+  const imported = new Stylesheet();
+  new StylesheetTextSerializer(imported).import(exported);
+  expect(imported.styles.get('label')).toStrictEqual(stylesheet.styles.get('label'));
+});
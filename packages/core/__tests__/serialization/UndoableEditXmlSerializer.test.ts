@@ -0,0 +1,211 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import {
+  type AbstractGraph,
+  BaseGraph,
+  type Cell,
+  type EventObject,
+  type EventSource,
+  Geometry,
+  InternalEvent,
+  UndoableEditXmlSerializer,
+  UndoManager,
+  unregisterAllCodecs,
+} from '../../src';
+import { createGraphWithoutContainer } from '../utils';
+
+const createGraphWithUndoManager = (prefix: string) => {
+  const graph = createGraphWithoutContainer();
+  graph.getDataModel().prefix = prefix;
+  const undoManager = new UndoManager();
+  graph
+    .getDataModel()
+    .addListener(InternalEvent.UNDO, (_sender: EventSource, evt: EventObject) =>
+      undoManager.undoableEditHappened(evt.getProperty('edit'))
+    );
+  return { graph, undoManager };
+};
+
+/**
+ * Sends the patches of the local changes of a graph to another graph (simulate a relay server).
+ */
+const connect = (source: AbstractGraph, target: AbstractGraph) => {
+  const sourceSerializer = new UndoableEditXmlSerializer(source.getDataModel());
+  const targetSerializer = new UndoableEditXmlSerializer(target.getDataModel());
+  const patches: string[] = [];
+  source
+    .getDataModel()
+    .addListener(InternalEvent.NOTIFY, (_sender: EventSource, evt: EventObject) => {
+      const patch = sourceSerializer.export(evt.getProperty('edit'));
+      patches.push(patch);
+      targetSerializer.apply(patch);
+    });
+  return patches;
+};
+
+afterEach(() => {
+  unregisterAllCodecs();
+});
+
+describe('export', () => {
+  test('patch of an added vertex', () => {
+    const { graph } = createGraphWithUndoManager('a-');
+    const patches = connect(graph, createGraphWithoutContainer());
+
+    graph.insertVertex({ value: 'vertex', position: [10, 20], size: [30, 40] });
+
+    expect(patches).toHaveLength(1);
+    expect(patches[0]).toEqual(`<UndoableEdit>
+  <ChildChange parent="1">
+    <Cell id="a-2" value="vertex" vertex="1" parent="1">
+      <Geometry _x="10" _y="20" _width="30" _height="40" as="geometry" />
+      <Object as="style" />
+    </Cell>
+  </ChildChange>
+</UndoableEdit>
+`);
+  });
+
+  test('changes that are not related to the model are ignored', () => {
+    const { graph } = createGraphWithUndoManager('a-');
+    const vertex = graph.insertVertex({
+      value: 'vertex',
+      position: [10, 20],
+      size: [30, 40],
+    });
+    const serializer = new UndoableEditXmlSerializer(graph.getDataModel());
+
+    let exported: string | null = null;
+    graph
+      .getSelectionModel()
+      .addListener(InternalEvent.UNDO, (_sender: EventSource, evt: EventObject) => {
+        exported = serializer.export(evt.getProperty('edit'), { pretty: false });
+      });
+    graph.setSelectionCell(vertex);
+
+    expect(exported).toEqual('<UndoableEdit/>');
+  });
+});
+
+describe('apply', () => {
+  let graphA: AbstractGraph;
+  let graphB: AbstractGraph;
+  let undoManagerA: UndoManager;
+  let undoManagerB: UndoManager;
+
+  beforeEach(() => {
+    ({ graph: graphA, undoManager: undoManagerA } = createGraphWithUndoManager('a-'));
+    ({ graph: graphB, undoManager: undoManagerB } = createGraphWithUndoManager('b-'));
+    connect(graphA, graphB);
+  });
+
+  test('replay added cells, geometry, style, value and terminal changes', () => {
+    const modelA = graphA.getDataModel();
+    const v1 = graphA.insertVertex({ value: 'v1', position: [10, 20], size: [30, 40] });
+    const v2 = graphA.insertVertex({ value: 'v2', position: [100, 20], size: [30, 40] });
+    const v3 = graphA.insertVertex({ value: 'v3', position: [200, 20], size: [30, 40] });
+    const edge = graphA.insertEdge({ value: 'edge', source: v1, target: v2 });
+
+    modelA.batchUpdate(() => {
+      modelA.setGeometry(v1, new Geometry(50, 60, 70, 80));
+      modelA.setStyle(v2, { fillColor: 'red' });
+      modelA.setValue(v3, 'new value');
+      modelA.setTerminal(edge, v3, false);
+    });
+
+    const modelB = graphB.getDataModel();
+    const v1B = modelB.getCell(v1.getId()!)!;
+    expect(v1B).not.toBe(v1);
+    expect(v1B.getGeometry()).toEqual(new Geometry(50, 60, 70, 80));
+    expect(modelB.getCell(v2.getId()!)?.getStyle()).toEqual({ fillColor: 'red' });
+    const v3B = modelB.getCell(v3.getId()!)!;
+    expect(v3B.getValue()).toBe('new value');
+
+    const edgeB = modelB.getCell(edge.getId()!)!;
+    expect(edgeB.getValue()).toBe('edge');
+    expect(edgeB.getTerminal(true)).toBe(v1B);
+    expect(edgeB.getTerminal(false)).toBe(v3B);
+    expect(v3B.getEdgeCount()).toBe(1);
+    expect(modelB.getCell(v2.getId()!)!.getEdgeCount()).toBe(0);
+  });
+
+  test('the HTML labels of the replayed changes are sanitized when they are rendered', () => {
+    const graph = new BaseGraph({ container: document.createElement('div') });
+    graph.setHtmlLabels(true);
+    connect(graphA, graph);
+    const v1 = graphA.insertVertex({ value: '<b onclick="alert(1)">v1</b>' });
+    const v2 = graphA.insertVertex({ value: 'v2' });
+    graphA.getDataModel().setValue(v2, '<i onclick="alert(2)">v2</i>');
+
+    const getLabelNode = (cell: Cell) =>
+      graph.getView().getState(graph.getDataModel().getCell(cell.getId()!)!)!.text!.node;
+    expect(getLabelNode(v1).querySelector('b')!.hasAttribute('onclick')).toBeFalsy();
+    expect(getLabelNode(v2).querySelector('i')!.hasAttribute('onclick')).toBeFalsy();
+  });
+
+  test('replay removed cells', () => {
+    const v1 = graphA.insertVertex({ value: 'v1', position: [10, 20], size: [30, 40] });
+    const v2 = graphA.insertVertex({ value: 'v2', position: [100, 20], size: [30, 40] });
+    graphA.insertEdge({ value: 'edge', source: v1, target: v2 });
+
+    graphA.removeCells([v1]);
+
+    const modelB = graphB.getDataModel();
+    expect(modelB.getCell(v1.getId()!)).toBeUndefined();
+    expect(modelB.getCell(v2.getId()!)?.getEdgeCount()).toBe(0);
+    expect(graphB.getDefaultParent().getChildCount()).toBe(1);
+  });
+
+  test('replay undo and redo', () => {
+    const modelA = graphA.getDataModel();
+    const vertex = graphA.insertVertex({
+      value: 'v1',
+      position: [10, 20],
+      size: [30, 40],
+    });
+    modelA.setGeometry(vertex, new Geometry(50, 60, 70, 80));
+    const modelB = graphB.getDataModel();
+
+    undoManagerA.undo();
+    expect(modelB.getCell(vertex.getId()!)?.getGeometry()).toEqual(
+      new Geometry(10, 20, 30, 40)
+    );
+    undoManagerA.undo();
+    expect(modelB.getCell(vertex.getId()!)).toBeUndefined();
+
+    undoManagerA.redo();
+    undoManagerA.redo();
+    expect(modelB.getCell(vertex.getId()!)?.getGeometry()).toEqual(
+      new Geometry(50, 60, 70, 80)
+    );
+  });
+
+  test('remote changes are not stored by the UndoManager and not notified', () => {
+    const notifyListener = jest.fn();
+    const changeListener = jest.fn();
+    graphB.getDataModel().addListener(InternalEvent.NOTIFY, notifyListener);
+    graphB.getDataModel().addListener(InternalEvent.CHANGE, changeListener);
+
+    graphA.insertVertex({ value: 'v1', position: [10, 20], size: [30, 40] });
+
+    expect(undoManagerA.history).toHaveLength(1);
+    expect(undoManagerB.history).toHaveLength(0);
+    expect(notifyListener).not.toHaveBeenCalled();
+    expect(changeListener).toHaveBeenCalledTimes(1);
+  });
+});
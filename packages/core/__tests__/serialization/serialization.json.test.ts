@@ -0,0 +1,296 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, beforeAll, describe, expect, test } from '@jest/globals';
+import {
+  BaseGraph,
+  Cell,
+  EdgeStyle,
+  Geometry,
+  GraphDataModel,
+  ModelJsonSerializer,
+  Point,
+  unregisterAllCodecs,
+} from '../../src';
+import { getXml, parseXml } from '../../src/util/xmlUtils';
+
+const newVertex = (id: string, value: string | object) => {
+  const vertex = new Cell(value);
+  vertex.setId(id);
+  vertex.setVertex(true);
+  return vertex;
+};
+
+const newEdge = (id: string, value: string) => {
+  const edge = new Cell(value, new Geometry());
+  edge.setId(id);
+  edge.setEdge(true);
+  return edge;
+};
+
+const getParent = (model: GraphDataModel) => model.getRoot()!.getChildAt(0);
+
+const createModelWithVerticesAndEdge = (): GraphDataModel => {
+  const model = new GraphDataModel();
+  const parent = getParent(model);
+
+  const v1 = newVertex('v1', 'vertex 1');
+  model.add(parent, v1);
+  v1.setStyle({ fillColor: 'green', strokeWidth: 4 });
+  v1.geometry = new Geometry(100, 100, 100, 80);
+  v1.geometry.offset = new Point(10, 12);
+  const v2 = newVertex('v2', 'vertex 2');
+  v2.style = {
+    bendable: false,
+    rounded: true,
+    fontColor: 'yellow',
+    baseStyleNames: ['style1', 'style2'],
+  };
+  model.add(parent, v2);
+
+  const edge = newEdge('e1', 'edge');
+  model.add(parent, edge);
+  model.setTerminal(edge, v1, true);
+  model.setTerminal(edge, v2, false);
+  edge.geometry!.points = [new Point(0, 10), new Point(0, 40), new Point(40, 40)];
+  return model;
+};
+
+// Prevents side effects between tests
+beforeAll(() => {
+  unregisterAllCodecs();
+});
+afterEach(() => {
+  unregisterAllCodecs();
+});
+
+describe('export', () => {
+  test('empty model', () => {
+    expect(new ModelJsonSerializer(new GraphDataModel()).exportObject()).toEqual({
+      _type: 'GraphDataModel',
+      root: [
+        { _type: 'Cell', id: '0' },
+        { _type: 'Cell', id: '1', parent: '0' },
+      ],
+    });
+  });
+
+  test('empty model exported as non pretty JSON', () => {
+    expect(
+      new ModelJsonSerializer(new GraphDataModel()).export({ pretty: false })
+    ).toEqual(
+      '{"_type":"GraphDataModel","root":[{"_type":"Cell","id":"0"},{"_type":"Cell","id":"1","parent":"0"}]}'
+    );
+  });
+
+  test('model with 2 vertices linked with an edge', () => {
+    const model = createModelWithVerticesAndEdge();
+
+    expect(new ModelJsonSerializer(model).exportObject()).toEqual({
+      _type: 'GraphDataModel',
+      root: [
+        { _type: 'Cell', id: '0' },
+        { _type: 'Cell', id: '1', parent: '0' },
+        {
+          _type: 'Cell',
+          id: 'v1',
+          value: 'vertex 1',
+          geometry: {
+            _type: 'Geometry',
+            _x: 100,
+            _y: 100,
+            _width: 100,
+            _height: 80,
+            offset: { _type: 'Point', _x: 10, _y: 12 },
+          },
+          style: { fillColor: 'green', strokeWidth: 4 },
+          vertex: true,
+          parent: '1',
+        },
+        {
+          _type: 'Cell',
+          id: 'v2',
+          value: 'vertex 2',
+          style: {
+            bendable: false,
+            rounded: true,
+            fontColor: 'yellow',
+            baseStyleNames: ['style1', 'style2'],
+          },
+          vertex: true,
+          parent: '1',
+        },
+        {
+          _type: 'Cell',
+          id: 'e1',
+          value: 'edge',
+          geometry: {
+            _type: 'Geometry',
+            points: [
+              { _type: 'Point', _y: 10 },
+              { _type: 'Point', _y: 40 },
+              { _type: 'Point', _x: 40, _y: 40 },
+            ],
+          },
+          edge: true,
+          parent: '1',
+          source: 'v1',
+          target: 'v2',
+        },
+      ],
+    });
+  });
+
+  test('model with edges using style.edgeStyle', () => {
+    const model = new GraphDataModel();
+    const edge = newEdge('e1', 'edge 1');
+    // the function is not registered in the EdgeStyleRegistry, so it is not serialized
+    edge.setStyle({ edgeStyle: EdgeStyle.ElbowConnector, strokeColor: 'green' });
+    model.add(getParent(model), edge);
+
+    const exported = new ModelJsonSerializer(model).exportObject();
+    expect((exported.root as any[])[2].style).toEqual({ strokeColor: 'green' });
+  });
+});
+
+describe('import', () => {
+  test('restore the cell hierarchy and the terminals', () => {
+    const json = `{
+  "_type": "GraphDataModel",
+  "root": [
+    { "_type": "Cell", "id": "0" },
+    { "_type": "Cell", "id": "1", "parent": "0" },
+    { "_type": "Cell", "id": "e1", "edge": true, "parent": "1", "source": "v1", "target": "v2", "geometry": { "_type": "Geometry", "relative": true } },
+    { "_type": "Cell", "id": "v1", "value": "vertex 1", "vertex": true, "parent": "1", "style": { "fillColor": "green" } },
+    { "_type": "Cell", "id": "v2", "value": "vertex 2", "vertex": true, "parent": "1" }
+  ]
+}`;
+    const model = new GraphDataModel();
+    new ModelJsonSerializer(model).import(json);
+
+    const cell0 = model.getCell('0');
+    expect(cell0?.parent).toBeNull();
+    expect(model.getCell('1')?.parent).toBe(cell0);
+
+    const v1 = model.getCell('v1')!;
+    expect(v1.isVertex()).toBe(true);
+    expect(v1.vertex).toBe(true);
+    expect(v1.value).toBe('vertex 1');
+    expect(v1.style).toEqual({ fillColor: 'green' });
+
+    // forward references are resolved
+    const edge = model.getCell('e1')!;
+    expect(edge.isEdge()).toBe(true);
+    expect(edge.getTerminal(true)).toBe(v1);
+    expect(edge.getTerminal(false)).toBe(model.getCell('v2'));
+    expect(v1.getEdgeCount()).toBe(1);
+    expect(edge.geometry).toBeInstanceOf(Geometry);
+    expect(edge.geometry?.relative).toBe(true);
+    expect(model.getCell('1')!.getChildCount()).toBe(3);
+  });
+
+  test('cell value is an object', () => {
+    const value = {
+      label: '1st Cell',
+      count: 10,
+      info: [
+        { identifier: 1, name: 'field1' },
+        { identifier: 2, name: 'field2' },
+      ],
+      additionalInfo: [],
+    };
+    const model = new GraphDataModel();
+    new ModelJsonSerializer(model).import({
+      _type: 'GraphDataModel',
+      root: [
+        { _type: 'Cell', id: '0' },
+        { _type: 'Cell', id: '1', parent: '0' },
+        { _type: 'Cell', id: 'custom', vertex: true, parent: '1', value },
+      ],
+    });
+
+    expect(model.getCell('custom')?.value).toEqual(value);
+  });
+
+  test('the HTML labels of the imported cells are sanitized when they are rendered', () => {
+    const graph = new BaseGraph({ container: document.createElement('div') });
+    graph.setHtmlLabels(true);
+    const value = '<b onclick="alert(1)">bold</b>';
+    new ModelJsonSerializer(graph.getDataModel()).import({
+      _type: 'GraphDataModel',
+      root: [
+        { _type: 'Cell', id: '0' },
+        { _type: 'Cell', id: '1', parent: '0' },
+        { _type: 'Cell', id: 'html', vertex: true, parent: '1', value },
+      ],
+    });
+    const cell = graph.getDataModel().getCell('html')!;
+
+    expect(cell.getValue()).toBe(value);
+    const node = graph.getView().getState(cell)!.text!.node;
+    expect(node.querySelector('b')!.hasAttribute('onclick')).toBeFalsy();
+  });
+});
+
+describe('round trip', () => {
+  test('cells, geometry, points and styles', () => {
+    const model = createModelWithVerticesAndEdge();
+    const json = new ModelJsonSerializer(model).export();
+
+    const importedModel = new GraphDataModel();
+    new ModelJsonSerializer(importedModel).import(json);
+
+    const v1 = importedModel.getCell('v1')!;
+    const expectedGeometry = new Geometry(100, 100, 100, 80);
+    expectedGeometry.offset = new Point(10, 12);
+    expect(v1.geometry).toEqual(expectedGeometry);
+    expect(v1.style).toEqual({ fillColor: 'green', strokeWidth: 4 });
+    expect(importedModel.getCell('v2')?.style).toEqual({
+      bendable: false,
+      rounded: true,
+      fontColor: 'yellow',
+      baseStyleNames: ['style1', 'style2'],
+    });
+
+    const edge = importedModel.getCell('e1')!;
+    expect(edge.geometry?.points).toEqual([
+      new Point(0, 10),
+      new Point(0, 40),
+      new Point(40, 40),
+    ]);
+    expect(edge.getTerminal(true)).toBe(v1);
+    expect(edge.getTerminal(false)).toBe(importedModel.getCell('v2'));
+
+    expect(new ModelJsonSerializer(importedModel).export()).toEqual(json);
+  });
+
+  test('XML user object', () => {
+    const model = new GraphDataModel();
+    const userObject = parseXml(
+      '<UserObject label="Hello" link="https://example.org"/>'
+    ).documentElement;
+    model.add(getParent(model), newVertex('v1', userObject));
+
+    const imported = new GraphDataModel();
+    new ModelJsonSerializer(imported).import(new ModelJsonSerializer(model).export());
+
+    const value = imported.getCell('v1')?.value;
+    expect(value).toBeInstanceOf(Element);
+    expect(getXml(value)).toEqual(
+      '<UserObject label="Hello" link="https://example.org"/>'
+    );
+  });
+});
@@ -18,12 +18,15 @@ import { afterEach, beforeAll, describe, expect, test } from '@jest/globals';
 import { ModelChecker } from './utils';
 import { createGraphWithoutContainer } from '../utils';
 import {
+  BaseGraph,
   Cell,
   EdgeStyle,
   Geometry,
   GraphDataModel,
+  HtmlSanitizerConfig,
   ModelXmlSerializer,
   Point,
+  resetHtmlSanitizerConfig,
   unregisterAllCodecs,
 } from '../../src';
 import { getXml } from '../../src/util/xmlUtils';
@@ -540,3 +543,71 @@ describe('import after export', () => {
     });
   });
 });
+
+describe('sanitization of the imported content', () => {
+  const xmlWithHtmlLabels = `<GraphDataModel>
+  <root>
+    <Cell id="0"/>
+    <Cell id="1" parent="0"/>
+    <Cell id="html" value="&lt;b onclick=&quot;alert(1)&quot;&gt;bold&lt;/b&gt;&lt;script&gt;alert(2)&lt;/script&gt;" style="html=1" vertex="1" parent="1">
+      <Geometry width="100" height="40" as="geometry"/>
+    </Cell>
+    <Cell id="text" value="Tom &amp; Jerry &lt;x&gt;" vertex="1" parent="1">
+      <Geometry width="100" height="40" as="geometry"/>
+    </Cell>
+    <Cell id="object" vertex="1" parent="1">
+      <UserObject label="Tom &amp; Jerry &lt;x&gt;" as="value"/>
+    </Cell>
+  </root>
+</GraphDataModel>`;
+
+  const importInGraph = () => {
+    const graph = new BaseGraph({ container: document.createElement('div') });
+    // The label of the 'text' cell is rendered as plain text
+    graph.isHtmlLabel = (cell: Cell) => cell.getId() !== 'text';
+    new ModelXmlSerializer(graph.getDataModel()).import(xmlWithHtmlLabels);
+    const getLabelNode = (id: string) =>
+      graph.getView().getState(graph.getDataModel().getCell(id)!)!.text!.node;
+    return { graph, getLabelNode };
+  };
+
+  afterEach(() => {
+    resetHtmlSanitizerConfig();
+  });
+
+  test('the values of the cells are not changed', () => {
+    const model = new GraphDataModel();
+    new ModelXmlSerializer(model).import(xmlWithHtmlLabels);
+
+    expect(model.getCell('html')!.getValue()).toBe(
+      '<b onclick="alert(1)">bold</b><script>alert(2)</script>'
+    );
+    expect(model.getCell('text')!.getValue()).toBe('Tom & Jerry <x>');
+    expect(model.getCell('object')!.getValue().getAttribute('label')).toBe(
+      'Tom & Jerry <x>'
+    );
+  });
+
+  test('the HTML labels are sanitized when they are rendered', () => {
+    const { graph, getLabelNode } = importInGraph();
+
+    expect(getLabelNode('html').querySelector('b')?.textContent).toBe('bold');
+    expect(getLabelNode('html').querySelector('b')!.hasAttribute('onclick')).toBeFalsy();
+    expect(getLabelNode('html').querySelector('script')).toBeNull();
+    expect(getLabelNode('text').textContent).toBe('Tom & Jerry <x>');
+
+    // The clones of the imported cells are sanitized too
+    const [clone] = graph.importCells([graph.getDataModel().getCell('html')!], 10, 10);
+    const node = graph.getView().getState(clone)!.text!.node;
+    expect(node.querySelector('b')!.hasAttribute('onclick')).toBeFalsy();
+  });
+
+  test('the HTML labels are rendered as is when the sanitization is disabled', () => {
+    HtmlSanitizerConfig.sanitizeImportedContent = false;
+    const { getLabelNode } = importInGraph();
+
+    expect(getLabelNode('html').querySelector('b')?.getAttribute('onclick')).toBe(
+      'alert(1)'
+    );
+  });
+});
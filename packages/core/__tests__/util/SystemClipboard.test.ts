@@ -0,0 +1,223 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { type Cell, Clipboard, type Graph, SystemClipboard } from '../../src';
+import { createGraphWithoutContainer, expectGeometryBounds } from '../utils';
+
+/**
+ * Minimal `ClipboardEvent`, as jsdom does not implement the clipboard events.
+ */
+const createClipboardEvent = (data: Record<string, string> = {}) => {
+  const evt = {
+    clipboardData: {
+      getData: (type: string) => data[type] ?? '',
+      setData: (type: string, value: string) => {
+        data[type] = value;
+      },
+    },
+    preventDefault: jest.fn(),
+  };
+  return {
+    evt: evt as unknown as ClipboardEvent,
+    data,
+    preventDefault: evt.preventDefault,
+  };
+};
+
+const insertCells = (graph: Graph) => {
+  const parent = graph.getDefaultParent();
+  const v1 = graph.insertVertex({
+    parent,
+    value: 'v1',
+    position: [10, 20],
+    size: [80, 30],
+  });
+  const v2 = graph.insertVertex({
+    parent,
+    value: 'v2',
+    position: [200, 20],
+    size: [80, 30],
+  });
+  const edge = graph.insertEdge({ parent, value: 'e', source: v1, target: v2 });
+  return [v1, v2, edge];
+};
+
+const getPastedVertex = (cells: Cell[] | null, value: string) =>
+  cells!.find((cell) => cell.isVertex() && cell.getValue() === value)!;
+
+let source: Graph;
+let target: Graph;
+
+beforeEach(() => {
+  source = createGraphWithoutContainer();
+  target = createGraphWithoutContainer();
+  SystemClipboard.fragment = null;
+});
+
+afterEach(() => {
+  Object.defineProperty(navigator, 'clipboard', { value: undefined, configurable: true });
+});
+
+describe('ClipboardEvent', () => {
+  test('copied cells are pasted into another graph', () => {
+    const cells = insertCells(source);
+    const copy = createClipboardEvent();
+
+    expect(SystemClipboard.copyToEvent(source, copy.evt, cells)).toEqual(cells);
+    expect(copy.preventDefault).toHaveBeenCalled();
+    expect(copy.data['text/plain']).toMatch(/^<GraphDataModel>/);
+    expect(copy.data['image/svg+xml']).toMatch(/^<svg/);
+
+    // Simulates another application: the in-memory clipboard is not available
+    Clipboard.setCells(null!);
+    const paste = createClipboardEvent({ 'text/plain': copy.data['text/plain'] });
+    const pasted = SystemClipboard.pasteFromEvent(target, paste.evt);
+
+    expect(paste.preventDefault).toHaveBeenCalled();
+    expect(pasted).toHaveLength(3);
+    expect(target.getDefaultParent().getChildCount()).toBe(3);
+    expectGeometryBounds(getPastedVertex(pasted, 'v1'), {
+      x: 20,
+      y: 30,
+      width: 80,
+      height: 30,
+    });
+    const edge = pasted!.find((cell) => cell.isEdge())!;
+    expect(edge.getTerminal(true)).toBe(getPastedVertex(pasted, 'v1'));
+    expect(edge.getTerminal(false)).toBe(getPastedVertex(pasted, 'v2'));
+    expect(target.getSelectionCells()).toEqual(pasted);
+  });
+
+  test('the offset increases when the same fragment is pasted again', () => {
+    const [v1] = insertCells(source);
+    const copy = createClipboardEvent();
+    SystemClipboard.copyToEvent(source, copy.evt, [v1]);
+    const fragment = copy.data['text/plain'];
+
+    const first = SystemClipboard.pasteFromEvent(
+      target,
+      createClipboardEvent({ 'text/plain': fragment }).evt
+    );
+    const second = SystemClipboard.pasteFromEvent(
+      target,
+      createClipboardEvent({ 'text/plain': fragment }).evt
+    );
+    expect(first![0].getGeometry()!.x).toBe(20);
+    expect(second![0].getGeometry()!.x).toBe(30);
+
+    // A fragment written by another application resets the offset
+    SystemClipboard.fragment = null;
+    const third = SystemClipboard.pasteFromEvent(
+      target,
+      createClipboardEvent({ 'text/plain': fragment }).evt
+    );
+    expect(third![0].getGeometry()!.x).toBe(20);
+  });
+
+  test('cut cells are removed and pasted at the same location', () => {
+    const [v1] = insertCells(source);
+    const cut = createClipboardEvent();
+
+    SystemClipboard.cutToEvent(source, cut.evt, [v1]);
+    expect(source.getDataModel().contains(v1)).toBeFalsy();
+
+    const pasted = SystemClipboard.pasteFromEvent(
+      source,
+      createClipboardEvent(cut.data).evt
+    );
+    expect(pasted![0].getGeometry()!.x).toBe(10);
+  });
+
+  test('exportable and importable cells are respected', () => {
+    const cells = insertCells(source);
+    source.canExportCell = (cell) => cell!.getValue() !== 'v2';
+    target.canImportCell = (cell) => cell!.isVertex();
+    const copy = createClipboardEvent();
+
+    expect(SystemClipboard.copyToEvent(source, copy.evt, cells)).toEqual([
+      cells[0],
+      cells[2],
+    ]);
+    const pasted = SystemClipboard.pasteFromEvent(
+      target,
+      createClipboardEvent(copy.data).evt
+    );
+    expect(pasted).toHaveLength(1);
+    expect(pasted![0].getValue()).toBe('v1');
+  });
+
+  test('events without cells are not changed', () => {
+    const copy = createClipboardEvent();
+    expect(SystemClipboard.copyToEvent(source, copy.evt, [])).toEqual([]);
+    expect(copy.preventDefault).not.toHaveBeenCalled();
+
+    const paste = createClipboardEvent({ 'text/plain': 'some text' });
+    expect(SystemClipboard.pasteFromEvent(target, paste.evt)).toBeNull();
+    expect(paste.preventDefault).not.toHaveBeenCalled();
+  });
+
+  test('images are not written when includeImages is false', () => {
+    const cells = insertCells(source);
+    const copy = createClipboardEvent();
+    SystemClipboard.includeImages = false;
+
+    try {
+      SystemClipboard.copyToEvent(source, copy.evt, cells);
+    } finally {
+      SystemClipboard.includeImages = true;
+    }
+    expect(Object.keys(copy.data)).toEqual(['text/plain']);
+  });
+});
+
+describe('navigator.clipboard', () => {
+  test('cells are written and read as text', async () => {
+    let text = '';
+    Object.defineProperty(navigator, 'clipboard', {
+      value: {
+        writeText: async (value: string) => {
+          text = value;
+        },
+        readText: async () => text,
+      },
+      configurable: true,
+    });
+    const cells = insertCells(source);
+
+    await SystemClipboard.copy(source, cells);
+    expect(text).toMatch(/^<GraphDataModel>/);
+
+    const pasted = await SystemClipboard.paste(target);
+    expect(pasted).toHaveLength(3);
+  });
+
+  test('the in-memory clipboard is used when the clipboard cannot be read', async () => {
+    Object.defineProperty(navigator, 'clipboard', {
+      value: {
+        writeText: async () => {},
+        readText: () => Promise.reject(new Error('denied')),
+      },
+      configurable: true,
+    });
+    const [v1] = insertCells(source);
+
+    await SystemClipboard.copy(source, [v1]);
+    const pasted = await SystemClipboard.paste(target);
+    expect(pasted).toHaveLength(1);
+    expect(pasted![0].getValue()).toBe('v1');
+  });
+});
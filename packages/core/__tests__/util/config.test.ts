@@ -18,7 +18,9 @@ import { expect, test } from '@jest/globals';
 import {
   ConsoleLogger,
   GlobalConfig,
+  HtmlSanitizerConfig,
   resetGlobalConfig,
+  resetHtmlSanitizerConfig,
   resetStyleDefaultsConfig,
   StyleDefaultsConfig,
   TranslationsAsI18n,
@@ -60,3 +62,20 @@ test('resetStyleDefaultsConfig', () => {
   expect(StyleDefaultsConfig.shadowOffsetX).toBe(2);
   expect(StyleDefaultsConfig).toStrictEqual(originalConfig);
 });
+
+test('resetHtmlSanitizerConfig', () => {
+  // Keep track of original default values, the arrays are changed in place
+  const originalTags = [...HtmlSanitizerConfig.allowedTags];
+
+  // Change some values
+  HtmlSanitizerConfig.enabled = true;
+  HtmlSanitizerConfig.allowedTags.push('input');
+  HtmlSanitizerConfig.allowedStyles = ['color'];
+
+  resetHtmlSanitizerConfig();
+
+  // Ensure that the values are correctly reset
+  expect(HtmlSanitizerConfig.enabled).toBeFalsy();
+  expect(HtmlSanitizerConfig.allowedTags).toStrictEqual(originalTags);
+  expect(HtmlSanitizerConfig.allowedStyles).toBeUndefined();
+});
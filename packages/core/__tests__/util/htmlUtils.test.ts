@@ -0,0 +1,99 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, describe, expect, test } from '@jest/globals';
+import { HtmlSanitizerConfig, resetHtmlSanitizerConfig } from '../../src';
+import { isAllowedUrl, sanitizeHtml } from '../../src/util/htmlUtils';
+
+afterEach(() => {
+  resetHtmlSanitizerConfig();
+});
+
+describe('sanitizeHtml', () => {
+  test('the scripts and the event handlers are removed', () => {
+    expect(
+      sanitizeHtml(
+        '<script>alert(1)</script><b onclick="alert(2)">bold</b><img src="x" onerror="alert(3)">' +
+          '<iframe src="https://example.com"></iframe><svg><script>alert(4)</script></svg><!-- comment -->'
+      )
+    ).toBe('<b>bold</b><img src="x">');
+  });
+
+  test('the elements which are not allowed are replaced with their content', () => {
+    expect(sanitizeHtml('<form><input value="x"><label>text</label></form>')).toBe(
+      'text'
+    );
+  });
+
+  test('the URLs must use an allowed scheme', () => {
+    expect(
+      sanitizeHtml(
+        '<a href="javascript:alert(1)">a</a><a href=" jav&#x09;ascript:alert(1)">b</a>' +
+          '<a href="https://example.com" target="_blank">c</a><img src="data:image/png;base64,AAAA">' +
+          '<a href="page.html#top">d</a>'
+      )
+    ).toBe(
+      '<a>a</a><a>b</a><a href="https://example.com" target="_blank">c</a><img><a href="page.html#top">d</a>'
+    );
+
+    HtmlSanitizerConfig.allowedUrlSchemes.push('data');
+    expect(sanitizeHtml('<img src="data:image/png;base64,AAAA">')).toBe(
+      '<img src="data:image/png;base64,AAAA">'
+    );
+  });
+
+  test('the styles with URLs which are not allowed are removed', () => {
+    expect(
+      sanitizeHtml(
+        '<span style="color: red; background: url(javascript:alert(1))">a</span>' +
+          '<span style="width: expression(alert(2))">b</span>' +
+          '<span style="color: red; background-image: url(\'https://example.com/a.png\')">c</span>'
+      )
+    ).toBe(
+      '<span>a</span><span>b</span>' +
+        '<span style="color: red; background-image: url(\'https://example.com/a.png\')">c</span>'
+    );
+  });
+
+  test('the markup without anything to remove is returned unchanged', () => {
+    const html =
+      '<table border=1><tr><td><font color="red">a &lt; b</font></td></tr></table>';
+
+    expect(sanitizeHtml(html)).toBe(html);
+    expect(sanitizeHtml('a < b && c')).toBe('a < b && c');
+  });
+
+  test('a custom policy can restrict the attributes and the styles', () => {
+    expect(
+      sanitizeHtml('<p class="c" style="color: red; position: fixed">text</p><br>', {
+        allowedTags: ['P'],
+        allowedAttributes: ['style'],
+        allowedUrlSchemes: [],
+        allowedStyles: ['color'],
+      })
+    ).toBe('<p style="color: red;">text</p>');
+  });
+});
+
+test('isAllowedUrl', () => {
+  expect(isAllowedUrl('/relative/path')).toBeTruthy();
+  expect(isAllowedUrl('HTTPS://example.com')).toBeTruthy();
+  expect(isAllowedUrl('mailto:someone@example.com')).toBeTruthy();
+  expect(isAllowedUrl('javascript:alert(1)')).toBeFalsy();
+  expect(isAllowedUrl('\u0000javascript:alert(1)')).toBeFalsy();
+  expect(isAllowedUrl('vbscript:msgbox(1)')).toBeFalsy();
+  expect(isAllowedUrl('ftp://example.com', ['ftp'])).toBeTruthy();
+});
@@ -64,6 +64,7 @@ describe('isOrthogonal', () => {
       ['EntityRelation', EdgeStyle.EntityRelation],
       ['ElbowConnector', EdgeStyle.ElbowConnector],
       ['ManhattanConnector', EdgeStyle.ManhattanConnector],
+      ['ObstacleAvoidingConnector', EdgeStyle.ObstacleAvoidingConnector],
       ['OrthogonalConnector', EdgeStyle.OrthConnector],
       ['SegmentConnector', EdgeStyle.SegmentConnector],
       ['SideToSide', EdgeStyle.SideToSide],
@@ -92,6 +93,7 @@ describe('isOrthogonal', () => {
     ['ElbowConnector', EdgeStyle.ElbowConnector],
     ['Loop', EdgeStyle.Loop],
     ['ManhattanConnector', EdgeStyle.ManhattanConnector],
+    ['ObstacleAvoidingConnector', EdgeStyle.ObstacleAvoidingConnector],
     ['OrthogonalConnector', EdgeStyle.OrthConnector],
     ['SegmentConnector', EdgeStyle.SegmentConnector],
     ['SideToSide', EdgeStyle.SideToSide],
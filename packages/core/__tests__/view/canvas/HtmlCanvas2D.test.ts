@@ -0,0 +1,346 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, describe, expect, test } from '@jest/globals';
+import {
+  HtmlCanvas2D,
+  ImageExport,
+  StencilShape,
+  StencilShapeRegistry,
+} from '../../../src';
+import { parseXml } from '../../../src/util/xmlUtils';
+import { createGraphWithoutContainer } from '../../utils';
+
+type Call = [string, ...unknown[]];
+
+/**
+ * Minimal implementation of CanvasRenderingContext2D recording the method calls and the properties set when painting.
+ */
+const createRecordingContext = () => {
+  const calls: Call[] = [];
+  const properties: Record<string, unknown> = {};
+
+  const ctx = new Proxy(properties, {
+    get(target, name: string) {
+      if (name in target) {
+        return target[name];
+      }
+      return (...args: unknown[]) => {
+        calls.push([name, ...args]);
+
+        if (name === 'measureText') {
+          return { width: String(args[0]).length * 5 };
+        }
+        if (name === 'createLinearGradient') {
+          return {
+            addColorStop: (...stopArgs: unknown[]) =>
+              calls.push(['addColorStop', ...stopArgs]),
+          };
+        }
+        return undefined;
+      };
+    },
+    set(target, name: string, value) {
+      target[name] = value;
+      calls.push([`set:${name}`, value]);
+      return true;
+    },
+  });
+
+  return {
+    ctx: ctx as unknown as CanvasRenderingContext2D,
+    calls,
+    find: (name: string) => calls.filter((call) => call[0] === name),
+  };
+};
+
+describe('paths and shapes', () => {
+  test('rect with fill and stroke', () => {
+    const { ctx, calls } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.translate(5, 5);
+    canvas.setFillColor('#ff0000');
+    canvas.setStrokeColor('#0000ff');
+    canvas.rect(10, 20, 30, 40);
+    canvas.fillAndStroke();
+
+    expect(calls).toEqual([
+      ['save'],
+      ['beginPath'],
+      ['moveTo', 15, 25],
+      ['lineTo', 45, 25],
+      ['lineTo', 45, 65],
+      ['lineTo', 15, 65],
+      ['closePath'],
+      ['set:shadowColor', 'transparent'],
+      ['set:fillStyle', '#ff0000'],
+      ['set:globalAlpha', 1],
+      ['fill'],
+      ['set:shadowColor', 'transparent'],
+      ['set:strokeStyle', '#0000ff'],
+      ['set:globalAlpha', 1],
+      ['set:lineWidth', 1],
+      ['set:lineJoin', 'miter'],
+      ['set:lineCap', 'butt'],
+      ['set:miterLimit', 10],
+      ['setLineDash', []],
+      ['stroke'],
+      ['restore'],
+    ]);
+  });
+
+  test('nothing is painted without colors', () => {
+    const { ctx, calls } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.ellipse(0, 0, 10, 10);
+    canvas.fillAndStroke();
+
+    expect(calls).toEqual([]);
+  });
+
+  test('ellipse is drawn with curves', () => {
+    const { ctx, find } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.setFillColor('#ff0000');
+    canvas.ellipse(0, 0, 20, 10);
+    canvas.fill();
+
+    expect(find('moveTo')).toEqual([['moveTo', 0, 5]]);
+    expect(find('bezierCurveTo')).toHaveLength(4);
+  });
+
+  test('gradient uses the bounds of the path', () => {
+    const { ctx, find } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.scale(2);
+    canvas.setGradient('#ff0000', '#00ff00', 10, 20, 30, 40, 'east', 1, 0.5);
+    canvas.rect(10, 20, 30, 40);
+    canvas.fill();
+
+    expect(find('createLinearGradient')).toEqual([
+      ['createLinearGradient', 20, 40, 80, 40],
+    ]);
+    expect(find('addColorStop')).toEqual([
+      ['addColorStop', 0, '#ff0000'],
+      ['addColorStop', 1, 'rgba(0,255,0,0.5)'],
+    ]);
+  });
+
+  test('shadow is painted for the fill only', () => {
+    const { ctx, calls } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.scale(2);
+    canvas.setShadow(true);
+    canvas.setShadowColor('#000');
+    canvas.setShadowAlpha(0.5);
+    canvas.setShadowOffset(3, 4);
+    canvas.setFillColor('#ff0000');
+    canvas.setStrokeColor('#0000ff');
+    canvas.rect(0, 0, 10, 10);
+    canvas.fillAndStroke();
+
+    const shadowCalls = calls.filter(([name]) => name.startsWith('set:shadow'));
+    expect(shadowCalls).toEqual([
+      ['set:shadowColor', 'rgba(0,0,0,0.5)'],
+      ['set:shadowOffsetX', 6],
+      ['set:shadowOffsetY', 8],
+      ['set:shadowBlur', 0],
+      ['set:shadowColor', 'transparent'],
+    ]);
+    const names = calls.map(([name]) => name);
+    expect(names.indexOf('fill')).toBeLessThan(names.lastIndexOf('set:shadowColor'));
+  });
+
+  test('dashed stroke', () => {
+    const { ctx, find } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.setStrokeColor('#0000ff');
+    canvas.setStrokeWidth(2);
+    canvas.setDashed(true);
+    canvas.setDashPattern('3 1');
+    canvas.begin();
+    canvas.moveTo(0, 0);
+    canvas.lineTo(10, 0);
+    canvas.stroke();
+
+    expect(find('setLineDash')).toEqual([['setLineDash', [6, 2]]]);
+  });
+
+  test('rotation and flip transform the context', () => {
+    const { ctx, calls } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.save();
+    canvas.rotate(90, true, false, 10, 20);
+    canvas.restore();
+
+    expect(calls).toEqual([
+      ['save'],
+      ['translate', 10, 0],
+      ['scale', -1, 1],
+      ['translate', -10, -0],
+      ['translate', 10, 20],
+      ['rotate', -Math.PI / 2],
+      ['translate', -10, -20],
+      ['restore'],
+    ]);
+  });
+});
+
+describe('text', () => {
+  test('HTML label is painted as plain text lines', () => {
+    const { ctx, find } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.setFontColor('#333333');
+    canvas.text(
+      50,
+      10,
+      100,
+      40,
+      '<b>first</b> &amp; line<br>second line',
+      'center',
+      'top',
+      false,
+      'html',
+      'visible',
+      false,
+      0,
+      ''
+    );
+
+    expect(find('fillText')).toEqual([
+      ['fillText', 'first & line', 50, 20],
+      ['fillText', 'second line', 50, 33],
+    ]);
+    expect(find('set:font')).toEqual([['set:font', '11px Arial,Helvetica,sans-serif']]);
+  });
+
+  test('wrapped text', () => {
+    const { ctx, find } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.text(
+      0,
+      0,
+      60,
+      40,
+      'one two three four',
+      'left',
+      'top',
+      true,
+      '',
+      'visible',
+      false,
+      0,
+      ''
+    );
+
+    // 5px per character in the recording context
+    expect(find('fillText').map((call) => call[1])).toEqual(['one two', 'three four']);
+  });
+
+  test('bold, underlined text with background', () => {
+    const { ctx, find } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.setFontStyle(5);
+    canvas.setFontBackgroundColor('#ffff00');
+    canvas.text(0, 0, 0, 0, 'text', 'left', 'top', false, '', 'visible', false, 0, '');
+
+    expect(find('set:font')).toEqual([
+      ['set:font', 'bold 11px Arial,Helvetica,sans-serif'],
+    ]);
+    expect(find('fillRect')).toEqual([['fillRect', -1, -1, 22, 13]]);
+    expect(find('lineTo')).toHaveLength(1);
+  });
+
+  test('the left alignment of the right-to-left text is the right alignment', () => {
+    const { ctx, find } = createRecordingContext();
+    const canvas = new HtmlCanvas2D(ctx);
+    canvas.setFontBackgroundColor('#ffff00');
+    canvas.text(
+      100,
+      0,
+      0,
+      0,
+      'text',
+      'left',
+      'top',
+      false,
+      '',
+      'visible',
+      false,
+      0,
+      'rtl'
+    );
+
+    expect(find('set:direction')).toEqual([['set:direction', 'rtl']]);
+    expect(find('set:textAlign')).toEqual([['set:textAlign', 'right']]);
+    // The background ends at the position of the text
+    expect(find('fillRect')).toEqual([['fillRect', 79, -1, 22, 13]]);
+  });
+});
+
+describe('ImageExport', () => {
+  afterEach(() => {
+    StencilShapeRegistry.clear();
+  });
+
+  test('paint shapes, markers, stencils and labels', () => {
+    StencilShapeRegistry.add(
+      'triangle',
+      new StencilShape(
+        parseXml(
+          `<shape name="triangle" w="10" h="10" aspect="variable">
+            <background><path><move x="0" y="0"/><line x="10" y="5"/><line x="0" y="10"/><close/></path></background>
+            <foreground><fillstroke/></foreground>
+          </shape>`
+        ).documentElement
+      )
+    );
+    const graph = createGraphWithoutContainer();
+    const v1 = graph.insertVertex({
+      value: 'vertex 1',
+      position: [0, 0],
+      size: [80, 30],
+      style: { shadow: true },
+    });
+    const v2 = graph.insertVertex({
+      value: 'stencil',
+      position: [100, 100],
+      size: [40, 40],
+      style: { shape: 'triangle' },
+    });
+    graph.insertEdge({ value: 'edge', source: v1, target: v2 });
+
+    const { ctx, find } = createRecordingContext();
+    new ImageExport().drawState(
+      graph.getView().getState(graph.getDataModel().getRoot()!)!,
+      new HtmlCanvas2D(ctx)
+    );
+
+    // vertex, stencil and marker
+    expect(find('fill')).toHaveLength(3);
+    // vertex, stencil, edge and marker
+    expect(find('stroke')).toHaveLength(4);
+    expect(find('set:shadowColor')).toContainEqual(['set:shadowColor', 'gray']);
+    // stencil path, scaled to the bounds of the vertex
+    expect(find('moveTo')).toContainEqual(['moveTo', 100, 100]);
+    expect(find('lineTo')).toContainEqual(['lineTo', 140, 120]);
+    expect(find('fillText').map((call) => call[1])).toEqual([
+      'vertex 1',
+      'stencil',
+      'edge',
+    ]);
+  });
+});
@@ -0,0 +1,301 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, test } from '@jest/globals';
+import { PdfCanvas2D } from '../../../src';
+
+const decode = (pdf: Uint8Array) =>
+  Array.from(pdf, (byte) => String.fromCharCode(byte)).join('');
+
+/**
+ * Returns the content streams of the pages.
+ */
+const getContents = (pdf: Uint8Array): string[] =>
+  [...decode(pdf).matchAll(/<< \/Length \d+ >>\nstream\n([\s\S]*?)\nendstream/g)].map(
+    (match) => match[1]
+  );
+
+/**
+ * Creates a minimal TrueType font mapping `A` to a glyph whose width is 700 units, the other characters being mapped
+ * to the missing glyph whose width is 500 units.
+ */
+const createTrueTypeFont = (): Uint8Array => {
+  const u16 = (...values: number[]) =>
+    values.flatMap((value) => [(value >> 8) & 0xff, value & 0xff]);
+  const u32 = (value: number) => [...u16(value >>> 16), ...u16(value & 0xffff)];
+
+  const head = new Array(54).fill(0);
+  head.splice(18, 2, ...u16(1000));
+  head.splice(36, 8, ...u16(0xffff - 99, 0xffff - 199, 1000, 900)); // bbox -100 -200 1000 900
+  const hhea = new Array(36).fill(0);
+  hhea.splice(4, 4, ...u16(800, 0xffff - 199)); // ascent 800, descent -200
+  hhea.splice(34, 2, ...u16(2));
+  const hmtx = u16(500, 0, 700, 0);
+  // format 4 subtable with the segments [65, 65] and [0xffff, 0xffff]
+  const subtable = [
+    ...u16(4, 32, 0, 4, 4, 1, 0),
+    ...u16(65, 0xffff, 0, 65, 0xffff),
+    ...u16(0x10000 - 64, 1, 0, 0),
+  ];
+  const cmap = [...u16(0, 1, 3, 1), ...u32(12), ...subtable];
+
+  const tables: [string, number[]][] = [
+    ['cmap', cmap],
+    ['head', head],
+    ['hhea', hhea],
+    ['hmtx', hmtx],
+  ];
+  const bytes = [...u32(0x00010000), ...u16(tables.length, 0, 0, 0)];
+  let offset = 12 + tables.length * 16;
+  for (const [tag, data] of tables) {
+    bytes.push(...[...tag].map((char) => char.charCodeAt(0)), ...u32(0), ...u32(offset));
+    bytes.push(...u32(data.length));
+    offset += data.length;
+  }
+  tables.forEach(([, data]) => bytes.push(...data));
+  return new Uint8Array(bytes);
+};
+
+describe('document structure', () => {
+  test('objects, cross-reference table and trailer', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.addPage(200, 100);
+    const pdf = canvas.toPdf();
+    const text = decode(pdf);
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text).toContain('<< /Type /Catalog /Pages 2 0 R >>');
+    expect(text).toContain('/Kids [5 0 R] /Count 1');
+    expect(text).toContain('/MediaBox [0 0 200 100]');
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+
+    // the offsets of the cross-reference table point to the objects
+    const xref = Number(/startxref\n(\d+)/.exec(text)![1]);
+    expect(text.substring(xref, xref + 4)).toBe('xref');
+    const offsets = [...text.substring(xref).matchAll(/(\d{10}) 00000 n/g)].map((match) =>
+      Number(match[1])
+    );
+    expect(offsets).toHaveLength(5);
+    offsets.forEach((offset, i) =>
+      expect(text.substring(offset).startsWith(`${i + 1} 0 obj`)).toBe(true)
+    );
+  });
+
+  test('an A4 page is added when painting without page', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.setFillColor('#ff0000');
+    canvas.rect(0, 0, 10, 10);
+    canvas.fill();
+
+    expect(canvas.getPageCount()).toBe(1);
+    expect(decode(canvas.toPdf())).toContain('/MediaBox [0 0 595 842]');
+  });
+});
+
+describe('paths and shapes', () => {
+  test('rect with fill and stroke', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.addPage(100, 100);
+    canvas.translate(5, 5);
+    canvas.setFillColor('#ff0000');
+    canvas.setStrokeColor('#0000ff');
+    canvas.rect(10, 20, 30, 40);
+    canvas.fillAndStroke();
+
+    expect(getContents(canvas.toPdf())).toEqual([
+      [
+        '1 0 0 -1 0 100 cm',
+        'q',
+        '0 0 1 RG',
+        '1 w',
+        '0 J 0 j 10 M',
+        '1 0 0 rg',
+        '15 25 m 45 25 l 45 65 l 15 65 l h B',
+        'Q',
+      ].join('\n'),
+    ]);
+  });
+
+  test('ellipse is drawn with curves', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.setStrokeColor('#000000');
+    canvas.ellipse(0, 0, 20, 10);
+    canvas.stroke();
+
+    const [content] = getContents(canvas.toPdf());
+    expect(content).toContain('0 5 m ');
+    expect(content.match(/ c /g)).toHaveLength(4);
+  });
+
+  test('quadratic curves are converted to bezier curves', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.setStrokeColor('#000000');
+    canvas.begin();
+    canvas.moveTo(0, 0);
+    canvas.quadTo(30, 30, 60, 0);
+    canvas.stroke();
+
+    expect(getContents(canvas.toPdf())[0]).toContain('0 0 m 20 20 40 20 60 0 c S');
+  });
+
+  test('alpha, dashes and gradient use resources', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.scale(2);
+    canvas.setAlpha(0.5);
+    canvas.setStrokeColor('#000000');
+    canvas.setDashed(true);
+    canvas.setDashPattern('3 1');
+    canvas.setGradient('#ff0000', '#00ff00', 10, 20, 30, 40, 'east');
+    canvas.rect(10, 20, 30, 40);
+    canvas.fillAndStroke();
+
+    const pdf = canvas.toPdf();
+    const [content] = getContents(pdf);
+    expect(content).toContain('/GS1 gs');
+    expect(content).toContain('[12 4] 0 d');
+    expect(content).toContain('W n /Sh1 sh Q');
+    const text = decode(pdf);
+    expect(text).toContain('/ExtGState << /GS1 ');
+    expect(text).toContain('/ca 0.5 /CA 0.5');
+    expect(text).toContain('/Coords [20 40 80 40]');
+    expect(text).toContain('/C0 [1 0 0] /C1 [0 1 0]');
+  });
+
+  test('shadow is painted with the offset below the shape', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.setShadow(true);
+    canvas.setShadowColor('#000');
+    canvas.setShadowOffset(3, 4);
+    canvas.setFillColor('#ff0000');
+    canvas.rect(0, 0, 10, 10);
+    canvas.fill();
+
+    const [content] = getContents(canvas.toPdf());
+    expect(content.indexOf('1 0 0 1 3 4 cm')).toBeGreaterThan(0);
+    expect(content.indexOf('0 0 0 rg')).toBeLessThan(content.indexOf('1 0 0 rg'));
+  });
+
+  test('rotation and flip transform the page', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.addPage(100, 100);
+    canvas.save();
+    canvas.rotate(90, true, false, 10, 20);
+    canvas.restore();
+
+    expect(getContents(canvas.toPdf())[0]).toBe(
+      ['1 0 0 -1 0 100 cm', 'q', '-1 0 0 1 20 0 cm', '0 -1 1 0 -10 30 cm', 'Q'].join('\n')
+    );
+  });
+});
+
+describe('text', () => {
+  test('HTML label is painted as plain text lines with a standard font', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.setFontColor('#333333');
+    canvas.setFontStyle(1);
+    canvas.text(
+      50,
+      10,
+      100,
+      40,
+      '<b>first</b> &amp; (line)<br>déjà',
+      'left',
+      'top',
+      false,
+      'html',
+      'visible',
+      false,
+      0,
+      ''
+    );
+
+    const pdf = canvas.toPdf();
+    const [content] = getContents(pdf);
+    expect(content).toContain(
+      'BT /F1 11 Tf 1 0 0 -1 50 20 Tm (first & \\(line\\)) Tj ET'
+    );
+    expect(content).toContain('1 0 0 -1 50 33 Tm (d\\351j\\340) Tj ET');
+    expect(decode(pdf)).toContain(
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    );
+  });
+
+  test('wrapped text', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.setFontFamily('Courier New');
+    canvas.setFontSize(10);
+    // 6 points per character
+    canvas.text(
+      0,
+      0,
+      60,
+      40,
+      'one two three four',
+      'left',
+      'top',
+      true,
+      '',
+      'visible',
+      false,
+      0,
+      ''
+    );
+
+    const lines = [...getContents(canvas.toPdf())[0].matchAll(/\((.*?)\) Tj/g)];
+    expect(lines.map((match) => match[1])).toEqual(['one two', 'three four']);
+  });
+
+  test('the left and right alignments are swapped for the right-to-left text', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.setFontFamily('Courier New');
+    canvas.setFontSize(10);
+    // 18 points wide
+    for (const [align, dir] of [
+      ['left', 'rtl'],
+      ['right', 'rtl'],
+      ['center', 'rtl'],
+      ['left', 'ltr'],
+    ] as const) {
+      canvas.text(100, 0, 0, 0, 'abc', align, 'top', false, '', 'visible', false, 0, dir);
+    }
+
+    const positions = [
+      ...getContents(canvas.toPdf())[0].matchAll(/-1 ([\d.]+) [\d.]+ Tm/g),
+    ];
+    expect(positions.map((match) => Number(match[1]))).toEqual([82, 100, 91, 100]);
+  });
+
+  test('embedded TrueType font', () => {
+    const canvas = new PdfCanvas2D();
+    canvas.addFont('Test Font', createTrueTypeFont());
+    canvas.setFontFamily('"Test Font", sans-serif');
+    canvas.setFontSize(10);
+
+    expect(canvas.getTextWidth('AB')).toBe(12);
+
+    canvas.text(0, 0, 0, 0, 'AB', 'left', 'top', false, '', 'visible', false, 0, '');
+    const text = decode(canvas.toPdf());
+    expect(text).toContain(
+      '/Subtype /TrueType /BaseFont /testfont /FirstChar 32 /LastChar 255'
+    );
+    expect(text).toMatch(/\/Widths \[500( 500){32} 700 500/);
+    expect(text).toContain(
+      '/FontBBox [-100 -200 1000 900] /ItalicAngle 0 /Ascent 800 /Descent -200 /CapHeight 800'
+    );
+    expect(text).toMatch(/\/FontFile2 \d+ 0 R/);
+    expect(text).toContain('/Length1 ');
+  });
+});
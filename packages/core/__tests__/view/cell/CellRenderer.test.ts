@@ -15,7 +15,14 @@ limitations under the License.
 */
 
 import { describe, expect, test } from '@jest/globals';
-import { CellRenderer, CellState, CellStateStyle } from '../../../src';
+import {
+  type Cell,
+  CellRenderer,
+  CellState,
+  CellStateStyle,
+  Graph,
+  Rectangle,
+} from '../../../src';
 
 describe('checkPlaceholderStyles', () => {
   test('CellState with unset style', () => {
@@ -41,3 +48,80 @@ describe('checkPlaceholderStyles', () => {
     }
   );
 });
+
+describe('virtualization', () => {
+  const createGraph = () => {
+    const container = document.createElement('div');
+    Object.defineProperty(container, 'clientWidth', { value: 400 });
+    Object.defineProperty(container, 'clientHeight', { value: 300 });
+    Object.defineProperty(container, 'scrollLeft', { value: 0, writable: true });
+    const graph = new Graph(container);
+    graph.cellRenderer.virtualization = true;
+    graph.cellRenderer.virtualizationMargin = 50;
+
+    const v1 = graph.insertVertex({ value: 'v1', position: [10, 10], size: [80, 30] });
+    const v2 = graph.insertVertex({ value: 'v2', position: [1000, 10], size: [80, 30] });
+    const v3 = graph.insertVertex({ value: 'v3', position: [2000, 10], size: [80, 30] });
+    const edge = graph.insertEdge({ source: v1, target: v2 });
+    return { graph, container, v1, v2, v3, edge };
+  };
+  const hasShape = (graph: Graph, cell: Cell) =>
+    graph.getView().getState(cell)!.shape != null;
+
+  test('isVirtualized returns false when disabled', () => {
+    const renderer = new CellRenderer();
+    renderer.virtualViewport = new Rectangle(0, 0, 10, 10);
+    const state = new CellState();
+    state.x = 100;
+
+    expect(renderer.isVirtualized(state)).toBeFalsy();
+    renderer.virtualization = true;
+    expect(renderer.isVirtualized(state)).toBeTruthy();
+  });
+
+  test('shapes are only created for the states intersecting the viewport', () => {
+    const { graph, v1, v2, v3, edge } = createGraph();
+
+    expect(hasShape(graph, v1)).toBeTruthy();
+    expect(hasShape(graph, v2)).toBeFalsy();
+    expect(hasShape(graph, v3)).toBeFalsy();
+    expect(hasShape(graph, edge)).toBeTruthy();
+    // the states are created for all cells
+    expect(graph.getView().getState(v3)).not.toBeNull();
+    expect(graph.getGraphBounds().width).toBeGreaterThan(2000);
+  });
+
+  test('shapes are created and destroyed when scrolling', () => {
+    const { graph, container, v1, v2 } = createGraph();
+
+    container.scrollLeft = 800;
+    container.dispatchEvent(new Event('scroll'));
+
+    expect(hasShape(graph, v1)).toBeFalsy();
+    expect(hasShape(graph, v2)).toBeTruthy();
+  });
+
+  test('shapes are inserted in the order of the cells when panning', () => {
+    const { graph, v1, v2, v3, edge } = createGraph();
+
+    graph.panGraph(-950, 0);
+
+    expect(hasShape(graph, v1)).toBeFalsy();
+    expect(hasShape(graph, v2)).toBeTruthy();
+    expect(hasShape(graph, v3)).toBeFalsy();
+    // the edge overlaps the viewport
+    expect(hasShape(graph, edge)).toBeTruthy();
+    const nodes = [...graph.getView().getDrawPane().childNodes];
+    const index = (cell: Cell) =>
+      nodes.indexOf(graph.getView().getState(cell)!.shape!.node);
+    expect(index(v2)).toBeLessThan(index(edge));
+  });
+
+  test('all shapes are created after zooming out', () => {
+    const { graph, v1, v2, v3 } = createGraph();
+
+    graph.getView().setScale(0.1);
+
+    expect([v1, v2, v3].every((cell) => hasShape(graph, cell))).toBeTruthy();
+  });
+});
@@ -0,0 +1,126 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Graph, KeyHandler } from '../../../src';
+
+let graph: Graph;
+let keyHandler: KeyHandler;
+
+beforeEach(() => {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  graph = new Graph(container);
+  keyHandler = new KeyHandler(graph);
+  keyHandler.shortcuts.isMac = false;
+});
+
+afterEach(() => {
+  keyHandler.onDestroy();
+  graph.destroy();
+  document.body.innerHTML = '';
+});
+
+const pressKey = (init: KeyboardEventInit) => {
+  const evt = new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+  graph.container.dispatchEvent(evt);
+  return evt;
+};
+
+describe('bindShortcut', () => {
+  test('the function is called and the event is consumed', () => {
+    const funct = jest.fn();
+    keyHandler.bindShortcut('Mod+Alt+G', funct);
+
+    const evt = pressKey({ key: 'g', code: 'KeyG', ctrlKey: true, altKey: true });
+    expect(funct).toHaveBeenCalledWith(evt);
+    expect(evt.defaultPrevented).toBeTruthy();
+  });
+
+  test('shortcuts take precedence over keycodes', () => {
+    const shortcut = jest.fn();
+    const keyCode = jest.fn();
+    keyHandler.bindShortcut('Delete', shortcut);
+    keyHandler.bindKey(46, keyCode);
+
+    pressKey({ key: 'Delete', keyCode: 46 });
+    expect(shortcut).toHaveBeenCalledTimes(1);
+    expect(keyCode).not.toHaveBeenCalled();
+
+    keyHandler.shortcuts.unbind('Delete');
+    pressKey({ key: 'Delete', keyCode: 46 });
+    expect(keyCode).toHaveBeenCalledTimes(1);
+  });
+
+  test('the canvas and global shortcuts are not triggered during the editing', () => {
+    const canvas = jest.fn();
+    const global = jest.fn();
+    keyHandler.bindShortcut('Delete', canvas);
+    keyHandler.bindShortcut('Mod+A', global, { context: 'global' });
+    jest.spyOn(graph, 'isEditing').mockReturnValue(true);
+
+    const deleteEvt = pressKey({ key: 'Delete', keyCode: 46 });
+    const selectEvt = pressKey({ key: 'a', ctrlKey: true });
+    expect(canvas).not.toHaveBeenCalled();
+    expect(global).not.toHaveBeenCalled();
+    expect(deleteEvt.defaultPrevented).toBeFalsy();
+    expect(selectEvt.defaultPrevented).toBeFalsy();
+  });
+
+  test('the shortcuts are not triggered when the event is ignored', () => {
+    const funct = jest.fn();
+    keyHandler.bindShortcut('Delete', funct);
+    jest.spyOn(keyHandler, 'isEventIgnored').mockReturnValue(true);
+
+    pressKey({ key: 'Delete', keyCode: 46 });
+    expect(funct).not.toHaveBeenCalled();
+  });
+
+  test('the context depends on the editing state of the graph', () => {
+    const canvas = jest.fn();
+    const editing = jest.fn();
+    const escape = jest.spyOn(keyHandler, 'escape');
+    keyHandler.bindShortcut('Mod+B', canvas);
+    keyHandler.bindShortcut('Mod+B', editing, { context: 'editing' });
+    keyHandler.bindShortcut('Escape', canvas, { description: 'Clear' });
+
+    jest.spyOn(graph, 'isEditing').mockReturnValue(true);
+    expect(keyHandler.getActiveShortcuts().map((b) => b.shortcut)).toEqual(['Ctrl+B']);
+    pressKey({ key: 'b', ctrlKey: true });
+    // The escape shortcut of the canvas context does not prevent to stop the editing
+    pressKey({ key: 'Escape', keyCode: 27 });
+    expect(editing).toHaveBeenCalledTimes(1);
+    expect(canvas).not.toHaveBeenCalled();
+    expect(escape).toHaveBeenCalledTimes(1);
+
+    jest.spyOn(graph, 'isEditing').mockReturnValue(false);
+    expect(keyHandler.getActiveShortcuts().map((b) => b.description)).toEqual([
+      null,
+      'Clear',
+    ]);
+    pressKey({ key: 'b', ctrlKey: true });
+    expect(canvas).toHaveBeenCalledTimes(1);
+  });
+
+  test('shortcuts are ignored when the graph is disabled', () => {
+    const funct = jest.fn();
+    keyHandler.bindShortcut('A', funct);
+    graph.setEnabled(false);
+
+    pressKey({ key: 'a' });
+    expect(funct).not.toHaveBeenCalled();
+  });
+});
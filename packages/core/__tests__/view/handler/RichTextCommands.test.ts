@@ -0,0 +1,207 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, describe, expect, test } from '@jest/globals';
+import { RichTextCommands } from '../../../src';
+import { sanitizeRichText } from '../../../src/internal/rich-text-utils';
+
+const createEditor = (html: string) => {
+  const root = document.createElement('div');
+  root.contentEditable = 'true';
+  root.innerHTML = html;
+  document.body.appendChild(root);
+  return { root, commands: new RichTextCommands(root) };
+};
+
+/**
+ * Selects the text of the given node from the start offset to the end offset.
+ */
+const selectText = (node: Node, start: number, end: number) => {
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  window.getSelection()!.removeAllRanges();
+  window.getSelection()!.addRange(range);
+};
+
+const selectContents = (node: Node) => {
+  const range = document.createRange();
+  range.selectNodeContents(node);
+  window.getSelection()!.removeAllRanges();
+  window.getSelection()!.addRange(range);
+};
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('inline formatting', () => {
+  test('bold wraps the selection and removes the bold formatting inside it', () => {
+    const { root, commands } = createEditor('Hello world');
+    selectText(root.firstChild!, 0, 5);
+
+    commands.bold();
+    expect(root.innerHTML).toBe('<b>Hello</b> world');
+
+    commands.bold();
+    expect(root.innerHTML).toBe('Hello world');
+
+    root.innerHTML = 'a<strong>b</strong>c';
+    selectContents(root);
+    commands.bold();
+    expect(root.innerHTML).toBe('<b>abc</b>');
+  });
+
+  test('italic and underline', () => {
+    const { root, commands } = createEditor('text');
+    selectContents(root);
+
+    commands.italic();
+    commands.underline();
+
+    expect(root.innerHTML).toBe('<i><u>text</u></i>');
+  });
+
+  test('a collapsed selection is not formatted', () => {
+    const { root, commands } = createEditor('text');
+    selectText(root.firstChild!, 2, 2);
+
+    commands.bold();
+
+    expect(root.innerHTML).toBe('text');
+    expect(commands.canUndo()).toBeFalsy();
+  });
+
+  test('font size and color are set on a span', () => {
+    const { root, commands } = createEditor('Hello world');
+    selectText(root.firstChild!, 6, 11);
+
+    commands.setFontSize(18);
+    commands.setFontColor('red');
+
+    expect(root.innerHTML).toBe(
+      'Hello <span style="font-size: 18px; color: red;">world</span>'
+    );
+  });
+});
+
+describe('lists', () => {
+  test('the lines are turned into a list and back', () => {
+    const { root, commands } = createEditor('one<br>two');
+    selectText(root.firstChild!, 0, 0);
+
+    commands.toggleList('ul');
+    expect(root.innerHTML).toBe('<ul><li>one</li><li>two</li></ul>');
+
+    commands.toggleList('ol');
+    expect(root.innerHTML).toBe('<ol><li>one</li><li>two</li></ol>');
+
+    selectText(root.querySelector('li')!.firstChild!, 0, 1);
+    commands.toggleList('ol');
+    expect(root.innerHTML).toBe('<div>one</div><div>two</div>');
+  });
+});
+
+describe('links', () => {
+  test('links are created, updated and removed', () => {
+    const { root, commands } = createEditor('see docs');
+    selectText(root.firstChild!, 4, 8);
+
+    expect(commands.createLink('https://example.com')).toBeTruthy();
+    expect(root.innerHTML).toBe('see <a href="https://example.com">docs</a>');
+
+    selectText(root.querySelector('a')!.firstChild!, 1, 2);
+    commands.createLink('/relative');
+    expect(root.querySelector('a')!.getAttribute('href')).toBe('/relative');
+
+    commands.removeLink();
+    expect(root.innerHTML).toBe('see docs');
+  });
+
+  test('unsafe URLs are rejected', () => {
+    const { root, commands } = createEditor('click');
+    selectContents(root);
+
+    expect(commands.createLink('javascript:alert(1)')).toBeFalsy();
+    expect(commands.createLink(' java\tscript:alert(1)')).toBeFalsy();
+    expect(root.innerHTML).toBe('click');
+  });
+});
+
+describe('insertHtml', () => {
+  test('the HTML replaces the selection with the formatting produced by the commands only', () => {
+    const { root, commands } = createEditor('<b>old</b> text');
+    selectContents(root.firstChild!);
+
+    expect(
+      commands.insertHtml('<font color="red">new</font><i onclick="x()">italic</i>')
+    ).toBeTruthy();
+
+    expect(root.innerHTML).toBe('<b>new<i>italic</i></b> text');
+    commands.undo();
+    expect(root.innerHTML).toBe('<b>old</b> text');
+  });
+});
+
+describe('history', () => {
+  test('commands and recorded input can be undone and redone', () => {
+    const { root, commands } = createEditor('text');
+    selectContents(root);
+    commands.bold();
+    root.innerHTML += ' typed';
+    commands.record();
+
+    commands.undo();
+    expect(root.innerHTML).toBe('<b>text</b>');
+    commands.undo();
+    expect(root.innerHTML).toBe('text');
+    expect(commands.canUndo()).toBeFalsy();
+
+    commands.redo();
+    commands.redo();
+    expect(root.innerHTML).toBe('<b>text</b> typed');
+    expect(commands.canRedo()).toBeFalsy();
+  });
+
+  test('a new step removes the undone steps', () => {
+    const { root, commands } = createEditor('text');
+    selectContents(root);
+    commands.italic();
+    commands.undo();
+
+    selectContents(root);
+    commands.underline();
+
+    expect(commands.canRedo()).toBeFalsy();
+    commands.undo();
+    expect(root.innerHTML).toBe('text');
+  });
+});
+
+describe('sanitizeRichText', () => {
+  test('only the formatting produced by the commands is kept', () => {
+    expect(
+      sanitizeRichText(
+        '<b onclick="x()">bold</b><script>alert(1)</script><img src="x" onerror="y()">' +
+          '<h1 class="c">title</h1><span style="color: red; position: fixed">red</span>' +
+          '<a href="javascript:alert(1)">bad</a><a href="https://example.com" target="_blank">good</a>'
+      )
+    ).toBe(
+      '<b>bold</b>title<span style="color: red;">red</span><a>bad</a>' +
+        '<a href="https://example.com">good</a>'
+    );
+  });
+});
@@ -0,0 +1,199 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, describe, expect, jest, test } from '@jest/globals';
+import { ShortcutRegistry } from '../../../src';
+
+const keyDown = (key: string, init: KeyboardEventInit = {}) =>
+  new KeyboardEvent('keydown', { key, ...init });
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('bind', () => {
+  test.each([
+    ['Mod+Shift+G', false, 'Ctrl+Shift+G'],
+    ['Mod+Shift+G', true, 'Shift+Meta+G'],
+    ['shift+ctrl+alt+g', false, 'Ctrl+Alt+Shift+G'],
+    ['Mod+K Mod+C', false, 'Ctrl+K Ctrl+C'],
+    ['Ctrl++', false, 'Ctrl++'],
+    ['Esc', false, 'escape'],
+    ['delete', false, 'delete'],
+    ['Space', false, 'Space'],
+    ['Cmd+ArrowUp', false, 'Meta+arrowup'],
+  ])('%s is normalized (mac: %s)', (shortcut, isMac, expected) => {
+    const registry = new ShortcutRegistry(isMac);
+    expect(registry.bind(shortcut, () => {}).shortcut).toBe(expected);
+  });
+
+  test.each(['', 'Ctrl+', 'Ctrl+Shift', 'G+H', 'Ctrl+G  Ctrl+'])(
+    'invalid shortcut "%s" is rejected',
+    (shortcut) => {
+      expect(() => new ShortcutRegistry().bind(shortcut, () => {})).toThrow(
+        'Invalid shortcut'
+      );
+    }
+  );
+
+  test('binding the same shortcut in the same context replaces the previous binding', () => {
+    const registry = new ShortcutRegistry(false);
+    registry.bind('Mod+G', () => {}, { description: 'first' });
+    registry.bind('Ctrl+G', () => {}, { description: 'second' });
+    registry.bind('Ctrl+G', () => {}, { description: 'editing', context: 'editing' });
+
+    expect(registry.getBindings().map((b) => b.description)).toEqual([
+      'second',
+      'editing',
+    ]);
+    expect(registry.getBindings(['canvas']).map((b) => b.description)).toEqual([
+      'second',
+    ]);
+
+    expect(registry.unbind('Mod+G')).toBeTruthy();
+    expect(registry.unbind('Mod+G')).toBeFalsy();
+    expect(registry.getBindings()).toHaveLength(1);
+  });
+
+  test('the keys are compared without case', () => {
+    const registry = new ShortcutRegistry(false);
+    registry.bind('Delete', () => {}, { description: 'first' });
+    registry.bind('delete', () => {}, { description: 'second' });
+
+    expect(registry.getBindings().map((b) => b.description)).toEqual(['second']);
+    expect(registry.unbind('DELETE')).toBeTruthy();
+    expect(registry.getBindings()).toHaveLength(0);
+  });
+});
+
+describe('handle', () => {
+  test('modifiers must match', () => {
+    const registry = new ShortcutRegistry(false);
+    const funct = jest.fn();
+    registry.bind('Mod+Shift+G', funct);
+
+    expect(registry.handle(keyDown('G', { ctrlKey: true }), ['canvas'])).toBeFalsy();
+    expect(
+      registry.handle(keyDown('G', { ctrlKey: true, shiftKey: true, altKey: true }), [
+        'canvas',
+      ])
+    ).toBeFalsy();
+    expect(funct).not.toHaveBeenCalled();
+
+    const evt = keyDown('G', { ctrlKey: true, shiftKey: true });
+    expect(registry.handle(evt, ['canvas'])).toBeTruthy();
+    expect(funct).toHaveBeenCalledWith(evt);
+  });
+
+  test('Mod is the Command key on macOS', () => {
+    const registry = new ShortcutRegistry(true);
+    const funct = jest.fn();
+    registry.bind('Mod+C', funct);
+
+    expect(registry.handle(keyDown('c', { ctrlKey: true }), ['canvas'])).toBeFalsy();
+    expect(registry.handle(keyDown('c', { metaKey: true }), ['canvas'])).toBeTruthy();
+    expect(funct).toHaveBeenCalledTimes(1);
+  });
+
+  test('the physical key is used when the typed character is not a letter', () => {
+    const registry = new ShortcutRegistry(true);
+    const funct = jest.fn();
+    registry.bind('Alt+G', funct);
+    registry.bind('Shift+1', funct);
+    registry.bind('KeyQ', funct);
+
+    // Option+G types '©' on macOS
+    expect(
+      registry.handle(keyDown('©', { code: 'KeyG', altKey: true }), ['canvas'])
+    ).toBeTruthy();
+    expect(
+      registry.handle(keyDown('!', { code: 'Digit1', shiftKey: true }), ['canvas'])
+    ).toBeTruthy();
+    expect(registry.handle(keyDown('a', { code: 'KeyQ' }), ['canvas'])).toBeTruthy();
+    // The 'a' key of an AZERTY keyboard is the 'KeyQ' physical key
+    expect(
+      registry.handle(keyDown('a', { code: 'KeyQ', altKey: true }), ['canvas'])
+    ).toBeFalsy();
+    expect(funct).toHaveBeenCalledTimes(3);
+  });
+
+  test('shift is not required in the shortcut for symbols', () => {
+    const registry = new ShortcutRegistry(false);
+    const funct = jest.fn();
+    registry.bind('?', funct);
+
+    expect(registry.handle(keyDown('?', { shiftKey: true }), ['canvas'])).toBeTruthy();
+    expect(funct).toHaveBeenCalledTimes(1);
+  });
+
+  test('chords are triggered by the sequence of keystrokes', () => {
+    const registry = new ShortcutRegistry(false);
+    const comment = jest.fn();
+    const uncomment = jest.fn();
+    const k = jest.fn();
+    registry.bind('Mod+K Mod+C', comment);
+    registry.bind('Mod+K Mod+U', uncomment);
+    registry.bind('K', k);
+
+    expect(registry.handle(keyDown('k', { ctrlKey: true }), ['canvas'])).toBeTruthy();
+    expect(registry.isChordPending()).toBeTruthy();
+    // Modifier keys do not cancel the chord
+    expect(
+      registry.handle(keyDown('Control', { ctrlKey: true }), ['canvas'])
+    ).toBeFalsy();
+    expect(registry.handle(keyDown('c', { ctrlKey: true }), ['canvas'])).toBeTruthy();
+    expect(comment).toHaveBeenCalledTimes(1);
+    expect(uncomment).not.toHaveBeenCalled();
+    expect(registry.isChordPending()).toBeFalsy();
+
+    // A keystroke not continuing the chord is handled as a first keystroke
+    registry.handle(keyDown('k', { ctrlKey: true }), ['canvas']);
+    expect(registry.handle(keyDown('k'), ['canvas'])).toBeTruthy();
+    expect(k).toHaveBeenCalledTimes(1);
+    expect(registry.isChordPending()).toBeFalsy();
+  });
+
+  test('chords expire after the timeout', () => {
+    jest.useFakeTimers();
+    const registry = new ShortcutRegistry(false);
+    const funct = jest.fn();
+    registry.bind('Mod+K Mod+C', funct);
+
+    registry.handle(keyDown('k', { ctrlKey: true }), ['canvas']);
+    jest.advanceTimersByTime(registry.chordTimeout + 1);
+
+    expect(registry.handle(keyDown('c', { ctrlKey: true }), ['canvas'])).toBeFalsy();
+    expect(funct).not.toHaveBeenCalled();
+  });
+
+  test('only the bindings of the active contexts are used, the first context having priority', () => {
+    const registry = new ShortcutRegistry(false);
+    const canvas = jest.fn();
+    const editing = jest.fn();
+    const global = jest.fn();
+    registry.bind('Mod+B', canvas);
+    registry.bind('Mod+B', editing, { context: 'editing' });
+    registry.bind('Mod+S', global, { context: 'global' });
+
+    registry.handle(keyDown('b', { ctrlKey: true }), ['editing', 'global']);
+    registry.handle(keyDown('s', { ctrlKey: true }), ['editing', 'global']);
+    expect(editing).toHaveBeenCalledTimes(1);
+    expect(global).toHaveBeenCalledTimes(1);
+    expect(canvas).not.toHaveBeenCalled();
+
+    expect(registry.handle(keyDown('s', { ctrlKey: true }), ['canvas'])).toBeFalsy();
+  });
+});
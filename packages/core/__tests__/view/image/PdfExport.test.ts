@@ -0,0 +1,80 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, test } from '@jest/globals';
+import { PdfExport, Rectangle } from '../../../src';
+import { createGraphWithoutContainer } from '../../utils';
+
+const decode = (pdf: Uint8Array) =>
+  Array.from(pdf, (byte) => String.fromCharCode(byte)).join('');
+
+/**
+ * Returns the content streams of the pages.
+ */
+const getContents = (pdf: Uint8Array): string[] =>
+  [...decode(pdf).matchAll(/<< \/Length \d+ >>\nstream\n([\s\S]*?)\nendstream/g)].map(
+    (match) => match[1]
+  );
+
+const createGraph = () => {
+  const graph = createGraphWithoutContainer();
+  graph.pageFormat = new Rectangle(0, 0, 200, 100);
+  graph.pageScale = 1;
+  graph.insertVertex({ value: 'v1', position: [20, 20], size: [80, 30] });
+  graph.insertVertex({ value: 'v2', position: [250, 120], size: [80, 30] });
+  return graph;
+};
+
+test('the graph is split into pages starting at the graph bounds (including the stroke)', () => {
+  const graph = createGraph();
+
+  expect(new PdfExport().getPages(graph)).toEqual([
+    new Rectangle(19.5, 19.5, 200, 100),
+    new Rectangle(219.5, 19.5, 200, 100),
+    new Rectangle(19.5, 119.5, 200, 100),
+    new Rectangle(219.5, 119.5, 200, 100),
+  ]);
+});
+
+test('the pages match the page breaks when they are visible', () => {
+  const graph = createGraph();
+  graph.pageBreaksVisible = true;
+
+  expect(new PdfExport().getPages(graph)).toEqual([
+    new Rectangle(0, 0, 200, 100),
+    new Rectangle(200, 0, 200, 100),
+    new Rectangle(0, 100, 200, 100),
+    new Rectangle(200, 100, 200, 100),
+  ]);
+});
+
+test('each page paints the cells translated to the page', () => {
+  const graph = createGraph();
+  graph.pageBreaksVisible = true;
+
+  const pdf = new PdfExport().export(graph);
+  const text = decode(pdf);
+  expect(text).toContain('/Count 4');
+  // the page format is in 1/100 inch
+  expect(text).toContain('/MediaBox [0 0 144 72]');
+
+  const contents = getContents(pdf);
+  expect(contents).toHaveLength(4);
+  // v1 on the first page
+  expect(contents[0]).toContain('14.4 14.4 m 72 14.4 l 72 36 l 14.4 36 l h B');
+  // v2 on the last page
+  expect(contents[3]).toContain('36 14.4 m 93.6 14.4 l 93.6 36 l 36 36 l h B');
+});
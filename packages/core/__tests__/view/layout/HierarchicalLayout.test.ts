@@ -15,7 +15,14 @@ limitations under the License.
 */
 
 import { describe, expect, test } from '@jest/globals';
-import { HierarchicalLayout } from '../../../src';
+import {
+  type Cell,
+  type Geometry,
+  type Graph,
+  HierarchicalEdgeStyle,
+  HierarchicalLayout,
+  Point,
+} from '../../../src';
 import { createGraphWithoutContainer } from '../../utils';
 
 describe('layout execute', () => {
@@ -197,3 +204,124 @@ describe('layout execute', () => {
     expect(vertex8?.geometry?.y).toBe(130);
   });
 });
+
+describe('ports', () => {
+  const size: [number, number] = [80, 30];
+
+  const insertPort = (graph: Graph, parent: Cell, id: string, x: number) => {
+    const port = graph.insertVertex({
+      parent,
+      id,
+      position: [x, 1],
+      size: [10, 10],
+      relative: true,
+    });
+    port.geometry!.offset = new Point(-5, -5);
+    return port;
+  };
+
+  const executeLayout = (
+    configure?: (layout: HierarchicalLayout) => void,
+    dStyle: Record<string, string> = {}
+  ) => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const layout = new HierarchicalLayout(graph);
+    layout.edgeStyle = HierarchicalEdgeStyle.ORTHOGONAL_PORTS;
+    configure?.(layout);
+
+    graph.batchUpdate(() => {
+      const a = graph.insertVertex({ parent, id: 'a', size: [100, 40] });
+      const right = insertPort(graph, a, 'right', 0.75);
+      const left = insertPort(graph, a, 'left', 0.25);
+      const c = graph.insertVertex({ parent, id: 'c', size });
+      const b = graph.insertVertex({ parent, id: 'b', size });
+      const d = graph.insertVertex({ parent, id: 'd', size, style: dStyle });
+      // the insertion order places 'b' on the left without ports
+      graph.insertEdge({ parent, id: 'e1', source: left, target: c });
+      graph.insertEdge({ parent, id: 'e2', source: right, target: b });
+      graph.insertEdge({ parent, id: 'e3', source: c, target: d });
+      graph.insertEdge({ parent, id: 'e4', source: a, target: d });
+      layout.execute(parent);
+    });
+    return graph;
+  };
+
+  const geometry = (graph: Graph, id: string): Geometry =>
+    graph.model.getCell(id)!.geometry!;
+
+  const expectOrthogonal = (points: Point[]) => {
+    for (let i = 1; i < points.length; i++) {
+      const previous = points[i - 1];
+      const current = points[i];
+      expect(previous.x === current.x || previous.y === current.y).toBeTruthy();
+    }
+  };
+
+  test('edges are ordered by the position of their source port', () => {
+    const graph = executeLayout();
+
+    expect(geometry(graph, 'c').x).toBeLessThan(geometry(graph, 'b').x);
+  });
+
+  test('insertion order is kept when ports are ignored', () => {
+    const graph = executeLayout((layout) => {
+      layout.getPortConstraint = () => null;
+    });
+
+    expect(geometry(graph, 'b').x).toBeLessThan(geometry(graph, 'c').x);
+  });
+
+  test('edges are routed orthogonally from the port', () => {
+    const graph = executeLayout();
+    const a = geometry(graph, 'a');
+    const points = geometry(graph, 'e1').points!;
+
+    expect(points.length).toBeGreaterThan(0);
+    expectOrthogonal(points);
+    // the first segment leaves the port vertically
+    expect(points[0].x).toBe(a.x + a.width * 0.25);
+    for (const id of ['e2', 'e3', 'e4']) {
+      expectOrthogonal(geometry(graph, id).points!);
+    }
+  });
+
+  test('the orthogonal edge style routes the edges like the polyline edge style', () => {
+    const points = (edgeStyle: number) => {
+      const graph = executeLayout((layout) => {
+        layout.edgeStyle = edgeStyle;
+      });
+      return ['e1', 'e2', 'e3', 'e4'].map((id) => geometry(graph, id).points);
+    };
+
+    expect(points(HierarchicalEdgeStyle.ORTHOGONAL)).toEqual(
+      points(HierarchicalEdgeStyle.POLYLINE)
+    );
+  });
+
+  test('port constraint of the terminal is respected', () => {
+    const graph = executeLayout(undefined, { portConstraint: 'east' });
+    const d = geometry(graph, 'd');
+
+    for (const id of ['e3', 'e4']) {
+      const points = geometry(graph, id).points!;
+      const last = points[points.length - 1];
+      // the edge enters the terminal horizontally from the right
+      expect(last.x).toBeGreaterThan(d.x + d.width);
+      expect(last.y).toBe(d.y + d.height / 2);
+    }
+  });
+
+  test.each(['south', 'west', 'east'] as const)(
+    'edges are routed orthogonally with the %s orientation',
+    (orientation) => {
+      const graph = executeLayout((layout) => {
+        layout.orientation = orientation;
+      });
+
+      for (const id of ['e1', 'e2', 'e3', 'e4']) {
+        expectOrthogonal(geometry(graph, id).points ?? []);
+      }
+    }
+  );
+});
@@ -14,8 +14,92 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { expect, test } from '@jest/globals';
-import { BaseGraph, LayoutManager } from '../../../src';
+import { describe, expect, jest, test } from '@jest/globals';
+import {
+  type AsyncLayout,
+  BaseGraph,
+  type Cell,
+  createLayoutSnapshot,
+  type EventObject,
+  InternalEvent,
+  type LayoutGeometryDiff,
+  LayoutManager,
+  type LayoutSnapshot,
+  type LayoutWorker,
+  registerLayoutWorker,
+  WorkerLayout,
+} from '../../../src';
+import { createGraphWithoutContainer } from '../../utils';
+
+/**
+ * An {@link AsyncLayout} whose executions are resolved by the test.
+ */
+class DeferredLayout implements AsyncLayout {
+  executions: {
+    snapshot: LayoutSnapshot;
+    signal: AbortSignal;
+    resolve: (diff: LayoutGeometryDiff) => void;
+  }[] = [];
+
+  execute(snapshot: LayoutSnapshot, signal: AbortSignal) {
+    return new Promise<LayoutGeometryDiff>((resolve) => {
+      this.executions.push({ snapshot, signal, resolve });
+    });
+  }
+}
+
+/**
+ * Returns a diff placing the vertices of the snapshot in a row.
+ */
+const layoutInRow = (snapshot: LayoutSnapshot): LayoutGeometryDiff => ({
+  vertices: snapshot.vertices.map((vertex, index) => ({
+    id: vertex.id,
+    x: index * 100,
+    y: 10,
+  })),
+});
+
+/**
+ * Creates the two ends of a channel, as jsdom does not implement `Worker`.
+ */
+const createChannel = () => {
+  const createEnd = () => {
+    const listeners: ((evt: MessageEvent) => void)[] = [];
+    return {
+      listeners,
+      postMessage: (data: unknown) => {},
+      addEventListener: (_name: string, listener: (evt: MessageEvent) => void) => {
+        listeners.push(listener);
+      },
+      removeEventListener: (_name: string, listener: (evt: MessageEvent) => void) => {
+        listeners.splice(listeners.indexOf(listener), 1);
+      },
+    };
+  };
+  const main = createEnd();
+  const worker = createEnd();
+  const connect = (from: typeof main, to: typeof main) => {
+    from.postMessage = (data: unknown) => {
+      Promise.resolve().then(() => {
+        for (const listener of [...to.listeners]) {
+          listener(<MessageEvent>{ data });
+        }
+      });
+    };
+  };
+  connect(main, worker);
+  connect(worker, main);
+  return { main: <LayoutWorker>(<unknown>main), worker: <LayoutWorker>(<unknown>worker) };
+};
+
+const createManager = (layout: AsyncLayout) => {
+  const graph = createGraphWithoutContainer();
+  const manager = new LayoutManager(graph);
+  manager.getAsyncLayout = (cell) => (cell === graph.getDefaultParent() ? layout : null);
+  return { graph, manager, parent: graph.getDefaultParent() };
+};
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
 
 describe('destroy', () => {
   test('clears eventListeners', () => {
@@ -29,3 +113,213 @@ describe('destroy', () => {
     expect(manager.eventListeners).toHaveLength(0);
   });
 });
+
+describe('createLayoutSnapshot', () => {
+  test('contains the child vertices and the edges connecting them', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, position: [10, 20], size: [30, 40] });
+    const group = graph.insertVertex({ parent, position: [100, 0], size: [80, 80] });
+    const child = graph.insertVertex({ parent: group, position: [5, 5], size: [10, 10] });
+    const hidden = graph.insertVertex({ parent, position: [0, 0], size: [10, 10] });
+    hidden.setVisible(false);
+    graph.getDataModel().setStyle(v1, { movable: false });
+    const e1 = graph.insertEdge({ parent, source: v1, target: child });
+    graph.insertEdge({ parent, source: v1, target: hidden });
+
+    expect(createLayoutSnapshot(graph, parent)).toEqual({
+      parent: parent.getId(),
+      vertices: [
+        { id: v1.getId(), x: 10, y: 20, width: 30, height: 40, movable: false },
+        { id: group.getId(), x: 100, y: 0, width: 80, height: 80, movable: true },
+      ],
+      edges: [{ id: e1.getId(), source: v1.getId(), target: group.getId() }],
+    });
+  });
+});
+
+describe('executeAsyncLayout', () => {
+  test('the layout is executed after the changes and applied in a single update', async () => {
+    const layout = new DeferredLayout();
+    const { graph, manager, parent } = createManager(layout);
+    const v1 = graph.insertVertex({ parent, size: [10, 10] });
+    const v2 = graph.insertVertex({ parent, size: [10, 10] });
+
+    // Only the latest layout is pending, the first one was cancelled by the second change
+    expect(layout.executions).toHaveLength(2);
+    expect(layout.executions[0].signal.aborted).toBeTruthy();
+    expect(manager.isAsyncLayoutRunning(parent)).toBeTruthy();
+
+    const undo = jest.fn();
+    graph.getDataModel().addListener(InternalEvent.UNDO, undo);
+    layout.executions[1].resolve(layoutInRow(layout.executions[1].snapshot));
+    await flushPromises();
+
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(v1.getGeometry()!.x).toBe(0);
+    expect(v2.getGeometry()!.x).toBe(100);
+    expect(v2.getGeometry()!.y).toBe(10);
+    // Applying the result does not execute the layout again
+    expect(layout.executions).toHaveLength(2);
+    expect(manager.isAsyncLayoutRunning()).toBeFalsy();
+  });
+
+  test('the result of a cancelled layout is ignored and the layout is executed again', async () => {
+    const layout = new DeferredLayout();
+    const { graph, parent } = createManager(layout);
+    const v1 = graph.insertVertex({ parent, size: [10, 10] });
+    const [first] = layout.executions;
+
+    // Other changes while the layout is running
+    const other = graph.insertVertex({ parent: v1, size: [10, 10] });
+    graph.getDataModel().setValue(other, 'changed');
+    first.resolve({ vertices: [{ id: v1.getId()!, x: 500, y: 500 }] });
+    await flushPromises();
+
+    expect(first.signal.aborted).toBeTruthy();
+    expect(v1.getGeometry()!.x).toBe(0);
+
+    const last = layout.executions[layout.executions.length - 1];
+    expect(last.signal.aborted).toBeFalsy();
+    last.resolve({ vertices: [{ id: v1.getId()!, x: 50, y: 60 }] });
+    await flushPromises();
+
+    expect(v1.getGeometry()!.x).toBe(50);
+  });
+
+  test('returns false when the layout is cancelled', async () => {
+    const layout = new DeferredLayout();
+    const { graph, manager, parent } = createManager(layout);
+    manager.getAsyncLayout = () => null;
+    graph.insertVertex({ parent, size: [10, 10] });
+
+    const result = manager.executeAsyncLayout(parent, layout);
+    expect(manager.cancelAsyncLayouts()).toEqual([parent]);
+    layout.executions[0].resolve({ vertices: [] });
+
+    await expect(result).resolves.toBeFalsy();
+  });
+
+  test('the result is applied at once and animated in the view with Morphing', async () => {
+    jest.useFakeTimers();
+
+    try {
+      const layout = new DeferredLayout();
+      const { graph, manager, parent } = createManager(layout);
+      manager.animate = true;
+      const vertex: Cell = graph.insertVertex({ parent, size: [10, 10] });
+      const model = graph.getDataModel();
+
+      const result = manager.executeAsyncLayout(parent);
+      layout.executions[layout.executions.length - 1].resolve({
+        vertices: [{ id: vertex.getId()!, x: 200, y: 0 }],
+      });
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(vertex.getGeometry()!.x).toBe(200);
+      expect(model.updateLevel).toBe(0);
+      // The vertex is displayed at its previous position
+      expect(graph.getView().getState(vertex)!.x).toBe(0);
+
+      jest.runAllTimers();
+      await expect(result).resolves.toBeTruthy();
+      expect(graph.getView().getState(vertex)!.x).toBe(200);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('the changes during the animation are not merged into the layout edit', async () => {
+    jest.useFakeTimers();
+
+    try {
+      const layout = new DeferredLayout();
+      const { graph, manager, parent } = createManager(layout);
+      manager.animate = true;
+      const vertex: Cell = graph.insertVertex({ parent, size: [10, 10] });
+      const model = graph.getDataModel();
+      const undo = jest.fn<(sender: unknown, evt: EventObject) => void>();
+      model.addListener(InternalEvent.UNDO, undo);
+
+      const result = manager.executeAsyncLayout(parent);
+      const execution = layout.executions[layout.executions.length - 1];
+      execution.resolve({ vertices: [{ id: vertex.getId()!, x: 200, y: 0 }] });
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(undo).toHaveBeenCalledTimes(1);
+
+      // A change during the animation is a separate edit which executes the layout again
+      jest.advanceTimersByTime(20);
+      const other: Cell = graph.insertVertex({ parent, size: [10, 10] });
+      expect(undo).toHaveBeenCalledTimes(2);
+      expect(undo.mock.calls[1][1].getProperty('edit').changes).toHaveLength(1);
+      expect(layout.executions[layout.executions.length - 1]).not.toBe(execution);
+      expect(manager.isAsyncLayoutRunning(parent)).toBeTruthy();
+
+      jest.runAllTimers();
+      await expect(result).resolves.toBeTruthy();
+      expect(vertex.getGeometry()!.x).toBe(200);
+      expect(other.getGeometry()!.x).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('WorkerLayout', () => {
+  test('the layout is computed by the worker', async () => {
+    const channel = createChannel();
+    registerLayoutWorker(
+      (snapshot, options: { y: number }) => ({
+        vertices: snapshot.vertices.map((vertex) => ({
+          id: vertex.id,
+          x: 0,
+          y: options.y,
+        })),
+      }),
+      channel.worker
+    );
+    const layout = new WorkerLayout(channel.main, { y: 42 });
+    const { graph, parent } = createManager(layout);
+
+    const vertex = graph.insertVertex({ parent, position: [10, 10], size: [10, 10] });
+    await flushPromises();
+
+    expect(vertex.getGeometry()!.y).toBe(42);
+  });
+
+  test('errors of the worker reject the promise', async () => {
+    const channel = createChannel();
+    registerLayoutWorker(() => {
+      throw new Error('Layout failed');
+    }, channel.worker);
+    const layout = new WorkerLayout(channel.main);
+    const controller = new AbortController();
+
+    await expect(
+      layout.execute({ parent: '1', vertices: [], edges: [] }, controller.signal)
+    ).rejects.toThrow('Layout failed');
+  });
+
+  test('the results of the cancelled requests are not posted', async () => {
+    const channel = createChannel();
+    const compute = jest.fn(() => ({ vertices: [] }));
+    registerLayoutWorker(compute, channel.worker);
+    const posted = jest.fn();
+    channel.main.addEventListener('message', posted);
+    const layout = new WorkerLayout(channel.main);
+    const controller = new AbortController();
+
+    const result = layout.execute(
+      { parent: '1', vertices: [], edges: [] },
+      controller.signal
+    );
+    controller.abort();
+
+    await expect(result).rejects.toThrow('cancelled');
+    await flushPromises();
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(posted).not.toHaveBeenCalled();
+  });
+});
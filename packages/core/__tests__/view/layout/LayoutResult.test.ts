@@ -0,0 +1,192 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, jest, test } from '@jest/globals';
+import {
+  type Cell,
+  CircleLayout,
+  CompactTreeLayout,
+  type Graph,
+  GraphLayout,
+  InternalEvent,
+  LayoutResult,
+  Point,
+} from '../../../src';
+import { createGraphWithoutContainer } from '../../utils';
+
+const createTree = (graph: Graph) => {
+  const parent = graph.getDefaultParent();
+  const root = graph.insertVertex({ parent, id: 'root', size: [40, 20] });
+  const left = graph.insertVertex({ parent, id: 'left', size: [40, 20] });
+  const right = graph.insertVertex({ parent, id: 'right', size: [40, 20] });
+  const e1 = graph.insertEdge({ parent, id: 'e1', source: root, target: left });
+  const e2 = graph.insertEdge({ parent, id: 'e2', source: root, target: right });
+  return { parent, root, left, right, e1, e2 };
+};
+
+/**
+ * Moves the root away and back, and sets a control point on the first edge.
+ */
+class TestLayout extends GraphLayout {
+  override execute(parent: Cell): void {
+    const [root, , , e1] = parent.getChildren();
+    const { x, y } = root.getGeometry()!;
+
+    this.graph.batchUpdate(() => {
+      this.setVertexLocation(root, 500, 500);
+      this.setVertexLocation(root, x, y);
+      this.setEdgePoints(e1, [new Point(10, 20)]);
+    });
+  }
+}
+
+describe('preview', () => {
+  test('the model is not changed and no change is notified', () => {
+    const graph = createGraphWithoutContainer();
+    const { parent, root, e1 } = createTree(graph);
+    const geometry = root.getGeometry();
+    const style = e1.getStyle();
+    const listener = jest.fn();
+    graph.getDataModel().addListener(InternalEvent.CHANGE, listener);
+    graph.getDataModel().addListener(InternalEvent.UNDO, listener);
+
+    const result = new CompactTreeLayout(graph).preview(parent);
+
+    expect(result.isEmpty()).toBeFalsy();
+    expect(root.getGeometry()).toBe(geometry);
+    expect(e1.getStyle()).toBe(style);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('the result contains the geometries and styles set by the layout', () => {
+    const graph = createGraphWithoutContainer();
+    const { parent, root, left, right, e1, e2 } = createTree(graph);
+    const layout = new CompactTreeLayout(graph);
+
+    const result = layout.preview(parent);
+    const geometries = [root, left, right].map((cell) => result.getGeometry(cell));
+    layout.execute(parent);
+
+    expect(geometries).toEqual([root, left, right].map((cell) => cell.getGeometry()));
+    expect(result.getStyle(e1)).toEqual(e1.getStyle());
+    expect(result.getCells()).toEqual(
+      expect.arrayContaining([root, left, right, e1, e2])
+    );
+  });
+
+  test('the unchanged geometries are not in the result', () => {
+    const graph = createGraphWithoutContainer();
+    const { parent, root, e1 } = createTree(graph);
+
+    const result = new TestLayout(graph).preview(parent);
+
+    expect(result.getGeometry(root)).toBeNull();
+    expect(result.getCells()).toEqual([e1]);
+  });
+
+  test('the geometry diff lists the vertex bounds and the edge points', () => {
+    const graph = createGraphWithoutContainer();
+    const { parent, root } = createTree(graph);
+    const layout = new CircleLayout(graph);
+
+    const result = layout.preview(parent);
+    const geometry = result.getGeometry(root)!;
+
+    expect(result.getGeometryDiff().vertices).toContainEqual({
+      id: 'root',
+      x: geometry.x,
+      y: geometry.y,
+      width: 40,
+      height: 20,
+    });
+    expect(new TestLayout(graph).preview(parent).getGeometryDiff()).toEqual({
+      vertices: [],
+      edges: [{ id: 'e1', points: [{ x: 10, y: 20 }] }],
+    });
+  });
+});
+
+describe('LayoutResult', () => {
+  test('commit applies the result in a single undoable edit', () => {
+    const graph = createGraphWithoutContainer();
+    const { parent, root, e1 } = createTree(graph);
+    const result = new CompactTreeLayout(graph).preview(parent);
+    const geometry = result.getGeometry(root);
+    const style = result.getStyle(e1);
+    const listener = jest.fn();
+    graph.getDataModel().addListener(InternalEvent.UNDO, listener);
+
+    const changed = result.commit();
+
+    expect(changed).toContain(root);
+    expect(root.getGeometry()).toEqual(geometry);
+    expect(e1.getStyle()).toEqual(style);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(result.isEmpty()).toBeTruthy();
+  });
+
+  test('show updates the cell states and discard restores them', () => {
+    const graph = createGraphWithoutContainer();
+    const { parent, root } = createTree(graph);
+    const result = new CircleLayout(graph).preview(parent);
+    const geometry = result.getGeometry(root)!;
+    const state = graph.getView().getState(root)!;
+    const { x, y } = state;
+
+    result.show();
+
+    expect(result.isShown()).toBeTruthy();
+    expect(state.x).toBe(geometry.x);
+    expect(state.y).toBe(geometry.y);
+    expect(root.getGeometry()).not.toBe(geometry);
+
+    result.discard();
+
+    expect(result.isShown()).toBeFalsy();
+    expect(result.isEmpty()).toBeTruthy();
+    expect(state.x).toBe(x);
+    expect(state.y).toBe(y);
+  });
+
+  test('show updates the edges connected to the moved vertices', () => {
+    const graph = createGraphWithoutContainer();
+    const { root, left, e1 } = createTree(graph);
+    graph.moveCells([left], 0, 50);
+    const view = graph.getView();
+    const result = new LayoutResult(graph);
+    const geometry = left.getGeometry()!.clone();
+    geometry.x = 200;
+    geometry.y = 100;
+    result.setGeometry(left, geometry);
+    const points = view.getState(e1)!.absolutePoints.map((point) => point?.clone());
+
+    result.show();
+
+    // The edge is not changed by the layout but follows its target
+    expect(result.getGeometry(e1)).toBeNull();
+    expect(view.getState(e1)!.absolutePoints).not.toEqual(points);
+    expect(view.getState(e1)!.getVisibleTerminalState(false)).toBe(view.getState(left));
+    const { absolutePoints } = view.getState(e1)!;
+    const target = absolutePoints[absolutePoints.length - 1]!;
+    expect(target.x).toBeGreaterThanOrEqual(200);
+    expect(target.y).toBeGreaterThanOrEqual(100);
+
+    result.discard();
+
+    expect(view.getState(e1)!.absolutePoints).toEqual(points);
+    expect(view.getState(root)!.x).toBe(0);
+  });
+});
@@ -0,0 +1,215 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, test } from '@jest/globals';
+import { type Cell, type Graph, Point, Rectangle, StressLayout } from '../../../src';
+import { createGraphWithoutContainer } from '../../utils';
+
+const size: [number, number] = [40, 30];
+
+const center = (cell: Cell) => {
+  const geo = cell.getGeometry()!;
+  return { x: geo.x + geo.width / 2, y: geo.y + geo.height / 2 };
+};
+
+const distance = (a: Cell, b: Cell) => {
+  const ca = center(a);
+  const cb = center(b);
+  return Math.hypot(ca.x - cb.x, ca.y - cb.y);
+};
+
+/**
+ * Returns the bounds of the cell relative to the default parent.
+ */
+const absoluteBounds = (graph: Graph, cell: Cell) => {
+  const geo = cell.getGeometry()!;
+  const result = new Rectangle(geo.x, geo.y, geo.width, geo.height);
+  let parent = cell.getParent();
+
+  while (parent && parent !== graph.getDefaultParent()) {
+    result.x += parent.getGeometry()!.x;
+    result.y += parent.getGeometry()!.y;
+    parent = parent.getParent();
+  }
+  return result;
+};
+
+const gap = (a: Rectangle, b: Rectangle) =>
+  Math.max(
+    b.x - (a.x + a.width),
+    a.x - (b.x + b.width),
+    b.y - (a.y + a.height),
+    a.y - (b.y + b.height)
+  );
+
+const createChain = (graph: Graph, count: number, parent = graph.getDefaultParent()) => {
+  const vertices: Cell[] = [];
+
+  for (let i = 0; i < count; i++) {
+    vertices.push(graph.insertVertex({ parent, value: `${i}`, size }));
+
+    if (i > 0) {
+      graph.insertEdge({ parent, source: vertices[i - 1], target: vertices[i] });
+    }
+  }
+  return vertices;
+};
+
+describe('execute', () => {
+  test('connected vertices are placed at the edge length', () => {
+    const graph = createGraphWithoutContainer();
+    const [v1, v2, v3] = createChain(graph, 3);
+
+    new StressLayout(graph).execute(graph.getDefaultParent());
+
+    expect(distance(v1, v2)).toBeCloseTo(100, -1);
+    expect(distance(v2, v3)).toBeCloseTo(100, -1);
+    expect(distance(v1, v3)).toBeCloseTo(200, -1);
+  });
+
+  test('the result is deterministic', () => {
+    const layoutCycle = () => {
+      const graph = createGraphWithoutContainer();
+      const vertices = createChain(graph, 6);
+      graph.insertEdge({
+        parent: graph.getDefaultParent(),
+        source: vertices[5],
+        target: vertices[0],
+      });
+      new StressLayout(graph).execute(graph.getDefaultParent());
+      return vertices.map((vertex) => vertex.getGeometry()!);
+    };
+
+    expect(layoutCycle()).toEqual(layoutCycle());
+  });
+
+  test('the top left corner of the input cells is kept', () => {
+    const graph = createGraphWithoutContainer();
+    const vertices = createChain(graph, 4);
+    for (const vertex of vertices) {
+      vertex.getGeometry()!.translate(50, 60);
+    }
+
+    new StressLayout(graph).execute(graph.getDefaultParent());
+
+    expect(graph.getBoundingBoxFromGeometry(vertices)).toEqual(
+      expect.objectContaining({ x: 50, y: 60 })
+    );
+  });
+
+  test('edges are reset and their style is disabled', () => {
+    const graph = createGraphWithoutContainer();
+    const [v1] = createChain(graph, 2);
+    const edge = v1.getEdgeAt(0);
+    edge.getGeometry()!.points = [new Point(10, 10)];
+
+    new StressLayout(graph).execute(graph.getDefaultParent());
+
+    expect(edge.getGeometry()!.points).toEqual([]);
+    expect(edge.getStyle().noEdgeStyle).toBeTruthy();
+  });
+});
+
+describe('constraints', () => {
+  test('pinned vertices keep their location', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const pinned = graph.insertVertex({
+      parent,
+      position: [300, 200],
+      size,
+      style: { pinned: true },
+    });
+    const vertices = createChain(graph, 3);
+    graph.insertEdge({ parent, source: pinned, target: vertices[0] });
+
+    new StressLayout(graph).execute(parent);
+
+    expect(pinned.getGeometry()!.x).toBe(300);
+    expect(pinned.getGeometry()!.y).toBe(200);
+    expect(distance(pinned, vertices[0])).toBeCloseTo(100, -1);
+  });
+
+  test('vertices are separated by the minimum separation', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const hub = graph.insertVertex({ parent, size });
+    const leaves: Cell[] = [];
+
+    for (let i = 0; i < 8; i++) {
+      leaves.push(graph.insertVertex({ parent, size: [80, 60] }));
+      graph.insertEdge({ parent, source: hub, target: leaves[i] });
+    }
+    const layout = new StressLayout(graph);
+    layout.edgeLength = 40;
+    layout.minSeparation = 15;
+    layout.execute(parent);
+
+    const vertices = [hub, ...leaves];
+
+    for (let i = 0; i < vertices.length; i++) {
+      for (let j = i + 1; j < vertices.length; j++) {
+        expect(
+          gap(absoluteBounds(graph, vertices[i]), absoluteBounds(graph, vertices[j]))
+        ).toBeGreaterThanOrEqual(14);
+      }
+    }
+  });
+
+  test('children of groups are kept in the group and other vertices are moved out', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const group = graph.insertVertex({ parent, position: [0, 0], size: [10, 10] });
+    const children = createChain(graph, 3, group);
+    const others = createChain(graph, 3);
+    graph.insertEdge({ parent, source: children[2], target: others[0] });
+
+    const layout = new StressLayout(graph);
+    layout.execute(parent);
+
+    const groupBounds = absoluteBounds(graph, group);
+
+    for (const child of children) {
+      const bounds = absoluteBounds(graph, child);
+      expect(bounds.x).toBeGreaterThanOrEqual(groupBounds.x + layout.groupPadding - 1);
+      expect(bounds.y).toBeGreaterThanOrEqual(groupBounds.y + layout.groupPadding - 1);
+      expect(bounds.x + bounds.width).toBeLessThanOrEqual(
+        groupBounds.x + groupBounds.width - layout.groupPadding + 1
+      );
+      expect(bounds.y + bounds.height).toBeLessThanOrEqual(
+        groupBounds.y + groupBounds.height - layout.groupPadding + 1
+      );
+    }
+    for (const other of others) {
+      expect(gap(groupBounds, absoluteBounds(graph, other))).toBeGreaterThan(0);
+    }
+  });
+
+  test('groups are handled like vertices when clusterGroups is false', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const group = graph.insertVertex({ parent, size: [200, 100] });
+    const [child] = createChain(graph, 2, group);
+    const childGeometry = child.getGeometry();
+
+    const layout = new StressLayout(graph);
+    layout.clusterGroups = false;
+    layout.execute(parent);
+
+    expect(child.getGeometry()).toBe(childGeometry);
+    expect(group.getGeometry()!.width).toBe(200);
+  });
+});
@@ -0,0 +1,314 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import {
+  type AbstractGraph,
+  BaseGraph,
+  type CollaborationMessage,
+  CollaborationManager,
+  type EventObject,
+  type EventSource,
+  Geometry,
+  InternalEvent,
+  UndoManager,
+  unregisterAllCodecs,
+} from '../../../src';
+import { createGraphWithoutContainer } from '../../utils';
+
+/**
+ * Fake transport relaying the messages between the peers. The messages are queued until {@link deliver} is called, so
+ * concurrent edits can be simulated.
+ */
+class FakeNetwork {
+  private queue: { from: string; message: CollaborationMessage }[] = [];
+  private managers: CollaborationManager[] = [];
+
+  connect(graph: AbstractGraph, peerId: string): CollaborationManager {
+    graph.getDataModel().prefix = `${peerId}-`;
+    const manager = new CollaborationManager(graph.getDataModel(), {
+      peerId,
+      transport: {
+        send: (message) =>
+          this.queue.push({ from: peerId, message: JSON.parse(JSON.stringify(message)) }),
+      },
+      selectionModel: graph.getSelectionModel(),
+    });
+    this.managers.push(manager);
+    return manager;
+  }
+
+  /**
+   * Delivers the queued messages, the messages of the given peer being delivered first.
+   */
+  deliver(firstPeer?: string): void {
+    while (this.queue.length > 0) {
+      const index = Math.max(
+        0,
+        this.queue.findIndex(({ from }) => from === firstPeer)
+      );
+      const [{ from, message }] = this.queue.splice(index, 1);
+      this.managers
+        .filter((manager) => manager.peerId !== from)
+        .forEach((manager) => manager.receive(message));
+    }
+  }
+}
+
+let network: FakeNetwork;
+let graphA: AbstractGraph;
+let graphB: AbstractGraph;
+let managerA: CollaborationManager;
+let managerB: CollaborationManager;
+
+beforeEach(() => {
+  network = new FakeNetwork();
+  graphA = createGraphWithoutContainer();
+  graphB = createGraphWithoutContainer();
+  managerA = network.connect(graphA, 'a');
+  managerB = network.connect(graphB, 'b');
+});
+
+afterEach(() => {
+  unregisterAllCodecs();
+});
+
+const getCellB = (id: string | null) => graphB.getDataModel().getCell(id!)!;
+
+describe('synchronization', () => {
+  test('added cells are created in the other model', () => {
+    const v1 = graphA.insertVertex({ value: 'v1', position: [10, 20], size: [30, 40] });
+    const v2 = graphA.insertVertex({ value: 'v2', position: [100, 20], size: [30, 40] });
+    const edge = graphA.insertEdge({ value: 'edge', source: v1, target: v2 });
+    network.deliver();
+
+    const v1B = getCellB(v1.getId());
+    expect(v1B).not.toBe(v1);
+    expect(v1B.getValue()).toBe('v1');
+    expect(v1B.getGeometry()).toEqual(new Geometry(10, 20, 30, 40));
+    expect(v1B.getParent()).toBe(graphB.getDefaultParent());
+    const edgeB = getCellB(edge.getId());
+    expect(edgeB.getTerminal(true)).toBe(v1B);
+    expect(edgeB.getTerminal(false)).toBe(getCellB(v2.getId()));
+    expect(v1B.getEdgeCount()).toBe(1);
+  });
+
+  test('concurrent changes of distinct properties of the same cell are merged', () => {
+    const vertex = graphA.insertVertex({
+      value: 'v',
+      position: [10, 20],
+      size: [30, 40],
+    });
+    network.deliver();
+    const vertexB = getCellB(vertex.getId());
+
+    graphA.getDataModel().setGeometry(vertex, new Geometry(50, 60, 70, 80));
+    graphB.getDataModel().setStyle(vertexB, { fillColor: 'red' });
+    network.deliver();
+
+    for (const cell of [vertex, vertexB]) {
+      expect(cell.getGeometry()).toEqual(new Geometry(50, 60, 70, 80));
+      expect(cell.getStyle()).toEqual({ fillColor: 'red' });
+    }
+  });
+
+  test.each(['a', 'b'])(
+    'concurrent changes of the same property converge whatever the delivery order (%s first)',
+    (firstPeer) => {
+      const vertex = graphA.insertVertex({
+        value: 'v',
+        position: [10, 20],
+        size: [30, 40],
+      });
+      network.deliver();
+      const vertexB = getCellB(vertex.getId());
+
+      graphA.getDataModel().setValue(vertex, 'from a');
+      graphB.getDataModel().setValue(vertexB, 'from b');
+      network.deliver(firstPeer);
+
+      // same clock, so the peer with the greatest ID wins
+      expect(vertex.getValue()).toBe('from b');
+      expect(vertexB.getValue()).toBe('from b');
+    }
+  );
+
+  test('a change made after receiving a remote change wins', () => {
+    const vertex = graphA.insertVertex({
+      value: 'v',
+      position: [10, 20],
+      size: [30, 40],
+    });
+    network.deliver();
+    const vertexB = getCellB(vertex.getId());
+
+    graphB.getDataModel().setValue(vertexB, 'from b');
+    network.deliver();
+    graphA.getDataModel().setValue(vertex, 'from a');
+    network.deliver();
+
+    expect(vertexB.getValue()).toBe('from a');
+  });
+
+  test('the HTML labels of the remote cells are sanitized when they are rendered', () => {
+    const graphC = new BaseGraph({ container: document.createElement('div') });
+    graphC.setHtmlLabels(true);
+    network.connect(graphC, 'c');
+    const v1 = graphA.insertVertex({ value: '<b onclick="alert(1)">v1</b>' });
+    const v2 = graphA.insertVertex({ value: 'v2' });
+    graphA.getDataModel().setValue(v2, '<i onclick="alert(2)">v2</i>');
+    network.deliver();
+
+    const getLabelNode = (id: string | null) =>
+      graphC.getView().getState(graphC.getDataModel().getCell(id!)!)!.text!.node;
+    expect(
+      getLabelNode(v1.getId()).querySelector('b')!.hasAttribute('onclick')
+    ).toBeFalsy();
+    expect(
+      getLabelNode(v2.getId()).querySelector('i')!.hasAttribute('onclick')
+    ).toBeFalsy();
+  });
+
+  test('the operations received before the creation of their cell are applied when it is created', () => {
+    const graphC = createGraphWithoutContainer();
+    const managerC = network.connect(graphC, 'c');
+    // C receives the messages in the reverse order
+    const received: CollaborationMessage[] = [];
+    const receive = managerC.receive.bind(managerC);
+    managerC.receive = (message) => received.unshift(message);
+
+    const v1 = graphA.insertVertex({ value: 'v1' });
+    const v2 = graphA.insertVertex({ value: 'v2' });
+    network.deliver();
+    graphB.getDataModel().setValue(getCellB(v1.getId()), 'changed');
+    graphB.removeCells([getCellB(v2.getId())]);
+    network.deliver();
+    received.forEach(receive);
+
+    const modelC = graphC.getDataModel();
+    expect(modelC.getCell(v1.getId()!)!.getValue()).toBe('changed');
+    expect(modelC.getCell(v2.getId()!)).toBeFalsy();
+    expect(graphA.getDataModel().getCell(v1.getId()!)!.getValue()).toBe('changed');
+    expect(graphA.getDataModel().getCell(v2.getId()!)).toBeFalsy();
+  });
+
+  test('removed cells', () => {
+    const v1 = graphA.insertVertex({ value: 'v1', position: [10, 20], size: [30, 40] });
+    const v2 = graphA.insertVertex({ value: 'v2', position: [100, 20], size: [30, 40] });
+    graphA.insertEdge({ value: 'edge', source: v1, target: v2 });
+    network.deliver();
+
+    graphA.removeCells([v1]);
+    network.deliver();
+
+    expect(graphB.getDataModel().getCell(v1.getId()!)).toBeUndefined();
+    expect(getCellB(v2.getId()).getEdgeCount()).toBe(0);
+    expect(graphB.getDefaultParent().getChildCount()).toBe(1);
+  });
+
+  test('undo restores the removed cells in the other model', () => {
+    const undoManager = new UndoManager();
+    graphA
+      .getDataModel()
+      .addListener(InternalEvent.UNDO, (_sender: EventSource, evt: EventObject) =>
+        undoManager.undoableEditHappened(evt.getProperty('edit'))
+      );
+    const vertex = graphA.insertVertex({
+      value: 'v',
+      position: [10, 20],
+      size: [30, 40],
+    });
+    network.deliver();
+    const vertexB = getCellB(vertex.getId());
+
+    graphA.removeCells([vertex]);
+    network.deliver();
+    undoManager.undo();
+    network.deliver();
+
+    expect(getCellB(vertex.getId())).toBe(vertexB);
+    expect(vertexB.getParent()).toBe(graphB.getDefaultParent());
+  });
+
+  test('remote changes received during an update are applied at the end of the update', () => {
+    const vertex = graphA.insertVertex({
+      value: 'v',
+      position: [10, 20],
+      size: [30, 40],
+    });
+    network.deliver();
+    const vertexB = getCellB(vertex.getId());
+    graphA.getDataModel().setValue(vertex, 'from a');
+
+    graphB.batchUpdate(() => {
+      network.deliver();
+      expect(vertexB.getValue()).toBe('v');
+    });
+    expect(vertexB.getValue()).toBe('from a');
+  });
+
+  test('remote changes are neither stored by the UndoManager nor sent back', () => {
+    const undoManagerB = new UndoManager();
+    graphB
+      .getDataModel()
+      .addListener(InternalEvent.UNDO, (_sender: EventSource, evt: EventObject) =>
+        undoManagerB.undoableEditHappened(evt.getProperty('edit'))
+      );
+    const changeListener = jest.fn();
+    graphB.getDataModel().addListener(InternalEvent.CHANGE, changeListener);
+    const sendSpy = jest.spyOn(managerB.transport, 'send');
+
+    graphA.insertVertex({ value: 'v', position: [10, 20], size: [30, 40] });
+    network.deliver();
+
+    expect(undoManagerB.history).toHaveLength(0);
+    expect(changeListener).toHaveBeenCalledTimes(1);
+    expect(sendSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('awareness', () => {
+  test('remote cursor', () => {
+    const listener = jest.fn();
+    managerB.addListener(InternalEvent.REMOTE_CURSOR, listener);
+
+    managerA.sendCursor(15, 25);
+    network.deliver();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const evt = listener.mock.calls[0][1] as EventObject;
+    expect(evt.properties).toEqual({ peer: 'a', x: 15, y: 25 });
+  });
+
+  test('remote selection', () => {
+    const vertex = graphA.insertVertex({
+      value: 'v',
+      position: [10, 20],
+      size: [30, 40],
+    });
+    network.deliver();
+    const listener = jest.fn();
+    managerB.addListener(InternalEvent.REMOTE_SELECTION, listener);
+
+    graphA.setSelectionCell(vertex);
+    network.deliver();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const evt = listener.mock.calls[0][1] as EventObject;
+    expect(evt.getProperty('peer')).toBe('a');
+    expect(evt.getProperty('cells')).toEqual([getCellB(vertex.getId())]);
+  });
+});
@@ -0,0 +1,242 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, jest, test } from '@jest/globals';
+import {
+  type EventObject,
+  type EventSource,
+  InternalEvent,
+  SearchManager,
+  UndoManager,
+} from '../../../src';
+import { createGraphWithoutContainer } from '../../utils';
+
+const createXmlValue = (nodeName: string, attributes: Record<string, string> = {}) => {
+  const node = document.implementation
+    .createDocument('', '', null)
+    .createElement(nodeName);
+
+  for (const [name, value] of Object.entries(attributes)) {
+    node.setAttribute(name, value);
+  }
+  return node;
+};
+
+describe('search', () => {
+  test('labels are matched literally and case insensitively by default', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: 'Task (a)' });
+    graph.insertVertex({ parent, value: 'Task b' });
+    const v3 = graph.insertVertex({ parent, value: 'my task (A)' });
+    const search = new SearchManager(graph);
+
+    expect(search.search('task (a)').map((result) => result.cell)).toEqual([v1, v3]);
+    expect(search.search('task (A)', { caseSensitive: true })).toEqual([
+      { cell: v3, matches: [{ field: 'label', name: null, value: 'my task (A)' }] },
+    ]);
+    expect(search.search('')).toEqual([]);
+  });
+
+  test('regular expressions and whole words', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: 'step 1' });
+    const v2 = graph.insertVertex({ parent, value: 'step 22' });
+    graph.insertVertex({ parent, value: 'steps' });
+    const search = new SearchManager(graph);
+
+    expect(
+      search.search('step \\d+', { regex: true }).map((result) => result.cell)
+    ).toEqual([v1, v2]);
+    expect(
+      search.search('step', { wholeWord: true }).map((result) => result.cell)
+    ).toEqual([v1, v2]);
+  });
+
+  test('XML attributes and style properties are matched according to the options', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({
+      parent,
+      value: createXmlValue('task', { name: 'Review', owner: 'review team' }),
+    });
+    const v2 = graph.insertVertex({ parent, value: 'v2', style: { fillColor: 'red' } });
+    const search = new SearchManager(graph);
+
+    expect(search.search('review')).toEqual([
+      {
+        cell: v1,
+        matches: [
+          { field: 'attribute', name: 'name', value: 'Review' },
+          { field: 'attribute', name: 'owner', value: 'review team' },
+        ],
+      },
+    ]);
+    expect(search.search('review', { attributes: ['owner'] })[0].matches).toHaveLength(1);
+    expect(search.search('red')).toEqual([]);
+    expect(search.search('red', { styles: ['fillColor'] })).toEqual([
+      { cell: v2, matches: [{ field: 'style', name: 'fillColor', value: 'red' }] },
+    ]);
+  });
+
+  test('the filter excludes cells', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: 'a' });
+    const v2 = graph.insertVertex({ parent, value: 'a' });
+    graph.insertEdge({ parent, value: 'a', source: v1, target: v2 });
+
+    const results = new SearchManager(graph).search('a', {
+      filter: (cell) => cell.isVertex(),
+    });
+    expect(results.map((result) => result.cell)).toEqual([v1, v2]);
+  });
+});
+
+describe('cursor', () => {
+  test('next and previous wrap around and reveal the results', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: 'hit' });
+    const v2 = graph.insertVertex({ parent, value: 'hit' });
+    const search = new SearchManager(graph);
+    const scrollCellToVisible = jest.spyOn(graph, 'scrollCellToVisible');
+    search.search('hit');
+
+    expect(search.getCurrent()).toBeNull();
+    expect(search.next()?.cell).toBe(v1);
+    expect(graph.getSelectionCell()).toBe(v1);
+    expect(scrollCellToVisible).toHaveBeenCalledWith(v1, false);
+    expect(search.highlight.state?.cell).toBe(v1);
+
+    expect(search.next()?.cell).toBe(v2);
+    expect(search.next()?.cell).toBe(v1);
+    expect(search.previous()?.cell).toBe(v2);
+    expect(search.getIndex()).toBe(1);
+  });
+
+  test('previous starts from the last result', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    graph.insertVertex({ parent, value: 'hit' });
+    const v2 = graph.insertVertex({ parent, value: 'hit' });
+    const search = new SearchManager(graph);
+    search.selectResults = false;
+    search.search('hit');
+
+    expect(search.previous()?.cell).toBe(v2);
+    expect(graph.isSelectionEmpty()).toBeTruthy();
+  });
+
+  test('there is no result to go to after clear', () => {
+    const graph = createGraphWithoutContainer();
+    graph.insertVertex({ parent: graph.getDefaultParent(), value: 'hit' });
+    const search = new SearchManager(graph);
+    search.search('hit');
+
+    search.clear();
+
+    expect(search.next()).toBeNull();
+    expect(search.getIndex()).toBe(-1);
+  });
+});
+
+describe('replaceAll', () => {
+  test('replaces labels, attributes and styles in a single undoable edit', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: 'old task, old name' });
+    const v2 = graph.insertVertex({
+      parent,
+      value: createXmlValue('task', { name: 'old', other: 'Old value' }),
+    });
+    const v3 = graph.insertVertex({ parent, value: 'v3', style: { fillColor: 'old' } });
+    const undoManager = new UndoManager();
+    graph
+      .getDataModel()
+      .addListener(InternalEvent.UNDO, (_sender: EventSource, evt: EventObject) => {
+        undoManager.undoableEditHappened(evt.getProperty('edit'));
+      });
+    const search = new SearchManager(graph);
+    search.search('old', { styles: true });
+
+    const changed = search.replaceAll('new');
+
+    expect(changed).toEqual([v1, v2, v3]);
+    expect(v1.getValue()).toBe('new task, new name');
+    expect(v2.getValue().getAttribute('name')).toBe('new');
+    expect(v2.getValue().getAttribute('other')).toBe('new value');
+    expect(v3.getStyle().fillColor).toBe('new');
+    expect(search.getResults()).toEqual([]);
+
+    undoManager.undo();
+
+    expect(v1.getValue()).toBe('old task, old name');
+    expect(v2.getValue().getAttribute('name')).toBe('old');
+    expect(v3.getStyle().fillColor).toBe('old');
+  });
+
+  test('the replacement may refer to the groups of a regular expression', () => {
+    const graph = createGraphWithoutContainer();
+    const v1 = graph.insertVertex({ parent: graph.getDefaultParent(), value: 'step 1' });
+    const search = new SearchManager(graph);
+    search.search('step (\\d)', { regex: true });
+
+    search.replaceAll('$1. step');
+
+    expect(v1.getValue()).toBe('1. step');
+  });
+
+  test('the cells removed since the search are ignored', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: 'old 1' });
+    const v2 = graph.insertVertex({ parent, value: 'old 2' });
+    const search = new SearchManager(graph);
+    search.search('old');
+    graph.removeCells([v1]);
+    const listener = jest.fn();
+    graph.getDataModel().addListener(InternalEvent.CHANGE, listener);
+
+    expect(search.replaceAll('new')).toEqual([v2]);
+    expect(v1.getValue()).toBe('old 1');
+    expect(v2.getValue()).toBe('new 2');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('the current values are replaced if they still match', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: 'old 1' });
+    const v2 = graph.insertVertex({ parent, value: 'old 2' });
+    const v3 = graph.insertVertex({
+      parent,
+      value: createXmlValue('task', { name: 'old' }),
+    });
+    const search = new SearchManager(graph);
+    search.search('old');
+    const model = graph.getDataModel();
+    model.setValue(v1, 'old and old');
+    model.setValue(v2, 'changed');
+    model.setValue(v3, createXmlValue('task', { name: 'renamed' }));
+
+    expect(search.replaceAll('new')).toEqual([v1]);
+    expect(v1.getValue()).toBe('new and new');
+    expect(v2.getValue()).toBe('changed');
+    expect(v3.getValue().getAttribute('name')).toBe('renamed');
+  });
+});
@@ -0,0 +1,215 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import {
+  type EdgeStyleFunction,
+  Geometry,
+  Graph,
+  Point,
+  SnapshotOutline,
+} from '../../../src';
+
+type Call = [string, ...unknown[]];
+
+let calls: Call[];
+
+/**
+ * Minimal CanvasRenderingContext2D recording the painting calls, as jsdom does not implement the canvas.
+ */
+const recordingContext = new Proxy(
+  {},
+  {
+    get:
+      (_target, name: string) =>
+      (...args: unknown[]) =>
+        calls.push([name, ...args]),
+    set: () => true,
+  }
+);
+
+const createContainer = (width: number, height: number) => {
+  const container = document.createElement('div');
+  Object.defineProperty(container, 'clientWidth', { value: width });
+  Object.defineProperty(container, 'clientHeight', { value: height });
+  document.body.appendChild(container);
+  return container;
+};
+
+let graph: Graph;
+let outline: SnapshotOutline;
+
+beforeEach(() => {
+  calls = [];
+  jest
+    .spyOn(HTMLCanvasElement.prototype, 'getContext')
+    .mockReturnValue(recordingContext as unknown as CanvasRenderingContext2D);
+  graph = new Graph(createContainer(400, 200));
+});
+
+afterEach(() => {
+  outline?.destroy();
+  graph.destroy();
+  document.body.innerHTML = '';
+  jest.restoreAllMocks();
+});
+
+const createOutline = () => {
+  outline = new SnapshotOutline(graph, createContainer(210, 110));
+  return outline;
+};
+
+describe('snapshot', () => {
+  test('the outline graph does not share the model', () => {
+    const vertex = graph.insertVertex({ value: 'v', position: [10, 20], size: [30, 40] });
+    createOutline();
+
+    const outlineGraph = outline.outline!;
+    expect(outlineGraph.getDataModel()).not.toBe(graph.getDataModel());
+    expect(outlineGraph.getView().getState(vertex)).toBeFalsy();
+    expect(outline.canvas!.parentNode).toBe(outlineGraph.container);
+  });
+
+  test('entries are created for vertices and edges', () => {
+    const v1 = graph.insertVertex({
+      value: 'v1',
+      position: [10, 20],
+      size: [30, 40],
+      style: { fillColor: 'red' },
+    });
+    const v2 = graph.insertVertex({ value: 'v2', position: [100, 20], size: [30, 40] });
+    const edge = graph.insertEdge({ source: v1, target: v2 });
+    graph.getView().scaleAndTranslate(2, 5, 5);
+    createOutline();
+
+    expect([...outline.snapshot.keys()]).toEqual([v1, v2, edge]);
+    expect(outline.snapshot.get(v1)).toEqual({
+      x: 10,
+      y: 20,
+      width: 30,
+      height: 40,
+      fillColor: 'red',
+      strokeColor: '#6482B9',
+      points: null,
+    });
+    expect(outline.snapshot.get(edge)!.points).toEqual([
+      new Point(40, 40),
+      new Point(100, 40),
+    ]);
+  });
+
+  test('changes are applied incrementally', () => {
+    const v1 = graph.insertVertex({ value: 'v1', position: [10, 20], size: [30, 40] });
+    const v2 = graph.insertVertex({ value: 'v2', position: [100, 20], size: [30, 40] });
+    const edge = graph.insertEdge({ source: v1, target: v2 });
+    createOutline();
+    const v2Entry = outline.snapshot.get(v2);
+    const rebuildSpy = jest.spyOn(outline, 'rebuildSnapshot');
+
+    graph.getDataModel().setGeometry(v1, new Geometry(10, 100, 30, 40));
+
+    expect(rebuildSpy).not.toHaveBeenCalled();
+    expect(outline.snapshot.get(v1)!.y).toBe(100);
+    // the connected edge is updated, the other vertex is kept
+    expect(outline.snapshot.get(edge)!.points![0]).toEqual(
+      graph.getView().getState(edge)!.absolutePoints[0]
+    );
+    expect(outline.snapshot.get(v2)).toBe(v2Entry);
+
+    graph.removeCells([v1]);
+    expect([...outline.snapshot.keys()]).toEqual([v2]);
+  });
+
+  test('the edges rerouted by the changes of other cells are updated', () => {
+    const v1 = graph.insertVertex({ value: 'v1', position: [10, 20], size: [30, 40] });
+    const v2 = graph.insertVertex({ value: 'v2', position: [100, 20], size: [30, 40] });
+    const waypoint = graph.insertVertex({
+      value: 'w',
+      position: [50, 100],
+      size: [20, 20],
+    });
+    // The route depends on a cell which is not a terminal of the edge
+    const edgeStyle: EdgeStyleFunction = (state, _source, _target, _points, result) => {
+      const waypointState = state.view.getState(waypoint)!;
+      result.push(new Point(waypointState.getCenterX(), waypointState.getCenterY()));
+    };
+    const edge = graph.insertEdge({ source: v1, target: v2, style: { edgeStyle } });
+    createOutline();
+
+    graph.batchUpdate(() => {
+      graph.getDataModel().setGeometry(waypoint, new Geometry(50, 150, 20, 20));
+      // Like the edge styles validating again the edges depending on the changed cells
+      graph.getView().invalidate(edge, false, false);
+    });
+
+    expect(outline.snapshot.get(edge)!.points![1]).toEqual(new Point(60, 160));
+  });
+
+  test('the snapshot is rebuilt after a refresh of the source graph', () => {
+    graph.insertVertex({ value: 'v', position: [10, 20], size: [30, 40] });
+    createOutline();
+    const rebuildSpy = jest.spyOn(outline, 'rebuildSnapshot');
+
+    graph.refresh();
+
+    expect(rebuildSpy).toHaveBeenCalledTimes(1);
+    expect(outline.snapshot.size).toBe(1);
+  });
+
+  test('suspended outline is rebuilt when updated with revalidation', () => {
+    createOutline();
+    outline.suspended = true;
+    const vertex = graph.insertVertex({ value: 'v', position: [10, 20], size: [30, 40] });
+    expect(outline.snapshot.size).toBe(0);
+
+    outline.suspended = false;
+    outline.update(true);
+    expect([...outline.snapshot.keys()]).toEqual([vertex]);
+  });
+});
+
+describe('painting', () => {
+  test('vertices are filled and edges are stroked with the outline scale', () => {
+    const v1 = graph.insertVertex({ value: 'v1', position: [10, 10], size: [100, 50] });
+    const v2 = graph.insertVertex({ value: 'v2', position: [260, 10], size: [100, 50] });
+    graph.insertEdge({ source: v1, target: v2 });
+    createOutline();
+
+    // the source container is 400 px wide, the outline container 200 px wide without the border
+    expect(outline.outline!.getView().scale).toBe(0.5);
+    expect(calls.filter(([name]) => name === 'fillRect')).toEqual([
+      ['fillRect', 5, 5, 50, 25],
+      ['fillRect', 130, 5, 50, 25],
+    ]);
+    expect(calls.filter(([name]) => name === 'moveTo' || name === 'lineTo')).toEqual([
+      ['moveTo', 55, 17.5],
+      ['lineTo', 130, expect.closeTo(17.5)],
+    ]);
+    expect(outline.canvas!.width).toBe(210);
+  });
+
+  test('painting is skipped when nothing changed', () => {
+    graph.insertVertex({ value: 'v', position: [10, 20], size: [30, 40] });
+    createOutline();
+    calls.length = 0;
+
+    outline.update();
+    expect(calls).toEqual([]);
+
+    graph.getView().setTranslate(20, 0);
+    expect(calls.filter(([name]) => name === 'fillRect')).toHaveLength(1);
+  });
+});
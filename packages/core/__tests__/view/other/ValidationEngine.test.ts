@@ -0,0 +1,194 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, jest, test } from '@jest/globals';
+import {
+  AcyclicRule,
+  type Cell,
+  InternalEvent,
+  RequiredLabelRule,
+  ValidationEngine,
+  type ValidationRule,
+} from '../../../src';
+import { createGraphWithoutContainer } from '../../utils';
+
+/**
+ * Wraps the rule to record the validated cells.
+ */
+const spyRule = (rule: ValidationRule) => {
+  const cells: Cell[] = [];
+  const spy: ValidationRule = {
+    id: rule.id,
+    severity: rule.severity,
+    validate: (cell, graph) => {
+      cells.push(cell);
+      return rule.validate(cell, graph);
+    },
+    getDependentCells: rule.getDependentCells?.bind(rule),
+  };
+  return { spy, cells };
+};
+
+describe('validate', () => {
+  test('all the cells are validated', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: '' });
+    graph.insertVertex({ parent, value: 'v2' });
+    const engine = new ValidationEngine(graph, {
+      rules: [new RequiredLabelRule({ severity: 'warning' })],
+    });
+    const listener = jest.fn();
+    engine.addListener(InternalEvent.VALIDATE, listener);
+
+    const results = engine.validate();
+
+    expect(results).toEqual([
+      {
+        cell: v1,
+        rule: 'requiredLabel',
+        severity: 'warning',
+        message: 'Label is required',
+      },
+    ]);
+    expect(engine.getResults(v1)).toEqual(results);
+    expect(engine.getResults(v1, 'error')).toEqual([]);
+    expect(engine.hasErrors()).toBeFalsy();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('the model changes are ignored when not incremental', () => {
+    const graph = createGraphWithoutContainer();
+    const engine = new ValidationEngine(graph, { rules: [new RequiredLabelRule()] });
+    engine.validate();
+
+    graph.insertVertex({ parent: graph.getDefaultParent(), value: '' });
+
+    expect(engine.isIncremental()).toBeFalsy();
+    expect(engine.getResults()).toEqual([]);
+  });
+
+  test('the warnings are displayed on the cells', () => {
+    const graph = createGraphWithoutContainer();
+    const v1 = graph.insertVertex({ parent: graph.getDefaultParent(), value: '' });
+    const engine = new ValidationEngine(graph, {
+      rules: [new RequiredLabelRule()],
+      showWarnings: true,
+      incremental: true,
+    });
+
+    engine.validate();
+    expect(graph.getCellOverlays(v1)).toHaveLength(1);
+
+    graph.getDataModel().setValue(v1, 'label');
+    expect(graph.getCellOverlays(v1)).toHaveLength(0);
+  });
+});
+
+describe('incremental', () => {
+  test('only the cells touched by a change and their dependents are validated', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: 'v1' });
+    const v2 = graph.insertVertex({ parent, value: 'v2' });
+    const edge = graph.insertEdge({ parent, source: v1, target: v2 });
+    const other = graph.insertVertex({ parent, value: 'other' });
+    const { spy, cells } = spyRule(new RequiredLabelRule());
+    const engine = new ValidationEngine(graph, { rules: [spy], incremental: true });
+    engine.validate();
+    cells.length = 0;
+
+    graph.getDataModel().setValue(v1, '');
+
+    expect(cells).toContain(v1);
+    expect(cells).toContain(edge);
+    expect(cells).toContain(parent);
+    expect(cells).not.toContain(other);
+    expect(engine.getResults().map((result) => result.cell)).toEqual([v1]);
+  });
+
+  test('the results of the removed cells are removed', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const engine = new ValidationEngine(graph, {
+      rules: [new RequiredLabelRule()],
+      incremental: true,
+    });
+    const group = graph.insertVertex({ parent, value: 'group' });
+    const child = graph.insertVertex({ parent: group, value: '' });
+    expect(engine.getResults().map((result) => result.cell)).toEqual([child]);
+
+    const listener = jest.fn();
+    engine.addListener(InternalEvent.VALIDATE, listener);
+    graph.removeCells([group]);
+
+    expect(engine.getResults()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('the cells added with their children are validated', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const group = graph.insertVertex({ parent, value: 'group' });
+    graph.insertVertex({ parent: group, value: '' });
+    const engine = new ValidationEngine(graph, {
+      rules: [new RequiredLabelRule()],
+      incremental: true,
+    });
+
+    const [clone] = graph.importCells([group], 10, 10, parent);
+
+    expect(engine.getResults().map((result) => result.cell)).toEqual([
+      clone.getChildAt(0),
+    ]);
+  });
+
+  test('the dependent cells of the rules are validated', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const [a, b, c] = ['a', 'b', 'c'].map((value) =>
+      graph.insertVertex({ parent, value })
+    );
+    const ab = graph.insertEdge({ parent, source: a, target: b });
+    const bc = graph.insertEdge({ parent, source: b, target: c });
+    const engine = new ValidationEngine(graph, {
+      rules: [new AcyclicRule()],
+      incremental: true,
+    });
+
+    const ca = graph.insertEdge({ parent, source: c, target: a });
+    expect(engine.getResults().map((result) => result.cell)).toEqual(
+      expect.arrayContaining([ab, bc, ca])
+    );
+
+    graph.removeCells([ca]);
+    expect(engine.getResults()).toEqual([]);
+  });
+
+  test('destroy stops the incremental validation', () => {
+    const graph = createGraphWithoutContainer();
+    const engine = new ValidationEngine(graph, {
+      rules: [new RequiredLabelRule()],
+      incremental: true,
+    });
+    engine.destroy();
+
+    graph.insertVertex({ parent: graph.getDefaultParent(), value: '' });
+
+    expect(engine.isIncremental()).toBeFalsy();
+    expect(engine.getResults()).toEqual([]);
+  });
+});
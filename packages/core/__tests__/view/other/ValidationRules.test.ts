@@ -0,0 +1,263 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, test } from '@jest/globals';
+import {
+  AcyclicRule,
+  type Cell,
+  ContainmentRule,
+  type Graph,
+  Multiplicity,
+  MultiplicityRule,
+  PropertyRule,
+  RequiredLabelRule,
+  type ValidationRule,
+} from '../../../src';
+import { createGraphWithoutContainer } from '../../utils';
+
+const validate = (graph: Graph, rule: ValidationRule, cells?: Cell[]) =>
+  graph.getValidationResults([rule], cells);
+
+const createXmlValue = (nodeName: string, attributes: Record<string, string> = {}) => {
+  const node = document.implementation
+    .createDocument('', '', null)
+    .createElement(nodeName);
+
+  for (const [name, value] of Object.entries(attributes)) {
+    node.setAttribute(name, value);
+  }
+  return node;
+};
+
+describe('getValidationResults', () => {
+  test('results are structured objects in the order of the cells and of the rules', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: '' });
+    const v2 = graph.insertVertex({ parent, value: 'v2' });
+    const rules: ValidationRule[] = [
+      new RequiredLabelRule(),
+      {
+        id: 'custom',
+        severity: 'info',
+        validate: (cell) =>
+          cell.isVertex() ? ['first', { message: 'second', severity: 'warning' }] : null,
+      },
+    ];
+
+    expect(graph.getValidationResults(rules)).toEqual([
+      {
+        cell: v1,
+        rule: 'requiredLabel',
+        severity: 'error',
+        message: 'Label is required',
+      },
+      { cell: v1, rule: 'custom', severity: 'info', message: 'first' },
+      { cell: v1, rule: 'custom', severity: 'warning', message: 'second' },
+      { cell: v2, rule: 'custom', severity: 'info', message: 'first' },
+      { cell: v2, rule: 'custom', severity: 'warning', message: 'second' },
+    ]);
+  });
+
+  test('only the given cells are validated', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, value: '' });
+    graph.insertVertex({ parent, value: '' });
+
+    expect(validate(graph, new RequiredLabelRule(), [v1])).toEqual([
+      expect.objectContaining({ cell: v1 }),
+    ]);
+  });
+});
+
+describe('PropertyRule', () => {
+  test('checks the attributes of XML values and the properties of object values', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const valid = graph.insertVertex({
+      parent,
+      value: createXmlValue('task', { cost: '3' }),
+    });
+    const invalid = graph.insertVertex({
+      parent,
+      value: createXmlValue('task', { cost: '-1' }),
+    });
+    const missing = graph.insertVertex({ parent, value: { name: 'object' } });
+    const object = graph.insertVertex({ parent, value: { cost: 2 } });
+    const rule = new PropertyRule({
+      property: 'cost',
+      test: (value) => value != null && Number(value) >= 0,
+      severity: 'warning',
+      message: 'The cost must be positive',
+    });
+
+    const results = validate(graph, rule);
+
+    expect(results.map((result) => result.cell)).toEqual([invalid, missing]);
+    expect(results[0]).toEqual({
+      cell: invalid,
+      rule: 'property:cost',
+      severity: 'warning',
+      message: 'The cost must be positive',
+    });
+    expect(results.map((result) => result.cell)).not.toContain(valid);
+    expect(results.map((result) => result.cell)).not.toContain(object);
+  });
+});
+
+describe('RequiredLabelRule', () => {
+  test('checks the labels of the vertices only by default', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const blank = graph.insertVertex({ parent, value: '  ' });
+    const v2 = graph.insertVertex({ parent, value: 'v2' });
+    graph.insertEdge({ parent, source: blank, target: v2 });
+
+    expect(validate(graph, new RequiredLabelRule()).map((result) => result.cell)).toEqual(
+      [blank]
+    );
+    expect(
+      validate(graph, new RequiredLabelRule({ filter: (cell) => cell.isEdge() }))
+    ).toHaveLength(1);
+  });
+});
+
+describe('AcyclicRule', () => {
+  test('the edges of the cycles are invalid', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const [a, b, c, d] = ['a', 'b', 'c', 'd'].map((value) =>
+      graph.insertVertex({ parent, value })
+    );
+    const ab = graph.insertEdge({ parent, source: a, target: b });
+    const bc = graph.insertEdge({ parent, source: b, target: c });
+    const ca = graph.insertEdge({ parent, source: c, target: a });
+    graph.insertEdge({ parent, source: c, target: d });
+    const loop = graph.insertEdge({ parent, source: d, target: d });
+
+    expect(validate(graph, new AcyclicRule()).map((result) => result.cell)).toEqual([
+      ab,
+      bc,
+      ca,
+      loop,
+    ]);
+  });
+
+  test('only the edges accepted by the filter are followed', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const a = graph.insertVertex({ parent });
+    const b = graph.insertVertex({ parent });
+    graph.insertEdge({ parent, source: a, target: b });
+    graph.insertEdge({ parent, source: b, target: a, style: { dashed: true } });
+
+    const rule = new AcyclicRule({
+      filter: (cell) => cell.isEdge() && !cell.getStyle().dashed,
+    });
+    expect(validate(graph, rule)).toEqual([]);
+  });
+
+  test('the dependent cells are the edges connected to the terminals', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const [a, b, c] = ['a', 'b', 'c'].map((value) =>
+      graph.insertVertex({ parent, value })
+    );
+    const ab = graph.insertEdge({ parent, source: a, target: b });
+    const bc = graph.insertEdge({ parent, source: b, target: c });
+    graph.insertVertex({ parent, value: 'unconnected' });
+
+    expect(new AcyclicRule().getDependentCells(ab)).toEqual([ab, bc]);
+  });
+});
+
+describe('ContainmentRule', () => {
+  test('children whose type is not allowed in their parent are invalid', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const pool = graph.insertVertex({ parent, value: createXmlValue('Pool') });
+    const lane = graph.insertVertex({ parent: pool, value: createXmlValue('lane') });
+    const task = graph.insertVertex({ parent: pool, value: createXmlValue('task') });
+    const untyped = graph.insertVertex({ parent: pool, value: 'untyped' });
+    graph.insertVertex({ parent: lane, value: createXmlValue('task') });
+
+    const results = validate(
+      graph,
+      new ContainmentRule({ allowedChildren: { pool: ['lane'], lane: ['task'] } })
+    );
+
+    expect(results.map((result) => result.cell)).toEqual([task, untyped]);
+    expect(results[0].message).toBe('This cell is not allowed in its parent');
+  });
+
+  test('the types are the base style names by default or given by getType', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const group = graph.insertVertex({ parent, style: { baseStyleNames: ['group'] } });
+    const child = graph.insertVertex({
+      parent: group,
+      style: { baseStyleNames: ['note'] },
+    });
+
+    expect(
+      validate(graph, new ContainmentRule({ allowedChildren: { group: ['note'] } }))
+    ).toEqual([]);
+    expect(
+      validate(
+        graph,
+        new ContainmentRule({
+          allowedChildren: { container: ['note'] },
+          getType: (cell) => (cell === group ? 'container' : 'other'),
+        })
+      ).map((result) => result.cell)
+    ).toEqual([child]);
+  });
+});
+
+describe('MultiplicityRule', () => {
+  test('checks the number of edges of the vertices with the severity of the multiplicity', () => {
+    const graph = createGraphWithoutContainer();
+    const parent = graph.getDefaultParent();
+    const multiplicity = new Multiplicity(
+      true,
+      'task',
+      null,
+      null,
+      1,
+      1,
+      null,
+      'A task must have one outgoing edge',
+      null
+    );
+    multiplicity.severity = 'warning';
+    graph.multiplicities.push(multiplicity);
+    const unconnected = graph.insertVertex({ parent, value: createXmlValue('task') });
+    const connected = graph.insertVertex({ parent, value: createXmlValue('task') });
+    const other = graph.insertVertex({ parent, value: 'other' });
+    graph.insertEdge({ parent, source: connected, target: other });
+
+    expect(validate(graph, new MultiplicityRule())).toEqual([
+      {
+        cell: unconnected,
+        rule: 'multiplicity',
+        severity: 'warning',
+        message: 'A task must have one outgoing edge',
+      },
+    ]);
+    expect(validate(graph, new MultiplicityRule({ multiplicities: [] }))).toEqual([]);
+  });
+});
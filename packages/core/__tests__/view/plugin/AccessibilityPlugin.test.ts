@@ -0,0 +1,201 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, describe, expect, test } from '@jest/globals';
+import { AccessibilityPlugin, BaseGraph, type Cell } from '../../../src';
+
+const createGraph = (plugin: typeof AccessibilityPlugin = AccessibilityPlugin) => {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const graph = new BaseGraph({ container, plugins: [plugin] });
+  const accessibility = graph.getPlugin<AccessibilityPlugin>('accessibility')!;
+  return { graph, accessibility };
+};
+
+/**
+ * Creates a diagram where `a` is connected to `b` and `c`, and `b` is connected to `c`.
+ */
+const createDiagram = (graph: BaseGraph) => {
+  const parent = graph.getDefaultParent();
+  const a = graph.insertVertex({ parent, value: 'A', position: [0, 0], size: [40, 40] });
+  const b = graph.insertVertex({
+    parent,
+    value: 'B',
+    position: [100, 0],
+    size: [40, 40],
+  });
+  const c = graph.insertVertex({
+    parent,
+    value: 'C',
+    position: [200, 0],
+    size: [40, 40],
+  });
+  const ab = graph.insertEdge({ parent, value: 'ab', source: a, target: b });
+  const ac = graph.insertEdge({ parent, source: a, target: c });
+  const bc = graph.insertEdge({ parent, source: b, target: c });
+  return { a, b, c, ab, ac, bc };
+};
+
+const pressKey = (accessibility: AccessibilityPlugin, key: string, ctrlKey = false) => {
+  accessibility.tree.dispatchEvent(
+    new KeyboardEvent('keydown', { key, ctrlKey, bubbles: true })
+  );
+};
+
+const getLabel = (accessibility: AccessibilityPlugin, cell: Cell) =>
+  accessibility.getItem(cell)?.getAttribute('aria-label');
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('ARIA tree', () => {
+  test('the vertices and the edges are items named after their labels and terminals', () => {
+    const { graph, accessibility } = createGraph();
+    const { a, b, ab, ac } = createDiagram(graph);
+
+    expect(accessibility.tree.getAttribute('role')).toBe('tree');
+    expect(accessibility.tree.parentNode).toBe(graph.container);
+    expect(accessibility.tree.querySelectorAll('[role="treeitem"]')).toHaveLength(6);
+    expect(getLabel(accessibility, a)).toBe('A');
+    expect(getLabel(accessibility, b)).toBe('B');
+    expect(getLabel(accessibility, ab)).toBe('ab, from A to B');
+    expect(getLabel(accessibility, ac)).toBe('Edge, from A to C');
+  });
+
+  test('the children of the groups are nested and the HTML labels are read as text', () => {
+    const { graph, accessibility } = createGraph();
+    graph.setHtmlLabels(true);
+    const parent = graph.getDefaultParent();
+    const group = graph.insertVertex({ parent, value: '<b>Group</b><br>name' });
+    const child = graph.insertVertex({ parent: group, value: 'child' });
+
+    const item = accessibility.getItem(group)!;
+    expect(item.getAttribute('aria-label')).toBe('Group name');
+    expect(item.getAttribute('aria-expanded')).toBe('true');
+    expect(accessibility.getItem(child)!.parentElement!.parentElement).toBe(item);
+    expect(accessibility.getItem(child)!.getAttribute('aria-level')).toBe('2');
+
+    graph.foldCells(true, false, [group]);
+
+    // The tree is rebuilt when the model changes
+    expect(accessibility.getItem(group)!.getAttribute('aria-expanded')).toBe('false');
+    expect(accessibility.getItem(child)).toBeUndefined();
+  });
+
+  test('the accessible names can be customized', () => {
+    class CustomAccessibilityPlugin extends AccessibilityPlugin {
+      override getAccessibleName(cell: Cell): string {
+        return `custom ${cell.getId()}`;
+      }
+    }
+    const { graph, accessibility } = createGraph(CustomAccessibilityPlugin);
+    const vertex = graph.insertVertex({ parent: graph.getDefaultParent(), value: 'v' });
+
+    expect(getLabel(accessibility, vertex)).toBe(`custom ${vertex.getId()}`);
+  });
+
+  test('the tree is removed when the graph is destroyed', () => {
+    const { graph, accessibility } = createGraph();
+
+    graph.destroy();
+
+    expect(accessibility.tree.parentNode).toBeNull();
+    expect(accessibility.liveRegion.parentNode).toBeNull();
+  });
+});
+
+describe('keyboard navigation', () => {
+  test('the arrow keys move the focus between the cells and along the edges', () => {
+    const { graph, accessibility } = createGraph();
+    const { a, b, c, ab, ac, bc } = createDiagram(graph);
+    accessibility.tree.focus();
+
+    expect(accessibility.getFocusedCell()).toBe(a);
+    expect(accessibility.highlight.state?.cell).toBe(a);
+    expect(accessibility.tree.getAttribute('aria-activedescendant')).toBe(
+      accessibility.getItem(a)!.id
+    );
+
+    pressKey(accessibility, 'ArrowDown');
+    expect(accessibility.getFocusedCell()).toBe(b);
+
+    // Follows the outgoing edges of b, then goes to the edges of a
+    pressKey(accessibility, 'ArrowRight');
+    expect(accessibility.getFocusedCell()).toBe(bc);
+    pressKey(accessibility, 'ArrowRight');
+    expect(accessibility.getFocusedCell()).toBe(c);
+    pressKey(accessibility, 'ArrowLeft');
+    expect(accessibility.getFocusedCell()).toBe(ac);
+    pressKey(accessibility, 'ArrowLeft');
+    expect(accessibility.getFocusedCell()).toBe(a);
+
+    // Cycles through the outgoing edges of a
+    pressKey(accessibility, 'ArrowRight');
+    expect(accessibility.getFocusedCell()).toBe(ab);
+    pressKey(accessibility, 'ArrowDown');
+    expect(accessibility.getFocusedCell()).toBe(ac);
+    pressKey(accessibility, 'ArrowDown');
+    expect(accessibility.getFocusedCell()).toBe(ab);
+
+    pressKey(accessibility, 'End');
+    expect(accessibility.getFocusedCell()).toBe(bc);
+    pressKey(accessibility, 'ArrowDown');
+    expect(accessibility.getFocusedCell()).toBe(bc);
+    pressKey(accessibility, 'Home');
+    expect(accessibility.getFocusedCell()).toBe(a);
+
+    accessibility.tree.blur();
+    expect(accessibility.highlight.state).toBeNull();
+  });
+
+  test('the focus is reset when the focused cell is removed', () => {
+    const { graph, accessibility } = createGraph();
+    const { a } = createDiagram(graph);
+    accessibility.focus(a);
+
+    graph.removeCells([a]);
+
+    expect(accessibility.getFocusedCell()).toBeNull();
+    expect(accessibility.tree.hasAttribute('aria-activedescendant')).toBeFalsy();
+  });
+});
+
+describe('selection', () => {
+  test('the focused cell is selected with the keyboard and the changes are announced', () => {
+    const { graph, accessibility } = createGraph();
+    const { a, b } = createDiagram(graph);
+    accessibility.focus(a);
+
+    pressKey(accessibility, 'Enter');
+    expect(graph.getSelectionCells()).toEqual([a]);
+    expect(accessibility.getItem(a)!.getAttribute('aria-selected')).toBe('true');
+    expect(accessibility.liveRegion.textContent).toBe('A selected');
+
+    accessibility.focus(b);
+    pressKey(accessibility, ' ', true);
+    expect(graph.getSelectionCells()).toEqual([a, b]);
+    expect(accessibility.liveRegion.textContent).toBe('2 cells selected');
+
+    pressKey(accessibility, ' ', true);
+    expect(graph.getSelectionCells()).toEqual([a]);
+
+    pressKey(accessibility, 'Escape');
+    expect(graph.isSelectionEmpty()).toBeTruthy();
+    expect(accessibility.getItem(a)!.getAttribute('aria-selected')).toBe('false');
+    expect(accessibility.liveRegion.textContent).toBe('Selection cleared');
+  });
+});
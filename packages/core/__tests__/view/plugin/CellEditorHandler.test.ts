@@ -0,0 +1,159 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, describe, expect, test } from '@jest/globals';
+import {
+  BaseGraph,
+  CellEditorHandler,
+  HtmlSanitizerConfig,
+  resetHtmlSanitizerConfig,
+} from '../../../src';
+
+const createGraph = (
+  richText: boolean,
+  value = '<b onclick="alert(1)">Bold</b> text'
+) => {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const graph = new BaseGraph({ container, plugins: [CellEditorHandler] });
+  graph.setHtmlLabels(true);
+  const cellEditor = graph.getPlugin<CellEditorHandler>('CellEditorHandler')!;
+  cellEditor.richText = richText;
+  const cell = graph.insertVertex({
+    parent: graph.getDefaultParent(),
+    value,
+    size: [100, 40],
+  });
+  return { graph, cellEditor, cell };
+};
+
+const selectContents = (node: Node) => {
+  const range = document.createRange();
+  range.selectNodeContents(node);
+  window.getSelection()!.removeAllRanges();
+  window.getSelection()!.addRange(range);
+};
+
+afterEach(() => {
+  resetHtmlSanitizerConfig();
+});
+
+describe('rich text', () => {
+  test('the HTML label is edited as rich text with a toolbar', () => {
+    const { graph, cellEditor, cell } = createGraph(true);
+
+    graph.startEditingAtCell(cell);
+
+    expect(cellEditor.textarea!.innerHTML).toBe('<b onclick="alert(1)">Bold</b> text');
+    expect(cellEditor.textarea!.className).toBe('mxCellEditor mxRichTextEditor');
+    expect(cellEditor.getRichTextCommands()).not.toBeNull();
+    expect(cellEditor.toolbar!.parentNode).toBe(graph.container);
+
+    graph.stopEditing(true);
+
+    expect(cellEditor.getRichTextCommands()).toBeNull();
+    expect(cellEditor.toolbar).toBeNull();
+  });
+
+  test('the markup and the lines of the label are kept', () => {
+    const value =
+      '<font color="red">red</font>\n<table><tbody><tr><td>cell</td></tr></tbody></table>';
+    const { graph, cellEditor, cell } = createGraph(true, value);
+
+    graph.startEditingAtCell(cell);
+
+    expect(cellEditor.textarea!.innerHTML).toBe(
+      '<font color="red">red</font><br><table><tbody><tr><td>cell</td></tr></tbody></table>'
+    );
+
+    graph.stopEditing(false);
+
+    expect(cell.getValue()).toBe(value);
+  });
+
+  test('the HTML label is sanitized if the sanitizer is enabled', () => {
+    HtmlSanitizerConfig.enabled = true;
+    const { graph, cellEditor, cell } = createGraph(true);
+
+    graph.startEditingAtCell(cell);
+
+    expect(cellEditor.textarea!.innerHTML).toBe('<b>Bold</b> text');
+  });
+
+  test('the shortcuts format the text', () => {
+    const { graph, cellEditor, cell } = createGraph(true, 'new');
+    graph.startEditingAtCell(cell);
+    const textarea = cellEditor.textarea!;
+    selectContents(textarea);
+
+    textarea.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'u', ctrlKey: true, bubbles: true })
+    );
+    expect(textarea.innerHTML).toBe('<u>new</u>');
+
+    graph.stopEditing(false);
+
+    expect(cell.getValue()).toBe('<u>new</u>');
+  });
+
+  test('only the formatting produced by the commands is kept in the pasted HTML', () => {
+    const { graph, cellEditor, cell } = createGraph(true, 'text');
+    graph.startEditingAtCell(cell);
+    const textarea = cellEditor.textarea!;
+    selectContents(textarea);
+    const evt = new Event('paste', { bubbles: true, cancelable: true });
+    Object.defineProperty(evt, 'clipboardData', {
+      value: {
+        getData: () => '<h1 class="title">new</h1><img src="x" onerror="alert(1)">',
+      },
+    });
+
+    textarea.dispatchEvent(evt);
+
+    expect(evt.defaultPrevented).toBeTruthy();
+    expect(textarea.innerHTML).toBe('new');
+
+    graph.stopEditing(false);
+
+    expect(cell.getValue()).toBe('new');
+  });
+
+  test('the undo shortcut undoes the changes of the editing session', () => {
+    const { graph, cellEditor, cell } = createGraph(true);
+    graph.startEditingAtCell(cell);
+    const textarea = cellEditor.textarea!;
+    selectContents(textarea);
+    cellEditor.getRichTextCommands()!.italic();
+
+    textarea.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true })
+    );
+
+    expect(textarea.innerHTML).toBe('<b onclick="alert(1)">Bold</b> text');
+  });
+
+  test('the labels are edited as plain text by default', () => {
+    const { graph, cellEditor, cell } = createGraph(false);
+
+    graph.startEditingAtCell(cell);
+
+    expect(cellEditor.textarea!.innerHTML).toBe(
+      '&lt;b onclick="alert(1)"&gt;Bold&lt;/b&gt; text'
+    );
+    expect(cellEditor.getRichTextCommands()).toBeNull();
+    expect(cellEditor.toolbar).toBeNull();
+  });
+});
@@ -14,8 +14,38 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { expect, test } from '@jest/globals';
-import { BaseGraph, PanningHandler } from '../../../src';
+import { afterEach, describe, expect, jest, test } from '@jest/globals';
+import { BaseGraph, InternalEvent, PanningHandler } from '../../../src';
+
+const createTouchGraph = () => {
+  const graph = new BaseGraph({
+    container: document.createElement('div'),
+    plugins: [PanningHandler],
+  });
+  const panningHandler = graph.getPlugin<PanningHandler>('PanningHandler')!;
+  panningHandler.setMultiTouchEnabled(true);
+  return { graph, panningHandler };
+};
+
+/**
+ * Dispatches a touch `PointerEvent` on the container. The `PointerEvent` is created from a `MouseEvent`, as jsdom does
+ * not implement it.
+ */
+const touch = (
+  graph: BaseGraph,
+  type: string,
+  pointerId: number,
+  clientX: number,
+  clientY: number
+) => {
+  const evt = new MouseEvent(type, { clientX, clientY, bubbles: true, cancelable: true });
+  Object.defineProperties(evt, {
+    pointerId: { value: pointerId },
+    pointerType: { value: 'touch' },
+  });
+  graph.container.dispatchEvent(evt);
+  return evt;
+};
 
 describe('onDestroy', () => {
   test('PanningManager.destroy() is called when PanningHandler is destroyed', () => {
@@ -51,3 +81,151 @@ describe('onDestroy', () => {
     expect(stopMock).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('multi-touch gestures', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('disabled by default', () => {
+    const graph = new BaseGraph({ plugins: [PanningHandler] });
+    const panningHandler = graph.getPlugin<PanningHandler>('PanningHandler')!;
+    expect(panningHandler.isMultiTouchEnabled()).toBeFalsy();
+
+    touch(graph, 'pointerdown', 1, 100, 100);
+    touch(graph, 'pointerdown', 2, 200, 100);
+    touch(graph, 'pointermove', 2, 300, 100);
+
+    expect(graph.view.scale).toBe(1);
+    expect(panningHandler.isGestureActive()).toBeFalsy();
+  });
+
+  test('setMultiTouchEnabled prevents the browser gestures', () => {
+    const { graph, panningHandler } = createTouchGraph();
+    expect(graph.container.style.touchAction).toBe('none');
+
+    panningHandler.setMultiTouchEnabled(false);
+    expect(graph.container.style.touchAction).toBe('');
+  });
+
+  test('pinch zooms around the midpoint of the touch points', () => {
+    const { graph } = createTouchGraph();
+    const zoomTo = jest.spyOn(graph, 'zoomTo');
+
+    touch(graph, 'pointerdown', 1, 100, 100);
+    touch(graph, 'pointerdown', 2, 200, 100);
+    touch(graph, 'pointermove', 2, 300, 100);
+
+    expect(zoomTo).toHaveBeenCalledWith(2);
+    expect(graph.view.scale).toBe(2);
+    // The point (150, 100) under the initial midpoint is now under the midpoint (200, 100)
+    expect(graph.view.translate.x).toBeCloseTo(200 / 2 - 150);
+    expect(graph.view.translate.y).toBeCloseTo(100 / 2 - 100);
+  });
+
+  test('the scale is limited', () => {
+    const { graph, panningHandler } = createTouchGraph();
+    panningHandler.maxScale = 1.5;
+
+    touch(graph, 'pointerdown', 1, 100, 100);
+    touch(graph, 'pointerdown', 2, 110, 100);
+    touch(graph, 'pointermove', 2, 400, 100);
+
+    expect(graph.view.scale).toBe(1.5);
+  });
+
+  test('two fingers pan the graph', () => {
+    const { graph, panningHandler } = createTouchGraph();
+    const listener = jest.fn();
+    panningHandler.addListener(InternalEvent.PAN_START, listener);
+    panningHandler.addListener(InternalEvent.PAN_END, listener);
+
+    touch(graph, 'pointerdown', 1, 100, 100);
+    touch(graph, 'pointerdown', 2, 200, 100);
+    touch(graph, 'pointermove', 1, 130, 140);
+    touch(graph, 'pointermove', 2, 230, 140);
+
+    expect(graph.view.scale).toBe(1);
+    expect(graph.view.translate.x).toBeCloseTo(30);
+    expect(graph.view.translate.y).toBeCloseTo(40);
+    expect(panningHandler.isGestureActive()).toBeTruthy();
+
+    panningHandler.inertiaEnabled = false;
+    touch(graph, 'pointerup', 1, 130, 140);
+
+    expect(panningHandler.isGestureActive()).toBeFalsy();
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    // A single touch point does not pan the graph
+    touch(graph, 'pointermove', 2, 300, 300);
+    expect(graph.view.translate.x).toBeCloseTo(30);
+  });
+
+  test('pinch does not zoom when pinch is disabled', () => {
+    const { graph, panningHandler } = createTouchGraph();
+    panningHandler.setPinchEnabled(false);
+
+    touch(graph, 'pointerdown', 1, 100, 100);
+    touch(graph, 'pointerdown', 2, 200, 100);
+    touch(graph, 'pointermove', 2, 300, 100);
+
+    expect(graph.view.scale).toBe(1);
+    expect(graph.view.translate.x).toBeCloseTo(50);
+  });
+
+  test('the graph keeps scrolling after a fast pan', () => {
+    jest.useFakeTimers();
+    const { graph, panningHandler } = createTouchGraph();
+    const panEnd = jest.fn();
+    panningHandler.addListener(InternalEvent.PAN_END, panEnd);
+
+    touch(graph, 'pointerdown', 1, 100, 100);
+    touch(graph, 'pointerdown', 2, 200, 100);
+    jest.advanceTimersByTime(10);
+    touch(graph, 'pointermove', 1, 110, 100);
+    touch(graph, 'pointermove', 2, 210, 100);
+    jest.advanceTimersByTime(10);
+    touch(graph, 'pointerup', 1, 110, 100);
+
+    const x = graph.view.translate.x;
+    expect(panningHandler.isGestureActive()).toBeTruthy();
+    expect(panEnd).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(2000);
+
+    expect(graph.view.translate.x).toBeGreaterThan(x + 10);
+    expect(graph.view.translate.y).toBeCloseTo(0);
+    expect(panningHandler.isGestureActive()).toBeFalsy();
+    expect(panEnd).toHaveBeenCalledTimes(1);
+  });
+
+  test('a new touch stops the inertial scrolling', () => {
+    jest.useFakeTimers();
+    const { graph, panningHandler } = createTouchGraph();
+
+    touch(graph, 'pointerdown', 1, 100, 100);
+    touch(graph, 'pointerdown', 2, 200, 100);
+    jest.advanceTimersByTime(10);
+    touch(graph, 'pointermove', 1, 120, 100);
+    touch(graph, 'pointermove', 2, 220, 100);
+    touch(graph, 'pointerup', 1, 120, 100);
+    touch(graph, 'pointerup', 2, 220, 100);
+    jest.advanceTimersByTime(32);
+    touch(graph, 'pointerdown', 3, 0, 0);
+
+    const x = graph.view.translate.x;
+    jest.advanceTimersByTime(1000);
+
+    expect(graph.view.translate.x).toBe(x);
+    expect(panningHandler.isGestureActive()).toBeFalsy();
+  });
+
+  test('the pointer events of the gesture are consumed', () => {
+    const { graph } = createTouchGraph();
+
+    touch(graph, 'pointerdown', 1, 100, 100);
+    const evt = touch(graph, 'pointerdown', 2, 200, 100);
+
+    expect(evt.defaultPrevented).toBeTruthy();
+  });
+});
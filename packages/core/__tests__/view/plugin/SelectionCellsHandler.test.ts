@@ -239,6 +239,7 @@ describe('Handler management', () => {
 
       test.each([
         ['ManhattanConnector', EdgeStyle.ManhattanConnector],
+        ['ObstacleAvoidingConnector', EdgeStyle.ObstacleAvoidingConnector],
         ['OrthogonalConnector', EdgeStyle.OrthConnector],
         ['SegmentConnector', EdgeStyle.SegmentConnector],
       ])('Expect EdgeSegmentHandler for edgeStyle: %s', (_name, edgeStyle) => {
@@ -270,6 +271,7 @@ describe('Handler management', () => {
       ['ElbowConnector', EdgeStyle.ElbowConnector],
       ['Loop', EdgeStyle.Loop],
       ['ManhattanConnector', EdgeStyle.ManhattanConnector],
+      ['ObstacleAvoidingConnector', EdgeStyle.ObstacleAvoidingConnector],
       ['OrthogonalConnector', EdgeStyle.OrthConnector],
       ['SegmentConnector', EdgeStyle.SegmentConnector],
       ['SideToSide', EdgeStyle.SideToSide],
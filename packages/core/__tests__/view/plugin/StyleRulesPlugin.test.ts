@@ -0,0 +1,121 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, test } from '@jest/globals';
+import { type AbstractGraph, BaseGraph, type Cell, StyleRulesPlugin } from '../../../src';
+import { createGraphWithoutContainer } from '../../utils';
+
+const createGraph = () => {
+  const graph = new BaseGraph({
+    container: document.createElement('div'),
+    plugins: [StyleRulesPlugin],
+  });
+  const plugin = graph.getPlugin<StyleRulesPlugin>('style-rules')!;
+  return { graph, plugin };
+};
+
+const getFillColor = (graph: AbstractGraph, cell: Cell) =>
+  graph.getView().getState(cell)?.style.fillColor;
+
+describe('style rules evaluated by the graph', () => {
+  test('the style is recomputed when the value changes', () => {
+    const graph = createGraphWithoutContainer();
+    graph.getStylesheet().addStyleRule({
+      selector: { value: 'error' },
+      style: { fillColor: 'red' },
+    });
+    const vertex = graph.insertVertex({
+      parent: graph.getDefaultParent(),
+      value: 'ok',
+      style: { fillColor: 'green' },
+    });
+    expect(getFillColor(graph, vertex)).toBe('green');
+
+    graph.getDataModel().setValue(vertex, 'error');
+    // The rule does not override the cell style
+    expect(getFillColor(graph, vertex)).toBe('green');
+
+    graph.getDataModel().setStyle(vertex, {});
+    expect(getFillColor(graph, vertex)).toBe('red');
+
+    graph.getDataModel().setValue(vertex, 'ok');
+    expect(getFillColor(graph, vertex)).toBe('#C3D9FF');
+  });
+
+  test('the selection and the hovered cell are ignored without the plugin', () => {
+    const graph = createGraphWithoutContainer();
+    graph.getStylesheet().addStyleRule({
+      selector: { selected: true },
+      style: { fillColor: 'red' },
+    });
+    const vertex = graph.insertVertex({ parent: graph.getDefaultParent() });
+
+    graph.setSelectionCell(vertex);
+
+    expect(graph.getCellStyle(vertex).fillColor).toBe('#C3D9FF');
+  });
+});
+
+describe('StyleRulesPlugin', () => {
+  test('the style is recomputed when the selection changes', () => {
+    const { graph } = createGraph();
+    graph.getStylesheet().addStyleRule({
+      selector: { kind: 'vertex', selected: true },
+      style: { fillColor: 'red' },
+      important: true,
+    });
+    const parent = graph.getDefaultParent();
+    const v1 = graph.insertVertex({ parent, style: { fillColor: 'green' } });
+    const v2 = graph.insertVertex({ parent });
+
+    graph.setSelectionCell(v1);
+    expect(getFillColor(graph, v1)).toBe('red');
+    expect(getFillColor(graph, v2)).toBe('#C3D9FF');
+
+    graph.setSelectionCell(v2);
+    expect(getFillColor(graph, v1)).toBe('green');
+    expect(getFillColor(graph, v2)).toBe('red');
+  });
+
+  test('the style is recomputed when the hovered cell changes', () => {
+    const { graph, plugin } = createGraph();
+    graph.getStylesheet().addStyleRule({
+      selector: { hovered: true },
+      style: { strokeWidth: 3 },
+    });
+    const vertex = graph.insertVertex({ parent: graph.getDefaultParent() });
+    const shape = graph.getView().getState(vertex)!.shape!;
+
+    plugin.setHoveredCell(vertex);
+    expect(plugin.getHoveredCell()).toBe(vertex);
+    expect(graph.getView().getState(vertex)!.style.strokeWidth).toBe(3);
+    expect(shape.strokeWidth).toBe(3);
+
+    graph.container.dispatchEvent(new MouseEvent('mouseleave'));
+    expect(plugin.getHoveredCell()).toBeNull();
+    expect(graph.getView().getState(vertex)!.style.strokeWidth).toBeUndefined();
+  });
+
+  test('the listeners are removed when the graph is destroyed', () => {
+    const { graph, plugin } = createGraph();
+    const vertex = graph.insertVertex({ parent: graph.getDefaultParent() });
+    plugin.setHoveredCell(vertex);
+
+    graph.destroy();
+
+    expect(plugin.getHoveredCell()).toBeNull();
+  });
+});
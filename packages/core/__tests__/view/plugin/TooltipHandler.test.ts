@@ -0,0 +1,40 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, expect, test } from '@jest/globals';
+import {
+  BaseGraph,
+  HtmlSanitizerConfig,
+  resetHtmlSanitizerConfig,
+  TooltipHandler,
+} from '../../../src';
+
+afterEach(() => {
+  resetHtmlSanitizerConfig();
+});
+
+test('the HTML tooltips are sanitized when the sanitization is enabled', () => {
+  HtmlSanitizerConfig.enabled = true;
+  const graph = new BaseGraph({
+    container: document.createElement('div'),
+    plugins: [TooltipHandler],
+  });
+  const tooltipHandler = graph.getPlugin<TooltipHandler>('TooltipHandler')!;
+
+  tooltipHandler.show('<b onmouseover="alert(1)">tip</b>\nline', 10, 10);
+
+  expect(tooltipHandler.div!.innerHTML).toBe('<b>tip</b><br>line');
+});
@@ -57,7 +57,7 @@ describe('registerDefaultStyleElements', () => {
   // packages/website/docs/usage/tree-shaking.md. Update that table when adding or removing a builtin element.
   test.each([
     ['edge marker', EdgeMarkerRegistry, 9],
-    ['edge style', EdgeStyleRegistry, 8],
+    ['edge style', EdgeStyleRegistry, 9],
     ['perimeter', PerimeterRegistry, 5],
     ['shape', ShapeRegistry, 16],
   ])('registers all builtin %s elements', (_name, registry, expectedCount) => {
@@ -0,0 +1,54 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, describe, expect, test } from '@jest/globals';
+import {
+  BaseGraph,
+  HtmlSanitizerConfig,
+  resetHtmlSanitizerConfig,
+} from '../../../../src';
+
+const renderHtmlLabel = (value: string) => {
+  const graph = new BaseGraph({ container: document.createElement('div') });
+  graph.setHtmlLabels(true);
+  const cell = graph.insertVertex({
+    parent: graph.getDefaultParent(),
+    value,
+    size: [100, 40],
+  });
+  return graph.getView().getState(cell)!.text!.node;
+};
+
+describe('HTML labels', () => {
+  afterEach(() => {
+    resetHtmlSanitizerConfig();
+  });
+
+  test('the label is sanitized when the sanitization is enabled', () => {
+    HtmlSanitizerConfig.enabled = true;
+
+    const node = renderHtmlLabel('<b>label</b><img src="x" onerror="alert(1)">');
+
+    expect(node.querySelector('b')?.textContent).toBe('label');
+    expect(node.querySelector('img')?.hasAttribute('onerror')).toBeFalsy();
+  });
+
+  test('the label is rendered as is by default', () => {
+    const node = renderHtmlLabel('<b>label</b><img src="x" onerror="alert(1)">');
+
+    expect(node.querySelector('img')?.getAttribute('onerror')).toBe('alert(1)');
+  });
+});
@@ -0,0 +1,155 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, test } from '@jest/globals';
+import { StencilBuilder, StencilDescriptionParseError } from '../../../../src';
+import { getXml } from '../../../../src/util/xmlUtils';
+
+const createTagBuilder = () =>
+  new StencilBuilder('tag', { w: 100, h: 50, aspect: 'fixed' })
+    .background()
+    .path((path) =>
+      path
+        .moveTo(0, 0)
+        .lineTo(80, 0)
+        .arcTo(25, 25, 0, false, true, 80, 50)
+        .lineTo(0, 50)
+        .close()
+    )
+    .fillStroke()
+    .foreground()
+    .ellipse(70, 20, 10, 10)
+    .stroke()
+    .text(35, 25, 'Tag', { align: 'center', valign: 'middle' })
+    .constraint(0, 0.5, { name: 'W', perimeter: true })
+    .constraint(1, 0.5);
+
+describe('StencilBuilder', () => {
+  test('the description is written in the stencil XML', () => {
+    expect(getXml(createTagBuilder().toElement())).toBe(
+      '<shape name="tag" w="100" h="50" aspect="fixed">' +
+        '<connections>' +
+        '<constraint x="0" y="0.5" perimeter="1" name="W"/>' +
+        '<constraint x="1" y="0.5" perimeter="0"/>' +
+        '</connections>' +
+        '<background>' +
+        '<path><move x="0" y="0"/><line x="80" y="0"/>' +
+        '<arc rx="25" ry="25" x-axis-rotation="0" large-arc-flag="0" sweep-flag="1" x="80" y="50"/>' +
+        '<line x="0" y="50"/><close/></path>' +
+        '<fillstroke/>' +
+        '</background>' +
+        '<foreground>' +
+        '<ellipse x="70" y="20" w="10" h="10"/>' +
+        '<stroke/>' +
+        '<text str="Tag" x="35" y="25" align="center" valign="middle"/>' +
+        '</foreground>' +
+        '</shape>'
+    );
+  });
+
+  test('the state instructions are written with their attributes', () => {
+    const builder = new StencilBuilder('state')
+      .save()
+      .strokeWidth(2, true)
+      .dashed()
+      .dashPattern([3, 1])
+      .lineCap('flat')
+      .lineJoin('round')
+      .fillAlpha(0.5)
+      .fontStyle(1)
+      .roundRect(0, 0, 100, 100, 10)
+      .includeShape('tag', 10, 10, 20, 20)
+      .restore();
+
+    expect(
+      Array.from(builder.toElement().children[0].children).map((child) => getXml(child))
+    ).toStrictEqual([
+      '<save/>',
+      '<strokewidth width="2" fixed="1"/>',
+      '<dashed dashed="1"/>',
+      '<dashpattern pattern="3 1"/>',
+      '<linecap cap="flat"/>',
+      '<linejoin join="round"/>',
+      '<fillalpha alpha="0.5"/>',
+      '<fontstyle style="1"/>',
+      '<roundrect x="0" y="0" w="100" h="100" arcsize="10"/>',
+      '<include-shape name="tag" x="10" y="10" w="20" h="20"/>',
+      '<restore/>',
+    ]);
+    expect(builder.validate()).toStrictEqual([]);
+  });
+
+  test('build returns a copy of the description and reports the invalid values', () => {
+    const description = createTagBuilder().build();
+    expect(description.name).toBe('tag');
+    expect(description.background?.[0]).toStrictEqual({
+      type: 'path',
+      segments: [
+        { type: 'move', x: 0, y: 0 },
+        { type: 'line', x: 80, y: 0 },
+        {
+          type: 'arc',
+          rx: 25,
+          ry: 25,
+          xAxisRotation: 0,
+          largeArc: false,
+          sweep: true,
+          x: 80,
+          y: 50,
+        },
+        { type: 'line', x: 0, y: 50 },
+        { type: 'close' },
+      ],
+    });
+
+    const builder = new StencilBuilder('invalid').path((path) => path.lineTo(NaN, 0));
+    expect(builder.validate()).toStrictEqual([
+      {
+        message: "Invalid value 'NaN' of the 'x' attribute, expected a number",
+        path: '/shape/foreground[1]/path[1]/line[1]',
+      },
+      {
+        message: "The path must start with a 'move' element",
+        path: '/shape/foreground[1]/path[1]/line[1]',
+      },
+    ]);
+    expect(() => builder.build()).toThrow(StencilDescriptionParseError);
+  });
+
+  test('the stencil is created from the description', () => {
+    const stencil = createTagBuilder().createStencil();
+
+    expect(stencil.w0).toBe(100);
+    expect(stencil.h0).toBe(50);
+    expect(stencil.aspect).toBe('fixed');
+    expect(stencil.constraints.map((constraint) => constraint.name)).toStrictEqual([
+      'W',
+      null,
+    ]);
+    expect(stencil.bgNode?.children).toHaveLength(2);
+  });
+
+  test('toXml returns the indented description', () => {
+    expect(
+      new StencilBuilder('empty', { strokeWidth: 'inherit' }).rect(0, 0, 10, 10).toXml()
+    ).toBe(`<shape name="empty" strokewidth="inherit">
+  <foreground>
+    <rect x="0" y="0" w="10" h="10" />
+  </foreground>
+</shape>
+`);
+  });
+});
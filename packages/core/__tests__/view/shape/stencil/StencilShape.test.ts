@@ -14,8 +14,15 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { expect, test } from '@jest/globals';
-import { resetStencilShapeConfig, StencilShapeConfig } from '../../../../src';
+import { describe, expect, jest, test } from '@jest/globals';
+import {
+  type AbstractCanvas2D,
+  Rectangle,
+  resetStencilShapeConfig,
+  StencilShape,
+  StencilShapeConfig,
+} from '../../../../src';
+import { parseXml } from '../../../../src/util/xmlUtils';
 
 test('resetStencilShapeConfig', () => {
   // Keep track of original default values
@@ -31,3 +38,38 @@ test('resetStencilShapeConfig', () => {
   expect(StencilShapeConfig.allowEval).toBeFalsy();
   expect(StencilShapeConfig).toStrictEqual(originalConfig);
 });
+
+describe('drawNode', () => {
+  const drawInstruction = (instruction: string) => {
+    const description = parseXml(
+      `<shape name="test"><foreground>${instruction}</foreground></shape>`
+    ).documentElement;
+    const stencil = new StencilShape(description);
+    // Mock only the methods used by the alpha instructions
+    const canvas = {
+      setAlpha: jest.fn(),
+      setFillAlpha: jest.fn(),
+      setStrokeAlpha: jest.fn(),
+    };
+    stencil.drawNode(
+      canvas as unknown as AbstractCanvas2D,
+      stencil,
+      stencil.fgNode!.firstElementChild!,
+      new Rectangle(0, 0, 1, 1),
+      false,
+      true
+    );
+    return canvas;
+  };
+
+  // fillalpha and strokealpha are kept as aliases of alpha for the existing stencils
+  test.each(['alpha', 'fillalpha', 'strokealpha'])(
+    '%s sets the alpha of the fill and of the stroke',
+    (name) => {
+      const canvas = drawInstruction(`<${name} alpha="0.5"/>`);
+      expect(canvas.setAlpha).toHaveBeenCalledWith(0.5);
+      expect(canvas.setFillAlpha).not.toHaveBeenCalled();
+      expect(canvas.setStrokeAlpha).not.toHaveBeenCalled();
+    }
+  );
+});
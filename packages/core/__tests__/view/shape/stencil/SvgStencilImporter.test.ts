@@ -0,0 +1,322 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, describe, expect, test } from '@jest/globals';
+import {
+  Graph,
+  StencilShapeRegistry,
+  SvgStencilImporter,
+  unregisterAllStencilShapes,
+} from '../../../../src';
+import { getXml } from '../../../../src/util/xmlUtils';
+
+const svg = (content: string, attributes = 'viewBox="0 0 24 24"') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${attributes}>${content}</svg>`;
+
+const getChildrenXml = (element: Element | undefined) =>
+  Array.from(element?.children ?? []).map((child) => getXml(child));
+
+afterEach(() => {
+  unregisterAllStencilShapes();
+});
+
+describe('import', () => {
+  test('the stencil is registered with the size and the aspect of the SVG', () => {
+    const { stencil, warnings } = new SvgStencilImporter().import(
+      'icon',
+      svg('<rect x="2" y="4" width="20" height="16"/>', 'viewBox="0 0 24 32"')
+    );
+
+    expect(StencilShapeRegistry.get('icon')).toBe(stencil);
+    expect(stencil.w0).toBe(24);
+    expect(stencil.h0).toBe(32);
+    expect(stencil.aspect).toBe('fixed');
+    expect(stencil.strokeWidthValue).toBe('inherit');
+    expect(stencil.constraints.map((constraint) => constraint.name)).toEqual([
+      'N',
+      'E',
+      'S',
+      'W',
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  test('the options change the aspect, the constraints and the registration', () => {
+    const { stencil } = new SvgStencilImporter({
+      aspect: 'variable',
+      defaultConstraints: false,
+      register: false,
+    }).import('icon', svg('<rect width="10" height="10"/>', 'width="10px" height="20"'));
+
+    expect(StencilShapeRegistry.get('icon')).toBeNull();
+    expect(stencil.aspect).toBe('variable');
+    expect(stencil.constraints).toEqual([]);
+    expect([stencil.w0, stencil.h0]).toEqual([10, 20]);
+  });
+
+  test('the size is the bounds of the content when the SVG has no viewBox and no size', () => {
+    const { stencil, description } = new SvgStencilImporter().import(
+      'icon',
+      svg('<circle cx="50" cy="60" r="10"/>', '')
+    );
+
+    expect([stencil.w0, stencil.h0]).toEqual([20, 20]);
+    expect(getChildrenXml(description.getElementsByTagName('background')[0])).toEqual([
+      '<ellipse x="0" y="0" w="20" h="20"/>',
+      '<fill/>',
+    ]);
+  });
+
+  test('the elements with a data-constraint attribute define the connection constraints', () => {
+    const { stencil, description } = new SvgStencilImporter().import(
+      'icon',
+      svg(
+        '<rect width="24" height="24"/><circle cx="24" cy="12" r="1" data-constraint="out"/>'
+      )
+    );
+
+    expect(stencil.constraints).toHaveLength(1);
+    expect(stencil.constraints[0].name).toBe('out');
+    expect(stencil.constraints[0].point).toEqual(
+      expect.objectContaining({ x: 1, y: 0.5 })
+    );
+    expect(description.getElementsByTagName('ellipse')).toHaveLength(0);
+  });
+
+  test('an invalid document is rejected', () => {
+    const importer = new SvgStencilImporter();
+    expect(() => importer.import('icon', '<svg><path></svg>')).toThrow(
+      'SvgStencilImporter: the SVG document is not well-formed'
+    );
+    expect(() => importer.import('icon', '<g/>')).toThrow(
+      "SvgStencilImporter: the root element is 'g' instead of 'svg'"
+    );
+  });
+});
+
+describe('geometry', () => {
+  const convert = (content: string) =>
+    getChildrenXml(
+      new SvgStencilImporter({ register: false })
+        .import('icon', svg(content))
+        .description.getElementsByTagName('background')[0]
+    );
+
+  test('the paths are converted with the transforms of the ancestors', () => {
+    expect(
+      convert(
+        '<g transform="translate(2 2)"><path d="M0 0h10q5 5 0 10z" transform="scale(2)"/></g>'
+      )
+    ).toEqual([
+      '<path><move x="2" y="2"/><line x="22" y="2"/><quad x1="32" y1="12" x2="22" y2="22"/><close/></path>',
+      '<fill/>',
+    ]);
+  });
+
+  test('the rectangles are converted into roundrect, and into paths when they are rotated', () => {
+    expect(convert('<rect x="2" y="2" width="20" height="10" rx="2"/>')).toEqual([
+      '<roundrect x="2" y="2" w="20" h="10" arcsize="20"/>',
+      '<fill/>',
+    ]);
+    expect(convert('<rect width="10" height="10" transform="rotate(90)"/>')).toEqual([
+      '<path><move x="0" y="0"/><line x="0" y="10"/><line x="-10" y="10"/><line x="-10" y="0"/><close/></path>',
+      '<fill/>',
+    ]);
+  });
+
+  test('the lines, polylines and polygons are converted into paths', () => {
+    expect(convert('<line x1="0" y1="0" x2="10" y2="10" stroke="black"/>')).toEqual([
+      '<path><move x="0" y="0"/><line x="10" y="10"/></path>',
+      '<stroke/>',
+    ]);
+    expect(convert('<polygon points="0,0 10,0 5,5"/>')).toEqual([
+      '<path><move x="0" y="0"/><line x="10" y="0"/><line x="5" y="5"/><close/></path>',
+      '<fill/>',
+    ]);
+  });
+
+  test('the use elements draw the referenced elements at their position', () => {
+    expect(
+      convert(
+        '<defs><symbol id="dot"><circle r="1"/></symbol></defs><use href="#dot" x="5" y="6"/>'
+      )
+    ).toEqual(['<ellipse x="4" y="5" w="2" h="2"/>', '<fill/>']);
+  });
+});
+
+describe('paint', () => {
+  const convert = (content: string, colors?: 'keep' | 'placeholder') => {
+    const description = new SvgStencilImporter({ colors, register: false }).import(
+      'icon',
+      svg(content)
+    ).description;
+    return [
+      ...getChildrenXml(description.getElementsByTagName('background')[0]),
+      ...getChildrenXml(description.getElementsByTagName('foreground')[0]),
+    ];
+  };
+
+  test('the colors are replaced by the colors of the cell style by default', () => {
+    expect(
+      convert(
+        '<g fill="none" stroke="red" stroke-width="2"><rect width="4" height="4"/></g>'
+      )
+    ).toEqual([
+      '<save/>',
+      '<strokewidth width="2"/>',
+      '<rect x="0" y="0" w="4" h="4"/>',
+      '<stroke/>',
+      '<restore/>',
+    ]);
+  });
+
+  test('the colors are kept in the keep mode, except currentColor', () => {
+    expect(
+      convert(
+        '<rect width="4" height="4" style="fill: #fff; stroke: currentColor; stroke-dasharray: 4 2"/>',
+        'keep'
+      )
+    ).toEqual([
+      '<save/>',
+      '<fillcolor color="#fff"/>',
+      '<strokewidth width="1"/>',
+      '<dashed dashed="1"/>',
+      '<dashpattern pattern="4 2"/>',
+      '<rect x="0" y="0" w="4" h="4"/>',
+      '<fillstroke/>',
+      '<restore/>',
+    ]);
+  });
+
+  test('the butt line cap is converted into the flat line cap of the stencils', () => {
+    expect(
+      convert(
+        '<path d="M0 0L4 4" fill="none" stroke="red" stroke-linecap="butt" stroke-linejoin="round"/>',
+        'keep'
+      )
+    ).toEqual([
+      '<save/>',
+      '<strokecolor color="red"/>',
+      '<strokewidth width="1"/>',
+      '<linecap cap="flat"/>',
+      '<linejoin join="round"/>',
+      '<path><move x="0" y="0"/><line x="4" y="4"/></path>',
+      '<stroke/>',
+      '<restore/>',
+    ]);
+  });
+
+  test('the opacities are converted into alpha, and the fill and the stroke are drawn separately if they differ', () => {
+    expect(
+      convert(
+        '<g opacity="0.5"><rect width="4" height="4" fill-opacity="0.5" stroke="red"/><rect width="2" height="2" fill-opacity="50%"/></g>'
+      )
+    ).toEqual([
+      '<save/>',
+      '<alpha alpha="0.25"/>',
+      '<rect x="0" y="0" w="4" h="4"/>',
+      '<fill/>',
+      '<restore/>',
+      '<save/>',
+      '<alpha alpha="0.5"/>',
+      '<rect x="0" y="0" w="4" h="4"/>',
+      '<stroke/>',
+      '<restore/>',
+      '<save/>',
+      '<alpha alpha="0.25"/>',
+      '<rect x="0" y="0" w="2" h="2"/>',
+      '<fill/>',
+      '<restore/>',
+    ]);
+  });
+
+  test('the texts are converted with their font', () => {
+    expect(
+      convert(
+        '<text x="12" y="20" text-anchor="middle" font-size="6" font-weight="bold" fill="navy">Hello <tspan>world</tspan></text>',
+        'keep'
+      )
+    ).toEqual([
+      '<save/>',
+      '<fontcolor color="navy"/>',
+      '<fontsize size="6"/>',
+      '<fontstyle style="1"/>',
+      '<text str="Hello world" x="12" y="20" align="center" valign="bottom"/>',
+      '<restore/>',
+    ]);
+  });
+});
+
+test('the unsupported features are reported', () => {
+  const { warnings } = new SvgStencilImporter({ register: false }).import(
+    'icon',
+    svg(`<style>.a { fill: red; }</style>
+<defs><linearGradient id="g"/></defs>
+<g><path d="M0 0L10 10L5" fill="url(#g) blue" filter="url(#f)"/></g>
+<path d="M0 0h4v4z" fill-rule="evenodd"/>
+<use href="#unknown"/>`)
+  );
+
+  expect(warnings).toEqual([
+    {
+      message:
+        'CSS style sheets are not supported, use presentation attributes or the style attribute',
+      path: '/svg/style[1]',
+    },
+    {
+      message: 'The filter attribute is not supported, it is ignored',
+      path: '/svg/g[1]/path[1]',
+    },
+    {
+      message: 'The path data is invalid at position 12, the path is truncated',
+      path: '/svg/g[1]/path[1]',
+    },
+    {
+      message:
+        "Gradients and patterns are not supported, the fallback color 'blue' is used",
+      path: '/svg/g[1]/path[1]',
+    },
+    {
+      message: 'The evenodd fill rule is not supported, the nonzero fill rule is used',
+      path: '/svg/path[1]',
+    },
+    {
+      message:
+        "The referenced element '#unknown' is not found in the document, it is ignored",
+      path: '/svg/use[1]',
+    },
+  ]);
+});
+
+test('the imported stencil is used to render a vertex', () => {
+  new SvgStencilImporter().import(
+    'icon',
+    svg(
+      '<path d="M2 2h20v20H2z" stroke="black" stroke-width="2"/><circle cx="12" cy="12" r="4"/>'
+    )
+  );
+  const graph = new Graph(document.createElement('div'));
+
+  const vertex = graph.insertVertex({
+    position: [10, 10],
+    size: [48, 48],
+    style: { shape: 'icon' },
+  });
+
+  const node = graph.getView().getState(vertex)!.shape!.node;
+  expect(node.getElementsByTagName('path').length).toBeGreaterThan(0);
+  expect(node.getElementsByTagName('ellipse')).toHaveLength(1);
+});
@@ -0,0 +1,259 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { describe, expect, test } from '@jest/globals';
+import {
+  parseStencilDescription,
+  StencilDescriptionParseError,
+  SvgStencilImporter,
+  validateStencilDescription,
+  writeStencilDescription,
+} from '../../../../src';
+import { parseXml } from '../../../../src/util/xmlUtils';
+
+// The stencils of the html package and of the grapheditor example
+const BUILTIN_STENCIL_FILES = [
+  'public/stencils.xml',
+  'stashed/grapheditor/www/stencils/arrows.xml',
+  'stashed/grapheditor/www/stencils/basic.xml',
+  'stashed/grapheditor/www/stencils/bpmn.xml',
+  'stashed/grapheditor/www/stencils/flowchart.xml',
+];
+
+// The BPMN shapes containing a rect element without attributes
+const INVALID_BUILTIN_SHAPES = [
+  'Compensation End',
+  'Error End',
+  'Link End',
+  'Message End',
+  'Multiple End',
+];
+
+const readBuiltinStencils = (file: string): Element =>
+  parseXml(readFileSync(resolve(__dirname, '../../../../../html', file), 'utf8'))
+    .documentElement;
+
+interface CanonicalElement {
+  name: string;
+  attributes: Record<string, string | number>;
+  children: CanonicalElement[];
+}
+
+// Ignores the order of the attributes and the formatting of the numbers
+const toCanonical = (element: Element): CanonicalElement => ({
+  name: element.localName,
+  attributes: Object.fromEntries(
+    Array.from(element.attributes)
+      .map((attribute): [string, string | number] => {
+        const value = attribute.value;
+        return [attribute.name, value.trim() !== '' && !isNaN(+value) ? +value : value];
+      })
+      .sort(([a], [b]) => a.localeCompare(b))
+  ),
+  children: Array.from(element.children).map(toCanonical),
+});
+
+const parseShape = (xml: string) => parseXml(xml).documentElement;
+
+describe('built-in stencils', () => {
+  test.each(BUILTIN_STENCIL_FILES)('%s round-trips', (file) => {
+    const shapes = Array.from(readBuiltinStencils(file).children).filter(
+      (shape) => !INVALID_BUILTIN_SHAPES.includes(shape.getAttribute('name')!)
+    );
+    expect(shapes.length).toBeGreaterThan(0);
+
+    for (const shape of shapes) {
+      const description = parseStencilDescription(shape);
+      const element = writeStencilDescription(description);
+
+      expect(toCanonical(element)).toStrictEqual(toCanonical(shape));
+      expect(parseStencilDescription(element)).toStrictEqual(description);
+    }
+  });
+
+  test('all the shapes are valid except the empty rectangles of the BPMN stencils', () => {
+    const shapes = BUILTIN_STENCIL_FILES.flatMap((file) =>
+      Array.from(readBuiltinStencils(file).children)
+    );
+    const invalidShapes = shapes.filter(
+      (shape) => validateStencilDescription(shape).length > 0
+    );
+
+    expect(invalidShapes.map((shape) => shape.getAttribute('name'))).toStrictEqual(
+      INVALID_BUILTIN_SHAPES
+    );
+    for (const shape of invalidShapes) {
+      const errors = validateStencilDescription(shape);
+
+      expect(errors.map((error) => error.message)).toStrictEqual(
+        ['x', 'y', 'w', 'h'].map((name) => `Missing the required '${name}' attribute`)
+      );
+      for (const error of errors) {
+        expect(error.path).toMatch(/^\/shapes\/shape\[\d+]\/foreground\[1]\/rect\[1]$/);
+      }
+    }
+  });
+});
+
+describe('validateStencilDescription', () => {
+  test('the errors are reported with the path of the elements', () => {
+    const shape = parseShape(`<shape name="invalid" aspect="stretch" w="abc">
+      <connections><constraint x="0.5" y="0" perimeter="yes"/><point/></connections>
+      <foreground>
+        <path><line x="1" y="1"/><arc rx="1" ry="1" x-axis-rotation="0" large-arc-flag="0" x="2" y="2"/></path>
+        <restore/>
+        <linecap cap="butt"/>
+        <circle r="4"/>
+      </foreground>
+      <foreground/>
+    </shape>`);
+
+    expect(validateStencilDescription(shape)).toStrictEqual([
+      {
+        message:
+          "Invalid value 'stretch' of the 'aspect' attribute, expected one of 'fixed', 'variable'",
+        path: '/shape',
+      },
+      {
+        message: "Invalid value 'abc' of the 'w' attribute, expected a number",
+        path: '/shape',
+      },
+      {
+        message: "Invalid value 'yes' of the 'perimeter' attribute, expected '0' or '1'",
+        path: '/shape/connections[1]/constraint[1]',
+      },
+      { message: "Unexpected element 'point'", path: '/shape/connections[1]/point[1]' },
+      {
+        message: "The path must start with a 'move' element",
+        path: '/shape/foreground[1]/path[1]/line[1]',
+      },
+      {
+        message: "Missing the required 'sweep-flag' attribute",
+        path: '/shape/foreground[1]/path[1]/arc[1]',
+      },
+      {
+        message: "No 'save' element matches this 'restore' element",
+        path: '/shape/foreground[1]/restore[1]',
+      },
+      {
+        message:
+          "Invalid value 'butt' of the 'cap' attribute, expected one of 'flat', 'square', 'round'",
+        path: '/shape/foreground[1]/linecap[1]',
+      },
+      { message: "Unexpected element 'circle'", path: '/shape/foreground[1]/circle[1]' },
+      { message: "Duplicate 'foreground' element", path: '/shape/foreground[2]' },
+    ]);
+  });
+
+  test('the root must be a shape or shapes element, and the shape names are unique', () => {
+    expect(validateStencilDescription(parseShape('<svg/>'))).toStrictEqual([
+      {
+        message: "Unexpected root element 'svg', expected 'shape' or 'shapes'",
+        path: '/svg',
+      },
+    ]);
+    expect(
+      validateStencilDescription(
+        parseShape('<shapes><shape name="a"/><shape name="a"/><shape/></shapes>')
+      )
+    ).toStrictEqual([
+      { message: "Duplicate shape 'a'", path: '/shapes/shape[2]' },
+      { message: "Missing the required 'name' attribute", path: '/shapes/shape[3]' },
+    ]);
+  });
+
+  test('the descriptions of the SvgStencilImporter are valid', () => {
+    const { description } = new SvgStencilImporter({ register: false }).import(
+      'icon',
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" stroke-linecap="butt" stroke-dasharray="2 1">
+        <path d="M2 2h20a2 2 0 0 1 0 4H2z" opacity="0.5"/>
+        <text x="12" y="20" text-anchor="middle">Label</text>
+        <circle cx="12" cy="12" r="1" data-constraint="center"/>
+      </svg>`
+    );
+
+    expect(validateStencilDescription(description)).toStrictEqual([]);
+  });
+});
+
+describe('parseStencilDescription', () => {
+  test('the attributes are converted to the properties of the model', () => {
+    const description = parseStencilDescription(
+      parseShape(`<shape name="sample" w="40" h="20" strokewidth="inherit">
+        <connections><constraint x="0" y="0.5" perimeter="1" name="W"/></connections>
+        <foreground>
+          <path rounded="1" arcSize="10">
+            <move x="0" y="0"/>
+            <arc rx="5" ry="5" x-axis-rotation="0" large-arc-flag="1" sweep-flag="0" x="10" y="0"/>
+          </path>
+          <roundrect x="0" y="0" w="40" h="20" arcsize="15"/>
+          <text str="Label" x="20" y="10" align="center" align-shape="0"/>
+          <strokewidth width="2" fixed="1"/>
+        </foreground>
+      </shape>`)
+    );
+
+    expect(description).toStrictEqual({
+      name: 'sample',
+      w: 40,
+      h: 20,
+      strokeWidth: 'inherit',
+      constraints: [{ x: 0, y: 0.5, perimeter: true, name: 'W' }],
+      foreground: [
+        {
+          type: 'path',
+          rounded: true,
+          arcSize: 10,
+          segments: [
+            { type: 'move', x: 0, y: 0 },
+            {
+              type: 'arc',
+              rx: 5,
+              ry: 5,
+              xAxisRotation: 0,
+              largeArc: true,
+              sweep: false,
+              x: 10,
+              y: 0,
+            },
+          ],
+        },
+        { type: 'roundrect', x: 0, y: 0, w: 40, h: 20, arcSize: 15 },
+        { type: 'text', str: 'Label', x: 20, y: 10, align: 'center', alignShape: false },
+        { type: 'strokewidth', width: 2, fixed: true },
+      ],
+    });
+  });
+
+  test('an invalid description throws an error listing the errors', () => {
+    const parse = () =>
+      parseStencilDescription(
+        parseShape('<shape name="invalid"><foreground><rect x="0"/></foreground></shape>')
+      );
+
+    expect(parse).toThrow(StencilDescriptionParseError);
+    expect(parse).toThrow(
+      "/shape/foreground[1]/rect[1]: Missing the required 'y' attribute\n" +
+        "/shape/foreground[1]/rect[1]: Missing the required 'w' attribute\n" +
+        "/shape/foreground[1]/rect[1]: Missing the required 'h' attribute"
+    );
+    expect(() => parseStencilDescription(parseShape('<shapes/>'))).toThrow(
+      "/shapes: Unexpected element 'shapes', expected 'shape'"
+    );
+  });
+});
@@ -14,9 +14,18 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { describe, expect, test } from '@jest/globals';
-import { CellStateStyle, CellStyle, Stylesheet } from '../../../src';
+import { afterEach, describe, expect, jest, test } from '@jest/globals';
+import {
+  Cell,
+  CellStateStyle,
+  CellStyle,
+  StyleRule,
+  StyleRuleContext,
+  Stylesheet,
+} from '../../../src';
+import { GlobalConfig } from '../../../src/util/config';
 import { NONE } from '../../../src/util/Constants';
+import { createXmlDocument } from '../../../src/util/xmlUtils';
 
 /**
  * Additional properties to test extension points by extending `CellStyle` and `CellStateStyle`.
@@ -372,3 +381,209 @@ describe('getCellStyle', () => {
     });
   });
 });
+
+describe('style rules', () => {
+  const createVertex = (value: unknown = null) => {
+    const cell = new Cell(value);
+    cell.setVertex(true);
+    return cell;
+  };
+
+  const createElement = (nodeName: string, attributes: Record<string, string>) => {
+    const element = createXmlDocument().createElement(nodeName);
+    for (const [name, value] of Object.entries(attributes)) {
+      element.setAttribute(name, value);
+    }
+    return element;
+  };
+
+  test('the rules are applied between the base styles and the cell style, by priority', () => {
+    const stylesheet = new Stylesheet();
+    stylesheet.putCellStyle('base', { fillColor: 'blue', fontFamily: 'Arial' });
+    stylesheet.putCellStyle('dashed', { dashed: true });
+    stylesheet.addStyleRule({ selector: {}, style: { fillColor: 'green', opacity: 20 } });
+    stylesheet.addStyleRule({
+      selector: {},
+      style: { opacity: 50, fontFamily: NONE },
+      priority: -1,
+    });
+    stylesheet.addStyleRule({
+      selector: {},
+      style: { baseStyleNames: ['dashed'], fontColor: 'black', shape: 'ellipse' },
+    });
+    stylesheet.addStyleRule({ selector: {}, style: { shape: 'cloud' }, important: true });
+
+    const cell = createVertex();
+    const style = stylesheet.getCellStyle(
+      { baseStyleNames: ['base'], fontColor: 'red', shape: 'triangle' },
+      { strokeColor: 'pink' },
+      { cell }
+    );
+
+    expect(style).toStrictEqual({
+      dashed: true, // from the base style of the rule
+      fillColor: 'green', // the rule overrides the base style
+      fontColor: 'red', // the cell style overrides the rule
+      opacity: 20, // the rule with the highest priority is applied last
+      shape: 'cloud', // the important rule overrides the cell style
+      strokeColor: 'pink',
+    });
+  });
+
+  test('the rules are ignored without context', () => {
+    const stylesheet = new Stylesheet();
+    stylesheet.addStyleRule({ selector: {}, style: { fillColor: 'green' } });
+
+    expect(stylesheet.getCellStyle({}, { fillColor: 'red' })).toStrictEqual({
+      fillColor: 'red',
+    });
+  });
+
+  test('selector on the kind and the states of the cell', () => {
+    const stylesheet = new Stylesheet();
+    const vertex = createVertex();
+    const edge = new Cell();
+    edge.setEdge(true);
+
+    const matches = (selector: StyleRule['selector'], context: StyleRuleContext) =>
+      stylesheet.isStyleRuleMatching({ selector, style: {} }, context);
+
+    expect(matches({ kind: 'vertex' }, { cell: vertex })).toBeTruthy();
+    expect(matches({ kind: 'vertex' }, { cell: edge })).toBeFalsy();
+    expect(matches({ kind: 'edge' }, { cell: edge })).toBeTruthy();
+    expect(matches({ selected: true }, { cell: vertex, selected: true })).toBeTruthy();
+    expect(matches({ selected: true }, { cell: vertex })).toBeFalsy();
+    expect(
+      matches({ selected: false, hovered: true }, { cell: vertex, hovered: true })
+    ).toBeTruthy();
+    expect(matches({ collapsed: true }, { cell: vertex })).toBeFalsy();
+    vertex.setCollapsed(true);
+    expect(matches({ collapsed: true }, { cell: vertex })).toBeTruthy();
+    expect(matches({ match: ({ cell }) => cell === edge }, { cell: vertex })).toBeFalsy();
+  });
+
+  test('selector on the value and the attributes of the user object', () => {
+    const stylesheet = new Stylesheet();
+    const matches = (selector: StyleRule['selector'], value: unknown) =>
+      stylesheet.isStyleRuleMatching(
+        { selector, style: {} },
+        { cell: createVertex(value) }
+      );
+
+    expect(matches({ value: 'done' }, 'done')).toBeTruthy();
+    expect(matches({ value: 'done' }, 'todo')).toBeFalsy();
+    expect(matches({ value: 10 }, 10)).toBeTruthy();
+    expect(matches({ value: /^err/ }, 'error')).toBeTruthy();
+    expect(matches({ value: true }, '')).toBeFalsy();
+    expect(matches({ value: false }, null)).toBeTruthy();
+    expect(matches({ value: (v) => Number(v) > 5 }, '8')).toBeTruthy();
+
+    const task = createElement('Task', { status: 'late', owner: 'me' });
+    expect(
+      matches({ nodeName: 'task', attributes: { status: 'late' } }, task)
+    ).toBeTruthy();
+    expect(matches({ nodeName: 'Person' }, task)).toBeFalsy();
+    expect(matches({ attributes: { owner: true, reviewer: false } }, task)).toBeTruthy();
+    expect(matches({ attributes: { status: /^(late|blocked)$/ } }, task)).toBeTruthy();
+    expect(matches({ attributes: { status: 'late' } }, 'late')).toBeFalsy();
+    // The value condition does not apply to the user objects
+    expect(matches({ value: false }, task)).toBeTruthy();
+  });
+
+  test('the rules are added and removed', () => {
+    const stylesheet = new Stylesheet();
+    const rule1 = stylesheet.addStyleRule({
+      selector: {},
+      style: { fillColor: 'green' },
+    });
+    const rule2 = stylesheet.addStyleRule({ selector: {}, style: { fillColor: 'red' } });
+
+    expect(stylesheet.getStyleRules()).toEqual([rule1, rule2]);
+    expect(stylesheet.removeStyleRule(rule1)).toBeTruthy();
+    expect(stylesheet.removeStyleRule(rule1)).toBeFalsy();
+    expect(stylesheet.getStyleRules()).toEqual([rule2]);
+
+    stylesheet.clearStyleRules();
+    expect(stylesheet.hasStyleRules()).toBeFalsy();
+  });
+});
+
+describe('style inheritance', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createStylesheet = () => {
+    const stylesheet = new Stylesheet();
+    stylesheet.putCellStyle('corporate', { fontFamily: 'Verdana', fontColor: 'navy' });
+    stylesheet.putCellStyle('shadowed', { shadow: true, fontColor: 'gray' });
+    stylesheet.putCellStyle('box', {
+      baseStyleNames: ['corporate', 'shadowed'],
+      rounded: true,
+    });
+    stylesheet.putCellStyle('warningBox', {
+      baseStyleNames: ['box'],
+      fillColor: 'orange',
+    });
+    return stylesheet;
+  };
+
+  test('the named styles are resolved recursively', () => {
+    const stylesheet = createStylesheet();
+
+    expect(stylesheet.resolveCellStyle('warningBox')).toStrictEqual({
+      fontFamily: 'Verdana',
+      fontColor: 'gray',
+      shadow: true,
+      rounded: true,
+      fillColor: 'orange',
+    });
+    expect(stylesheet.resolveCellStyle('unknown')).toBeUndefined();
+    expect(stylesheet.getStyleInheritanceCycle('warningBox')).toBeNull();
+
+    expect(
+      stylesheet.getCellStyle(
+        { baseStyleNames: ['warningBox'], fontColor: 'black' },
+        { shape: 'rectangle' }
+      )
+    ).toStrictEqual({
+      shape: 'rectangle',
+      fontFamily: 'Verdana',
+      fontColor: 'black',
+      shadow: true,
+      rounded: true,
+      fillColor: 'orange',
+    });
+  });
+
+  test('the cycles are detected and the reference closing the cycle is ignored', () => {
+    const stylesheet = createStylesheet();
+    const warn = jest.spyOn(GlobalConfig.logger, 'warn');
+    stylesheet.putCellStyle('corporate', {
+      baseStyleNames: ['warningBox'],
+      fontFamily: 'Verdana',
+    });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      'Stylesheet: inheritance cycle corporate -> warningBox -> box -> corporate, the reference closing the cycle is ignored'
+    );
+
+    expect(stylesheet.getStyleInheritanceCycle('warningBox')).toEqual([
+      'warningBox',
+      'box',
+      'corporate',
+      'warningBox',
+    ]);
+    expect(stylesheet.getStyleInheritanceCycle('shadowed')).toBeNull();
+    expect(stylesheet.resolveCellStyle('box')).toStrictEqual({
+      fontFamily: 'Verdana',
+      fillColor: 'orange',
+      shadow: true,
+      fontColor: 'gray',
+      rounded: true,
+    });
+    // The cycle is only reported when the style is registered
+    stylesheet.resolveCellStyle('warningBox');
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -17,8 +17,10 @@ limitations under the License.
 import { describe, expect, test } from '@jest/globals';
 import {
   ManhattanConnectorConfig,
+  ObstacleAvoidingConnectorConfig,
   OrthogonalConnectorConfig,
   resetManhattanConnectorConfig,
+  resetObstacleAvoidingConnectorConfig,
   resetOrthogonalConnectorConfig,
 } from '../../../src';
 
@@ -68,3 +70,19 @@ describe('resetManhattanConnectorConfig', () => {
     expect(ManhattanConnectorConfig.startDirections).toEqual(originalStartDirections);
   });
 });
+
+test('resetObstacleAvoidingConnectorConfig', () => {
+  // Keep track of original default values
+  const originalConfig = { ...ObstacleAvoidingConnectorConfig };
+
+  // Change some values
+  ObstacleAvoidingConnectorConfig.margin = 25;
+  ObstacleAvoidingConnectorConfig.nudgingDistance = 0;
+
+  resetObstacleAvoidingConnectorConfig();
+
+  // Ensure that the values have correctly been reset
+  expect(ObstacleAvoidingConnectorConfig.margin).toBe(10);
+  expect(ObstacleAvoidingConnectorConfig.nudgingDistance).toBe(6);
+  expect(ObstacleAvoidingConnectorConfig).toStrictEqual(originalConfig);
+});
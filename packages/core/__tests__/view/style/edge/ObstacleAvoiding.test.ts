@@ -0,0 +1,155 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import {
+  type Cell,
+  Graph,
+  ObstacleAvoidingConnectorConfig,
+  Point,
+  resetObstacleAvoidingConnectorConfig,
+} from '../../../../src';
+
+let graph: Graph;
+
+beforeEach(() => {
+  graph = new Graph(document.createElement('div'));
+});
+
+afterEach(() => {
+  resetObstacleAvoidingConnectorConfig();
+  graph.destroy();
+});
+
+const insertVertex = (x: number, y: number, width: number, height: number) =>
+  graph.insertVertex({ position: [x, y], size: [width, height] });
+
+const insertEdge = (source: Cell, target: Cell) =>
+  graph.insertEdge({ source, target, style: { edgeStyle: 'obstacleAvoidingEdgeStyle' } });
+
+const getPoints = (edge: Cell) =>
+  graph.getView().getState(edge)!.absolutePoints as Point[];
+
+describe('routing', () => {
+  test('straight route when there is no obstacle', () => {
+    const v1 = insertVertex(0, 100, 40, 40);
+    const v2 = insertVertex(300, 100, 40, 40);
+    const edge = insertEdge(v1, v2);
+
+    expect(getPoints(edge)).toEqual([new Point(40, 120), new Point(300, 120)]);
+  });
+
+  test('route around the obstacle with the fewest bends', () => {
+    const v1 = insertVertex(0, 100, 40, 40);
+    const v2 = insertVertex(300, 100, 40, 40);
+    insertVertex(150, 80, 40, 80);
+    const edge = insertEdge(v1, v2);
+
+    expect(getPoints(edge)).toEqual([
+      new Point(20, 140),
+      new Point(20, 170),
+      new Point(320, 170),
+      new Point(320, 140),
+    ]);
+  });
+
+  test('the margin is configurable', () => {
+    ObstacleAvoidingConnectorConfig.margin = 30;
+    const v1 = insertVertex(0, 100, 40, 40);
+    const v2 = insertVertex(300, 100, 40, 40);
+    insertVertex(150, 80, 40, 80);
+    const edge = insertEdge(v1, v2);
+
+    expect(getPoints(edge).map((point) => point.y)).toEqual([140, 190, 190, 140]);
+  });
+
+  test('vertices of other parents are ignored', () => {
+    const group = insertVertex(0, 0, 400, 300);
+    const v1 = graph.insertVertex({ parent: group, position: [0, 100], size: [40, 40] });
+    const v2 = graph.insertVertex({
+      parent: group,
+      position: [300, 100],
+      size: [40, 40],
+    });
+    insertVertex(150, 80, 40, 80);
+    const edge = graph.insertEdge({
+      parent: group,
+      source: v1,
+      target: v2,
+      style: { edgeStyle: 'obstacleAvoidingEdgeStyle' },
+    });
+
+    expect(getPoints(edge)).toEqual([new Point(40, 120), new Point(300, 120)]);
+  });
+
+  test('control points are used as is', () => {
+    const v1 = insertVertex(0, 100, 40, 40);
+    const v2 = insertVertex(300, 100, 40, 40);
+    insertVertex(150, 80, 40, 80);
+    const edge = insertEdge(v1, v2);
+    const geometry = edge.getGeometry()!.clone();
+    geometry.points = [new Point(170, 20)];
+    graph.getDataModel().setGeometry(edge, geometry);
+
+    expect(getPoints(edge).map((point) => point.y)).toContain(20);
+  });
+});
+
+describe('nudging', () => {
+  test('parallel edges are spread on the shared channel', () => {
+    const v1 = insertVertex(0, 100, 40, 40);
+    const v2 = insertVertex(300, 100, 40, 40);
+    insertVertex(150, 80, 40, 80);
+    const edge1 = insertEdge(v1, v2);
+    const edge2 = insertEdge(v1, v2);
+
+    expect(getPoints(edge1)[1]).toEqual(new Point(20, 170));
+    expect(getPoints(edge2)).toEqual([
+      new Point(20, 140),
+      new Point(20, 176),
+      new Point(320, 176),
+      new Point(320, 140),
+    ]);
+  });
+
+  test('the edges are nudged in the order of the children, whatever the order of the validation', () => {
+    const v1 = insertVertex(0, 100, 40, 40);
+    const v2 = insertVertex(300, 100, 40, 40);
+    insertVertex(150, 80, 40, 80);
+    const edge1 = insertEdge(v1, v2);
+    const edge2 = insertEdge(v1, v2);
+
+    graph.orderCells(true, [edge2]);
+    expect(getPoints(edge2)[1]).toEqual(new Point(20, 170));
+    expect(getPoints(edge1)[1]).toEqual(new Point(20, 176));
+
+    // the edges validated alone keep their route
+    graph.getView().invalidate(edge1);
+    graph.getView().validate();
+    expect(getPoints(edge1)[1]).toEqual(new Point(20, 176));
+  });
+
+  test('nudging can be disabled', () => {
+    ObstacleAvoidingConnectorConfig.nudgingDistance = 0;
+    const v1 = insertVertex(0, 100, 40, 40);
+    const v2 = insertVertex(300, 100, 40, 40);
+    insertVertex(150, 80, 40, 80);
+    insertEdge(v1, v2);
+    const edge2 = insertEdge(v1, v2);
+
+    expect(getPoints(edge2)[1]).toEqual(new Point(20, 170));
+  });
+});
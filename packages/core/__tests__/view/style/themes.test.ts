@@ -0,0 +1,177 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { describe, expect, jest, test } from '@jest/globals';
+import {
+  createTheme,
+  DarkTheme,
+  EventObject,
+  type EventSource,
+  Graph,
+  HandleConfig,
+  InternalEvent,
+  LightTheme,
+  Stylesheet,
+  type VertexHandler,
+  type SelectionCellsHandler,
+} from '../../../src';
+
+describe('Stylesheet.setTheme', () => {
+  test('the theme is merged into the styles and the replaced values are restored', () => {
+    const stylesheet = new Stylesheet();
+    stylesheet.getDefaultVertexStyle().rounded = true;
+    stylesheet.putCellStyle('warning', { fillColor: 'orange', fontColor: 'black' });
+    const defaultVertexStyle = { ...stylesheet.getDefaultVertexStyle() };
+
+    stylesheet.setTheme(
+      createTheme('custom', {
+        vertexStyle: { fillColor: 'black', shadow: true },
+        styles: { warning: { fillColor: 'brown' }, error: { fillColor: 'red' } },
+      })
+    );
+
+    expect(stylesheet.getTheme()?.name).toBe('custom');
+    expect(stylesheet.getDefaultVertexStyle()).toStrictEqual({
+      ...defaultVertexStyle,
+      fillColor: 'black',
+      shadow: true,
+    });
+    expect(stylesheet.styles.get('warning')).toStrictEqual({
+      fillColor: 'brown',
+      fontColor: 'black',
+    });
+    expect(stylesheet.styles.get('error')).toStrictEqual({ fillColor: 'red' });
+
+    stylesheet.setTheme(null);
+
+    expect(stylesheet.getTheme()).toBeNull();
+    expect(stylesheet.getDefaultVertexStyle()).toStrictEqual(defaultVertexStyle);
+    expect(stylesheet.styles.get('warning')).toStrictEqual({
+      fillColor: 'orange',
+      fontColor: 'black',
+    });
+    expect(stylesheet.styles.has('error')).toBeFalsy();
+  });
+
+  test('switching between themes restores the values of the previous theme first', () => {
+    const stylesheet = new Stylesheet();
+    const defaultEdgeStyle = { ...stylesheet.getDefaultEdgeStyle() };
+
+    stylesheet.setTheme(DarkTheme);
+    expect(stylesheet.getDefaultEdgeStyle().strokeColor).toBe(
+      DarkTheme.edgeStyle!.strokeColor
+    );
+
+    stylesheet.setTheme(LightTheme);
+    expect(stylesheet.getDefaultEdgeStyle()).toStrictEqual(defaultEdgeStyle);
+  });
+});
+
+test('createTheme merges the properties into the base theme', () => {
+  const theme = createTheme(
+    'dark-orange',
+    { vertexStyle: { fillColor: 'orange' }, colors: { guideColor: 'yellow' } },
+    DarkTheme
+  );
+
+  expect(theme.name).toBe('dark-orange');
+  expect(theme.vertexStyle).toStrictEqual({
+    ...DarkTheme.vertexStyle,
+    fillColor: 'orange',
+  });
+  expect(theme.edgeStyle).toStrictEqual(DarkTheme.edgeStyle);
+  expect(theme.colors).toStrictEqual({ ...DarkTheme.colors, guideColor: 'yellow' });
+});
+
+describe('AbstractGraph.setTheme', () => {
+  const createGraph = () => {
+    const container = document.createElement('div');
+    container.style.backgroundColor = 'pink';
+    const graph = new Graph(container);
+    const vertex = graph.insertVertex({
+      parent: graph.getDefaultParent(),
+      position: [10, 10],
+      size: [50, 50],
+    });
+    return { graph, vertex };
+  };
+
+  test('the cells are re-rendered with the styles of the theme without changing the model', () => {
+    const { graph, vertex } = createGraph();
+    const modelListener = jest.fn();
+    graph.getDataModel().addListener(InternalEvent.CHANGE, modelListener);
+    const themeListener = jest.fn((_sender: EventSource, _evt: EventObject) => {});
+    graph.addListener(InternalEvent.THEME_CHANGED, themeListener);
+
+    graph.setTheme(DarkTheme);
+
+    const state = graph.getView().getState(vertex)!;
+    expect(state.style.fillColor).toBe(DarkTheme.vertexStyle!.fillColor);
+    expect(state.shape!.fill).toBe(DarkTheme.vertexStyle!.fillColor);
+    expect(graph.container.style.backgroundColor).toBe('rgb(30, 30, 30)');
+    expect(graph.getTheme()).toBe(DarkTheme);
+    expect(modelListener).not.toHaveBeenCalled();
+    expect(themeListener).toHaveBeenCalledTimes(1);
+    expect(themeListener.mock.calls[0][1].getProperty('theme')).toBe(DarkTheme);
+
+    graph.setTheme(null);
+
+    expect(graph.getView().getState(vertex)!.style.fillColor).toBe('#C3D9FF');
+    expect(graph.container.style.backgroundColor).toBe('pink');
+  });
+
+  test('the handlers of the selection cells are re-created with the colors of the theme', () => {
+    const { graph, vertex } = createGraph();
+    graph.setSelectionCell(vertex);
+    const selectionCellsHandler = graph.getPlugin<SelectionCellsHandler>(
+      'SelectionCellsHandler'
+    )!;
+    const getHandler = () => <VertexHandler>selectionCellsHandler.getHandler(vertex);
+    expect(getHandler().selectionBorder!.stroke).toBe('#00FF00');
+    expect(getHandler().sizers[0].fill).toBe(HandleConfig.fillColor);
+
+    graph.setTheme(DarkTheme);
+
+    expect(getHandler().state).toBe(graph.getView().getState(vertex));
+    expect(getHandler().selectionBorder!.stroke).toBe(
+      DarkTheme.colors!.vertexSelectionColor
+    );
+    expect(getHandler().sizers[0].fill).toBe(DarkTheme.colors!.handleFillColor);
+  });
+
+  test('the colors which are not set in the theme fall back to the configuration', () => {
+    const { graph } = createGraph();
+
+    graph.setTheme(createTheme('partial', { colors: { guideColor: 'yellow' } }));
+
+    expect(graph.getThemeColor('guideColor')).toBe('yellow');
+    expect(graph.getThemeColor('handleFillColor')).toBeUndefined();
+    expect(graph.getPageBreakColor()).toBe('gray');
+    expect(graph.getGridColor()).toBe('#f6f6f6');
+  });
+
+  test('the grid color of the theme is used', () => {
+    const { graph } = createGraph();
+
+    graph.setTheme(DarkTheme);
+
+    expect(graph.getGridColor()).toBe(DarkTheme.colors!.gridColor);
+
+    graph.setTheme(null);
+
+    expect(graph.getGridColor()).toBe(graph.gridColor);
+  });
+});
@@ -20,6 +20,10 @@ import InternalEvent from '../view/event/InternalEvent.js';
 import EventObject from '../view/event/EventObject.js';
 import KeyHandler from '../view/handler/KeyHandler.js';
 import Editor from './Editor.js';
+import type {
+  ShortcutBinding,
+  ShortcutBindingOptions,
+} from '../view/handler/ShortcutRegistry.js';
 
 /**
  * Binds keycodes to action names in an editor.
@@ -36,6 +40,12 @@ import Editor from './Editor.js';
  * keyHandler.bindAction(46, 'delete');
  * ```
  *
+ * Since 0.25.0, actions can also be bound to shortcuts, see {@link bindShortcut}.
+ * ```javascript
+ * keyHandler.bindShortcut('Mod+Shift+G', 'group');
+ * keyHandler.bindShortcut('Mod+K Mod+U', 'ungroup');
+ * ```
+ *
  * ### Codec
  * This class uses the {@link EditorKeyHandlerCodec} to read configuration data into an existing instance.  See {@link EditorKeyHandlerCodec} for a description of the configuration format.
  *
@@ -95,6 +105,29 @@ export class EditorKeyHandler {
     }
   }
 
+  /**
+   * Binds the specified shortcut to the given action in {@link editor}. See {@link ShortcutRegistry} for the format of
+   * the shortcut. The description of the binding defaults to the name of the action.
+   *
+   * @param shortcut  String that specifies the shortcut, for instance `Mod+Shift+G`.
+   * @param action    Name of the action to execute in {@link editor}.
+   * @param options   Optional context and description of the shortcut.
+   * @since 0.25.0
+   */
+  bindShortcut(
+    shortcut: string,
+    action: string,
+    options?: ShortcutBindingOptions
+  ): ShortcutBinding {
+    return (<KeyHandler>this.handler).bindShortcut(
+      shortcut,
+      () => {
+        (<Editor>this.editor).execute(action);
+      },
+      { ...options, description: options?.description ?? action }
+    );
+  }
+
   /**
    * Destroys the {@link handler} associated with this object.  This does normally not need to be called, the {@link handler} is destroyed automatically when the window unloads (in IE) by {@link Editor}.
    */
@@ -25,7 +25,10 @@ export * from './view/plugin/index.js';
 export { GraphDataModel } from './view/GraphDataModel.js';
 export { GraphView } from './view/GraphView.js';
 export { default as LayoutManager } from './view/layout/LayoutManager.js';
+export * from './view/layout/AsyncLayout.js';
+export * from './view/layout/LayoutResult.js';
 export { default as Outline } from './view/other/Outline.js';
+export * from './view/other/SnapshotOutline.js';
 export { default as PrintPreview } from './view/other/PrintPreview.js';
 export { default as SwimlaneManager } from './view/layout/SwimlaneManager.js';
 export { default as Client } from './Client.js';
@@ -57,6 +60,8 @@ export { default as EdgeSegmentHandler } from './view/handler/EdgeSegmentHandler
 export { default as ElbowEdgeHandler } from './view/handler/ElbowEdgeHandler.js';
 export { default as VertexHandle } from './view/cell/VertexHandle.js';
 export { default as KeyHandler } from './view/handler/KeyHandler.js';
+export * from './view/handler/ShortcutRegistry.js';
+export * from './view/handler/RichTextCommands.js';
 export { default as VertexHandler } from './view/handler/VertexHandler.js';
 export * from './view/handler/config.js';
 
@@ -70,6 +75,7 @@ export { default as ParallelEdgeLayout } from './view/layout/ParallelEdgeLayout.
 export { default as PartitionLayout } from './view/layout/PartitionLayout.js';
 export { default as RadialTreeLayout } from './view/layout/RadialTreeLayout.js';
 export { default as StackLayout } from './view/layout/StackLayout.js';
+export { default as StressLayout } from './view/layout/StressLayout.js';
 
 export { default as HierarchicalEdgeStyle } from './view/layout/datatypes/HierarchicalEdgeStyle.js';
 export { default as HierarchicalLayout } from './view/layout/HierarchicalLayout.js';
@@ -91,10 +97,19 @@ export { default as Codec } from './serialization/Codec.js';
 export { default as CodecRegistry } from './serialization/CodecRegistry.js';
 export { default as ObjectCodec } from './serialization/ObjectCodec.js';
 export * from './serialization/ModelXmlSerializer.js';
+export * from './serialization/UndoableEditXmlSerializer.js';
 export * from './serialization/codec/_model-codecs.js';
 export * from './serialization/codec/_other-codecs.js';
 export * from './serialization/register-model-codecs.js';
 export * from './serialization/register-other-codecs.js';
+export * from './serialization/JsonCodec.js';
+export * from './serialization/JsonCodecRegistry.js';
+export * from './serialization/JsonObjectCodec.js';
+export * from './serialization/json-types.js';
+export * from './serialization/ModelJsonSerializer.js';
+export * from './serialization/StylesheetTextSerializer.js';
+export * from './serialization/codec/_model-json-codecs.js';
+export * from './serialization/register-model-json-codecs.js';
 
 export { default as ActorShape } from './view/shape/node/ActorShape.js';
 export { default as LabelShape } from './view/shape/node/LabelShape.js';
@@ -123,6 +138,9 @@ export * from './view/shape/register-shapes.js';
 export { unregisterAllStencilShapes } from './view/shape/stencil/register.js';
 export * from './view/shape/stencil/StencilShape.js';
 export * from './view/shape/stencil/StencilShapeRegistry.js';
+export * from './view/shape/stencil/StencilBuilder.js';
+export * from './view/shape/stencil/stencil-description.js';
+export * from './view/shape/stencil/SvgStencilImporter.js';
 
 export { default as Guide } from './view/other/Guide.js';
 
@@ -160,6 +178,10 @@ export * as eventUtils from './util/EventUtils.js';
  * @category Utils
  */
 export * as gestureUtils from './util/gestureUtils.js';
+/**
+ * @category Utils
+ */
+export * as htmlUtils from './util/htmlUtils.js';
 /**
  * @category Utils
  */
@@ -195,6 +217,8 @@ export { default as Morphing } from './view/animate/Morphing.js';
 export { default as AbstractCanvas2D } from './view/canvas/AbstractCanvas2D.js';
 export { default as SvgCanvas2D } from './view/canvas/SvgCanvas2D.js';
 export { default as XmlCanvas2D } from './view/canvas/XmlCanvas2D.js';
+export * from './view/canvas/HtmlCanvas2D.js';
+export * from './view/canvas/PdfCanvas2D.js';
 
 export { default as Geometry } from './view/geometry/Geometry.js';
 export { default as ObjectIdentity } from './util/ObjectIdentity.js';
@@ -209,6 +233,7 @@ export * from './view/style/edge/EdgeStyleRegistry.js';
 export { EdgeMarkerRegistry } from './view/style/marker/EdgeMarkerRegistry.js';
 export { PerimeterRegistry } from './view/style/perimeter/PerimeterRegistry.js';
 export { Stylesheet } from './view/style/Stylesheet.js';
+export * from './view/style/themes.js';
 
 export { default as DragSource } from './view/other/DragSource.js';
 export { default as PanningManager } from './view/other/PanningManager.js';
@@ -233,6 +258,7 @@ export * as guiUtils from './gui/guiUtils.js';
 export { default as ImageBox } from './view/image/ImageBox.js';
 export { default as ImageBundle } from './view/image/ImageBundle.js';
 export { default as ImageExport } from './view/image/ImageExport.js';
+export * from './view/image/PdfExport.js';
 
 export { default as UrlConverter } from './util/UrlConverter.js';
 export { default as MaxXmlRequest } from './util/MaxXmlRequest.js';
@@ -242,7 +268,9 @@ export { default as MaxXmlRequest } from './util/MaxXmlRequest.js';
 export * as requestUtils from './util/requestUtils.js';
 
 export { default as AutoSaveManager } from './view/other/AutoSaveManager.js';
+export * from './view/other/CollaborationManager.js';
 export { default as Clipboard } from './util/Clipboard.js';
+export * from './util/SystemClipboard.js';
 
 export { default as UndoableEdit } from './view/undoable-change/UndoableEdit.js';
 export { default as UndoManager } from './view/undoable-change/UndoManager.js';
@@ -256,6 +284,9 @@ export { default as CellStatePreview } from './view/cell/CellStatePreview.js';
 export { default as TemporaryCellStates } from './view/cell/TemporaryCellStates.js';
 export { default as ConnectionConstraint } from './view/other/ConnectionConstraint.js';
 export { default as Multiplicity } from './view/other/Multiplicity.js';
+export * from './view/other/ValidationEngine.js';
+export * from './view/other/ValidationRules.js';
+export * from './view/other/SearchManager.js';
 
 // Ensure types are exported in the type definitions
 export type { HTMLImageElementWithProps } from './gui/MaxToolbar.js';
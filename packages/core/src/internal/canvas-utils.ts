@@ -0,0 +1,286 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import type AbstractCanvas2D from '../view/canvas/AbstractCanvas2D.js';
+import { LINE_HEIGHT } from '../util/Constants.js';
+import { isNode } from '../util/domUtils.js';
+import { trim } from '../util/StringUtils.js';
+import Rectangle from '../view/geometry/Rectangle.js';
+import type {
+  AlignValue,
+  CanvasState,
+  OverflowValue,
+  TextDirectionValue,
+  VAlignValue,
+} from '../types.js';
+
+// Shared by the canvases which paint the labels as plain text, see HtmlCanvas2D and PdfCanvas2D.
+
+/**
+ * Converts the HTML markup of a label into plain text, keeping the line breaks.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const htmlToText = (html: string): string =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n+$/, '');
+
+/**
+ * Returns the plain text of the label passed to {@link AbstractCanvas2D.text}.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getLabelText = (str: string, format: string): string => {
+  if (isNode(str)) {
+    const node = str as unknown as Element;
+    return htmlToText(node.outerHTML ?? node.textContent ?? '');
+  }
+  return format === 'html' ? htmlToText(String(str)) : String(str);
+};
+
+/**
+ * Splits the given text into lines. If `maxWidth` is greater than 0, the lines are wrapped at word boundaries so that
+ * they are not wider than `maxWidth`, as measured by the given function.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getTextLines = (
+  str: string,
+  maxWidth: number,
+  measure: (text: string) => number
+): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of str.split('\n')) {
+    const words = (trim(paragraph) ?? '').split(/\s+/);
+    let line = '';
+
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+
+      if (maxWidth > 0 && line && measure(candidate) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+/**
+ * Returns the alignment of the text on the page. Like the `start` and `end` text anchors of the {@link SvgCanvas2D},
+ * the left and right alignments are swapped for the right-to-left text.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getTextAlign = (align: AlignValue, dir: TextDirectionValue): AlignValue => {
+  if (dir === 'rtl' && align !== 'center') {
+    return align === 'right' ? 'left' : 'right';
+  }
+  return align;
+};
+
+/**
+ * Returns the distance between the anchor of an aligned content and its left side.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getAlignOffset = (width: number, align: AlignValue): number =>
+  align === 'right' ? width : align === 'center' ? width / 2 : 0;
+
+/**
+ * Returns the top left corner of the box of the given size, aligned at (x, y).
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getAlignedBoxOrigin = (
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  align: AlignValue,
+  valign: VAlignValue
+): [number, number] => [
+  x - getAlignOffset(w, align),
+  y - (valign === 'middle' ? h / 2 : valign === 'bottom' ? h : 0),
+];
+
+/**
+ * Returns the vertical layout of the lines of a text, with the same alignment as {@link SvgCanvas2D.plainText}: the
+ * baseline of the first line, the line height and the height of the text.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getTextLinesLayout = (
+  y: number,
+  h: number,
+  fontSize: number,
+  lineCount: number,
+  valign: VAlignValue,
+  overflow: OverflowValue,
+  clip: boolean
+): { baseline: number; lineHeight: number; textHeight: number } => {
+  const lineHeight = Math.round(fontSize * LINE_HEIGHT);
+  const textHeight = fontSize + (lineCount - 1) * lineHeight;
+  const height = clip && h > 0 ? Math.min(textHeight, h) : textHeight;
+  let baseline = y + fontSize - 1;
+
+  if (valign === 'middle') {
+    baseline -= overflow === 'fill' ? h / 2 : height / 2;
+  } else if (valign === 'bottom') {
+    baseline -= overflow === 'fill' ? h : height + 1;
+  }
+  return { baseline, lineHeight, textHeight };
+};
+
+/**
+ * Returns the scaled bounds of the background and of the border of a text. Unless the text fills the label bounds, the
+ * width is the width of the longest line, as measured by the given function in scaled units.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getTextBackgroundBounds = (
+  lines: string[],
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  align: AlignValue,
+  valign: VAlignValue,
+  overflow: OverflowValue,
+  scale: number,
+  measure: (text: string) => number
+): Rectangle => {
+  if (overflow !== 'fill' && overflow !== 'width') {
+    w = Math.max(0, ...lines.map(measure)) / scale;
+  }
+  const [bx, by] = getAlignedBoxOrigin(x, y, w, h, align, valign);
+  return new Rectangle(bx * scale - 1, by * scale - 1, w * scale + 2, (h + 2) * scale);
+};
+
+/**
+ * Computes the transformation of {@link AbstractCanvas2D.rotate} like the {@link SvgCanvas2D}, and stores the rotation
+ * in the given state. The canvas mirrors its content around the scaled center if `mirrorH` or `mirrorV` is `true`, then
+ * rotates it by `theta` degrees around the center.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getCanvasRotation = (
+  state: CanvasState,
+  theta: number,
+  flipH: boolean,
+  flipV: boolean,
+  cx: number,
+  cy: number
+): { theta: number; cx: number; cy: number; mirrorH: boolean; mirrorV: boolean } => {
+  cx = (cx + state.dx) * state.scale;
+  cy = (cy + state.dy) * state.scale;
+
+  // Flipping in both directions is a rotation by 180 degrees, a single flip is a mirror which reverses the rotation
+  const mirror = flipH !== flipV;
+  if (flipH && flipV) {
+    theta += 180;
+  } else if (mirror) {
+    theta *= -1;
+  }
+
+  state.rotation += theta;
+  state.rotationCx = cx;
+  state.rotationCy = cy;
+  return { theta, cx, cy, mirrorH: mirror && flipH, mirrorV: mirror && flipV };
+};
+
+/**
+ * Adds a rectangle path to the given canvas.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const addRectPath = (
+  canvas: AbstractCanvas2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number
+): void => {
+  canvas.begin();
+  canvas.moveTo(x, y);
+  canvas.lineTo(x + w, y);
+  canvas.lineTo(x + w, y + h);
+  canvas.lineTo(x, y + h);
+  canvas.close();
+};
+
+/**
+ * Adds a rounded rectangle path to the given canvas, using arcs for the corners.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const addRoundRectPath = (
+  canvas: AbstractCanvas2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  dx: number,
+  dy: number
+): void => {
+  if (dx <= 0 || dy <= 0) {
+    addRectPath(canvas, x, y, w, h);
+    return;
+  }
+  canvas.begin();
+  canvas.moveTo(x + dx, y);
+  canvas.lineTo(x + w - dx, y);
+  canvas.arcTo(dx, dy, 0, false, true, x + w, y + dy);
+  canvas.lineTo(x + w, y + h - dy);
+  canvas.arcTo(dx, dy, 0, false, true, x + w - dx, y + h);
+  canvas.lineTo(x + dx, y + h);
+  canvas.arcTo(dx, dy, 0, false, true, x, y + h - dy);
+  canvas.lineTo(x, y + dy);
+  canvas.arcTo(dx, dy, 0, false, true, x + dx, y);
+  canvas.close();
+};
+
+/**
+ * Adds an ellipse path, made of two arcs, to the given canvas.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const addEllipsePath = (
+  canvas: AbstractCanvas2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number
+): void => {
+  canvas.begin();
+  canvas.moveTo(x, y + h / 2);
+  canvas.arcTo(w / 2, h / 2, 0, false, true, x + w, y + h / 2);
+  canvas.arcTo(w / 2, h / 2, 0, false, true, x, y + h / 2);
+  canvas.close();
+};
@@ -0,0 +1,307 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+// Widths of the printable ASCII characters (32 to 126) of the standard PDF fonts, in 1/1000 em (from the AFM files).
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+// prettier-ignore
+const TIMES_WIDTHS = [
+  250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 500, 278, 278, 564, 564, 564, 444, 921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889,
+  722, 722, 556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500, 333, 444, 500, 444, 500,
+  444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480,
+  200, 480, 541,
+];
+
+/**
+ * Returns the name of the standard PDF font to use for the given CSS font family.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getStandardFontName = (
+  family: string,
+  bold: boolean,
+  italic: boolean
+): string => {
+  const name = family.toLowerCase();
+
+  if (name.includes('courier') || name.includes('mono')) {
+    return `Courier${bold || italic ? '-' : ''}${bold ? 'Bold' : ''}${italic ? 'Oblique' : ''}`;
+  }
+  if (name.includes('times') || (name.includes('serif') && !name.includes('sans'))) {
+    return bold && italic
+      ? 'Times-BoldItalic'
+      : bold
+        ? 'Times-Bold'
+        : italic
+          ? 'Times-Italic'
+          : 'Times-Roman';
+  }
+  return `Helvetica${bold || italic ? '-' : ''}${bold ? 'Bold' : ''}${italic ? 'Oblique' : ''}`;
+};
+
+/**
+ * Returns the width of the character with the given code in the given standard PDF font, in 1/1000 em.
+ * The widths of the bold and italic variants of Times are approximated with the widths of Times-Roman.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getStandardCharWidth = (fontName: string, code: number): number => {
+  if (fontName.startsWith('Courier')) {
+    return 600;
+  }
+  const widths = fontName.startsWith('Times')
+    ? TIMES_WIDTHS
+    : fontName.startsWith('Helvetica-Bold')
+      ? HELVETICA_BOLD_WIDTHS
+      : HELVETICA_WIDTHS;
+  return widths[code - 32] ?? widths[0x6f - 32]; // width of 'o' for the other characters
+};
+
+/**
+ * Metrics of a TrueType font, in 1/1000 em, as required to embed the font in a PDF document.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export interface TrueTypeFontMetrics {
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  italicAngle: number;
+  bbox: [number, number, number, number];
+  /** Returns the advance width of the given Unicode character. */
+  getCharWidth: (charCode: number) => number;
+}
+
+/**
+ * Reads the metrics of the given TrueType font (`.ttf` file).
+ *
+ * @throws Error if the data is not a TrueType font.
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const parseTrueTypeFont = (data: Uint8Array): TrueTypeFontMetrics => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tables: Record<string, number> = {};
+  const version = view.getUint32(0);
+
+  if (version !== 0x00010000 && version !== 0x74727565) {
+    throw new Error('Unsupported font: only TrueType fonts are supported');
+  }
+
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(...data.subarray(record, record + 4));
+    tables[tag] = view.getUint32(record + 8);
+  }
+
+  const { head, hhea, hmtx, cmap } = tables;
+  if (head == null || hhea == null || hmtx == null || cmap == null) {
+    throw new Error('Invalid TrueType font: missing required tables');
+  }
+
+  const unitsPerEm = view.getUint16(head + 18);
+  const toPdfUnits = (value: number) => Math.round((value * 1000) / unitsPerEm);
+  const numberOfHMetrics = view.getUint16(hhea + 34);
+  const getGlyphWidth = (glyph: number) =>
+    view.getUint16(hmtx + 4 * Math.min(glyph, numberOfHMetrics - 1));
+  const getGlyph = createCmapLookup(view, cmap);
+
+  const ascent = toPdfUnits(view.getInt16(hhea + 4));
+  const os2 = tables['OS/2'];
+  const post = tables.post;
+
+  return {
+    ascent,
+    descent: toPdfUnits(view.getInt16(hhea + 6)),
+    capHeight:
+      os2 != null && view.getUint16(os2) >= 2
+        ? toPdfUnits(view.getInt16(os2 + 88))
+        : ascent,
+    italicAngle: post != null ? view.getInt32(post + 4) / 65536 : 0,
+    bbox: [
+      toPdfUnits(view.getInt16(head + 36)),
+      toPdfUnits(view.getInt16(head + 38)),
+      toPdfUnits(view.getInt16(head + 40)),
+      toPdfUnits(view.getInt16(head + 42)),
+    ],
+    getCharWidth: (charCode) => toPdfUnits(getGlyphWidth(getGlyph(charCode))),
+  };
+};
+
+/**
+ * Returns a function mapping Unicode characters to glyph indexes using the format 4 subtable of the `cmap` table.
+ */
+const createCmapLookup = (
+  view: DataView,
+  cmap: number
+): ((charCode: number) => number) => {
+  const numTables = view.getUint16(cmap + 2);
+  let subtable = -1;
+
+  for (let i = 0; i < numTables && subtable < 0; i++) {
+    const record = cmap + 4 + i * 8;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const offset = cmap + view.getUint32(record + 4);
+
+    if ((platform === 3 && encoding === 1) || platform === 0) {
+      if (view.getUint16(offset) === 4) {
+        subtable = offset;
+      }
+    }
+  }
+
+  if (subtable < 0) {
+    return () => 0;
+  }
+
+  const segCount = view.getUint16(subtable + 6) / 2;
+  const endCodes = subtable + 14;
+  const startCodes = endCodes + 2 * segCount + 2;
+  const idDeltas = startCodes + 2 * segCount;
+  const idRangeOffsets = idDeltas + 2 * segCount;
+
+  return (charCode) => {
+    for (let i = 0; i < segCount; i++) {
+      if (charCode <= view.getUint16(endCodes + 2 * i)) {
+        const start = view.getUint16(startCodes + 2 * i);
+
+        if (charCode < start) {
+          return 0;
+        }
+        const delta = view.getInt16(idDeltas + 2 * i);
+        const rangeOffsetAddress = idRangeOffsets + 2 * i;
+        const rangeOffset = view.getUint16(rangeOffsetAddress);
+
+        if (rangeOffset === 0) {
+          return (charCode + delta) & 0xffff;
+        }
+        const glyph = view.getUint16(
+          rangeOffsetAddress + rangeOffset + 2 * (charCode - start)
+        );
+        return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+      }
+    }
+    return 0;
+  };
+};
+
+/**
+ * Escapes the given text to be written as a PDF literal string, the characters being encoded in Latin-1.
+ * The characters that are not part of Latin-1 are replaced with `?`.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const toPdfString = (text: string): string => {
+  let result = '(';
+
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+
+    if (char === '(' || char === ')' || char === '\\') {
+      result += `\\${char}`;
+    } else if (code < 32 || (code >= 127 && code < 160) || code > 255) {
+      result += '?';
+    } else if (code > 127) {
+      result += `\\${code.toString(8)}`;
+    } else {
+      result += char;
+    }
+  }
+  return `${result})`;
+};
+
+/**
+ * Returns the Latin-1 bytes of the given string, whose characters must all be in the Latin-1 range.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const toLatin1Bytes = (value: string): Uint8Array => {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+  orange: [255, 165, 0],
+  purple: [128, 0, 128],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  lightgray: [211, 211, 211],
+  darkgray: [169, 169, 169],
+};
+
+/**
+ * Converts a CSS color (hexadecimal, `rgb()`, `rgba()` or a basic named color) to the components of a PDF RGB color,
+ * for instance `1 0 0` for red. Returns `null` if the color cannot be converted.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const toPdfColor = (color: string): string | null => {
+  const value = color.trim().toLowerCase();
+  let rgb: number[] | undefined = NAMED_COLORS[value];
+
+  if (!rgb && value.startsWith('#')) {
+    let hex = value.substring(1);
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.replace(/(.)/g, '$1$1');
+    }
+    if (/^[0-9a-f]{6}([0-9a-f]{2})?$/.test(hex)) {
+      rgb = [0, 2, 4].map((i) => Number.parseInt(hex.substring(i, i + 2), 16));
+    }
+  } else if (!rgb) {
+    const match = /^rgba?\(([^)]*)\)$/.exec(value);
+    if (match) {
+      rgb = match[1]
+        .split(/[,\s/]+/)
+        .slice(0, 3)
+        .map((component) => Number.parseFloat(component));
+    }
+  }
+
+  if (!rgb || rgb.length < 3 || rgb.some((component) => Number.isNaN(component))) {
+    return null;
+  }
+  return rgb
+    .map(
+      (component) =>
+        Math.round((Math.min(255, Math.max(0, component)) / 255) * 1000) / 1000
+    )
+    .join(' ');
+};
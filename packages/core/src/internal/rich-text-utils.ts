@@ -0,0 +1,58 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { isAllowedUrl, sanitizeHtml } from '../util/htmlUtils.js';
+import type { HtmlSanitizerPolicy } from '../types.js';
+
+/**
+ * The elements, attributes and styles produced by the {@link RichTextCommands}.
+ */
+const RICH_TEXT_POLICY: HtmlSanitizerPolicy = {
+  allowedTags: [
+    'a',
+    'b',
+    'br',
+    'div',
+    'em',
+    'i',
+    'li',
+    'ol',
+    'p',
+    'span',
+    'strong',
+    'u',
+    'ul',
+  ],
+  allowedAttributes: ['href', 'style'],
+  allowedUrlSchemes: ['http', 'https', 'mailto'],
+  allowedStyles: ['color', 'font-size'],
+};
+
+/**
+ * Returns `true` if the given URL is relative or uses an allowed scheme.
+ *
+ * @private
+ */
+export const isSafeRichTextUrl = (url: string): boolean =>
+  isAllowedUrl(url, RICH_TEXT_POLICY.allowedUrlSchemes);
+
+/**
+ * Returns the given HTML with only the elements, attributes and styles produced by the {@link RichTextCommands}.
+ *
+ * @private
+ */
+export const sanitizeRichText = (html: string): string =>
+  sanitizeHtml(html, RICH_TEXT_POLICY);
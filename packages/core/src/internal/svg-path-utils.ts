@@ -0,0 +1,488 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/**
+ * A segment of a path in absolute coordinates, using the commands of the stencil language.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export type PathSegment =
+  | { type: 'move' | 'line'; x: number; y: number }
+  | { type: 'quad'; x1: number; y1: number; x: number; y: number }
+  | {
+      type: 'curve';
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      x: number;
+      y: number;
+    }
+  | {
+      type: 'arc';
+      rx: number;
+      ry: number;
+      rotation: number;
+      largeArc: boolean;
+      sweep: boolean;
+      x: number;
+      y: number;
+    }
+  | { type: 'close' };
+
+/**
+ * An affine transformation `[a, b, c, d, e, f]`, as in the SVG `matrix` transform function.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export type Matrix = [number, number, number, number, number, number];
+
+/**
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Returns the matrix applying `m2` then `m1`.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const multiplyMatrices = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[2] * m2[1],
+  m1[1] * m2[0] + m1[3] * m2[1],
+  m1[0] * m2[2] + m1[2] * m2[3],
+  m1[1] * m2[2] + m1[3] * m2[3],
+  m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+  m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+];
+
+/**
+ * Applies the matrix to the point.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const transformPoint = (m: Matrix, x: number, y: number): [number, number] => [
+  m[0] * x + m[2] * y + m[4],
+  m[1] * x + m[3] * y + m[5],
+];
+
+/**
+ * Returns `true` if the matrix only translates and scales, i.e. it keeps the rectangles aligned with the axes.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const isAxisAligned = (m: Matrix): boolean => m[1] === 0 && m[2] === 0;
+
+/**
+ * Returns the factor applied to the lengths by the matrix, for instance to the stroke width.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getScaleFactor = (m: Matrix): number =>
+  Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+
+const ARGUMENT_COUNTS: Record<string, number[]> = {
+  matrix: [6],
+  translate: [1, 2],
+  scale: [1, 2],
+  rotate: [1, 3],
+  skewX: [1],
+  skewY: [1],
+};
+
+/**
+ * Parses the value of an SVG `transform` attribute.
+ *
+ * @returns The matrix, or `null` if the value is invalid.
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const parseTransform = (value: string): Matrix | null => {
+  let matrix = IDENTITY_MATRIX;
+  const pattern = /\s*(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)\s*,?/y;
+  const end = value.trimEnd().length;
+  let index = 0;
+
+  while (index < end) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(value);
+    if (!match) {
+      return null;
+    }
+    index = pattern.lastIndex;
+
+    const args = match[2]
+      .split(/[\s,]+/)
+      .filter((arg) => arg !== '')
+      .map(Number);
+    if (args.some((arg) => !Number.isFinite(arg))) {
+      return null;
+    }
+    const [p0, p1, p2] = args;
+    let m: Matrix;
+
+    switch (match[1]) {
+      case 'matrix':
+        m = args as Matrix;
+        break;
+      case 'translate':
+        m = [1, 0, 0, 1, p0, p1 ?? 0];
+        break;
+      case 'scale':
+        m = [p0, 0, 0, p1 ?? p0, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = (p0 * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const cx = p1 ?? 0;
+        const cy = p2 ?? 0;
+        m = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case 'skewX':
+        m = [1, 0, Math.tan((p0 * Math.PI) / 180), 1, 0, 0];
+        break;
+      default:
+        m = [1, Math.tan((p0 * Math.PI) / 180), 0, 1, 0, 0];
+    }
+    if (!ARGUMENT_COUNTS[match[1]].includes(args.length)) {
+      return null;
+    }
+    matrix = multiplyMatrices(matrix, m);
+  }
+  return matrix;
+};
+
+const COMMAND_ARGUMENT_COUNTS: Record<string, number> = {
+  M: 2,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  A: 7,
+};
+
+/**
+ * Parses the value of an SVG path `d` attribute into absolute segments. The smooth curves are converted into regular
+ * curves.
+ *
+ * As specified for the SVG rendering, the segments are parsed until the first error.
+ *
+ * @returns The segments, and the position of the first error if any.
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const parsePathData = (
+  data: string
+): { segments: PathSegment[]; errorIndex: number | null } => {
+  const segments: PathSegment[] = [];
+  const numberPattern = /[\s,]*([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/y;
+  const flagPattern = /[\s,]*([01])/y;
+  const commandPattern = /\s*([MmLlHhVvCcSsQqTtAaZz])/y;
+  let index = 0;
+
+  const read = (pattern: RegExp): string | null => {
+    pattern.lastIndex = index;
+    const match = pattern.exec(data);
+    if (!match) {
+      return null;
+    }
+    index = pattern.lastIndex;
+    return match[1];
+  };
+  const readNumbers = (count: number, flags: number[] = []): number[] | null => {
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const value = read(flags.includes(i) ? flagPattern : numberPattern);
+      if (value === null) {
+        return null;
+      }
+      values.push(Number(value));
+    }
+    return values;
+  };
+
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // The last control point, to compute the reflected control point of the smooth curves
+  let controlX = 0;
+  let controlY = 0;
+  let previousCommand = '';
+  let command: string | null = null;
+  const end = data.trimEnd().length;
+
+  while (index < end) {
+    const explicitCommand = read(commandPattern);
+    if (explicitCommand) {
+      command = explicitCommand;
+    } else if (!command || command === 'z' || command === 'Z') {
+      return { segments, errorIndex: index };
+    }
+    const relative: boolean = command === command.toLowerCase();
+    const dx = relative ? x : 0;
+    const dy = relative ? y : 0;
+    const upperCommand = command.toUpperCase();
+    const isSmoothCurveAfterCurve = ['C', 'S'].includes(previousCommand);
+    const isSmoothQuadAfterQuad = ['Q', 'T'].includes(previousCommand);
+
+    if (upperCommand === 'Z') {
+      segments.push({ type: 'close' });
+      x = startX;
+      y = startY;
+      previousCommand = upperCommand;
+      continue;
+    }
+
+    const values = readNumbers(
+      COMMAND_ARGUMENT_COUNTS[upperCommand],
+      upperCommand === 'A' ? [3, 4] : []
+    );
+    if (!values) {
+      return { segments, errorIndex: index };
+    }
+
+    switch (upperCommand) {
+      case 'M':
+        x = values[0] + dx;
+        y = values[1] + dy;
+        startX = x;
+        startY = y;
+        segments.push({ type: 'move', x, y });
+        // The next coordinates without command are implicit lineto commands
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+      case 'H':
+      case 'V':
+        x = upperCommand === 'V' ? x : values[0] + dx;
+        y = upperCommand === 'H' ? y : values[upperCommand === 'V' ? 0 : 1] + dy;
+        segments.push({ type: 'line', x, y });
+        break;
+      case 'C':
+      case 'S': {
+        const [x1, y1] =
+          upperCommand === 'C'
+            ? [values[0] + dx, values[1] + dy]
+            : isSmoothCurveAfterCurve
+              ? [2 * x - controlX, 2 * y - controlY]
+              : [x, y];
+        const offset = upperCommand === 'C' ? 2 : 0;
+        controlX = values[offset] + dx;
+        controlY = values[offset + 1] + dy;
+        x = values[offset + 2] + dx;
+        y = values[offset + 3] + dy;
+        segments.push({ type: 'curve', x1, y1, x2: controlX, y2: controlY, x, y });
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        [controlX, controlY] =
+          upperCommand === 'Q'
+            ? [values[0] + dx, values[1] + dy]
+            : isSmoothQuadAfterQuad
+              ? [2 * x - controlX, 2 * y - controlY]
+              : [x, y];
+        const offset = upperCommand === 'Q' ? 2 : 0;
+        x = values[offset] + dx;
+        y = values[offset + 1] + dy;
+        segments.push({ type: 'quad', x1: controlX, y1: controlY, x, y });
+        break;
+      }
+      case 'A':
+        x = values[5] + dx;
+        y = values[6] + dy;
+        segments.push({
+          type: 'arc',
+          rx: Math.abs(values[0]),
+          ry: Math.abs(values[1]),
+          rotation: values[2],
+          largeArc: values[3] === 1,
+          sweep: values[4] === 1,
+          x,
+          y,
+        });
+        break;
+    }
+    previousCommand = upperCommand;
+  }
+  return { segments, errorIndex: null };
+};
+
+/**
+ * Applies the matrix to the segments. The arcs are converted into curves if the matrix does not keep their shape.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const transformSegments = (segments: PathSegment[], m: Matrix): PathSegment[] => {
+  const result: PathSegment[] = [];
+  const isSimilarity =
+    Math.abs(m[0] - m[3]) < 1e-9 && Math.abs(m[1] + m[2]) < 1e-9
+      ? 1
+      : Math.abs(m[0] + m[3]) < 1e-9 && Math.abs(m[1] - m[2]) < 1e-9
+        ? -1
+        : 0;
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+
+  for (const segment of segments) {
+    switch (segment.type) {
+      case 'close':
+        result.push(segment);
+        x = startX;
+        y = startY;
+        continue;
+      case 'move':
+      case 'line': {
+        const [tx, ty] = transformPoint(m, segment.x, segment.y);
+        result.push({ type: segment.type, x: tx, y: ty });
+        break;
+      }
+      case 'quad': {
+        const [x1, y1] = transformPoint(m, segment.x1, segment.y1);
+        const [tx, ty] = transformPoint(m, segment.x, segment.y);
+        result.push({ type: 'quad', x1, y1, x: tx, y: ty });
+        break;
+      }
+      case 'curve': {
+        const [x1, y1] = transformPoint(m, segment.x1, segment.y1);
+        const [x2, y2] = transformPoint(m, segment.x2, segment.y2);
+        const [tx, ty] = transformPoint(m, segment.x, segment.y);
+        result.push({ type: 'curve', x1, y1, x2, y2, x: tx, y: ty });
+        break;
+      }
+      case 'arc': {
+        const scale = getScaleFactor(m);
+
+        if (isSimilarity !== 0 || (isAxisAligned(m) && segment.rotation % 180 === 0)) {
+          const sx = isSimilarity !== 0 ? scale : Math.abs(m[0]);
+          const sy = isSimilarity !== 0 ? scale : Math.abs(m[3]);
+          // A reflection reverses the direction of the arc
+          const reflected = m[0] * m[3] - m[1] * m[2] < 0;
+          const angle = isSimilarity !== 0 ? (Math.atan2(m[1], m[0]) * 180) / Math.PI : 0;
+          const [tx, ty] = transformPoint(m, segment.x, segment.y);
+          // A reflection also reverses the rotation of the ellipse, which is the same modulo 180 degrees
+          const rotation =
+            isSimilarity === -1 ? angle - segment.rotation : segment.rotation + angle;
+
+          result.push({
+            ...segment,
+            rx: segment.rx * sx,
+            ry: segment.ry * sy,
+            rotation: ((rotation % 180) + 180) % 180,
+            sweep: reflected ? !segment.sweep : segment.sweep,
+            x: tx,
+            y: ty,
+          });
+        } else {
+          result.push(...transformSegments(arcToCurves(x, y, segment), m));
+        }
+        break;
+      }
+    }
+    x = segment.x;
+    y = segment.y;
+    if (segment.type === 'move') {
+      startX = x;
+      startY = y;
+    }
+  }
+  return result;
+};
+
+/**
+ * Converts the arc starting at the given point into curves, using the endpoint to center parameterization of the SVG
+ * specification.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const arcToCurves = (
+  x1: number,
+  y1: number,
+  arc: Extract<PathSegment, { type: 'arc' }>
+): PathSegment[] => {
+  const { x: x2, y: y2 } = arc;
+  let rx = Math.abs(arc.rx);
+  let ry = Math.abs(arc.ry);
+
+  if (rx === 0 || ry === 0) {
+    return [{ type: 'line', x: x2, y: y2 }];
+  }
+  if (x1 === x2 && y1 === y2) {
+    return [];
+  }
+  const phi = (arc.rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coefficient =
+    (arc.largeArc !== arc.sweep ? 1 : -1) *
+    Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coefficient * rx * y1p) / ry;
+  const cyp = (-coefficient * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const startAngle = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let deltaAngle = angle(
+    (x1p - cxp) / rx,
+    (y1p - cyp) / ry,
+    (-x1p - cxp) / rx,
+    (-y1p - cyp) / ry
+  );
+  if (!arc.sweep && deltaAngle > 0) {
+    deltaAngle -= 2 * Math.PI;
+  } else if (arc.sweep && deltaAngle < 0) {
+    deltaAngle += 2 * Math.PI;
+  }
+
+  const count = Math.max(1, Math.ceil(Math.abs(deltaAngle) / (Math.PI / 2) - 1e-9));
+  const delta = deltaAngle / count;
+  const t = (4 / 3) * Math.tan(delta / 4);
+  const map = (ux: number, uy: number) => ({
+    x: cx + rx * cos * ux - ry * sin * uy,
+    y: cy + rx * sin * ux + ry * cos * uy,
+  });
+  const curves: PathSegment[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const a1 = startAngle + i * delta;
+    const a2 = a1 + delta;
+    const c1 = map(Math.cos(a1) - t * Math.sin(a1), Math.sin(a1) + t * Math.cos(a1));
+    const c2 = map(Math.cos(a2) + t * Math.sin(a2), Math.sin(a2) - t * Math.cos(a2));
+    const end = i === count - 1 ? { x: x2, y: y2 } : map(Math.cos(a2), Math.sin(a2));
+    curves.push({ type: 'curve', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...end });
+  }
+  return curves;
+};
@@ -0,0 +1,69 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { HandleConfig } from '../view/handler/config.js';
+import {
+  DEFAULT_INVALID_COLOR,
+  DEFAULT_VALID_COLOR,
+  HIGHLIGHT_COLOR,
+} from '../util/Constants.js';
+import type { AbstractGraph } from '../view/AbstractGraph.js';
+
+/**
+ * Returns the fill color of the handles in the theme of the graph or in {@link HandleConfig}.
+ * @private
+ */
+export const getHandleFillColor = (graph: AbstractGraph): string =>
+  graph.getThemeColor('handleFillColor') ?? HandleConfig.fillColor;
+
+/**
+ * Returns the stroke color of the handles in the theme of the graph or in {@link HandleConfig}.
+ * @private
+ */
+export const getHandleStrokeColor = (graph: AbstractGraph): string =>
+  graph.getThemeColor('handleStrokeColor') ?? HandleConfig.strokeColor;
+
+/**
+ * Returns the fill color of the label handles in the theme of the graph or in {@link HandleConfig}.
+ * @private
+ */
+export const getLabelHandleFillColor = (graph: AbstractGraph): string =>
+  graph.getThemeColor('labelHandleFillColor') ?? HandleConfig.labelFillColor;
+
+/**
+ * Returns the color of the highlight of the focused and found cells in the theme of the graph, or {@link HIGHLIGHT_COLOR}.
+ * @private
+ */
+export const getHighlightColor = (graph: AbstractGraph): string =>
+  graph.getThemeColor('highlightColor') ?? HIGHLIGHT_COLOR;
+
+/**
+ * Returns the color of the valid targets in the theme of the graph, or the given default color.
+ * @private
+ */
+export const getValidColor = (
+  graph: AbstractGraph,
+  defaultColor: string = DEFAULT_VALID_COLOR
+): string => graph.getThemeColor('validColor') ?? defaultColor;
+
+/**
+ * Returns the color of the invalid targets in the theme of the graph, or the given default color.
+ * @private
+ */
+export const getInvalidColor = (
+  graph: AbstractGraph,
+  defaultColor: string = DEFAULT_INVALID_COLOR
+): string => graph.getThemeColor('invalidColor') ?? defaultColor;
@@ -16,8 +16,10 @@ limitations under the License.
 
 import { NODE_TYPE } from '../util/Constants.js';
 import { UserObject } from './types.js';
-import { GlobalConfig } from '../util/config.js';
+import { GlobalConfig, HtmlSanitizerConfig } from '../util/config.js';
+import { sanitizeHtml } from '../util/htmlUtils.js';
 import type { Logger } from '../types.js';
+import type Cell from '../view/cell/Cell.js';
 
 /**
  * @private
@@ -85,3 +87,82 @@ export const mixInto = (dest: any) => (mixin: any) => {
 export const matchBinaryMask = (value: number | undefined | null, mask: number) => {
   return (value! & mask) === mask;
 };
+
+const importedCells = new WeakSet<Cell>();
+
+/**
+ * Marks the given cells and their descendants as imported from a serialized model or from a remote peer, so that their
+ * HTML labels are sanitized when they are rendered if {@link HtmlSanitizerConfig.sanitizeImportedContent} is `true`.
+ *
+ * This is the single place shared by the import paths: {@link ModelXmlSerializer}, {@link ModelJsonSerializer},
+ * {@link UndoableEditXmlSerializer} and {@link CollaborationManager}. The clones of the imported cells are imported
+ * cells too.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const markImportedCells = (cells: Iterable<Cell | null | undefined>): void => {
+  for (const cell of cells) {
+    for (const descendant of cell?.getDescendants() ?? []) {
+      importedCells.add(descendant);
+    }
+  }
+};
+
+/**
+ * Marks the clone of an imported cell as imported, see {@link markImportedCells}.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const markClonedCell = (cell: Cell, clone: Cell): void => {
+  if (importedCells.has(cell)) {
+    importedCells.add(clone);
+  }
+};
+
+/**
+ * Returns `true` if the HTML label of the given cell must be sanitized because the cell has been imported, see
+ * {@link markImportedCells}.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const isImportedLabelSanitized = (cell?: Cell | null): boolean =>
+  HtmlSanitizerConfig.sanitizeImportedContent && cell != null && importedCells.has(cell);
+
+/**
+ * Returns the given HTML label sanitized with {@link HtmlSanitizerConfig} if {@link HtmlSanitizerConfig.enabled} is
+ * `true` or if the label of an imported cell must be sanitized, see {@link isImportedLabelSanitized}. Otherwise,
+ * returns it unchanged.
+ *
+ * @param html The HTML label.
+ * @param cell The optional {@link Cell} whose label is rendered.
+ * @private
+ */
+export const sanitizeHtmlLabel = (html: string, cell?: Cell | null): string =>
+  HtmlSanitizerConfig.enabled || isImportedLabelSanitized(cell)
+    ? sanitizeHtml(html)
+    : html;
+
+/**
+ * Returns the path of the element in its document, for example `/svg/g[2]/path[1]`. The index is the position of the
+ * element among the siblings with the same name.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ */
+export const getElementPath = (element: Element): string => {
+  const parts: string[] = [];
+
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const parent: Element | null = current.parentElement;
+    const name = current.localName;
+
+    if (!parent) {
+      parts.unshift(name);
+      break;
+    }
+    const siblings = Array.from(parent.children).filter(
+      (sibling) => sibling.localName === name
+    );
+    parts.unshift(`${name}[${siblings.indexOf(current) + 1}]`);
+  }
+  return `/${parts.join('/')}`;
+};
@@ -0,0 +1,387 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import Cell from '../view/cell/Cell.js';
+import CellPath from '../view/cell/CellPath.js';
+import { JsonCodecRegistry } from './JsonCodecRegistry.js';
+import { getFunctionName } from '../util/StringUtils.js';
+import { getXml, parseXml } from '../util/xmlUtils.js';
+import { isElement, log } from '../internal/utils.js';
+import { getNameFromRegistries } from './codec/utils.js';
+import { JSON_TYPE_PROPERTY, type JsonObject, type JsonValue } from './json-types.js';
+
+/**
+ * Codec name used to store XML user objects as a JSON string.
+ */
+const XML_NODE_TYPE = 'XmlNode';
+
+const isPlainObject = (value: any): boolean =>
+  value != null && (value.constructor === Object || value.constructor == null);
+
+/**
+ * JSON codec for JavaScript object graphs. This is the JSON counterpart of {@link Codec}: it uses the codecs registered in
+ * {@link JsonCodecRegistry} for encoding/decoding each object.
+ *
+ * The encoding scheme is the following:
+ * - primitive values (string, number, boolean) are stored as is.
+ * - arrays and plain objects are stored as JSON arrays and JSON objects, their items being encoded recursively.
+ * - instances of classes are encoded by the {@link JsonObjectCodec} registered for their constructor. The resulting JSON
+ *   object stores the codec name in the {@link JSON_TYPE_PROPERTY} property.
+ * - XML nodes (for instance, XML user objects of cells) are stored as an XML string.
+ * - functions are stored using their name in the style registries (edge styles, perimeters). Functions without a
+ *   registered name are not encoded.
+ *
+ * ### References
+ *
+ * Fields declared as references by a codec (see {@link JsonObjectCodec.idrefs}) are stored using the ID of the
+ * referenced object. To resolve forward references when decoding, pass the JSON document to decode to the constructor.
+ *
+ * **WARN**: the codecs provided by maxGraph are not registered by default, they **MUST** be registered before
+ * performing `encode` or `decode`. For instance, you can use the {@link registerModelJsonCodecs} function.
+ *
+ * **WARN**: this is an experimental feature that is subject to change.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization with Codecs
+ */
+export class JsonCodec {
+  constructor(document: JsonValue = null) {
+    this.document = document;
+  }
+
+  /**
+   * The JSON document that is decoded. It is used to resolve forward references.
+   */
+  document: JsonValue;
+
+  /**
+   * Maps from IDs to objects.
+   */
+  objects: Record<string, any> = {};
+
+  /**
+   * Lookup table for resolving IDs to JSON objects of the {@link document}.
+   */
+  elements: Record<string, JsonObject> = {};
+
+  /**
+   * Specifies if default values should be encoded.
+   * @default false
+   */
+  encodeDefaults = false;
+
+  /**
+   * Associates the given object with the given ID and returns the given object.
+   *
+   * @param id ID for the object to be associated with.
+   * @param obj Object to be associated with the ID.
+   */
+  putObject(id: string, obj: any): any {
+    this.objects[id] = obj;
+    return obj;
+  }
+
+  /**
+   * Returns the decoded object for the JSON object with the specified ID in {@link document}.
+   * If the object is not known then {@link lookup} is used to find an object. If no object is found, then the JSON
+   * object with the respective ID from the document is decoded using {@link decode}.
+   */
+  getObject(id: string): any {
+    let obj = null;
+
+    if (id != null) {
+      obj = this.objects[id];
+
+      if (obj == null) {
+        obj = this.lookup(id);
+
+        if (obj == null) {
+          const element = this.getElementById(id);
+
+          if (element != null) {
+            obj = this.decode(element);
+          }
+        }
+      }
+    }
+
+    return obj ?? null;
+  }
+
+  /**
+   * Hook for subclassers to implement a custom lookup mechanism for cell IDs.
+   * This implementation always returns null.
+   *
+   * @param id ID of the object to be returned.
+   */
+  lookup(id: string): any {
+    return null;
+  }
+
+  /**
+   * Returns the JSON object with the given ID from {@link document}.
+   *
+   * @param id String that contains the ID.
+   */
+  getElementById(id: string): JsonObject | null {
+    this.updateElements();
+    return this.elements[id] ?? null;
+  }
+
+  updateElements(): void {
+    if (Object.keys(this.elements).length === 0 && this.document != null) {
+      this.addElement(this.document);
+    }
+  }
+
+  /**
+   * Adds the given JSON value to {@link elements} if it is a typed object with an ID, then process its content.
+   */
+  addElement(value: JsonValue): void {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        this.addElement(item);
+      }
+    } else if (value != null && typeof value === 'object') {
+      const id = value.id;
+
+      if (typeof id === 'string' && typeof value[JSON_TYPE_PROPERTY] === 'string') {
+        if (this.elements[id] == null) {
+          this.elements[id] = value;
+        } else if (this.elements[id] !== value) {
+          throw new Error(`${id}: Duplicate ID`);
+        }
+      }
+
+      for (const key of Object.keys(value)) {
+        this.addElement(value[key]);
+      }
+    }
+  }
+
+  /**
+   * Returns the ID of the specified object. This implementation calls {@link reference} first and if that returns
+   * null handles the object as an {@link Cell} by returning their IDs using {@link Cell.getId}.
+   * If no ID exists for the given cell, then an on-the-fly ID is generated using {@link CellPath.create}.
+   *
+   * @param obj Object to return the ID for.
+   */
+  getId(obj: any): string | null {
+    let id = null;
+
+    if (obj != null) {
+      id = this.reference(obj);
+
+      if (id == null && obj instanceof Cell) {
+        id = obj.getId();
+
+        if (id == null) {
+          // Uses an on-the-fly Id
+          id = CellPath.create(obj);
+
+          if (id.length === 0) {
+            id = 'root';
+          }
+        }
+      }
+    }
+    return id;
+  }
+
+  /**
+   * Hook for subclassers to implement a custom method for retrieving IDs from objects.
+   * This implementation always returns null.
+   *
+   * @param obj Object whose ID should be returned.
+   */
+  reference(obj: any): any {
+    return null;
+  }
+
+  /**
+   * Encodes the specified value and returns the resulting JSON value.
+   *
+   * Returns `undefined` if the value cannot be encoded. This is for instance the case of functions without a registered
+   * name.
+   *
+   * @param obj Object to be encoded.
+   */
+  encode(obj: any): JsonValue | undefined {
+    if (obj == null) {
+      return null;
+    }
+
+    switch (typeof obj) {
+      case 'string':
+      case 'boolean':
+        return obj;
+      case 'number':
+        return Number.isFinite(obj) ? obj : null;
+      case 'function':
+        return getNameFromRegistries(obj) ?? undefined;
+      case 'object':
+        break;
+      default:
+        return undefined;
+    }
+
+    if (Array.isArray(obj)) {
+      return obj.map((item) => this.encode(item) ?? null);
+    }
+
+    if (isElement(obj)) {
+      return { [JSON_TYPE_PROPERTY]: XML_NODE_TYPE, xml: getXml(obj) };
+    }
+
+    if (isPlainObject(obj)) {
+      const result: JsonObject = {};
+
+      for (const key of Object.keys(obj)) {
+        const value = this.encode(obj[key]);
+
+        if (value !== undefined) {
+          result[key] = value;
+        }
+      }
+      return result;
+    }
+
+    const enc = JsonCodecRegistry.getCodec(obj.constructor);
+
+    if (enc != null) {
+      return enc.encode(this, obj);
+    }
+    log().warn(`JsonCodec.encode: No codec for ${getFunctionName(obj.constructor)}`);
+    return undefined;
+  }
+
+  /**
+   * Decodes the given JSON value. The optional "into" argument specifies an existing object to be used. If no object
+   * is given, then a new instance is created using the constructor from the codec.
+   *
+   * The function returns the passed in object or the new instance if no object was given.
+   *
+   * @param value JSON value to be decoded.
+   * @param into Optional object to be decoded into.
+   */
+  decode(value: JsonValue | undefined, into?: any): any {
+    this.updateElements();
+
+    if (value == null || typeof value !== 'object') {
+      return value ?? null;
+    }
+
+    if (Array.isArray(value)) {
+      const result: any[] = Array.isArray(into) ? into : [];
+      for (const item of value) {
+        result.push(this.decode(item));
+      }
+      return result;
+    }
+
+    const type = value[JSON_TYPE_PROPERTY];
+
+    if (typeof type !== 'string') {
+      const result = into != null && isPlainObject(into) ? into : {};
+      for (const key of Object.keys(value)) {
+        result[key] = this.decode(value[key]);
+      }
+      return result;
+    }
+
+    if (type === XML_NODE_TYPE) {
+      return parseXml(String(value.xml)).documentElement;
+    }
+
+    const dec = JsonCodecRegistry.getCodecByName(type);
+
+    if (dec != null) {
+      return dec.decode(this, value, into);
+    }
+    log().warn(
+      `JsonCodec.decode: No codec found for type '${type}', so the object won't be decoded, a plain object is returned instead.`
+    );
+    const { [JSON_TYPE_PROPERTY]: _ignored, ...rest } = value;
+    return this.decode(rest);
+  }
+
+  /**
+   * Encodes the given cell and, unless `includeChildren` is `false`, its descendants as a (flat) sequence into the
+   * given array.
+   *
+   * @param cell {@link Cell} to be encoded.
+   * @param cells Array to add the encoded cells into.
+   * @param includeChildren Optional boolean indicating if the function should include all descendants. Default is `true`.
+   */
+  encodeCell(cell: Cell, cells: JsonValue[], includeChildren = true): void {
+    const encoded = this.encode(cell);
+    if (encoded != null) {
+      cells.push(encoded);
+    }
+
+    if (includeChildren) {
+      for (const child of cell.getChildren()) {
+        this.encodeCell(child, cells);
+      }
+    }
+  }
+
+  /**
+   * Decodes a cell that has been encoded by a cell codec and, if `restoreStructures` is `true`, restores the group and
+   * graph structure by inserting the cell into its parent and terminals.
+   *
+   * @param value JSON object that contains the cell data.
+   * @param restoreStructures Optional boolean indicating whether the graph structure should be restored. Default is `true`.
+   */
+  decodeCell(value: JsonValue, restoreStructures = true): Cell | null {
+    const cell = this.decode(value);
+
+    if (!(cell instanceof Cell)) {
+      return null;
+    }
+
+    if (restoreStructures) {
+      this.insertIntoGraph(cell);
+    }
+    return cell;
+  }
+
+  /**
+   * Inserts the given cell into its parent and terminal cells.
+   */
+  insertIntoGraph(cell: Cell): void {
+    const { parent } = cell;
+    const source = cell.getTerminal(true);
+    const target = cell.getTerminal(false);
+
+    // Fixes possible inconsistencies during insert into graph
+    cell.setTerminal(null, false);
+    cell.setTerminal(null, true);
+    cell.parent = null;
+
+    if (parent != null) {
+      if (parent === cell) {
+        throw new Error(`${parent.id}: Self Reference`);
+      } else {
+        parent.insert(cell);
+      }
+    }
+
+    source?.insertEdge(cell, true);
+    target?.insertEdge(cell, false);
+  }
+}
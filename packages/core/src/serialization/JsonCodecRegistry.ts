@@ -0,0 +1,114 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { JsonObjectCodec } from './JsonObjectCodec.js';
+
+/**
+ * Singleton class that acts as a global registry for JSON codecs. This is the JSON counterpart of {@link CodecRegistry}.
+ *
+ * ### Adding a Codec
+ *
+ * ```javascript
+ * class MyObjectJsonCodec extends JsonObjectCodec {
+ *   constructor() {
+ *     super(new MyObject());
+ *   }
+ * }
+ * JsonCodecRegistry.register(new MyObjectJsonCodec());
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization with Codecs
+ */
+export class JsonCodecRegistry {
+  static codecs: { [key: string]: JsonObjectCodec | undefined } = {};
+
+  /**
+   * Maps from classnames to codec names.
+   */
+  static aliases: { [key: string]: string | undefined } = {};
+
+  /**
+   * Registers a new codec and associates the name of the codec via {@link JsonObjectCodec.getName} with the codec object.
+   *
+   * @param codec JsonObjectCodec to be registered.
+   * @param registerAlias if `true`, register an alias if the codec name doesn't match the name of the constructor of {@link JsonObjectCodec.template}.
+   */
+  static register(codec: JsonObjectCodec, registerAlias = true): JsonObjectCodec {
+    if (codec != null) {
+      const name = codec.getName();
+      JsonCodecRegistry.codecs[name] = codec;
+
+      const classname: string = codec.template.constructor.name;
+      if (registerAlias && classname !== name) {
+        JsonCodecRegistry.addAlias(classname, name);
+      }
+    }
+    return codec;
+  }
+
+  /**
+   * Adds an alias for mapping a class name to a codec name.
+   */
+  static addAlias(className: string, codecName: string): void {
+    JsonCodecRegistry.aliases[className] = codecName;
+  }
+
+  /**
+   * Returns a codec that handles objects that are constructed using the given constructor.
+   *
+   * If there is no registered codec, the method tries to register a new {@link JsonObjectCodec} using the provided constructor.
+   *
+   * @param constructor JavaScript constructor function of the objects handled by the codec.
+   */
+  static getCodec(constructor: any): JsonObjectCodec | null {
+    if (constructor == null) {
+      return null;
+    }
+
+    let codec = JsonCodecRegistry.getCodecByName(constructor.name);
+
+    // Registers a new default codec for the given constructor if no codec has been previously defined.
+    if (codec == null) {
+      try {
+        codec = JsonCodecRegistry.register(new JsonObjectCodec(new constructor()));
+      } catch (e) {
+        // ignore
+      }
+    }
+    return codec;
+  }
+
+  /**
+   * First try to get the codec by the name it is registered with. If it doesn't exist, use the alias eventually declared
+   * to get the codec.
+   * @param name the name of the codec that is willing to be retrieved.
+   */
+  static getCodecByName(name: string): JsonObjectCodec | null {
+    let codec = JsonCodecRegistry.codecs[name];
+    if (!codec) {
+      const alias = JsonCodecRegistry.aliases[name];
+      if (alias) {
+        codec = JsonCodecRegistry.codecs[alias];
+      }
+    }
+
+    return codec ?? null;
+  }
+}
@@ -0,0 +1,384 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import ObjectIdentity from '../util/ObjectIdentity.js';
+import { log } from '../internal/utils.js';
+import { JSON_TYPE_PROPERTY, type JsonObject, type JsonValue } from './json-types.js';
+import type { JsonCodec } from './JsonCodec.js';
+
+/**
+ * Generic codec for JavaScript objects that implements a mapping between JavaScript objects and JSON objects.
+ * This is the JSON counterpart of {@link ObjectCodec}.
+ *
+ * Each field of the object is stored in a property of the JSON object:
+ * - If the field name is in {@link exclude} then it is ignored.
+ * - If the field name is in {@link idrefs} then {@link JsonCodec.getId} is used to replace the object with its ID.
+ * - The field name is mapped using {@link mapping}.
+ * - If {@link JsonCodec.encodeDefaults} is `true` or the value differs from the template value, the value is encoded
+ *   with {@link JsonCodec.encode}.
+ *
+ * The JSON object also stores the name of the codec in the {@link JSON_TYPE_PROPERTY} property, and the ID of the object
+ * in the `id` property when {@link JsonCodec.getId} returns one.
+ *
+ * **WARN**: this is an experimental feature that is subject to change.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization with Codecs
+ */
+export class JsonObjectCodec {
+  constructor(
+    template: any,
+    exclude: string[] = [],
+    idrefs: string[] = [],
+    mapping: { [key: string]: string } = {}
+  ) {
+    this.template = template;
+    this.exclude = exclude;
+    this.idrefs = idrefs;
+    this.mapping = mapping;
+
+    this.reverse = {};
+    for (const i in mapping) {
+      this.reverse[mapping[i]] = i;
+    }
+  }
+
+  private name?: string;
+
+  /**
+   * Holds the template object associated with this codec.
+   */
+  template: any;
+
+  /**
+   * Array containing the variable names that should be ignored by the codec.
+   */
+  exclude: string[];
+
+  /**
+   * Array containing the variable names that should be turned into or converted from references.
+   * See {@link JsonCodec.getId} and {@link JsonCodec.getObject}.
+   */
+  idrefs: string[];
+
+  /**
+   * Maps from field names to JSON property names.
+   */
+  mapping: { [key: string]: string };
+
+  /**
+   * Maps from JSON property names to field names.
+   */
+  reverse: { [key: string]: string };
+
+  /**
+   * Returns the name stored in the {@link JSON_TYPE_PROPERTY} property of the encoded objects and used to look up the
+   * codec when decoding.
+   *
+   * The default implementation returns the classname of the template class if no name is set.
+   */
+  getName(): string {
+    return this.name ?? this.template.constructor.name;
+  }
+
+  setName(name: string): void {
+    this.name = name;
+  }
+
+  /**
+   * Returns a new instance of the template for this codec.
+   */
+  cloneTemplate(): any {
+    return new this.template.constructor();
+  }
+
+  /**
+   * Returns the field name for the given property name.
+   * Looks up the value in the {@link reverse} mapping or returns the input if there is no reverse mapping for the given name.
+   */
+  getFieldName(propertyName: string): string {
+    return this.reverse[propertyName] ?? propertyName;
+  }
+
+  /**
+   * Returns the property name for the given field name.
+   * Looks up the value in the {@link mapping} or returns the input if there is no mapping for the given name.
+   */
+  getPropertyName(fieldName: string): string {
+    return this.mapping[fieldName] ?? fieldName;
+  }
+
+  /**
+   * Returns `true` if the given field is to be ignored by the codec. This implementation returns `true` if the given
+   * field name is in {@link exclude} or if the field name equals {@link ObjectIdentity.FIELD_NAME}.
+   *
+   * @param obj Object instance that contains the field.
+   * @param attr Field name of the field.
+   * @param value Value of the field.
+   * @param write Boolean indicating if the field is being encoded or decoded.
+   */
+  isExcluded(obj: any, attr: string, value: any, write?: boolean): boolean {
+    return attr == ObjectIdentity.FIELD_NAME || this.exclude.includes(attr);
+  }
+
+  /**
+   * Returns `true` if the given field name is to be treated as a textual reference (ID).
+   * This implementation returns `true` if the given field name is in {@link idrefs}.
+   *
+   * @param obj Object instance that contains the field.
+   * @param attr Field name of the field.
+   * @param value Value of the field.
+   * @param write Boolean indicating if the field is being encoded or decoded.
+   */
+  isReference(obj: any, attr: string, value: any, write?: boolean): boolean {
+    return this.idrefs.includes(attr);
+  }
+
+  /**
+   * Encodes the specified object and returns a JSON object representing the given object.
+   * Calls {@link beforeEncode} before processing and {@link afterEncode} with the resulting JSON object.
+   *
+   * @param enc {@link JsonCodec} that controls the encoding process.
+   * @param obj Object to be encoded.
+   */
+  encode(enc: JsonCodec, obj: any): JsonObject {
+    const result: JsonObject = { [JSON_TYPE_PROPERTY]: this.getName() };
+
+    obj = this.beforeEncode(enc, obj, result);
+    this.encodeObject(enc, obj, result);
+
+    return this.afterEncode(enc, obj, result);
+  }
+
+  /**
+   * Encodes the value of each member in the given object into the given JSON object using {@link encodeValue}.
+   *
+   * @param enc {@link JsonCodec} that controls the encoding process.
+   * @param obj Object to be encoded.
+   * @param result JSON object that contains the encoded object.
+   */
+  encodeObject(enc: JsonCodec, obj: any, result: JsonObject): void {
+    const id = enc.getId(obj);
+    if (id != null) {
+      result.id = id;
+    }
+
+    for (const name in obj) {
+      const value = obj[name];
+
+      if (name !== 'id' && value != null && !this.isExcluded(obj, name, value, true)) {
+        this.encodeValue(enc, obj, name, value, result);
+      }
+    }
+  }
+
+  /**
+   * Converts the given value according to the mappings and id-refs in this codec and stores it in the JSON object.
+   *
+   * @param enc {@link JsonCodec} that controls the encoding process.
+   * @param obj Object whose property is going to be encoded.
+   * @param name Name of the field to be encoded.
+   * @param value Value of the field to be encoded.
+   * @param result JSON object that contains the encoded object.
+   */
+  encodeValue(
+    enc: JsonCodec,
+    obj: any,
+    name: string,
+    value: any,
+    result: JsonObject
+  ): void {
+    if (this.isReference(obj, name, value, true)) {
+      const ref = enc.getId(value);
+
+      if (ref == null) {
+        log().warn(
+          `JsonObjectCodec.encode: No ID for ${this.getName()}.${name}=${value}`
+        );
+        return;
+      }
+      result[this.getPropertyName(name)] = ref;
+      return;
+    }
+
+    // Checks if the value is a default value
+    if (enc.encodeDefaults || !this.isDefaultValue(name, value)) {
+      const encoded = enc.encode(value);
+
+      if (encoded !== undefined) {
+        result[this.getPropertyName(name)] = encoded;
+      }
+    }
+  }
+
+  /**
+   * Returns `true` if the value equals the value of the field in the {@link template}.
+   * Empty arrays and empty plain objects are considered equal to the empty arrays and empty plain objects of the template.
+   */
+  isDefaultValue(name: string, value: any): boolean {
+    const templateValue = this.template[name];
+    if (typeof value !== 'object') {
+      return templateValue === value;
+    }
+    if (Array.isArray(value)) {
+      return (
+        Array.isArray(templateValue) && value.length === 0 && templateValue.length === 0
+      );
+    }
+    return (
+      value.constructor === Object &&
+      templateValue?.constructor === Object &&
+      Object.keys(value).length === 0 &&
+      Object.keys(templateValue).length === 0
+    );
+  }
+
+  /**
+   * Hook for subclassers to pre-process the object before encoding. This returns the input object.
+   * The return value of this function is used in {@link encode} to perform the default encoding into the given JSON object.
+   *
+   * @param enc {@link JsonCodec} that controls the encoding process.
+   * @param obj Object to be encoded.
+   * @param result JSON object to encode the object into.
+   */
+  beforeEncode(enc: JsonCodec, obj: any, result: JsonObject): any {
+    return obj;
+  }
+
+  /**
+   * Hook for subclassers to post-process the JSON object for the given object after encoding and return the
+   * post-processed JSON object. This implementation returns the input JSON object.
+   *
+   * @param enc {@link JsonCodec} that controls the encoding process.
+   * @param obj Object to be encoded.
+   * @param result JSON object that represents the default encoding.
+   */
+  afterEncode(enc: JsonCodec, obj: any, result: JsonObject): JsonObject {
+    return result;
+  }
+
+  /**
+   * Parses the given JSON object into the object or returns a new object representing the given JSON object.
+   *
+   * If the JSON object has an `id` property then the object cache is checked for the object. If the object is not yet in
+   * the cache then it is constructed using the constructor of {@link template} and cached in {@link JsonCodec.objects}.
+   *
+   * @param dec {@link JsonCodec} that controls the decoding process.
+   * @param value JSON object to be decoded.
+   * @param into Optional object to decode the JSON object into.
+   */
+  decode(dec: JsonCodec, value: JsonObject, into?: any): any {
+    const id = typeof value.id === 'string' ? value.id : null;
+    let obj = id != null ? dec.objects[id] : null;
+
+    if (obj == null) {
+      obj = into ?? this.cloneTemplate();
+
+      if (id != null) {
+        dec.putObject(id, obj);
+      }
+    }
+
+    const json = this.beforeDecode(dec, value, obj);
+    this.decodeObject(dec, json, obj);
+    return this.afterDecode(dec, json, obj);
+  }
+
+  /**
+   * Decodes all properties of the given JSON object using {@link decodeProperty}.
+   *
+   * @param dec {@link JsonCodec} that controls the decoding process.
+   * @param value JSON object to be decoded.
+   * @param obj Object to decode the JSON object into.
+   */
+  decodeObject(dec: JsonCodec, value: JsonObject | null, obj: any): void {
+    if (value != null) {
+      for (const name of Object.keys(value)) {
+        if (!this.isIgnoredProperty(dec, name, obj)) {
+          this.decodeProperty(dec, name, value[name], obj);
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns `true` if the given property should be ignored. This implementation returns `true` for the `id` and
+   * {@link JSON_TYPE_PROPERTY} properties.
+   */
+  isIgnoredProperty(dec: JsonCodec, name: string, obj: any): boolean {
+    return name === 'id' || name === JSON_TYPE_PROPERTY;
+  }
+
+  /**
+   * Reads the given property into the specified object.
+   *
+   * @param dec {@link JsonCodec} that controls the decoding process.
+   * @param name Name of the JSON property.
+   * @param value Value of the JSON property.
+   * @param obj Object to decode the property into.
+   */
+  decodeProperty(dec: JsonCodec, name: string, value: JsonValue, obj: any): void {
+    const fieldName = this.getFieldName(name);
+    let decoded: any;
+
+    if (this.isReference(obj, fieldName, value, false)) {
+      decoded = dec.getObject(String(value));
+
+      if (decoded == null) {
+        log().warn(
+          `JsonObjectCodec.decode: No object for ${this.getName()}.${name}=${value}`
+        );
+        return;
+      }
+    } else {
+      const template = obj[fieldName];
+      // Non-empty arrays are replaced completely
+      decoded = dec.decode(
+        value,
+        Array.isArray(template) && template.length > 0 ? undefined : template
+      );
+    }
+
+    if (!this.isExcluded(obj, fieldName, decoded, false)) {
+      obj[fieldName] = decoded;
+    }
+  }
+
+  /**
+   * Hook for subclassers to pre-process the JSON object for the specified object and return the JSON object to be used
+   * for further processing by {@link decode}. This implementation returns the input JSON object.
+   *
+   * @param dec {@link JsonCodec} that controls the decoding process.
+   * @param value JSON object to be decoded.
+   * @param obj Object to decode the JSON object into.
+   */
+  beforeDecode(dec: JsonCodec, value: JsonObject, obj: any): JsonObject | null {
+    return value;
+  }
+
+  /**
+   * Hook for subclassers to post-process the object after decoding. This implementation returns the given object
+   * without any changes. The return value of this method is returned to the decoder from {@link decode}.
+   *
+   * @param dec {@link JsonCodec} that controls the decoding process.
+   * @param value JSON object to be decoded.
+   * @param obj Object that represents the default decoding.
+   */
+  afterDecode(dec: JsonCodec, value: JsonObject | null, obj: any): any {
+    return obj;
+  }
+}
@@ -0,0 +1,79 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { registerModelJsonCodecs } from './register-model-json-codecs.js';
+import { JsonCodec } from './JsonCodec.js';
+import type { JsonObject } from './json-types.js';
+import type { ModelExportOptions } from './ModelXmlSerializer.js';
+import type GraphDataModel from '../view/GraphDataModel.js';
+import { markImportedCells } from '../internal/utils.js';
+
+/**
+ * Convenient utility class using {@link JsonCodec} to manage maxGraph model import and export in JSON.
+ *
+ * It provides the same contract as {@link ModelXmlSerializer}. In addition, {@link exportObject} and {@link import} let
+ * you store and read the model as a JSON object, for instance in a document database, without stringifying it.
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization with Codecs
+ */
+export class ModelJsonSerializer {
+  constructor(private dataModel: GraphDataModel) {
+    this.registerCodecs();
+  }
+
+  /**
+   * Imports the model from the given JSON string or object.
+   *
+   * As with {@link ModelXmlSerializer.import}, the HTML labels of the imported cells are sanitized when they are
+   * rendered if {@link HtmlSanitizerConfig.sanitizeImportedContent} is `true`.
+   */
+  import(input: string | JsonObject): void {
+    const document =
+      typeof input === 'string' ? (JSON.parse(input) as JsonObject) : input;
+
+    this.dataModel.batchUpdate(() => {
+      new JsonCodec(document).decode(document, this.dataModel);
+      markImportedCells([this.dataModel.getRoot()]);
+    });
+  }
+
+  /**
+   * Export the model as a JSON string.
+   */
+  export(options?: ModelExportOptions): string {
+    return (options?.pretty ?? true)
+      ? JSON.stringify(this.exportObject(), null, 2)
+      : JSON.stringify(this.exportObject());
+  }
+
+  /**
+   * Export the model as a JSON object.
+   */
+  exportObject(): JsonObject {
+    return new JsonCodec().encode(this.dataModel) as JsonObject;
+  }
+
+  /**
+   * Hook for replacing codecs registered by default (JSON model codecs).
+   */
+  protected registerCodecs(): void {
+    registerModelJsonCodecs();
+  }
+}
@@ -18,6 +18,7 @@ import { registerModelCodecs } from './register-model-codecs.js';
 import { getPrettyXml, getXml, parseXml } from '../util/xmlUtils.js';
 import Codec from './Codec.js';
 import type GraphDataModel from '../view/GraphDataModel.js';
+import { markImportedCells } from '../internal/utils.js';
 
 /**
  * Export options of {@link ModelXmlSerializer}.
@@ -52,9 +53,20 @@ export class ModelXmlSerializer {
     this.registerCodecs();
   }
 
+  /**
+   * Imports the model from the given XML.
+   *
+   * The imported cells are untrusted content: if {@link HtmlSanitizerConfig.sanitizeImportedContent} is `true`, their
+   * HTML labels are sanitized when they are rendered. Their values are not changed.
+   */
   import(input: string | Element): void {
     const doc = typeof input === 'string' ? parseXml(input) : input.ownerDocument;
-    new Codec(doc).decode(doc.documentElement, this.dataModel);
+
+    // The view is only refreshed at the end of the update, once the cells are marked as imported
+    this.dataModel.batchUpdate(() => {
+      new Codec(doc).decode(doc.documentElement, this.dataModel);
+      markImportedCells([this.dataModel.getRoot()]);
+    });
   }
 
   export(options?: ModelExportOptions): string {
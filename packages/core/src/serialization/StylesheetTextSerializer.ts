@@ -0,0 +1,659 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { getNameFromRegistries } from './codec/utils.js';
+import type { Stylesheet } from '../view/style/Stylesheet.js';
+import type { CellStyle } from '../types.js';
+
+/**
+ * The value of a style property in the text format of the {@link StylesheetTextSerializer}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Serialization
+ */
+export type StylesheetTextValue = string | number | boolean;
+
+/**
+ * An error found while reading the text format of the {@link StylesheetTextSerializer}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Serialization
+ */
+export interface StylesheetTextError {
+  /**
+   * The description of the error.
+   */
+  message: string;
+  /**
+   * The line of the error, starting at 1.
+   */
+  line: number;
+  /**
+   * The column of the error in the line, starting at 1.
+   */
+  column: number;
+  /**
+   * The name of the style containing the error, if known.
+   */
+  styleName?: string;
+  /**
+   * The name of the property containing the error, if any.
+   */
+  property?: string;
+}
+
+/**
+ * Error thrown by {@link StylesheetTextSerializer.import} when the text is invalid.
+ *
+ * The message lists all errors, use {@link errors} to get their positions.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Serialization
+ */
+export class StylesheetTextParseError extends Error {
+  constructor(readonly errors: StylesheetTextError[]) {
+    super(
+      errors
+        .map((error) => `line ${error.line}, column ${error.column}: ${error.message}`)
+        .join('\n')
+    );
+    this.name = 'StylesheetTextParseError';
+  }
+}
+
+/**
+ * Convenient utility class to load and save the named styles of a {@link Stylesheet} in a readable text format, similar
+ * to CSS rules.
+ *
+ * ```
+ * defaultVertex {
+ *   fillColor: #C3D9FF;
+ *   fontFamily: "Helvetica Neue";
+ * }
+ *
+ * box extends corporate, shadowed {
+ *   rounded: true;
+ *   strokeWidth: 2;
+ * }
+ * ```
+ *
+ * Each rule defines a named style. The optional `extends` clause lists the styles set in `baseStyleNames` (see
+ * {@link Stylesheet.putCellStyle}). Each property is terminated by `;` (optional for the last property of a rule).
+ * Numbers and `true`/`false` are decoded as numbers and booleans. The other values are strings, which must be enclosed
+ * in double quotes if they contain `;`, `{`, `}` or if they would be decoded as a number or a boolean. C-style block
+ * comments are allowed between the rules and the properties.
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization
+ */
+export class StylesheetTextSerializer {
+  constructor(private stylesheet: Stylesheet) {}
+
+  /**
+   * Stores the styles of the text in the {@link Stylesheet}. The existing styles with the same names are replaced, the
+   * other styles are kept.
+   *
+   * Nothing is stored if the text contains errors.
+   *
+   * @throws {StylesheetTextParseError} if the text is invalid. See {@link validate}.
+   */
+  import(text: string): void {
+    const { rules, errors } = this.parse(text);
+
+    if (errors.length > 0) {
+      throw new StylesheetTextParseError(errors);
+    }
+    for (const rule of rules) {
+      this.stylesheet.putCellStyle(rule.name, rule.style);
+    }
+  }
+
+  /**
+   * Returns the errors of the text, sorted by position. The text is valid if the array is empty.
+   *
+   * In addition to the syntax errors, the following errors are reported:
+   * - styles defined several times and properties defined several times in the same style
+   * - extended styles which are neither defined in the text nor in the {@link Stylesheet}
+   * - inheritance cycles
+   * - errors returned by {@link validateProperty}
+   */
+  validate(text: string): StylesheetTextError[] {
+    return this.parse(text).errors;
+  }
+
+  /**
+   * Exports the named styles of the {@link Stylesheet}, starting with `defaultVertex` and `defaultEdge`.
+   *
+   * The properties whose value is an object, or a function not registered in the style registries, are not exported.
+   */
+  export(): string {
+    const styles = this.stylesheet.styles;
+    const names = [
+      ...['defaultVertex', 'defaultEdge'].filter((name) => styles.has(name)),
+      ...[...styles.keys()].filter(
+        (name) => name !== 'defaultVertex' && name !== 'defaultEdge'
+      ),
+    ];
+
+    return names
+      .map((name) => {
+        const style = styles.get(name)!;
+        const header = style.baseStyleNames?.length
+          ? `${name} extends ${style.baseStyleNames.join(', ')}`
+          : name;
+        const lines = [`${header} {`];
+
+        for (const [property, value] of Object.entries(style)) {
+          const text = RESERVED_PROPERTIES.includes(property)
+            ? null
+            : this.getStringValue(value);
+          if (text != null) {
+            lines.push(`  ${property}: ${text};`);
+          }
+        }
+        lines.push('}');
+        return lines.join('\n');
+      })
+      .join('\n\n')
+      .concat(names.length > 0 ? '\n' : '');
+  }
+
+  /**
+   * Hook for validating the value of a property, for instance against the values supported by the application.
+   *
+   * The default implementation accepts all values.
+   *
+   * @param _styleName The name of the style.
+   * @param _property The name of the property.
+   * @param _value The decoded value.
+   * @returns The description of the error, or `null` if the value is valid.
+   */
+  protected validateProperty(
+    _styleName: string,
+    _property: string,
+    _value: StylesheetTextValue
+  ): string | null {
+    return null;
+  }
+
+  /**
+   * Returns the text of the given property value, or `null` if the value is not exported.
+   */
+  protected getStringValue(value: unknown): string | null {
+    if (typeof value === 'function') {
+      return getNameFromRegistries(value);
+    }
+    if (typeof value === 'boolean') {
+      return String(value);
+    }
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? String(value) : null;
+    }
+    if (typeof value === 'string') {
+      return isUnquotedString(value) ? value : JSON.stringify(value);
+    }
+    return null;
+  }
+
+  private parse(text: string): { rules: ParsedRule[]; errors: StylesheetTextError[] } {
+    const parser = new Parser(text);
+    const rules = parser.parse();
+    const errors = parser.errors;
+
+    const definedRules = new Map<string, ParsedRule>();
+    for (const rule of rules) {
+      if (definedRules.has(rule.name)) {
+        errors.push({
+          message: `Style '${rule.name}' is already defined`,
+          line: rule.line,
+          column: rule.column,
+          styleName: rule.name,
+        });
+      } else {
+        definedRules.set(rule.name, rule);
+      }
+
+      for (const declaration of rule.declarations) {
+        const message = this.validateProperty(
+          rule.name,
+          declaration.property,
+          declaration.value
+        );
+        if (message) {
+          errors.push({
+            message,
+            line: declaration.line,
+            column: declaration.column,
+            styleName: rule.name,
+            property: declaration.property,
+          });
+        }
+      }
+    }
+
+    const getBaseStyleNames = (name: string) =>
+      definedRules.get(name)?.style.baseStyleNames ??
+      this.stylesheet.styles.get(name)?.baseStyleNames ??
+      [];
+
+    for (const rule of definedRules.values()) {
+      for (const baseStyleName of rule.style.baseStyleNames ?? []) {
+        if (
+          !definedRules.has(baseStyleName) &&
+          !this.stylesheet.styles.has(baseStyleName)
+        ) {
+          errors.push({
+            message: `Style '${rule.name}' extends the unknown style '${baseStyleName}'`,
+            line: rule.line,
+            column: rule.column,
+            styleName: rule.name,
+          });
+        }
+      }
+
+      const cycle = findCycle(rule.name, getBaseStyleNames);
+      if (cycle) {
+        errors.push({
+          message: `Style '${rule.name}' is part of the inheritance cycle ${cycle.join(' -> ')}`,
+          line: rule.line,
+          column: rule.column,
+          styleName: rule.name,
+        });
+      }
+    }
+
+    errors.sort(
+      (error1, error2) => error1.line - error2.line || error1.column - error2.column
+    );
+    return { rules, errors };
+  }
+}
+
+interface ParsedDeclaration {
+  property: string;
+  value: StylesheetTextValue;
+  line: number;
+  column: number;
+}
+
+interface ParsedRule {
+  name: string;
+  style: CellStyle;
+  declarations: ParsedDeclaration[];
+  line: number;
+  column: number;
+}
+
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const PROPERTY_PATTERN = /^[A-Za-z_$][\w$]*$/;
+const STYLE_NAME_PATTERN = /^[^\s{}:;,"]+$/;
+const RESERVED_PROPERTIES = ['baseStyleNames', 'ignoreDefaultStyle'];
+
+const isUnquotedString = (value: string) =>
+  value !== '' &&
+  value === value.trim() &&
+  !/[;{}"\n\r]|\/\*/.test(value) &&
+  decodeValue(value) === value;
+
+/**
+ * Returns `true` if only whitespaces separate the index from the end of the rule, i.e. the `;` is optional.
+ */
+const isFollowedByEndOfRule = (text: string, index: number): boolean => {
+  const pattern = /\s*\}/y;
+  pattern.lastIndex = index;
+  return pattern.test(text);
+};
+
+const decodeValue = (text: string): StylesheetTextValue => {
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  return NUMBER_PATTERN.test(text) ? Number(text) : text;
+};
+
+/**
+ * Returns the cycle reachable from the given style name, or `null`.
+ */
+const findCycle = (
+  name: string,
+  getBaseStyleNames: (name: string) => string[]
+): string[] | null => {
+  const visit = (styleName: string, path: string[]): string[] | null => {
+    if (path.includes(styleName)) {
+      // only report the cycles containing the given style, the other ones are reported on their own styles
+      return styleName === name ? [...path, styleName] : null;
+    }
+    for (const baseStyleName of getBaseStyleNames(styleName)) {
+      const cycle = visit(baseStyleName, [...path, styleName]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  };
+  return visit(name, []);
+};
+
+/**
+ * Reads the rules of the text, recording the syntax errors and resuming after them.
+ */
+class Parser {
+  readonly errors: StylesheetTextError[] = [];
+
+  private index = 0;
+  private line = 1;
+  private column = 1;
+
+  constructor(private readonly text: string) {}
+
+  parse(): ParsedRule[] {
+    const rules: ParsedRule[] = [];
+
+    while (this.skipWhitespacesAndComments()) {
+      const rule = this.parseRule();
+      if (rule) {
+        rules.push(rule);
+      }
+    }
+    return rules;
+  }
+
+  private parseRule(): ParsedRule | null {
+    const line = this.line;
+    const column = this.column;
+    const header = this.readUntil(/[{};]/y).trim();
+
+    if (this.peek() !== '{') {
+      this.addError(
+        header ? `Expected '{' after '${header}'` : `Unexpected '${this.peek()}'`,
+        line,
+        column
+      );
+      // skip the unexpected character or the end of the text
+      this.next();
+      return null;
+    }
+    this.next();
+
+    const match = /^(\S+)(?:\s+extends\s+([\s\S]+))?$/.exec(header);
+    const name = match?.[1] ?? '';
+    const baseStyleNames = match?.[2]?.split(',').map((baseName) => baseName.trim());
+
+    if (!STYLE_NAME_PATTERN.test(name)) {
+      this.addError(`Invalid style name '${header}'`, line, column);
+    }
+    for (const baseName of baseStyleNames ?? []) {
+      if (!STYLE_NAME_PATTERN.test(baseName)) {
+        this.addError(`Invalid extended style name '${baseName}'`, line, column, name);
+      }
+    }
+
+    const rule: ParsedRule = {
+      name,
+      style: baseStyleNames ? { baseStyleNames } : {},
+      declarations: [],
+      line,
+      column,
+    };
+    this.parseDeclarations(rule);
+    return rule;
+  }
+
+  private parseDeclarations(rule: ParsedRule): void {
+    while (true) {
+      if (!this.skipWhitespacesAndComments()) {
+        this.addError(
+          `Missing '}' at the end of style '${rule.name}'`,
+          rule.line,
+          rule.column,
+          rule.name
+        );
+        return;
+      }
+      const char = this.peek();
+      if (char === '}') {
+        this.next();
+        return;
+      }
+      if (char === ';') {
+        this.next();
+        continue;
+      }
+      this.parseDeclaration(rule);
+    }
+  }
+
+  private parseDeclaration(rule: ParsedRule): void {
+    const line = this.line;
+    const column = this.column;
+    const property = this.readUntil(/[:;{}\n]/y).trim();
+
+    if (this.peek() !== ':') {
+      this.addError(
+        `Expected ':' after '${property}'`,
+        line,
+        column,
+        rule.name,
+        property
+      );
+      if (this.peek() !== '}') {
+        this.next();
+      }
+      return;
+    }
+    this.next();
+
+    if (!PROPERTY_PATTERN.test(property)) {
+      this.addError(
+        `Invalid property name '${property}'`,
+        line,
+        column,
+        rule.name,
+        property
+      );
+    } else if (RESERVED_PROPERTIES.includes(property)) {
+      this.addError(
+        `Property '${property}' is not allowed, use 'extends' to reference other styles`,
+        line,
+        column,
+        rule.name,
+        property
+      );
+    } else if (
+      rule.declarations.some((declaration) => declaration.property === property)
+    ) {
+      this.addError(
+        `Property '${property}' is already defined`,
+        line,
+        column,
+        rule.name,
+        property
+      );
+    }
+
+    const value = this.readValue(rule.name, property);
+    if (value === null) {
+      return;
+    }
+    if (value === '') {
+      this.addError(
+        `Missing value of property '${property}'`,
+        line,
+        column,
+        rule.name,
+        property
+      );
+    }
+
+    const char = this.peek();
+    if (char === ';') {
+      this.next();
+    } else if (char !== '}' && !isFollowedByEndOfRule(this.text, this.index)) {
+      this.addError(
+        `Missing ';' after the value of property '${property}'`,
+        line,
+        column,
+        rule.name,
+        property
+      );
+    }
+
+    rule.declarations.push({ property, value, line, column });
+    // @ts-ignore CellStyle is not defined as indexed type
+    rule.style[property] = value;
+  }
+
+  /**
+   * Reads a quoted or an unquoted value. Returns `null` if the value is invalid.
+   */
+  private readValue(styleName: string, property: string): StylesheetTextValue | null {
+    this.readUntil(/[^ \t]/y);
+
+    if (this.peek() === '"') {
+      const line = this.line;
+      const column = this.column;
+      const match = /^"(?:[^"\\\n]|\\.)*"/.exec(this.text.slice(this.index));
+
+      if (!match) {
+        this.addError(
+          `Unterminated string in property '${property}'`,
+          line,
+          column,
+          styleName,
+          property
+        );
+        this.readUntil(/[;}\n]/y);
+        return null;
+      }
+      this.moveTo(this.index + match[0].length);
+      this.readUntil(/[^ \t]/y);
+
+      try {
+        return JSON.parse(match[0]);
+      } catch {
+        this.addError(
+          `Invalid string in property '${property}'`,
+          line,
+          column,
+          styleName,
+          property
+        );
+        return null;
+      }
+    }
+
+    let value = this.readUntil(/[;}\n]|\/\*/y);
+    while (this.text.startsWith('/*', this.index) && this.skipComment()) {
+      value += this.readUntil(/[;}\n]|\/\*/y);
+    }
+    return decodeValue(value.trim());
+  }
+
+  /**
+   * Skips the whitespaces and the comments. Returns `false` if the end of the text is reached.
+   */
+  private skipWhitespacesAndComments(): boolean {
+    while (this.index < this.text.length) {
+      if (/\s/.test(this.peek())) {
+        this.next();
+      } else if (this.text.startsWith('/*', this.index)) {
+        if (!this.skipComment()) {
+          return false;
+        }
+      } else {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Skips the comment starting at the current position. Returns `false` if the comment is not terminated.
+   */
+  private skipComment(): boolean {
+    const line = this.line;
+    const column = this.column;
+    const end = this.text.indexOf('*/', this.index + 2);
+
+    if (end === -1) {
+      this.addError('Unterminated comment', line, column);
+      this.moveTo(this.text.length);
+      return false;
+    }
+    this.moveTo(end + 2);
+    return true;
+  }
+
+  /**
+   * Moves to the first position matching the sticky pattern, or to the end of the text. Returns the skipped text.
+   */
+  private readUntil(pattern: RegExp): string {
+    const start = this.index;
+    while (this.index < this.text.length) {
+      pattern.lastIndex = this.index;
+      if (pattern.test(this.text)) {
+        break;
+      }
+      this.next();
+    }
+    return this.text.slice(start, this.index);
+  }
+
+  private moveTo(index: number): void {
+    while (this.index < index && this.index < this.text.length) {
+      this.next();
+    }
+  }
+
+  private peek(): string {
+    return this.text.charAt(this.index);
+  }
+
+  private next(): void {
+    if (this.index >= this.text.length) {
+      return;
+    }
+    if (this.text.charAt(this.index) === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    this.index++;
+  }
+
+  private addError(
+    message: string,
+    line: number,
+    column: number,
+    styleName?: string,
+    property?: string
+  ): void {
+    this.errors.push({
+      message,
+      line,
+      column,
+      ...(styleName && { styleName }),
+      ...(property && { property }),
+    });
+  }
+}
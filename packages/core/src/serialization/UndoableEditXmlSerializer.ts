@@ -0,0 +1,179 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { registerCoreCodecs } from './register-other-codecs.js';
+import { getPrettyXml, getXml, parseXml } from '../util/xmlUtils.js';
+import { isElement, markImportedCells } from '../internal/utils.js';
+import Codec from './Codec.js';
+import EventObject from '../view/event/EventObject.js';
+import InternalEvent from '../view/event/InternalEvent.js';
+import UndoableEdit from '../view/undoable-change/UndoableEdit.js';
+import CellAttributeChange from '../view/undoable-change/CellAttributeChange.js';
+import { ChildChange } from '../view/undoable-change/ChildChange.js';
+import RootChange from '../view/undoable-change/RootChange.js';
+import ValueChange from '../view/undoable-change/ValueChange.js';
+import type GraphDataModel from '../view/GraphDataModel.js';
+import type { ModelExportOptions } from './ModelXmlSerializer.js';
+import type { UndoableChange } from '../types.js';
+
+/**
+ * Name of the root element of the XML patches.
+ */
+const PATCH_NODE_NAME = 'UndoableEdit';
+
+/**
+ * Convenient utility class using {@link Codec} to serialize the changes of an {@link UndoableEdit} produced by a
+ * {@link GraphDataModel} as a patch, and to apply such a patch to another {@link GraphDataModel}.
+ *
+ * This is typically used to synchronize several models, for instance in collaborative editing:
+ * - listen to the {@link InternalEvent.NOTIFY} event of the local model and send the patches produced by {@link export}
+ *   to the other peers. This event is only fired for local changes, including undo and redo.
+ * - {@link apply} the patches received from the other peers to the local model. The changes of the patches are executed
+ *   without firing {@link InternalEvent.UNDO} and {@link InternalEvent.NOTIFY}, so they are neither stored by an
+ *   {@link UndoManager} nor sent back to the other peers. The {@link InternalEvent.CHANGE} event is fired, so the view of
+ *   the graph is refreshed.
+ *
+ * ```javascript
+ * const serializer = new UndoableEditXmlSerializer(model);
+ * model.addListener(InternalEvent.NOTIFY, (sender, evt) => {
+ *   transport.send(serializer.export(evt.getProperty('edit')));
+ * });
+ * transport.onMessage((patch) => serializer.apply(patch));
+ * ```
+ *
+ * The cells referenced by the patch are resolved by ID in the target model. New cells are fully encoded in the patch and
+ * keep their ID when they are added to the target model, unless the ID is already used. So, to prevent ID collisions when
+ * several peers create cells concurrently, configure a distinct {@link GraphDataModel.prefix} on each peer.
+ *
+ * Only the changes of the model are serialized, the changes related to the view or to the selection are ignored.
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization with Codecs
+ */
+export class UndoableEditXmlSerializer {
+  constructor(private dataModel: GraphDataModel) {
+    this.registerCodecs();
+  }
+
+  /**
+   * Serializes the model changes of the given edit as an XML patch.
+   *
+   * The changes are serialized in the order they must be executed to reproduce the current state of the edit. This means
+   * that they are serialized in reverse order if the edit has just been undone.
+   *
+   * @param edit the {@link UndoableEdit} to serialize, usually available in the `edit` property of the {@link InternalEvent.NOTIFY} event.
+   * @param options export options.
+   */
+  export(edit: UndoableEdit, options?: ModelExportOptions): string {
+    const codec = new Codec();
+    const node = codec.document.createElement(PATCH_NODE_NAME);
+    const changes = this.getChanges(edit);
+
+    for (const change of edit.undone ? [...changes].reverse() : changes) {
+      const changeNode = codec.encode(change);
+      changeNode && node.appendChild(changeNode);
+    }
+
+    return (options?.pretty ?? true) ? getPrettyXml(node) : getXml(node);
+  }
+
+  /**
+   * Decodes the changes of the given XML patch and executes them on the model.
+   *
+   * @param patch the patch produced by {@link export}.
+   * @returns the {@link UndoableEdit} that holds the executed changes. It is not significant and not stored by the
+   *          {@link UndoManager} listening to the model.
+   */
+  apply(patch: string | Element): UndoableEdit {
+    const node = typeof patch === 'string' ? parseXml(patch).documentElement : patch;
+    const codec = this.createCodec(node);
+    const model = this.dataModel;
+
+    const edit = new UndoableEdit(model, false);
+    edit.notify = () => {
+      model.fireEvent(
+        new EventObject(InternalEvent.CHANGE, { edit, changes: edit.changes })
+      );
+    };
+
+    model.fireEvent(new EventObject(InternalEvent.START_EDIT));
+    let child = node.firstChild;
+    while (child) {
+      if (isElement(child)) {
+        const change = codec.decode(child) as
+          | (UndoableChange & { model?: GraphDataModel })
+          | null;
+
+        if (change?.execute) {
+          change.model = model;
+          this.markImportedContent(change);
+          change.execute();
+          edit.add(change);
+          model.fireEvent(new EventObject(InternalEvent.EXECUTED, { change }));
+        }
+      }
+      child = child.nextSibling;
+    }
+    model.fireEvent(new EventObject(InternalEvent.END_EDIT));
+
+    if (!edit.isEmpty()) {
+      edit.notify();
+    }
+    return edit;
+  }
+
+  /**
+   * Marks the cells inserted by the given change, or whose value is changed, as imported: their HTML labels are
+   * sanitized when they are rendered if {@link HtmlSanitizerConfig.sanitizeImportedContent} is `true`.
+   */
+  private markImportedContent(change: UndoableChange): void {
+    if (change instanceof ChildChange) {
+      markImportedCells([change.child]);
+    } else if (change instanceof RootChange) {
+      markImportedCells([change.root]);
+    } else if (change instanceof ValueChange || change instanceof CellAttributeChange) {
+      markImportedCells([change.cell]);
+    }
+  }
+
+  /**
+   * Returns the changes of the edit that are related to the model, i.e. the changes to be serialized.
+   */
+  protected getChanges(edit: UndoableEdit): UndoableChange[] {
+    return edit.changes.filter(
+      (change) => (change as { model?: GraphDataModel }).model === this.dataModel
+    );
+  }
+
+  /**
+   * Creates the {@link Codec} used to decode the patch. Its {@link Codec.lookup} resolves the cells by ID in the model.
+   */
+  protected createCodec(node: Element): Codec {
+    const codec = new Codec(node.ownerDocument);
+    codec.lookup = (id: string) => this.dataModel.getCell(id);
+    return codec;
+  }
+
+  /**
+   * Hook for replacing codecs registered by default (core codecs, that include the codecs of the changes).
+   */
+  protected registerCodecs(): void {
+    registerCoreCodecs();
+  }
+}
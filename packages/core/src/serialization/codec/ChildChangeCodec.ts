@@ -93,11 +93,12 @@ export class ChildChangeCodec extends ObjectCodec {
    * Decodes any child nodes as using the respective codec from the registry.
    */
   override beforeDecode(dec: Codec, _node: Element, obj: any): any {
-    if (isElement(_node.firstChild)) {
+    // Ignores the whitespaces that precede the child, for instance in prettified XML
+    if (isElement(_node.firstElementChild)) {
       // Makes sure the original node isn't modified
-      const node = _node.cloneNode(true);
+      const node = _node.cloneNode(true) as Element;
 
-      let tmp = <Element>node.firstChild;
+      let tmp = <Element>node.firstElementChild;
       obj.child = dec.decodeCell(tmp, false);
 
       let tmp2 = <Element>tmp.nextSibling;
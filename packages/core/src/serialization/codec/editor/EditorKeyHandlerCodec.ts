@@ -52,6 +52,9 @@ export class EditorKeyHandlerCodec extends ObjectCodec {
    * action - Action name to execute in editor.
    * control - Optional boolean indicating if
    *     the control key must be pressed.
+   * shortcut - Shortcut used instead of the keycode, see {@link EditorKeyHandler.bindShortcut} (since 0.25.0).
+   * context - Optional context of the shortcut.
+   * description - Optional description of the shortcut.
    *
    * Example:
    *
@@ -60,6 +63,7 @@ export class EditorKeyHandlerCodec extends ObjectCodec {
    *   <add as="88" control="true" action="cut"/>
    *   <add as="67" control="true" action="copy"/>
    *   <add as="86" control="true" action="paste"/>
+   *   <add shortcut="Mod+Shift+G" action="group"/>
    * </EditorKeyHandler>
    * ```
    *
@@ -77,8 +81,16 @@ export class EditorKeyHandlerCodec extends ObjectCodec {
           const as = node.getAttribute('as');
           const action = node.getAttribute('action');
           const control = node.getAttribute('control');
+          const shortcut = node.getAttribute('shortcut');
 
-          into.bindAction(as, action, control);
+          if (shortcut) {
+            into.bindShortcut(shortcut, action, {
+              context: node.getAttribute('context') ?? undefined,
+              description: node.getAttribute('description') ?? undefined,
+            });
+          } else {
+            into.bindAction(as, action, control);
+          }
         }
         node = <Element | null>node.nextSibling;
       }
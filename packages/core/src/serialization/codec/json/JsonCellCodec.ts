@@ -0,0 +1,78 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { JsonObjectCodec } from '../../JsonObjectCodec.js';
+import Cell from '../../../view/cell/Cell.js';
+import type { JsonCodec } from '../../JsonCodec.js';
+import type { JsonObject } from '../../json-types.js';
+
+/**
+ * JSON codec for {@link Cell}s. This is the JSON counterpart of {@link CellCodec}.
+ *
+ * Transient Fields:
+ *
+ * - children
+ * - edges
+ * - overlays
+ * - mxTransient
+ *
+ * Reference Fields:
+ *
+ * - parent
+ * - source
+ * - target
+ *
+ * To subclass {@link Cell}, replace the template and add an alias as follows:
+ *
+ * ```javascript
+ * // Given 'CustomCell' extends 'Cell'
+ * JsonCodecRegistry.getCodec(Cell).template = new CustomCell();
+ * JsonCodecRegistry.addAlias('CustomCell', 'Cell');
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization with Codecs
+ */
+export class JsonCellCodec extends JsonObjectCodec {
+  constructor() {
+    super(
+      new Cell(),
+      ['children', 'edges', 'overlays', 'mxTransient'] as Array<keyof Cell>,
+      ['parent', 'source', 'target'] as Array<keyof Cell>
+    );
+    this.setName('Cell');
+  }
+
+  /**
+   * Returns `true` since this is a cell codec.
+   */
+  isCellCodec() {
+    return true;
+  }
+
+  /**
+   * Uses the ID stored in the JSON object as ID for the cell in the model.
+   */
+  override beforeDecode(dec: JsonCodec, value: JsonObject, obj: Cell): JsonObject | null {
+    if (typeof value.id === 'string') {
+      obj.setId(value.id);
+    }
+    return value;
+  }
+}
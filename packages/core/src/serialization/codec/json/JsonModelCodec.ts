@@ -0,0 +1,88 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { JsonObjectCodec } from '../../JsonObjectCodec.js';
+import GraphDataModel from '../../../view/GraphDataModel.js';
+import type { JsonCodec } from '../../JsonCodec.js';
+import type { JsonObject, JsonValue } from '../../json-types.js';
+
+/**
+ * JSON codec for {@link GraphDataModel}s. This is the JSON counterpart of {@link ModelCodec}.
+ *
+ * **WARN**: this is an experimental feature that is subject to change.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization with Codecs
+ */
+export class JsonModelCodec extends JsonObjectCodec {
+  constructor() {
+    super(new GraphDataModel());
+    this.setName('GraphDataModel');
+  }
+
+  /**
+   * Encodes the given {@link GraphDataModel} by writing a (flat) sequence of cells as produced by the {@link JsonCellCodec}
+   * in the `root` property.
+   */
+  override encodeObject(enc: JsonCodec, obj: GraphDataModel, result: JsonObject) {
+    const cells: JsonValue[] = [];
+    const root = obj.getRoot();
+    if (root) {
+      enc.encodeCell(root, cells);
+    }
+    result.root = cells;
+  }
+
+  /**
+   * Overrides decode property to handle the `root` property.
+   */
+  override decodeProperty(
+    dec: JsonCodec,
+    name: string,
+    value: JsonValue,
+    obj: GraphDataModel
+  ) {
+    if (name === 'root') {
+      this.decodeRoot(dec, value, obj);
+    } else {
+      super.decodeProperty(dec, name, value, obj);
+    }
+  }
+
+  /**
+   * Reads the cells into the graph model.
+   */
+  decodeRoot(dec: JsonCodec, root: JsonValue, model: GraphDataModel) {
+    if (!Array.isArray(root)) {
+      return;
+    }
+    let rootCell = null;
+
+    for (const value of root) {
+      const cell = dec.decodeCell(value);
+
+      if (cell != null && cell.getParent() == null) {
+        rootCell = cell;
+      }
+    }
+
+    // Sets the root on the model if one has been decoded
+    if (rootCell != null) {
+      model.setRoot(rootCell);
+    }
+  }
+}
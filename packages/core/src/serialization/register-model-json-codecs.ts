@@ -0,0 +1,54 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { JsonCodecRegistry } from './JsonCodecRegistry.js';
+import { JsonObjectCodec } from './JsonObjectCodec.js';
+import { JsonCellCodec, JsonModelCodec } from './codec/_model-json-codecs.js';
+import Geometry from '../view/geometry/Geometry.js';
+import Point from '../view/geometry/Point.js';
+import Rectangle from '../view/geometry/Rectangle.js';
+import { CodecRegistrationStates } from './register-shared.js';
+
+const createJsonObjectCodec = (template: any, name: string): JsonObjectCodec => {
+  const objectCodec = new JsonObjectCodec(template);
+  objectCodec.setName(name);
+  return objectCodec;
+};
+
+/**
+ * Register JSON model codecs i.e. JSON codecs used to import/export the Graph Model, see {@link GraphDataModel}.
+ *
+ * @param force if `true` register the codecs even if they were already registered. If false, only register them
+ *              if they have never been registered before.
+ * @experimental
+ * @since 0.25.0
+ * @category Configuration
+ * @category Serialization with Codecs
+ */
+export const registerModelJsonCodecs = (force = false) => {
+  if (!CodecRegistrationStates.modelJson || force) {
+    JsonCodecRegistry.register(new JsonCellCodec());
+    JsonCodecRegistry.register(new JsonModelCodec());
+
+    // Register the codecs with an explicit name to support decode/import executed before encode/export
+    // and to not depend on the class names which may be changed by minifiers
+    JsonCodecRegistry.register(createJsonObjectCodec(new Geometry(), 'Geometry'));
+    JsonCodecRegistry.register(createJsonObjectCodec(new Point(), 'Point'));
+    JsonCodecRegistry.register(createJsonObjectCodec(new Rectangle(), 'Rectangle'));
+
+    CodecRegistrationStates.modelJson = true;
+  }
+};
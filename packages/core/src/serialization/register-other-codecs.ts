@@ -15,6 +15,7 @@ limitations under the License.
 */
 
 import CodecRegistry from './CodecRegistry.js';
+import { JsonCodecRegistry } from './JsonCodecRegistry.js';
 import {
   BaseGraphCodec,
   ChildChangeCodec,
@@ -132,7 +133,7 @@ export const registerAllCodecs = (force = false) => {
 };
 
 /**
- * Unregister all codecs from {@link CodecRegistry}.
+ * Unregister all codecs from {@link CodecRegistry} and {@link JsonCodecRegistry}.
  *
  * @since 0.18.0
  * @category Configuration
@@ -141,6 +142,8 @@ export const registerAllCodecs = (force = false) => {
 export const unregisterAllCodecs = () => {
   CodecRegistry.codecs = {};
   CodecRegistry.aliases = {};
+  JsonCodecRegistry.codecs = {};
+  JsonCodecRegistry.aliases = {};
 
   // reset the state to ensure that the codecs are registered again when the "register" functions are called
   for (const key of Object.keys(CodecRegistrationStates)) {
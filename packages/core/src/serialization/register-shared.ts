@@ -27,6 +27,7 @@ export const CodecRegistrationStates: Record<string, boolean> = {
   core: false,
   editor: false,
   model: false,
+  modelJson: false,
 };
 
 /**
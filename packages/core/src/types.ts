@@ -656,6 +656,13 @@ export interface CellStateStyle {
    * if they terminate in floating ports (on the perimeter of the vertex).
    */
   perimeterSpacing?: number;
+  /**
+   * For vertices only. Specifies if the vertex keeps its location when the layouts supporting this style, like
+   * {@link StressLayout}, are executed.
+   * @default false
+   * @since 0.25.0
+   */
+  pinned?: boolean;
   /**
    * Specifies if pointer events should be fired on transparent backgrounds.
    * This style is currently only supported by {@link RectangleShape}, {@link SwimlaneShape}
@@ -1397,6 +1404,7 @@ export type EdgeStyleValue =
   | 'entityRelationEdgeStyle'
   | 'loopEdgeStyle'
   | 'manhattanEdgeStyle'
+  | 'obstacleAvoidingEdgeStyle'
   | 'orthogonalEdgeStyle'
   | 'segmentEdgeStyle'
   | 'sideToSideEdgeStyle'
@@ -1679,6 +1687,7 @@ export interface EdgeStyleRegistryInterface extends Registry<EdgeStyleFunction>
    * - {@link registerEntityRelationEdgeStyle}
    * - {@link registerLoopEdgeStyle}
    * - {@link registerManhattanEdgeStyle}
+   * - {@link registerObstacleAvoidingEdgeStyle}
    * - {@link registerOrthogonalEdgeStyle}
    * - {@link registerSegmentEdgeStyle}
    * - {@link registerSideToSideEdgeStyle}
@@ -1785,3 +1794,280 @@ export type VertexHandlerFactory = (state: CellState) => VertexHandler;
  * @since 0.25.0
  */
 export type EdgeHandlerFactory = (state: CellState) => EdgeHandler;
+
+/**
+ * The allowlist used to sanitize HTML markup, see {@link htmlUtils.sanitizeHtml}.
+ *
+ * The names are case-insensitive.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Configuration
+ */
+export interface HtmlSanitizerPolicy {
+  /**
+   * The elements that are kept. The other elements are replaced with their content, except the elements which can
+   * contain scripts or styles (such as `script`, `style` or `iframe`) which are removed with their content.
+   */
+  allowedTags: string[];
+  /**
+   * The attributes that are kept on the allowed elements. The event handler attributes (`on*`) are always removed.
+   */
+  allowedAttributes: string[];
+  /**
+   * The schemes allowed in the URL attributes (such as `href` and `src`) and in the `url()` of the styles. The relative
+   * URLs are always allowed.
+   */
+  allowedUrlSchemes: string[];
+  /**
+   * The CSS properties kept in the `style` attributes. All properties are kept if this is not set.
+   */
+  allowedStyles?: string[];
+}
+
+/**
+ * A condition on a value used by the {@link StyleRuleSelector}:
+ * - a `string` or a `number` matches when it is equal to the value (converted to a string)
+ * - a `RegExp` matches when the value is set and matches the expression
+ * - `true` matches when the value is set and not empty, `false` matches when it is not set or empty
+ * - a function matches when it returns `true`. It receives `null` when the value is not set.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Style
+ */
+export type StyleRuleCondition =
+  | string
+  | number
+  | boolean
+  | RegExp
+  | ((value: string | null) => boolean);
+
+/**
+ * The states of a cell against which the {@link StyleRule}s are evaluated.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Style
+ */
+export interface StyleRuleContext {
+  /**
+   * The cell whose style is computed.
+   */
+  cell: Cell;
+  /**
+   * `true` if the cell is selected.
+   * @default false
+   */
+  selected?: boolean;
+  /**
+   * `true` if the mouse is over the cell.
+   * @default false
+   */
+  hovered?: boolean;
+}
+
+/**
+ * Selects the cells to which a {@link StyleRule} applies. All the conditions that are set must match.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Style
+ */
+export interface StyleRuleSelector {
+  /**
+   * Matches only the vertices or only the edges.
+   */
+  kind?: 'vertex' | 'edge';
+  /**
+   * Matches the cells whose value is an XML element with the given node name (case-insensitive).
+   */
+  nodeName?: string;
+  /**
+   * Matches the cells whose value is an XML element with attributes matching the given conditions.
+   * The conditions are keyed by attribute names.
+   */
+  attributes?: Record<string, StyleRuleCondition>;
+  /**
+   * Matches the cells whose value matches the given condition. The strings and the numbers are converted to strings, the
+   * other values (for instance, the XML elements) are not set for the condition.
+   */
+  value?: StyleRuleCondition;
+  /**
+   * Matches the selected cells when `true` and the cells that are not selected when `false`.
+   *
+   * The selection is only tracked when the {@link StyleRulesPlugin} is registered in the graph.
+   */
+  selected?: boolean;
+  /**
+   * Matches the cell under the mouse when `true` and the other cells when `false`.
+   *
+   * The mouse is only tracked when the {@link StyleRulesPlugin} is registered in the graph.
+   */
+  hovered?: boolean;
+  /**
+   * Matches the collapsed cells when `true` and the expanded cells when `false`.
+   */
+  collapsed?: boolean;
+  /**
+   * A custom condition evaluated after the other ones.
+   */
+  match?: (context: StyleRuleContext) => boolean;
+}
+
+/**
+ * A style fragment applied to the cells matching a {@link StyleRuleSelector}, see {@link Stylesheet.addStyleRule}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Style
+ */
+export interface StyleRule {
+  /**
+   * The cells to which the rule applies.
+   */
+  selector: StyleRuleSelector;
+  /**
+   * The properties applied to the matching cells. The named styles referenced in `baseStyleNames` are applied before
+   * the properties, and a property set to `none` is removed from the style.
+   */
+  style: CellStyle;
+  /**
+   * The rules with a higher priority are applied after, and so override, the rules with a lower priority.
+   * The rules with the same priority are applied in the order in which they have been added.
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * If `true`, the rule is applied after the style of the cell, so it overrides the properties set in the cell.
+   * Otherwise, the properties of the cell override the properties of the rule.
+   * @default false
+   */
+  important?: boolean;
+}
+
+/**
+ * The colors of the elements displayed by the graph which are not cells: handles, selection borders, highlights,
+ * previews, guides, rubber band, outline, page and page breaks.
+ *
+ * The colors which are not set fall back to the global configuration (for instance {@link HandleConfig}) or to the
+ * constants of the library.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Style
+ */
+export interface ThemeColors {
+  /**
+   * The background color of the container of the graph.
+   */
+  backgroundColor?: string;
+  /**
+   * The fill color of the handles. Default is {@link HandleConfig.fillColor}.
+   */
+  handleFillColor?: string;
+  /**
+   * The stroke color of the handles. Default is {@link HandleConfig.strokeColor}.
+   */
+  handleStrokeColor?: string;
+  /**
+   * The fill color of the label handles. Default is {@link HandleConfig.labelFillColor}.
+   */
+  labelHandleFillColor?: string;
+  /**
+   * The fill color of the handles of the connected edge terminals. Default is {@link EdgeHandlerConfig.connectFillColor}.
+   */
+  connectHandleFillColor?: string;
+  /**
+   * The color of the selection border of the vertices. Default is {@link VertexHandlerConfig.selectionColor}.
+   */
+  vertexSelectionColor?: string;
+  /**
+   * The color of the selection border and of the preview of the edges. Default is {@link EdgeHandlerConfig.selectionColor}.
+   */
+  edgeSelectionColor?: string;
+  /**
+   * The color of the highlight of the focused and of the found cells. Default is {@link HIGHLIGHT_COLOR}.
+   */
+  highlightColor?: string;
+  /**
+   * The color of the highlight of the valid connection targets and of the connection preview. Default is {@link VALID_COLOR}.
+   */
+  validColor?: string;
+  /**
+   * The color of the highlight of the invalid connection targets and of the connection preview. Default is {@link INVALID_COLOR}.
+   */
+  invalidColor?: string;
+  /**
+   * The color of the highlight of the drop targets. Default is {@link DROP_TARGET_COLOR}.
+   */
+  dropTargetColor?: string;
+  /**
+   * The color of the preview of the moved cells. Default is {@link SelectionHandler.previewColor}.
+   */
+  previewColor?: string;
+  /**
+   * The color of the alignment guides. Default is {@link GUIDE_COLOR}.
+   */
+  guideColor?: string;
+  /**
+   * The fill color of the rubber band. Default is the color defined in the CSS of the `mxRubberband` class.
+   */
+  rubberBandFillColor?: string;
+  /**
+   * The border color of the rubber band. Default is the color defined in the CSS of the `mxRubberband` class.
+   */
+  rubberBandStrokeColor?: string;
+  /**
+   * The color of the viewport in the {@link Outline}. Default is {@link OUTLINE_COLOR}.
+   */
+  outlineColor?: string;
+  /**
+   * The fill color of the page displayed when {@link AbstractGraph.pageVisible} is `true`. Default is `white`.
+   */
+  pageBackgroundColor?: string;
+  /**
+   * The border color of the page displayed when {@link AbstractGraph.pageVisible} is `true`. Default is `black`.
+   */
+  pageBorderColor?: string;
+  /**
+   * The color of the page breaks. Default is {@link AbstractGraph.pageBreakColor}.
+   */
+  pageBreakColor?: string;
+  /**
+   * The color of the grid returned by {@link AbstractGraph.getGridColor}. Default is {@link AbstractGraph.gridColor}.
+   */
+  gridColor?: string;
+}
+
+/**
+ * Defines the appearance of a graph: the default styles of the {@link Stylesheet} and the colors of the other elements
+ * displayed by the graph. See {@link AbstractGraph.setTheme}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Style
+ */
+export interface Theme {
+  /**
+   * The name of the theme.
+   */
+  name: string;
+  /**
+   * The properties merged into the default vertex style of the {@link Stylesheet}.
+   */
+  vertexStyle?: CellStateStyle;
+  /**
+   * The properties merged into the default edge style of the {@link Stylesheet}.
+   */
+  edgeStyle?: CellStateStyle;
+  /**
+   * The properties merged into the named styles of the {@link Stylesheet}, keyed by style names. The named styles which
+   * do not exist are created.
+   */
+  styles?: Record<string, CellStateStyle>;
+  /**
+   * The colors of the elements which are not cells.
+   */
+  colors?: ThemeColors;
+}
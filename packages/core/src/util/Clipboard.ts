@@ -33,6 +33,8 @@ import { getTopmostCells } from './cellArrayUtils.js';
  *
  * For fine-grained control of the clipboard data the {@link AbstractGraph.canExportCell} and {@link AbstractGraph.canImportCell} functions can be overridden.
  *
+ * The cells are only stored in memory. To copy and paste cells across browser tabs and applications, use {@link SystemClipboard}.
+ *
  * To restore previous parents for pasted cells, the implementation for {@link copy} and {@link paste} can be changed as follows.
  *
  * ```typescript
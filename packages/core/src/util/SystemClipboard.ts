@@ -0,0 +1,386 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import Clipboard from './Clipboard.js';
+import { NS_SVG } from './Constants.js';
+import { getXml, parseXml } from './xmlUtils.js';
+import GraphDataModel from '../view/GraphDataModel.js';
+import ImageExport from '../view/image/ImageExport.js';
+import SvgCanvas2D from '../view/canvas/SvgCanvas2D.js';
+import { ModelXmlSerializer } from '../serialization/ModelXmlSerializer.js';
+import type Cell from '../view/cell/Cell.js';
+import type { AbstractGraph } from '../view/AbstractGraph.js';
+
+/**
+ * The representations of the cells written to the system clipboard by {@link SystemClipboard}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Utils
+ */
+export interface SystemClipboardData {
+  /** The cells serialized as a model fragment, see {@link SystemClipboard.createFragment}. */
+  fragment: string;
+  /** The SVG rendering of the cells, `null` if it is not available. */
+  svg: string | null;
+  /** The width of the SVG rendering. */
+  width: number;
+  /** The height of the SVG rendering. */
+  height: number;
+}
+
+/**
+ * Singleton that extends {@link Clipboard} to copy and paste cells through the clipboard of the system, so that cells
+ * can be copied from one browser tab and pasted into another one or into another maxGraph application.
+ *
+ * The cells are written as a serialized model fragment using the `text/plain` format. If {@link includeImages} is
+ * `true`, an SVG and a PNG rendering of the cells are also written for the other applications.
+ *
+ * The cells are also stored in {@link Clipboard}, which is used if the system clipboard is not available. As with
+ * {@link Clipboard}, {@link AbstractGraph.canExportCell} and {@link AbstractGraph.canImportCell} are respected, and the
+ * pasted cells are moved by {@link Clipboard.STEPSIZE} times {@link Clipboard.insertCount}.
+ *
+ * Two modes are available:
+ * - the asynchronous methods {@link copy}, {@link cut} and {@link paste} use the `navigator.clipboard` API.
+ * - the synchronous methods {@link copyToEvent}, {@link cutToEvent} and {@link pasteFromEvent} use the data of a
+ *   `ClipboardEvent`. They do not require the permission to read the clipboard.
+ *
+ * ```javascript
+ * document.addEventListener('copy', (evt) => {
+ *   if (!graph.isEditing()) {
+ *     SystemClipboard.copyToEvent(graph, evt);
+ *   }
+ * });
+ * document.addEventListener('paste', (evt) => {
+ *   if (!graph.isEditing()) {
+ *     SystemClipboard.pasteFromEvent(graph, evt);
+ *   }
+ * });
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Utils
+ */
+export class SystemClipboard {
+  /**
+   * Specifies if an SVG and a PNG rendering of the cells are written to the clipboard.
+   * @default true
+   */
+  static includeImages = true;
+
+  /**
+   * The last fragment written to or read from the system clipboard. It is used to keep {@link Clipboard.insertCount}
+   * when the same fragment is pasted several times.
+   */
+  static fragment: string | null = null;
+
+  /**
+   * Returns the cells serialized as a model fragment. The cells are added to the default layer of an empty
+   * {@link GraphDataModel} which is serialized with {@link ModelXmlSerializer}.
+   *
+   * @param graph - {@link AbstractGraph} used to clone the cells.
+   * @param cells - Array of {@link Cell} to be serialized.
+   */
+  static createFragment(graph: AbstractGraph, cells: Cell[]): string {
+    const model = new GraphDataModel();
+    const parent = model.getRoot()!.getChildAt(0);
+
+    for (const cell of graph.cloneCells(cells)) {
+      model.add(parent, cell);
+    }
+    return new ModelXmlSerializer(model).export({ pretty: false });
+  }
+
+  /**
+   * Returns the cells of the given model fragment, or `null` if the text is not a model fragment.
+   *
+   * @param text - The text read from the clipboard.
+   */
+  static parseFragment(text: string): Cell[] | null {
+    if (!/^\s*<(GraphDataModel|mxGraphModel)[\s>]/.test(text)) {
+      return null;
+    }
+    const doc = parseXml(text);
+
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      return null;
+    }
+    const model = new GraphDataModel();
+    new ModelXmlSerializer(model).import(text);
+    return model.getRoot()?.getChildAt(0)?.getChildren() ?? null;
+  }
+
+  /**
+   * Returns the SVG rendering of the given cells and its size, or `null` if the cells are not displayed.
+   *
+   * @param graph - {@link AbstractGraph} that displays the cells.
+   * @param cells - Array of {@link Cell} to be rendered.
+   */
+  static createSvg(
+    graph: AbstractGraph,
+    cells: Cell[]
+  ): { svg: string; width: number; height: number } | null {
+    const bounds = graph.getBoundingBox(cells);
+
+    if (!bounds) {
+      return null;
+    }
+    const width = Math.ceil(bounds.width) + 2;
+    const height = Math.ceil(bounds.height) + 2;
+    const svg = document.createElementNS(NS_SVG, 'svg');
+    svg.setAttribute('xmlns', NS_SVG);
+    svg.setAttribute('width', `${width}px`);
+    svg.setAttribute('height', `${height}px`);
+    svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+    const root = document.createElementNS(NS_SVG, 'g');
+    svg.appendChild(root);
+
+    const canvas = new SvgCanvas2D(root, false);
+    canvas.translate(1 - bounds.x, 1 - bounds.y);
+    const imageExport = new ImageExport();
+
+    for (const cell of cells) {
+      const state = graph.getView().getState(cell);
+
+      if (state) {
+        imageExport.drawState(state, canvas);
+      }
+    }
+    return { svg: getXml(svg), width, height };
+  }
+
+  /**
+   * Returns the PNG rendering of the given SVG.
+   */
+  static createPng(svg: string, width: number, height: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+
+      image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d')?.drawImage(image, 0, 0);
+        canvas.toBlob((blob) =>
+          blob ? resolve(blob) : reject(new Error('Unable to create the PNG image'))
+        );
+      };
+      image.onerror = () => reject(new Error('Unable to load the SVG image'));
+      image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
+  }
+
+  /**
+   * Returns the representations of the given cells to be written to the clipboard.
+   *
+   * @param graph - {@link AbstractGraph} that contains the cells.
+   * @param cells - Array of {@link Cell} returned by {@link Clipboard.copy}.
+   */
+  static createData(graph: AbstractGraph, cells: Cell[]): SystemClipboardData {
+    const image = SystemClipboard.includeImages
+      ? SystemClipboard.createSvg(graph, cells)
+      : null;
+
+    return {
+      fragment: SystemClipboard.createFragment(graph, cells),
+      svg: image?.svg ?? null,
+      width: image?.width ?? 0,
+      height: image?.height ?? 0,
+    };
+  }
+
+  /**
+   * Writes the given data to the system clipboard using `navigator.clipboard`. Only the formats supported by the
+   * browser are written.
+   */
+  static async write(data: SystemClipboardData): Promise<void> {
+    SystemClipboard.fragment = data.fragment;
+    const clipboard = navigator.clipboard;
+
+    if (!clipboard) {
+      return;
+    }
+    if (typeof ClipboardItem === 'undefined' || !clipboard.write) {
+      await clipboard.writeText(data.fragment);
+      return;
+    }
+    const supports = (type: string) =>
+      ClipboardItem.supports?.(type) ?? type !== 'image/svg+xml';
+    const items: Record<string, Blob | Promise<Blob>> = {
+      'text/plain': new Blob([data.fragment], { type: 'text/plain' }),
+    };
+
+    if (data.svg) {
+      if (supports('image/svg+xml')) {
+        items['image/svg+xml'] = new Blob([data.svg], { type: 'image/svg+xml' });
+      }
+      if (supports('image/png')) {
+        items['image/png'] = SystemClipboard.createPng(data.svg, data.width, data.height);
+      }
+    }
+    await clipboard.write([new ClipboardItem(items)]);
+  }
+
+  /**
+   * Copies the given cells with {@link Clipboard.copy} and writes them to the system clipboard.
+   *
+   * @param graph - {@link AbstractGraph} that contains the cells to be copied.
+   * @param cells - Optional array of {@link Cell} to be copied. Default is the selection cells.
+   * @returns the cells that have been copied.
+   */
+  static async copy(graph: AbstractGraph, cells?: Cell[]): Promise<Cell[]> {
+    const result = Clipboard.copy(graph, cells);
+
+    if (result.length > 0) {
+      await SystemClipboard.write(SystemClipboard.createData(graph, result));
+    }
+    return result;
+  }
+
+  /**
+   * Cuts the given cells from the graph and writes them to the system clipboard.
+   *
+   * @param graph - {@link AbstractGraph} that contains the cells to be cut.
+   * @param cells - Optional array of {@link Cell} to be cut. Default is the selection cells.
+   * @returns the cells that have been cut.
+   */
+  static async cut(graph: AbstractGraph, cells?: Cell[]): Promise<Cell[]> {
+    const result = Clipboard.copy(graph, cells);
+
+    if (result.length > 0) {
+      // The data is created before the removal as the rendering needs the states of the cells
+      const data = SystemClipboard.createData(graph, result);
+      Clipboard.insertCount = 0;
+      Clipboard.removeCells(graph, result);
+      await SystemClipboard.write(data);
+    }
+    return result;
+  }
+
+  /**
+   * Reads the system clipboard and pastes the cells of the model fragment it contains into the given graph. If the
+   * system clipboard cannot be read, the cells of {@link Clipboard} are pasted.
+   *
+   * @param graph - {@link AbstractGraph} to paste the cells into.
+   * @returns the pasted cells or `null` if the clipboard does not contain cells.
+   */
+  static async paste(graph: AbstractGraph): Promise<Cell[] | null> {
+    let text: string;
+
+    try {
+      text = await navigator.clipboard.readText();
+    } catch {
+      return Clipboard.paste(graph);
+    }
+    return SystemClipboard.pasteFragment(graph, text);
+  }
+
+  /**
+   * Pastes the cells of the given model fragment into the given graph using {@link Clipboard.paste}.
+   * {@link Clipboard.insertCount} is reset if the fragment is not the last fragment written to or read from the
+   * clipboard.
+   *
+   * @returns the pasted cells or `null` if the text is not a model fragment.
+   */
+  static pasteFragment(graph: AbstractGraph, text: string): Cell[] | null {
+    const cells = SystemClipboard.parseFragment(text);
+
+    if (!cells) {
+      return null;
+    }
+    if (text !== SystemClipboard.fragment) {
+      SystemClipboard.fragment = text;
+      Clipboard.insertCount = 1;
+    }
+    Clipboard.setCells(cells);
+    return Clipboard.paste(graph);
+  }
+
+  /**
+   * Writes the given data to the given `copy` or `cut` event and prevents the default behavior of the event.
+   */
+  static writeToEvent(evt: ClipboardEvent, data: SystemClipboardData): void {
+    SystemClipboard.fragment = data.fragment;
+
+    if (evt.clipboardData) {
+      evt.clipboardData.setData('text/plain', data.fragment);
+
+      if (data.svg) {
+        evt.clipboardData.setData('image/svg+xml', data.svg);
+        evt.clipboardData.setData('text/html', data.svg);
+      }
+      evt.preventDefault();
+    }
+  }
+
+  /**
+   * Copies the given cells with {@link Clipboard.copy} and writes them to the data of the given `copy` event. The
+   * event is not changed if there is no cell to copy.
+   *
+   * @param graph - {@link AbstractGraph} that contains the cells to be copied.
+   * @param evt - The `copy` event.
+   * @param cells - Optional array of {@link Cell} to be copied. Default is the selection cells.
+   * @returns the cells that have been copied.
+   */
+  static copyToEvent(graph: AbstractGraph, evt: ClipboardEvent, cells?: Cell[]): Cell[] {
+    const result = Clipboard.copy(graph, cells);
+
+    if (result.length > 0) {
+      SystemClipboard.writeToEvent(evt, SystemClipboard.createData(graph, result));
+    }
+    return result;
+  }
+
+  /**
+   * Cuts the given cells from the graph and writes them to the data of the given `cut` event. The event is not
+   * changed if there is no cell to cut.
+   *
+   * @param graph - {@link AbstractGraph} that contains the cells to be cut.
+   * @param evt - The `cut` event.
+   * @param cells - Optional array of {@link Cell} to be cut. Default is the selection cells.
+   * @returns the cells that have been cut.
+   */
+  static cutToEvent(graph: AbstractGraph, evt: ClipboardEvent, cells?: Cell[]): Cell[] {
+    const result = SystemClipboard.copyToEvent(graph, evt, cells);
+
+    if (result.length > 0) {
+      Clipboard.insertCount = 0;
+      Clipboard.removeCells(graph, result);
+    }
+    return result;
+  }
+
+  /**
+   * Pastes the cells of the model fragment contained in the data of the given `paste` event. The default behavior of
+   * the event is prevented if cells are pasted.
+   *
+   * @param graph - {@link AbstractGraph} to paste the cells into.
+   * @param evt - The `paste` event.
+   * @returns the pasted cells or `null` if the event does not contain cells.
+   */
+  static pasteFromEvent(graph: AbstractGraph, evt: ClipboardEvent): Cell[] | null {
+    const text = evt.clipboardData?.getData('text/plain');
+    const cells = text ? SystemClipboard.pasteFragment(graph, text) : null;
+
+    if (cells) {
+      evt.preventDefault();
+    }
+    return cells;
+  }
+}
@@ -14,7 +14,7 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import type { I18nProvider, Logger } from '../types.js';
+import type { HtmlSanitizerPolicy, I18nProvider, Logger } from '../types.js';
 import { NoOpLogger } from './logger.js';
 import {
   ARROW_SIZE,
@@ -198,3 +198,145 @@ const defaultStyleDefaultsConfig = { ...StyleDefaultsConfig };
 export const resetStyleDefaultsConfig = (): void => {
   shallowCopy(defaultStyleDefaultsConfig, StyleDefaultsConfig);
 };
+
+/**
+ * @experimental subject to change or removal. maxGraph's global configuration may be modified in the future without prior notice.
+ * @since 0.25.0
+ * @category Configuration
+ */
+export interface HtmlSanitizerConfigType extends HtmlSanitizerPolicy {
+  /**
+   * Specifies if the HTML labels are sanitized each time they are added to the DOM: by {@link TextShape}, by
+   * {@link SvgCanvas2D} (including the SVG export), by {@link TooltipHandler} for the tooltips and by
+   * {@link CellEditorHandler} in rich text mode.
+   *
+   * Enable it if the labels can be set from untrusted sources other than the imported content, see
+   * {@link sanitizeImportedContent}.
+   * @default false
+   */
+  enabled: boolean;
+  /**
+   * Specifies if the HTML labels of the imported cells are sanitized when they are rendered, even if {@link enabled} is
+   * `false`. The imported cells are the cells created or changed by {@link ModelXmlSerializer.import},
+   * {@link ModelJsonSerializer.import}, {@link UndoableEditXmlSerializer.apply} and the remote operations of the
+   * {@link CollaborationManager}, and their clones.
+   *
+   * The values of the cells are not changed, and the labels which are not rendered as HTML are not sanitized.
+   * @default true
+   */
+  sanitizeImportedContent: boolean;
+}
+
+/**
+ * Configure the sanitization of the HTML labels, which prevents the injection of scripts through the labels of
+ * untrusted diagrams.
+ *
+ * The default allowlist keeps the text formatting, the tables, the links and the images, with the `http`, `https` and
+ * `mailto` URLs.
+ *
+ * ```javascript
+ * // Sanitizes all labels, and allows the images embedded as data URLs
+ * HtmlSanitizerConfig.enabled = true;
+ * HtmlSanitizerConfig.allowedUrlSchemes.push('data');
+ * ```
+ *
+ * @experimental subject to change or removal. maxGraph's global configuration may be modified in the future without prior notice.
+ * @since 0.25.0
+ * @category Configuration
+ */
+export const HtmlSanitizerConfig: HtmlSanitizerConfigType = {
+  enabled: false,
+  sanitizeImportedContent: true,
+  allowedTags: [
+    'a',
+    'abbr',
+    'b',
+    'big',
+    'blockquote',
+    'br',
+    'caption',
+    'center',
+    'code',
+    'col',
+    'colgroup',
+    'dd',
+    'del',
+    'div',
+    'dl',
+    'dt',
+    'em',
+    'font',
+    'h1',
+    'h2',
+    'h3',
+    'h4',
+    'h5',
+    'h6',
+    'hr',
+    'i',
+    'img',
+    'ins',
+    'kbd',
+    'li',
+    'mark',
+    'ol',
+    'p',
+    'pre',
+    'q',
+    's',
+    'small',
+    'span',
+    'strike',
+    'strong',
+    'sub',
+    'sup',
+    'table',
+    'tbody',
+    'td',
+    'tfoot',
+    'th',
+    'thead',
+    'tr',
+    'tt',
+    'u',
+    'ul',
+  ],
+  allowedAttributes: [
+    'align',
+    'alt',
+    'border',
+    'cellpadding',
+    'cellspacing',
+    'class',
+    'color',
+    'colspan',
+    'dir',
+    'face',
+    'height',
+    'href',
+    'lang',
+    'rowspan',
+    'size',
+    'src',
+    'style',
+    'target',
+    'title',
+    'valign',
+    'width',
+  ],
+  allowedUrlSchemes: ['http', 'https', 'mailto'],
+  allowedStyles: undefined,
+};
+
+const defaultHtmlSanitizerConfig = {} as HtmlSanitizerConfigType;
+shallowCopy(HtmlSanitizerConfig, defaultHtmlSanitizerConfig);
+/**
+ * Resets {@link HtmlSanitizerConfig} to default values.
+ *
+ * @experimental Subject to change or removal. maxGraph's global configuration may be modified in the future without prior notice.
+ * @since 0.25.0
+ * @category Configuration
+ */
+export const resetHtmlSanitizerConfig = (): void => {
+  shallowCopy(defaultHtmlSanitizerConfig, HtmlSanitizerConfig);
+};
@@ -0,0 +1,203 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { HtmlSanitizerConfig } from './config.js';
+import type { HtmlSanitizerPolicy } from '../types.js';
+
+/**
+ * The elements removed with their content, even if they are allowed by the policy.
+ */
+const REMOVED_TAGS = new Set([
+  'base',
+  'embed',
+  'frame',
+  'frameset',
+  'iframe',
+  'link',
+  'math',
+  'meta',
+  'noscript',
+  'object',
+  'script',
+  'style',
+  'svg',
+  'template',
+  'title',
+]);
+
+/**
+ * The attributes containing a URL.
+ */
+const URL_ATTRIBUTES = new Set([
+  'action',
+  'background',
+  'cite',
+  'formaction',
+  'href',
+  'longdesc',
+  'poster',
+  'src',
+  'xlink:href',
+]);
+
+const CSS_URL_PATTERN = /url\s*\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+/**
+ * The constructs of the styles which can run scripts in legacy browsers.
+ */
+const CSS_SCRIPT_PATTERN = /expression\s*\(|behavior\s*:|-moz-binding/i;
+
+interface SanitizerRules {
+  tags: Set<string>;
+  attributes: Set<string>;
+  schemes: string[];
+  styles: string[] | null;
+}
+
+/**
+ * Returns `true` if the given URL is relative or uses one of the given schemes.
+ *
+ * @param url The URL to check.
+ * @param schemes The allowed schemes. Default is {@link HtmlSanitizerConfig.allowedUrlSchemes}.
+ * @since 0.25.0
+ */
+export const isAllowedUrl = (
+  url: string,
+  schemes: string[] = HtmlSanitizerConfig.allowedUrlSchemes
+): boolean => {
+  // Browsers ignore the control characters and the whitespaces in the schemes
+  // eslint-disable-next-line no-control-regex
+  const scheme = /^([^:/?#]*):/.exec(url.replace(/[\u0000- ]/g, ''))?.[1]?.toLowerCase();
+  return scheme == null || schemes.some((allowed) => allowed.toLowerCase() === scheme);
+};
+
+/**
+ * Returns the given HTML markup with only the elements, attributes and URL schemes allowed by the given policy.
+ *
+ * The markup is parsed in an inert document, so no script runs and no resource is loaded during the sanitization.
+ * The given markup is returned unchanged if nothing has to be removed, so the text without markup is not modified.
+ *
+ * ```javascript
+ * htmlUtils.sanitizeHtml('<b onclick="alert(1)">label</b><script>alert(2)</script>');
+ * // returns '<b>label</b>'
+ * ```
+ *
+ * @param html The markup to sanitize.
+ * @param policy The {@link HtmlSanitizerPolicy}. Default is {@link HtmlSanitizerConfig}.
+ * @since 0.25.0
+ */
+export const sanitizeHtml = (
+  html: string,
+  policy: HtmlSanitizerPolicy = HtmlSanitizerConfig
+): string => {
+  // Parsing in the body of a new document uses the same context as the innerHTML of the labels
+  const body = document.implementation.createHTMLDocument('').body;
+  body.innerHTML = html;
+
+  const rules: SanitizerRules = {
+    tags: new Set(policy.allowedTags.map((name) => name.toLowerCase())),
+    attributes: new Set(policy.allowedAttributes.map((name) => name.toLowerCase())),
+    schemes: policy.allowedUrlSchemes,
+    styles: policy.allowedStyles?.map((name) => name.toLowerCase()) ?? null,
+  };
+  return sanitizeChildren(body, rules) ? body.innerHTML : html;
+};
+
+/**
+ * Sanitizes the descendants of the given node and returns `true` if something has been removed.
+ */
+const sanitizeChildren = (node: Node, rules: SanitizerRules): boolean => {
+  let changed = false;
+
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) {
+      continue;
+    }
+    const name = child.nodeName.toLowerCase();
+
+    if (child.nodeType !== Node.ELEMENT_NODE || REMOVED_TAGS.has(name)) {
+      child.remove();
+      changed = true;
+      continue;
+    }
+    const elt = <HTMLElement>child;
+    changed = sanitizeChildren(elt, rules) || changed;
+
+    if (!rules.tags.has(name)) {
+      elt.replaceWith(...Array.from(elt.childNodes));
+      changed = true;
+    } else {
+      changed = sanitizeAttributes(elt, rules) || changed;
+    }
+  }
+  return changed;
+};
+
+const sanitizeAttributes = (elt: HTMLElement, rules: SanitizerRules): boolean => {
+  let changed = false;
+
+  for (const { name, value } of Array.from(elt.attributes)) {
+    const lowerName = name.toLowerCase();
+
+    if (
+      !rules.attributes.has(lowerName) ||
+      lowerName.startsWith('on') ||
+      (URL_ATTRIBUTES.has(lowerName) && !isAllowedUrl(value, rules.schemes))
+    ) {
+      elt.removeAttribute(name);
+      changed = true;
+    } else if (lowerName === 'style') {
+      changed = sanitizeStyle(elt, value, rules) || changed;
+    }
+  }
+  return changed;
+};
+
+const sanitizeStyle = (
+  elt: HTMLElement,
+  style: string,
+  rules: SanitizerRules
+): boolean => {
+  const urls = Array.from(style.matchAll(CSS_URL_PATTERN), (match) => match[2]);
+
+  if (
+    CSS_SCRIPT_PATTERN.test(style) ||
+    urls.some((url) => !isAllowedUrl(url, rules.schemes))
+  ) {
+    elt.removeAttribute('style');
+    return true;
+  }
+  const { styles } = rules;
+
+  if (
+    !styles ||
+    Array.from(elt.style).every((property) => styles.includes(property.toLowerCase()))
+  ) {
+    return false;
+  }
+  const values = styles.map((name) => [name, elt.style.getPropertyValue(name)]);
+  elt.removeAttribute('style');
+
+  for (const [name, value] of values) {
+    if (value) {
+      elt.style.setProperty(name, value);
+    }
+  }
+  if (!elt.getAttribute('style')) {
+    elt.removeAttribute('style');
+  }
+  return true;
+};
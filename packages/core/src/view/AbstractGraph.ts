@@ -50,6 +50,8 @@ import type {
   GraphPlugin,
   MouseListenerSet,
   PluginId,
+  Theme,
+  ThemeColors,
 } from '../types.js';
 import Multiplicity from './other/Multiplicity.js';
 import { applyGraphMixins } from './mixin/_graph-mixins-apply.js';
@@ -80,6 +82,11 @@ export abstract class AbstractGraph extends EventSource {
   destroyed = false;
 
   graphModelChangeListener: Function | null = null;
+
+  /**
+   * The background color of the container before the first {@link Theme} has been applied.
+   */
+  private containerBackgroundColor: string | null = null;
   paintBackground: Function | null = null;
   isConstrainedMoving = false;
 
@@ -236,6 +243,14 @@ export abstract class AbstractGraph extends EventSource {
    */
   pageBreakColor = 'gray';
 
+  /**
+   * Specifies the color of the grid. The grid is not drawn by maxGraph, this color is intended for the applications
+   * drawing it, see {@link getGridColor}.
+   * @default #f6f6f6
+   * @since 0.25.0
+   */
+  gridColor = '#f6f6f6';
+
   /**
    * Specifies the page breaks should be dashed.
    * @default true
@@ -465,7 +480,8 @@ export abstract class AbstractGraph extends EventSource {
   getDialect = () => this.dialect;
   isPageVisible = () => this.pageVisible;
   isPageBreaksVisible = () => this.pageBreaksVisible;
-  getPageBreakColor = () => this.pageBreakColor;
+  getPageBreakColor = () => this.getThemeColor('pageBreakColor') ?? this.pageBreakColor;
+  getGridColor = () => this.getThemeColor('gridColor') ?? this.gridColor;
   isPageBreakDashed = () => this.pageBreakDashed;
   getMinPageBreakDist = () => this.minPageBreakDist;
   isPreferPageSize = () => this.preferPageSize;
@@ -535,6 +551,65 @@ export abstract class AbstractGraph extends EventSource {
     this.stylesheet = stylesheet;
   }
 
+  /**
+   * Returns the {@link Theme} applied to the graph, or `null` if no theme is applied.
+   *
+   * The theme is stored in the {@link Stylesheet}.
+   *
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  getTheme(): Theme | null {
+    return this.stylesheet.getTheme();
+  }
+
+  /**
+   * Applies the given {@link Theme} and re-renders the graph. The model is not modified.
+   *
+   * The default styles of the theme are applied to the {@link Stylesheet} (see {@link Stylesheet.setTheme}), and its
+   * colors are applied to the container, the page, the page breaks, the grid color (see {@link getGridColor}) and,
+   * through {@link getThemeColor}, to the handles, highlights, previews, guides, rubber band and outline. The cell states and the handlers of the selection cells are
+   * re-created.
+   *
+   * Fires {@link InternalEvent.THEME_CHANGED} with the `theme` property once the graph has been re-rendered.
+   *
+   * ```javascript
+   * graph.setTheme(DarkTheme);
+   * // restores the default appearance
+   * graph.setTheme(null);
+   * ```
+   *
+   * @param theme The theme to apply, or `null` to restore the default appearance.
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  setTheme(theme: Theme | null): void {
+    this.stylesheet.setTheme(theme);
+
+    this.containerBackgroundColor ??= this.container.style.backgroundColor;
+    this.container.style.backgroundColor =
+      this.getThemeColor('backgroundColor') ?? this.containerBackgroundColor;
+
+    // The page shape is re-created with the colors of the theme
+    this.view.backgroundPageShape?.destroy();
+    this.view.backgroundPageShape = null;
+
+    this.refresh();
+    this.fireEvent(new EventObject(InternalEvent.THEME_CHANGED, { theme }));
+  }
+
+  /**
+   * Returns the color of the {@link Theme} for the given element, or `undefined` if no theme is applied or if the theme
+   * does not define this color. In this case, the caller uses its default color.
+   *
+   * @param key The element whose color is returned.
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  getThemeColor(key: keyof ThemeColors): string | undefined {
+    return this.getTheme()?.colors?.[key];
+  }
+
   /**
    * Called when the graph model changes. Invokes {@link processChange} on each
    * item of the given array to update the view accordingly.
@@ -626,6 +701,15 @@ export abstract class AbstractGraph extends EventSource {
     // descendants need to be recreated
     else if (change instanceof ValueChange) {
       this.view.invalidate(change.cell, false, false);
+
+      // The style rules may depend on the value
+      if (this.getStylesheet().hasStyleRules()) {
+        const state = this.view.getState(change.cell);
+
+        if (state != null) {
+          state.invalidStyle = true;
+        }
+      }
     }
 
     // Requires a new mxShape in JavaScript
@@ -75,6 +75,8 @@ import type { CellStyle, FilterFunction } from '../types.js';
  *
  * #### Encoding and decoding changes:
  *
+ * The {@link UndoableEditXmlSerializer} class implements the mechanism described below, so prefer using it.
+ *
  * For the encoding of changes, a graph model listener is required that encodes
  * each change from the given array of changes.
  *
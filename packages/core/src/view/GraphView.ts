@@ -549,6 +549,7 @@ export class GraphView extends EventSource {
     const c = cell || (this.currentRoot ?? this.graph.getDataModel().getRoot());
 
     if (c) {
+      this.updateVirtualViewport();
       const graphBounds = this.getBoundingBox(
         this.validateCellState(c ? this.validateCell(c) : null)
       );
@@ -562,6 +563,104 @@ export class GraphView extends EventSource {
     log().leave('GraphView.validate', t0);
   }
 
+  /**
+   * Returns the area of the view that is visible in the container, in view coordinates. This takes the scrollbars and
+   * the preview of the panning into account. Returns `null` if the graph has no container.
+   *
+   * @experimental
+   * @since 0.25.0
+   */
+  getVisibleBounds(): Rectangle | null {
+    const graph = this.graph;
+    const { container } = graph;
+
+    if (!container) {
+      return null;
+    }
+    return new Rectangle(
+      container.scrollLeft - graph.getPanDx(),
+      container.scrollTop - graph.getPanDy(),
+      container.clientWidth,
+      container.clientHeight
+    );
+  }
+
+  /**
+   * Updates {@link CellRenderer.virtualViewport} from the visible bounds extended by
+   * {@link CellRenderer.virtualizationMargin}. This is called at the beginning of each validation.
+   *
+   * @experimental
+   * @since 0.25.0
+   */
+  updateVirtualViewport(): void {
+    const renderer = this.graph.cellRenderer;
+    const bounds = renderer.virtualization ? this.getVisibleBounds() : null;
+    bounds?.grow(renderer.virtualizationMargin);
+    renderer.virtualViewport = bounds;
+  }
+
+  /**
+   * Creates the shapes of the states that entered the visible viewport and destroys the shapes of the states that left
+   * it, when {@link CellRenderer.virtualization} is enabled. This is called when the container is scrolled and when the
+   * graph is panned. The changes of the scale and of the translate revalidate the view, so the shapes are updated at
+   * this time.
+   *
+   * @experimental
+   * @since 0.25.0
+   */
+  updateVirtualization(): void {
+    const renderer = this.graph.cellRenderer;
+
+    if (!renderer.virtualization) {
+      return;
+    }
+    this.updateVirtualViewport();
+    let created = false;
+
+    for (const state of this.states.values()) {
+      const { cell } = state;
+
+      if (cell === this.currentRoot || (!cell.isVertex() && !cell.isEdge())) {
+        continue;
+      }
+      const virtualized = renderer.isVirtualized(state);
+
+      if (virtualized && state.shape) {
+        renderer.destroy(state);
+      } else if (!virtualized && !state.shape && !state.invalid) {
+        renderer.redraw(state, true, this.isRendering());
+        state.updateCachedBounds();
+        created = true;
+      }
+    }
+
+    // Inserts the new shapes at the right place in the DOM
+    if (created) {
+      const root = this.currentRoot ?? this.graph.getDataModel().getRoot();
+      this.resetValidationState();
+      root && this.validateOrder(root);
+      this.resetValidationState();
+    }
+  }
+
+  /**
+   * Updates the order of the DOM nodes of the shapes of the given cell and its descendants.
+   */
+  private validateOrder(cell: Cell): void {
+    const state = this.getState(cell);
+
+    if (state) {
+      if (state.shape) {
+        this.stateValidated(state);
+      }
+      const childCount = cell.getChildCount();
+
+      for (let i = 0; i < childCount; i += 1) {
+        this.validateOrder(cell.getChildAt(i));
+      }
+    }
+  }
+
   /**
    * Returns the bounds for an empty graph. This returns a rectangle at
    * {@link translate} with the size of 0 x 0.
@@ -584,6 +683,14 @@ export class GraphView extends EventSource {
     if (state) {
       if (state.shape && state.shape.boundingBox) {
         bbox = state.shape.boundingBox.clone();
+      } else if (
+        !state.shape &&
+        state.cell !== this.currentRoot &&
+        (state.cell.isVertex() || state.cell.isEdge()) &&
+        this.graph.cellRenderer.isVirtualized(state)
+      ) {
+        // Uses the bounds of the state for the shapes not created due to the virtualization
+        bbox = Rectangle.fromRectangle(state);
       }
 
       // Adds label bounding box to graph bounds
@@ -621,7 +728,11 @@ export class GraphView extends EventSource {
    * @param bounds {@link Rectangle} that represents the bounds of the shape.
    */
   createBackgroundPageShape(bounds: Rectangle) {
-    return new RectangleShape(bounds, 'white', 'black');
+    return new RectangleShape(
+      bounds,
+      this.graph.getThemeColor('pageBackgroundColor') ?? 'white',
+      this.graph.getThemeColor('pageBorderColor') ?? 'black'
+    );
   }
 
   /**
@@ -2145,6 +2256,11 @@ export class GraphView extends EventSource {
       }
     );
 
+    // Creates and destroys the shapes when the viewport changes without revalidation
+    const updateVirtualization = () => this.updateVirtualization();
+    InternalEvent.addListener(container, 'scroll', updateVirtualization);
+    graph.addListener(InternalEvent.PAN, updateVirtualization);
+
     // Adds listener for double click handling on background, this does always
     // use native event handler, we assume that the DOM of the background
     // does not change during the double click
@@ -0,0 +1,678 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import AbstractCanvas2D from './AbstractCanvas2D.js';
+import { FONT_STYLE_MASK, NONE } from '../../util/Constants.js';
+import { matchBinaryMask } from '../../internal/utils.js';
+import {
+  addEllipsePath,
+  addRectPath,
+  addRoundRectPath,
+  getAlignedBoxOrigin,
+  getAlignOffset,
+  getCanvasRotation,
+  getLabelText,
+  getTextAlign,
+  getTextBackgroundBounds,
+  getTextLines,
+  getTextLinesLayout,
+} from '../../internal/canvas-utils.js';
+import Rectangle from '../geometry/Rectangle.js';
+import type {
+  AlignValue,
+  OverflowValue,
+  TextDirectionValue,
+  VAlignValue,
+} from '../../types.js';
+
+/**
+ * Returns the CSS color for the given color and alpha. The alpha is only applied to hexadecimal colors.
+ */
+const getColorWithAlpha = (color: string, alpha: number): string => {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+
+  if (alpha >= 1 || !match) {
+    return color;
+  }
+  let hex = match[1];
+  if (hex.length === 3) {
+    hex = hex.replace(/(.)/g, '$1$1');
+  }
+  const r = Number.parseInt(hex.substring(0, 2), 16);
+  const g = Number.parseInt(hex.substring(2, 4), 16);
+  const b = Number.parseInt(hex.substring(4, 6), 16);
+  return `rgba(${r},${g},${b},${alpha})`;
+};
+
+/**
+ * Implementation of {@link AbstractCanvas2D} that paints into a `CanvasRenderingContext2D`.
+ *
+ * The context can be the one of an HTML `canvas` element, of an `OffscreenCanvas` or any compatible implementation. For
+ * instance, in Node.js, use [node-canvas](https://github.com/Automattic/node-canvas) together with {@link ImageExport}
+ * to render PNG images of a graph on the server (the graph itself still requires a DOM implementation like jsdom):
+ *
+ * ```javascript
+ * const { createCanvas, loadImage } = require('canvas');
+ *
+ * const bounds = graph.getGraphBounds();
+ * const canvas = createCanvas(Math.ceil(bounds.x + bounds.width + 1), Math.ceil(bounds.y + bounds.height + 1));
+ * const c2d = new HtmlCanvas2D(canvas.getContext('2d'));
+ * // images must be loaded before painting
+ * c2d.images['images/logo.png'] = await loadImage('images/logo.png');
+ *
+ * new ImageExport().drawState(graph.getView().getState(graph.model.root), c2d);
+ * fs.writeFileSync('graph.png', canvas.toBuffer('image/png'));
+ * ```
+ *
+ * Paths, shapes, gradients, shadows, dashed lines, text and images are supported, so markers and stencils are painted as
+ * well. Labels using the `html` format are painted as plain text: the markup is removed, and the line breaks are kept.
+ * Text is wrapped at the width of the label when wrapping is enabled.
+ *
+ * Shadows use the native shadows of the context, so their offset is not affected by the transformation of the context.
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization
+ */
+export class HtmlCanvas2D extends AbstractCanvas2D {
+  constructor(ctx: CanvasRenderingContext2D) {
+    super();
+    this.ctx = ctx;
+  }
+
+  /**
+   * The context to paint into.
+   */
+  ctx: CanvasRenderingContext2D;
+
+  /**
+   * Pre-loaded images by URL, see {@link getImage}.
+   */
+  images: Record<string, CanvasImageSource> = {};
+
+  /**
+   * Specifies if text output should be enabled.
+   * @default true
+   */
+  textEnabled = true;
+
+  /**
+   * Minimum stroke width for output.
+   * @default 1
+   */
+  minStrokeWidth = 1;
+
+  /**
+   * Keeps the coordinates of the paths as they are instead of rounding them, for a smoother rendering.
+   */
+  override format(value: number): number {
+    return value;
+  }
+
+  /**
+   * Saves the current state and the state of the context.
+   */
+  override save(): void {
+    super.save();
+    this.ctx.save();
+  }
+
+  /**
+   * Restores the current state and the state of the context.
+   */
+  override restore(): void {
+    super.restore();
+    this.ctx.restore();
+  }
+
+  /**
+   * Sets the rotation of the canvas by transforming the context. Note that rotation cannot be concatenated.
+   */
+  override rotate(theta: number, flipH: boolean, flipV: boolean, cx: number, cy: number) {
+    if (theta !== 0 || flipH || flipV) {
+      const rotation = getCanvasRotation(this.state, theta, flipH, flipV, cx, cy);
+
+      if (rotation.mirrorH || rotation.mirrorV) {
+        const tx = rotation.mirrorH ? rotation.cx : 0;
+        const ty = rotation.mirrorV ? rotation.cy : 0;
+
+        this.ctx.translate(tx, ty);
+        this.ctx.scale(rotation.mirrorH ? -1 : 1, rotation.mirrorV ? -1 : 1);
+        this.ctx.translate(-tx, -ty);
+      }
+
+      if (rotation.theta !== 0) {
+        this.rotateContext(rotation.theta, rotation.cx, rotation.cy);
+      }
+    }
+  }
+
+  private rotateContext(theta: number, cx: number, cy: number): void {
+    this.ctx.translate(cx, cy);
+    this.ctx.rotate((theta * Math.PI) / 180);
+    this.ctx.translate(-cx, -cy);
+  }
+
+  /**
+   * Empty implementation.
+   */
+  end(): void {
+    // nop
+  }
+
+  rect(x: number, y: number, w: number, h: number): void {
+    addRectPath(this, x, y, w, h);
+  }
+
+  roundrect(x: number, y: number, w: number, h: number, dx: number, dy: number): void {
+    addRoundRectPath(this, x, y, w, h, dx, dy);
+  }
+
+  ellipse(x: number, y: number, w: number, h: number): void {
+    addEllipsePath(this, x, y, w, h);
+  }
+
+  /**
+   * Returns the image to paint for the given URL. This implementation returns the image registered in {@link images}.
+   *
+   * Images are loaded asynchronously, so they must be registered before painting. Override this method to provide the
+   * images in another way.
+   *
+   * @param src the URL of the image, converted by {@link converter}.
+   */
+  getImage(src: string): CanvasImageSource | null {
+    return this.images[src] ?? null;
+  }
+
+  image(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    src: string,
+    aspect = true,
+    flipH = false,
+    flipV = false
+  ): void {
+    const img = this.getImage(this.converter.convert(src));
+
+    if (img == null) {
+      return;
+    }
+    const s = this.state;
+    const ctx = this.ctx;
+    x = (x + s.dx) * s.scale;
+    y = (y + s.dy) * s.scale;
+    w *= s.scale;
+    h *= s.scale;
+
+    ctx.save();
+    ctx.globalAlpha = s.alpha * s.fillAlpha;
+
+    if (flipH || flipV) {
+      ctx.translate(flipH ? 2 * x + w : 0, flipV ? 2 * y + h : 0);
+      ctx.scale(flipH ? -1 : 1, flipV ? -1 : 1);
+    }
+
+    const size = img as { width?: unknown; height?: unknown };
+    const iw = typeof size.width === 'number' ? size.width : 0;
+    const ih = typeof size.height === 'number' ? size.height : 0;
+
+    if (aspect && iw > 0 && ih > 0) {
+      // Centers the image in the bounds, like the default preserveAspectRatio in SVG
+      const scale = Math.min(w / iw, h / ih);
+      ctx.drawImage(
+        img,
+        x + (w - iw * scale) / 2,
+        y + (h - ih * scale) / 2,
+        iw * scale,
+        ih * scale
+      );
+    } else {
+      ctx.drawImage(img, x, y, w, h);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Paints the given text. HTML labels are painted as plain text.
+   */
+  text(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    str: string,
+    align: AlignValue,
+    valign: VAlignValue,
+    wrap: boolean,
+    format: string,
+    overflow: OverflowValue,
+    clip: boolean,
+    rotation = 0,
+    dir: TextDirectionValue
+  ): void {
+    if (this.textEnabled && str != null) {
+      this.plainText(
+        x + this.state.dx,
+        y + this.state.dy,
+        w,
+        h,
+        getLabelText(str, format),
+        align,
+        valign,
+        wrap,
+        overflow,
+        clip,
+        rotation ?? 0,
+        dir
+      );
+    }
+  }
+
+  /**
+   * Empty implementation, there is no node to update.
+   */
+  updateText(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    align: AlignValue,
+    valign: VAlignValue,
+    wrap: boolean,
+    overflow: OverflowValue,
+    clip: boolean,
+    rotation: number,
+    node: SVGElement
+  ): void {
+    // nop
+  }
+
+  /**
+   * Paints the given plain text. The alignment matches the alignment of {@link SvgCanvas2D.plainText}, the left and
+   * right alignments being swapped for the right-to-left text.
+   */
+  plainText(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    str: string,
+    align: AlignValue,
+    valign: VAlignValue,
+    wrap: boolean,
+    overflow: OverflowValue,
+    clip: boolean,
+    rotation: number,
+    dir: TextDirectionValue
+  ): void {
+    const s = this.state;
+    const ctx = this.ctx;
+    align = getTextAlign(align, dir);
+
+    ctx.save();
+    ctx.font = this.getFont();
+
+    if (rotation !== 0) {
+      this.rotateContext(rotation, x * s.scale, y * s.scale);
+    }
+
+    if (clip && w > 0 && h > 0) {
+      const [cx, cy] = getAlignedBoxOrigin(
+        x,
+        y,
+        w,
+        h,
+        align,
+        overflow === 'fill' ? 'top' : valign
+      );
+      ctx.beginPath();
+      ctx.rect(cx * s.scale - 2, cy * s.scale - 2, w * s.scale + 4, h * s.scale + 4);
+      ctx.clip();
+    }
+
+    const lines = this.getLines(str, wrap && w > 0 ? w * s.scale : 0);
+    const layout = getTextLinesLayout(
+      y,
+      h,
+      s.fontSize,
+      lines.length,
+      valign,
+      overflow,
+      clip
+    );
+    let cy = layout.baseline;
+
+    this.paintTextBackground(
+      lines,
+      x,
+      y,
+      w,
+      overflow === 'fill' ? h : layout.textHeight,
+      align,
+      valign,
+      overflow
+    );
+
+    ctx.globalAlpha = s.alpha;
+    ctx.fillStyle = s.fontColor;
+    ctx.textAlign = align === 'right' ? 'right' : align === 'center' ? 'center' : 'left';
+    ctx.textBaseline = 'alphabetic';
+
+    if (dir === 'ltr' || dir === 'rtl') {
+      ctx.direction = dir;
+    }
+
+    for (const line of lines) {
+      if (line) {
+        ctx.fillText(line, x * s.scale, cy * s.scale);
+        this.paintTextDecorations(line, x * s.scale, cy * s.scale, align);
+      }
+      cy += layout.lineHeight;
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Returns the CSS font of the current state.
+   */
+  getFont(): string {
+    const s = this.state;
+    const italic = matchBinaryMask(s.fontStyle, FONT_STYLE_MASK.ITALIC) ? 'italic ' : '';
+    const bold = matchBinaryMask(s.fontStyle, FONT_STYLE_MASK.BOLD) ? 'bold ' : '';
+    return `${italic}${bold}${s.fontSize * s.scale}px ${s.fontFamily}`;
+  }
+
+  /**
+   * Splits the given text into lines. If `maxWidth` is greater than 0, the lines are wrapped at word boundaries so that
+   * they are not wider than `maxWidth`, measured with the current font of the context.
+   */
+  getLines(str: string, maxWidth: number): string[] {
+    return getTextLines(str, maxWidth, (text) => this.ctx.measureText(text).width);
+  }
+
+  /**
+   * Paints the background and the border of the text.
+   */
+  paintTextBackground(
+    lines: string[],
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    align: AlignValue,
+    valign: VAlignValue,
+    overflow: OverflowValue
+  ): void {
+    const s = this.state;
+
+    if (s.fontBackgroundColor === NONE && s.fontBorderColor === NONE) {
+      return;
+    }
+    const ctx = this.ctx;
+    const bbox = getTextBackgroundBounds(
+      lines,
+      x,
+      y,
+      w,
+      h,
+      align,
+      valign,
+      overflow,
+      s.scale,
+      (line) => ctx.measureText(line).width
+    );
+    ctx.save();
+    ctx.globalAlpha = s.alpha;
+
+    if (s.fontBackgroundColor !== NONE) {
+      ctx.fillStyle = s.fontBackgroundColor;
+      ctx.fillRect(bbox.x, bbox.y, bbox.width, bbox.height);
+    }
+
+    if (s.fontBorderColor !== NONE) {
+      ctx.strokeStyle = s.fontBorderColor;
+      ctx.lineWidth = Math.max(1, s.scale);
+      ctx.strokeRect(bbox.x, bbox.y, bbox.width, bbox.height);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Paints the underline and the strike-through of the given line of text.
+   */
+  paintTextDecorations(line: string, x: number, y: number, align: AlignValue): void {
+    const s = this.state;
+    const underline = matchBinaryMask(s.fontStyle, FONT_STYLE_MASK.UNDERLINE);
+    const strike = matchBinaryMask(s.fontStyle, FONT_STYLE_MASK.STRIKETHROUGH);
+
+    if (!underline && !strike) {
+      return;
+    }
+    const ctx = this.ctx;
+    const size = s.fontSize * s.scale;
+    const width = ctx.measureText(line).width;
+    const x0 = x - getAlignOffset(width, align);
+
+    ctx.beginPath();
+    underline && this.addLine(x0, y + size * 0.1, width);
+    strike && this.addLine(x0, y - size * 0.3, width);
+    ctx.strokeStyle = s.fontColor;
+    ctx.lineWidth = Math.max(1, size / 14);
+    ctx.setLineDash([]);
+    ctx.stroke();
+  }
+
+  private addLine(x: number, y: number, width: number): void {
+    this.ctx.moveTo(x, y);
+    this.ctx.lineTo(x + width, y);
+  }
+
+  /**
+   * Adds the current path to the context.
+   */
+  protected tracePath(): void {
+    const ctx = this.ctx;
+    const path = this.path;
+    ctx.beginPath();
+
+    let i = 0;
+    const next = () => path[i++] as number;
+
+    while (i < path.length) {
+      const op = path[i++];
+
+      switch (op) {
+        case this.moveOp: {
+          ctx.moveTo(next(), next());
+
+          break;
+        }
+        case this.lineOp: {
+          ctx.lineTo(next(), next());
+
+          break;
+        }
+        case this.quadOp: {
+          ctx.quadraticCurveTo(next(), next(), next(), next());
+
+          break;
+        }
+        case this.curveOp: {
+          ctx.bezierCurveTo(next(), next(), next(), next(), next(), next());
+
+          break;
+        }
+        case this.closeOp: {
+          ctx.closePath();
+
+          break;
+        }
+        // No default
+      }
+    }
+  }
+
+  /**
+   * Returns the bounds of the current path, including the control points of the curves.
+   */
+  protected getPathBounds(): Rectangle {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    let isX = true;
+
+    for (const item of this.path) {
+      if (typeof item !== 'number') {
+        isX = true;
+      } else if (isX) {
+        minX = Math.min(minX, item);
+        maxX = Math.max(maxX, item);
+        isX = false;
+      } else {
+        minY = Math.min(minY, item);
+        maxY = Math.max(maxY, item);
+        isX = true;
+      }
+    }
+    return minX > maxX
+      ? new Rectangle()
+      : new Rectangle(minX, minY, maxX - minX, maxY - minY);
+  }
+
+  /**
+   * Creates the fill style for the current path: a linear gradient if a gradient is set, the fill color otherwise.
+   */
+  protected createFillStyle(): string | CanvasGradient {
+    const s = this.state;
+
+    if (s.gradientColor === NONE) {
+      return s.fillColor;
+    }
+    const { x, y, width, height } = this.getPathBounds();
+    const direction = s.gradientDirection ?? 'south';
+    const gradient = this.ctx.createLinearGradient(
+      direction === 'west' ? x + width : x,
+      direction === 'north' ? y + height : y,
+      direction === 'east' ? x + width : x,
+      direction === 'south' ? y + height : y
+    );
+    gradient.addColorStop(0, getColorWithAlpha(s.fillColor, s.gradientFillAlpha));
+    gradient.addColorStop(1, getColorWithAlpha(s.gradientColor, s.gradientAlpha));
+    return gradient;
+  }
+
+  /**
+   * Returns the current stroke width (>= {@link minStrokeWidth}).
+   */
+  getCurrentStrokeWidth(): number {
+    return Math.max(this.minStrokeWidth, this.state.strokeWidth * this.state.scale);
+  }
+
+  /**
+   * Applies the current stroke attributes to the context.
+   */
+  protected updateStroke(): void {
+    const s = this.state;
+    const ctx = this.ctx;
+    ctx.strokeStyle = s.strokeColor;
+    ctx.globalAlpha = s.alpha * s.strokeAlpha;
+    ctx.lineWidth = this.getCurrentStrokeWidth();
+    ctx.lineJoin = (s.lineJoin as CanvasLineJoin) ?? 'miter';
+    ctx.lineCap =
+      s.lineCap === 'flat' ? 'butt' : ((s.lineCap as CanvasLineCap) ?? 'butt');
+    ctx.miterLimit = s.miterLimit;
+
+    const scale = (s.fixDash ? 1 : s.strokeWidth) * s.scale;
+    ctx.setLineDash(
+      s.dashed ? (s.dashPattern ?? '').split(' ').map((dash) => Number(dash) * scale) : []
+    );
+  }
+
+  /**
+   * Configures the shadow of the context.
+   */
+  protected updateShadow(enabled: boolean): void {
+    const s = this.state;
+    const ctx = this.ctx;
+
+    if (enabled && s.shadowColor !== NONE) {
+      ctx.shadowColor = getColorWithAlpha(s.shadowColor, s.shadowAlpha);
+      ctx.shadowOffsetX = s.shadowDx * s.scale;
+      ctx.shadowOffsetY = s.shadowDy * s.scale;
+      ctx.shadowBlur = 0;
+    } else {
+      ctx.shadowColor = 'transparent';
+    }
+  }
+
+  /**
+   * Paints the current path.
+   */
+  protected paintPath(filled: boolean, stroked: boolean): void {
+    const s = this.state;
+    const ctx = this.ctx;
+    filled = filled && s.fillColor !== NONE;
+    stroked = stroked && s.strokeColor !== NONE;
+
+    if (this.path.length === 0 || (!filled && !stroked)) {
+      return;
+    }
+
+    ctx.save();
+    this.tracePath();
+    this.updateShadow(s.shadow);
+
+    if (filled) {
+      ctx.fillStyle = this.createFillStyle();
+      ctx.globalAlpha = s.alpha * s.fillAlpha;
+      ctx.fill();
+      // The shadow of the fill is enough, the shadow of the stroke would be painted over the fill
+      this.updateShadow(false);
+    }
+
+    if (stroked) {
+      this.updateStroke();
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Paints the outline of the current path.
+   */
+  stroke(): void {
+    this.paintPath(false, true);
+  }
+
+  /**
+   * Fills the current path.
+   */
+  fill(): void {
+    this.paintPath(true, false);
+  }
+
+  /**
+   * Fills and paints the outline of the current path.
+   */
+  fillAndStroke(): void {
+    this.paintPath(true, true);
+  }
+}
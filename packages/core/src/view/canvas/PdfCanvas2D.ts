@@ -0,0 +1,921 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import AbstractCanvas2D from './AbstractCanvas2D.js';
+import { FONT_STYLE_MASK, NONE } from '../../util/Constants.js';
+import { matchBinaryMask } from '../../internal/utils.js';
+import {
+  addEllipsePath,
+  addRectPath,
+  addRoundRectPath,
+  getAlignedBoxOrigin,
+  getAlignOffset,
+  getCanvasRotation,
+  getLabelText,
+  getTextAlign,
+  getTextBackgroundBounds,
+  getTextLines,
+  getTextLinesLayout,
+} from '../../internal/canvas-utils.js';
+import {
+  getStandardCharWidth,
+  getStandardFontName,
+  parseTrueTypeFont,
+  toLatin1Bytes,
+  toPdfColor,
+  toPdfString,
+  type TrueTypeFontMetrics,
+} from '../../internal/pdf-utils.js';
+import type {
+  AlignValue,
+  OverflowValue,
+  TextDirectionValue,
+  VAlignValue,
+} from '../../types.js';
+
+/**
+ * A JPEG image that can be painted by the {@link PdfCanvas2D}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization
+ */
+export interface PdfImage {
+  /** The content of the JPEG file. */
+  data: Uint8Array;
+  width: number;
+  height: number;
+  /** @default 'DeviceRGB' */
+  colorSpace?: 'DeviceRGB' | 'DeviceGray' | 'DeviceCMYK';
+}
+
+interface PdfPage {
+  width: number;
+  height: number;
+  content: string[];
+}
+
+interface PdfFont {
+  resourceName: string;
+  baseFont: string;
+  getCharWidth: (charCode: number) => number;
+  embedded?: { data: Uint8Array; metrics: TrueTypeFontMetrics };
+}
+
+interface EmbeddedFont {
+  family: string;
+  bold: boolean;
+  italic: boolean;
+  data: Uint8Array;
+  metrics: TrueTypeFontMetrics;
+}
+
+const n = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Implementation of {@link AbstractCanvas2D} that writes a vector PDF document.
+ *
+ * Call {@link addPage} to start a new page, paint the page with the usual methods of the canvas, then call {@link toPdf}
+ * to get the content of the PDF file. The coordinates are expressed in PDF points (1/72 inch), the origin being at the
+ * top left corner of the page. To export a graph, use {@link PdfExport}.
+ *
+ * ```javascript
+ * const canvas = new PdfCanvas2D();
+ * canvas.addPage(595, 842); // A4
+ * canvas.setFillColor('#ff0000');
+ * canvas.rect(10, 10, 100, 50);
+ * canvas.fill();
+ * const pdf = canvas.toPdf(); // Uint8Array
+ * ```
+ *
+ * ### Fonts
+ *
+ * Text is painted with the standard PDF fonts (Helvetica, Times and Courier, which are chosen depending on the font
+ * family), unless a TrueType font is registered for the font family with {@link addFont}. Registered fonts are embedded
+ * in the PDF document. In both cases, the characters are encoded in Latin-1 and the other characters are replaced with
+ * `?`. Labels using the `html` format are painted as plain text: the markup is removed, and the line breaks are kept.
+ *
+ * ### Images
+ *
+ * Only JPEG images are supported. As images are loaded asynchronously, they must be registered in {@link images} before
+ * painting.
+ *
+ * ### Gradients and shadows
+ *
+ * Gradients are painted with axial shadings, the alpha of the gradient colors being ignored. Shadows are painted with
+ * the shadow color below the shapes.
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization
+ */
+export class PdfCanvas2D extends AbstractCanvas2D {
+  constructor() {
+    super();
+  }
+
+  /**
+   * Pre-loaded JPEG images by URL.
+   */
+  images: Record<string, PdfImage> = {};
+
+  /**
+   * Specifies if text output should be enabled.
+   * @default true
+   */
+  textEnabled = true;
+
+  override moveOp = 'm';
+
+  override lineOp = 'l';
+
+  override curveOp = 'c';
+
+  override closeOp = 'h';
+
+  private pages: PdfPage[] = [];
+
+  private embeddedFonts: EmbeddedFont[] = [];
+
+  private fonts = new Map<string, PdfFont>();
+
+  private alphaStates = new Map<string, string>();
+
+  private shadings: { name: string; dict: string }[] = [];
+
+  private imageResources = new Map<PdfImage, string>();
+
+  /**
+   * The linear part of the transformation applied by {@link rotate}, used to paint the shadows in the untransformed
+   * coordinate system.
+   */
+  private matrix = [1, 0, 0, 1];
+
+  private matrices: number[][] = [];
+
+  /**
+   * Returns the number of pages.
+   */
+  getPageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Starts a new page and resets the state of the canvas.
+   *
+   * @param width the width of the page in points.
+   * @param height the height of the page in points.
+   */
+  addPage(width: number, height: number): void {
+    this.reset();
+    this.matrix = [1, 0, 0, 1];
+    this.matrices = [];
+    this.createPage(width, height);
+  }
+
+  private createPage(width: number, height: number): void {
+    // Flips the coordinate system, so the origin is at the top left corner
+    this.pages.push({ width, height, content: [`1 0 0 -1 0 ${n(height)} cm`] });
+  }
+
+  /**
+   * Registers a TrueType font to embed in the PDF document. It is used to paint the text whose font family starts
+   * with the given family name.
+   *
+   * @param family the font family, for instance `Roboto`.
+   * @param data the content of the `.ttf` file.
+   * @param bold `true` if the font is the bold variant of the family.
+   * @param italic `true` if the font is the italic variant of the family.
+   */
+  addFont(
+    family: string,
+    data: ArrayBuffer | Uint8Array,
+    bold = false,
+    italic = false
+  ): void {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    this.embeddedFonts.push({
+      family: family.toLowerCase(),
+      bold,
+      italic,
+      data: bytes,
+      metrics: parseTrueTypeFont(bytes),
+    });
+  }
+
+  private write(operators: string): void {
+    if (this.pages.length === 0) {
+      // A4 portrait, the current state is kept
+      this.createPage(595, 842);
+    }
+    this.pages[this.pages.length - 1].content.push(operators);
+  }
+
+  /**
+   * Rounds the coordinates of the paths to 2 decimals.
+   */
+  override format(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  /**
+   * Saves the current state and the graphics state of the PDF page.
+   */
+  override save(): void {
+    super.save();
+    this.matrices.push(this.matrix);
+    this.write('q');
+  }
+
+  /**
+   * Restores the current state and the graphics state of the PDF page.
+   */
+  override restore(): void {
+    if (this.states.length > 0) {
+      super.restore();
+      this.matrix = this.matrices.pop() ?? [1, 0, 0, 1];
+      this.write('Q');
+    }
+  }
+
+  private transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    const [ma, mb, mc, md] = this.matrix;
+    this.matrix = [a * ma + b * mc, a * mb + b * md, c * ma + d * mc, c * mb + d * md];
+    this.write(`${n(a)} ${n(b)} ${n(c)} ${n(d)} ${n(e)} ${n(f)} cm`);
+  }
+
+  private rotateAround(theta: number, cx: number, cy: number): void {
+    const rad = (theta * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    // Rotation around (cx, cy)
+    this.transform(
+      cos,
+      sin,
+      -sin,
+      cos,
+      cx - cx * cos + cy * sin,
+      cy - cx * sin - cy * cos
+    );
+  }
+
+  /**
+   * Sets the rotation of the canvas. Note that rotation cannot be concatenated.
+   */
+  override rotate(theta: number, flipH: boolean, flipV: boolean, cx: number, cy: number) {
+    if (theta !== 0 || flipH || flipV) {
+      const rotation = getCanvasRotation(this.state, theta, flipH, flipV, cx, cy);
+      const { mirrorH, mirrorV } = rotation;
+
+      if (mirrorH || mirrorV) {
+        this.transform(
+          mirrorH ? -1 : 1,
+          0,
+          0,
+          mirrorV ? -1 : 1,
+          mirrorH ? 2 * rotation.cx : 0,
+          mirrorV ? 2 * rotation.cy : 0
+        );
+      }
+
+      if (rotation.theta !== 0) {
+        this.rotateAround(rotation.theta, rotation.cx, rotation.cy);
+      }
+    }
+  }
+
+  /**
+   * Adds a quadratic curve to the current path. The curve is converted to a bezier curve.
+   */
+  override quadTo(x1: number, y1: number, x2: number, y2: number): void {
+    const x0 = this.lastX;
+    const y0 = this.lastY;
+    this.curveTo(
+      x0 + ((x1 - x0) * 2) / 3,
+      y0 + ((y1 - y0) * 2) / 3,
+      x2 + ((x1 - x2) * 2) / 3,
+      y2 + ((y1 - y2) * 2) / 3,
+      x2,
+      y2
+    );
+  }
+
+  /**
+   * Empty implementation.
+   */
+  end(): void {
+    // nop
+  }
+
+  rect(x: number, y: number, w: number, h: number): void {
+    addRectPath(this, x, y, w, h);
+  }
+
+  roundrect(x: number, y: number, w: number, h: number, dx: number, dy: number): void {
+    addRoundRectPath(this, x, y, w, h, dx, dy);
+  }
+
+  ellipse(x: number, y: number, w: number, h: number): void {
+    addEllipsePath(this, x, y, w, h);
+  }
+
+  /**
+   * Returns the PDF operators of the current path.
+   */
+  private getPathOperators(): string {
+    const result: string[] = [];
+    let operator: string | null = null;
+
+    for (const item of this.path) {
+      if (typeof item === 'number') {
+        result.push(n(item));
+      } else {
+        // The operator follows its operands in PDF
+        operator != null && result.push(operator);
+        operator = item;
+      }
+    }
+    operator != null && result.push(operator);
+    return result.join(' ');
+  }
+
+  /**
+   * Returns the name of the graphics state resource that sets the given alphas, or `null` if no alpha is needed.
+   */
+  private getAlphaState(fillAlpha: number, strokeAlpha: number): string | null {
+    if (fillAlpha >= 1 && strokeAlpha >= 1) {
+      return null;
+    }
+    const key = `${n(fillAlpha)} ${n(strokeAlpha)}`;
+    let name = this.alphaStates.get(key);
+
+    if (name == null) {
+      name = `GS${this.alphaStates.size + 1}`;
+      this.alphaStates.set(key, name);
+    }
+    return name;
+  }
+
+  private writeAlpha(fillAlpha: number, strokeAlpha: number): void {
+    const name = this.getAlphaState(fillAlpha, strokeAlpha);
+    name != null && this.write(`/${name} gs`);
+  }
+
+  private writeColor(color: string, stroke: boolean): void {
+    const rgb = toPdfColor(color) ?? '0 0 0';
+    this.write(`${rgb} ${stroke ? 'RG' : 'rg'}`);
+  }
+
+  private writeStrokeAttributes(): void {
+    const s = this.state;
+    const caps: Record<string, number> = { flat: 0, butt: 0, round: 1, square: 2 };
+    const joins: Record<string, number> = { miter: 0, round: 1, bevel: 2 };
+    this.write(`${n(s.strokeWidth * s.scale)} w`);
+    this.write(
+      `${caps[s.lineCap] ?? 0} J ${joins[s.lineJoin] ?? 0} j ${n(s.miterLimit)} M`
+    );
+
+    if (s.dashed) {
+      const scale = (s.fixDash ? 1 : s.strokeWidth) * s.scale;
+      const dashes = (s.dashPattern ?? '')
+        .split(' ')
+        .map((dash) => n(Number(dash) * scale));
+      this.write(`[${dashes.join(' ')}] 0 d`);
+    }
+  }
+
+  /**
+   * Returns the bounds of the current path as `[minX, minY, maxX, maxY]`, including the control points of the curves.
+   */
+  private getPathBounds(): number[] {
+    const numbers = this.path.filter((item): item is number => typeof item === 'number');
+    const xs = numbers.filter((_, i) => i % 2 === 0);
+    const ys = numbers.filter((_, i) => i % 2 === 1);
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+  }
+
+  /**
+   * Registers an axial shading for the current gradient and the bounds of the current path and returns its name.
+   */
+  private createShading(): string {
+    const s = this.state;
+    const [x0, y0, x1, y1] = this.getPathBounds();
+    const direction = s.gradientDirection ?? 'south';
+    const coords = [
+      direction === 'west' ? x1 : x0,
+      direction === 'north' ? y1 : y0,
+      direction === 'east' ? x1 : x0,
+      direction === 'south' ? y1 : y0,
+    ];
+    const name = `Sh${this.shadings.length + 1}`;
+    const c0 = toPdfColor(s.fillColor) ?? '1 1 1';
+    const c1 = toPdfColor(s.gradientColor) ?? '1 1 1';
+    this.shadings.push({
+      name,
+      dict: `<< /ShadingType 2 /ColorSpace /DeviceRGB /Coords [${coords.map(n).join(' ')}] /Function << /FunctionType 2 /Domain [0 1] /C0 [${c0}] /C1 [${c1}] /N 1 >> /Extend [true true] >>`,
+    });
+    return name;
+  }
+
+  /**
+   * Paints the shadow of the current path.
+   */
+  private paintShadow(path: string, filled: boolean): void {
+    const s = this.state;
+
+    if (s.shadowColor === NONE) {
+      return;
+    }
+    // The shadow offset is applied in the coordinate system of the page, so it is converted to the current one
+    const [a, b, c, d] = this.matrix;
+    const dx = s.shadowDx * s.scale;
+    const dy = s.shadowDy * s.scale;
+    const det = a * d - b * c || 1;
+
+    this.write('q');
+    this.transform(1, 0, 0, 1, (d * dx - c * dy) / det, (a * dy - b * dx) / det);
+    this.writeAlpha(s.shadowAlpha * s.alpha, s.shadowAlpha * s.alpha);
+    this.writeColor(s.shadowColor, filled ? false : true);
+    !filled && this.writeStrokeAttributes();
+    this.write(`${path} ${filled ? 'f' : 'S'}`);
+    this.write('Q');
+    this.matrix = [a, b, c, d];
+  }
+
+  /**
+   * Paints the current path.
+   */
+  protected paintPath(filled: boolean, stroked: boolean): void {
+    const s = this.state;
+    filled = filled && s.fillColor !== NONE;
+    stroked = stroked && s.strokeColor !== NONE;
+
+    if (this.path.length === 0 || (!filled && !stroked)) {
+      return;
+    }
+    const path = this.getPathOperators();
+
+    if (s.shadow) {
+      this.paintShadow(path, filled);
+    }
+
+    this.write('q');
+    this.writeAlpha(s.alpha * s.fillAlpha, s.alpha * s.strokeAlpha);
+
+    if (stroked) {
+      this.writeColor(s.strokeColor, true);
+      this.writeStrokeAttributes();
+    }
+
+    if (filled && s.gradientColor !== NONE) {
+      this.write(`q ${path} W n /${this.createShading()} sh Q`);
+      stroked && this.write(`${path} S`);
+    } else if (filled) {
+      this.writeColor(s.fillColor, false);
+      this.write(`${path} ${stroked ? 'B' : 'f'}`);
+    } else {
+      this.write(`${path} S`);
+    }
+    this.write('Q');
+  }
+
+  /**
+   * Paints the outline of the current path.
+   */
+  stroke(): void {
+    this.paintPath(false, true);
+  }
+
+  /**
+   * Fills the current path.
+   */
+  fill(): void {
+    this.paintPath(true, false);
+  }
+
+  /**
+   * Fills and paints the outline of the current path.
+   */
+  fillAndStroke(): void {
+    this.paintPath(true, true);
+  }
+
+  /**
+   * Paints the given JPEG image registered in {@link images}. Other images are ignored.
+   */
+  image(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    src: string,
+    aspect = true,
+    flipH = false,
+    flipV = false
+  ): void {
+    const img = this.images[this.converter.convert(src)] ?? this.images[src];
+
+    if (img == null) {
+      return;
+    }
+    let name = this.imageResources.get(img);
+    if (name == null) {
+      name = `Im${this.imageResources.size + 1}`;
+      this.imageResources.set(img, name);
+    }
+
+    const s = this.state;
+    x = (x + s.dx) * s.scale;
+    y = (y + s.dy) * s.scale;
+    w *= s.scale;
+    h *= s.scale;
+
+    if (aspect && img.width > 0 && img.height > 0) {
+      // Centers the image in the bounds, like the default preserveAspectRatio in SVG
+      const scale = Math.min(w / img.width, h / img.height);
+      x += (w - img.width * scale) / 2;
+      y += (h - img.height * scale) / 2;
+      w = img.width * scale;
+      h = img.height * scale;
+    }
+
+    this.write('q');
+    this.writeAlpha(s.alpha * s.fillAlpha, 1);
+    // The first row of the image is at the top of the unit square
+    const sx = flipH ? -w : w;
+    const sy = flipV ? h : -h;
+    this.write(
+      `${n(sx)} 0 0 ${n(sy)} ${n(flipH ? x + w : x)} ${n(flipV ? y : y + h)} cm /${name} Do`
+    );
+    this.write('Q');
+  }
+
+  /**
+   * Returns the font used to paint the text with the current state.
+   */
+  private getFont(): PdfFont {
+    const s = this.state;
+    const bold = matchBinaryMask(s.fontStyle, FONT_STYLE_MASK.BOLD);
+    const italic = matchBinaryMask(s.fontStyle, FONT_STYLE_MASK.ITALIC);
+    const family = (s.fontFamily ?? '')
+      .split(',')[0]
+      .replace(/['"]/g, '')
+      .trim()
+      .toLowerCase();
+    const candidates = this.embeddedFonts.filter((font) => font.family === family);
+    const embedded =
+      candidates.find((font) => font.bold === bold && font.italic === italic) ??
+      candidates[0];
+    const baseFont = embedded
+      ? `${family.replace(/[^a-z0-9]/g, '')}${bold ? '-Bold' : ''}${italic ? '-Italic' : ''}`
+      : getStandardFontName(s.fontFamily ?? '', bold, italic);
+    const key = embedded
+      ? `${baseFont}/${this.embeddedFonts.indexOf(embedded)}`
+      : baseFont;
+
+    let font = this.fonts.get(key);
+    if (font == null) {
+      font = {
+        resourceName: `F${this.fonts.size + 1}`,
+        baseFont,
+        getCharWidth: embedded
+          ? embedded.metrics.getCharWidth
+          : (code) => getStandardCharWidth(baseFont, code),
+        embedded: embedded && { data: embedded.data, metrics: embedded.metrics },
+      };
+      this.fonts.set(key, font);
+    }
+    return font;
+  }
+
+  /**
+   * Returns the width of the given text painted with the current font, in points.
+   */
+  getTextWidth(text: string): number {
+    const font = this.getFont();
+    const s = this.state;
+    let width = 0;
+
+    for (const char of text) {
+      width += font.getCharWidth(char.codePointAt(0)!);
+    }
+    return (width * s.fontSize * s.scale) / 1000;
+  }
+
+  /**
+   * Paints the given text. HTML labels are painted as plain text. The left and right alignments are swapped for the
+   * right-to-left text, like in the {@link SvgCanvas2D}.
+   */
+  text(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    str: string,
+    align: AlignValue,
+    valign: VAlignValue,
+    wrap: boolean,
+    format: string,
+    overflow: OverflowValue,
+    clip: boolean,
+    rotation = 0,
+    dir: TextDirectionValue
+  ): void {
+    if (!this.textEnabled || str == null) {
+      return;
+    }
+    const s = this.state;
+    x += s.dx;
+    y += s.dy;
+    const size = s.fontSize;
+    align = getTextAlign(align, dir);
+
+    this.write('q');
+
+    if (rotation) {
+      this.rotateAround(rotation, x * s.scale, y * s.scale);
+    }
+
+    if (clip && w > 0 && h > 0) {
+      const [cx, cy] = getAlignedBoxOrigin(
+        x,
+        y,
+        w,
+        h,
+        align,
+        overflow === 'fill' ? 'top' : valign
+      );
+      this.write(
+        `${n(cx * s.scale - 2)} ${n(cy * s.scale - 2)} ${n(w * s.scale + 4)} ${n(h * s.scale + 4)} re W n`
+      );
+    }
+
+    const lines = this.getLines(
+      getLabelText(str, format),
+      wrap && w > 0 ? w * s.scale : 0
+    );
+    const layout = getTextLinesLayout(y, h, size, lines.length, valign, overflow, clip);
+    let cy = layout.baseline;
+
+    this.paintTextBackground(
+      lines,
+      x,
+      y,
+      w,
+      overflow === 'fill' ? h : layout.textHeight,
+      align,
+      valign,
+      overflow
+    );
+
+    const font = this.getFont();
+    this.writeAlpha(s.alpha, s.alpha);
+    this.writeColor(s.fontColor, false);
+
+    for (const line of lines) {
+      if (line) {
+        const width = this.getTextWidth(line);
+        const lx = x * s.scale - getAlignOffset(width, align);
+        const ly = cy * s.scale;
+        // Text is flipped back as the coordinate system of the page is flipped
+        this.write(
+          `BT /${font.resourceName} ${n(size * s.scale)} Tf 1 0 0 -1 ${n(lx)} ${n(ly)} Tm ${toPdfString(line)} Tj ET`
+        );
+        this.paintTextDecorations(lx, ly, width);
+      }
+      cy += layout.lineHeight;
+    }
+    this.write('Q');
+  }
+
+  /**
+   * Empty implementation, there is no node to update.
+   */
+  updateText(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    align: AlignValue,
+    valign: VAlignValue,
+    wrap: boolean,
+    overflow: OverflowValue,
+    clip: boolean,
+    rotation: number,
+    node: SVGElement
+  ): void {
+    // nop
+  }
+
+  /**
+   * Splits the given text into lines. If `maxWidth` is greater than 0, the lines are wrapped at word boundaries so that
+   * they are not wider than `maxWidth`.
+   */
+  getLines(str: string, maxWidth: number): string[] {
+    return getTextLines(str, maxWidth, (text) => this.getTextWidth(text));
+  }
+
+  private paintTextBackground(
+    lines: string[],
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    align: AlignValue,
+    valign: VAlignValue,
+    overflow: OverflowValue
+  ): void {
+    const s = this.state;
+
+    if (s.fontBackgroundColor === NONE && s.fontBorderColor === NONE) {
+      return;
+    }
+
+    const bbox = getTextBackgroundBounds(
+      lines,
+      x,
+      y,
+      w,
+      h,
+      align,
+      valign,
+      overflow,
+      s.scale,
+      (line) => this.getTextWidth(line)
+    );
+    const rect = `${n(bbox.x)} ${n(bbox.y)} ${n(bbox.width)} ${n(bbox.height)} re`;
+
+    if (s.fontBackgroundColor !== NONE) {
+      this.writeColor(s.fontBackgroundColor, false);
+      this.write(`${rect} f`);
+    }
+
+    if (s.fontBorderColor !== NONE) {
+      this.writeColor(s.fontBorderColor, true);
+      this.write(`${n(Math.max(1, s.scale))} w [] 0 d ${rect} S`);
+    }
+  }
+
+  private paintTextDecorations(x: number, y: number, width: number): void {
+    const s = this.state;
+    const size = s.fontSize * s.scale;
+    const offsets: number[] = [];
+    matchBinaryMask(s.fontStyle, FONT_STYLE_MASK.UNDERLINE) && offsets.push(size * 0.1);
+    matchBinaryMask(s.fontStyle, FONT_STYLE_MASK.STRIKETHROUGH) &&
+      offsets.push(-size * 0.3);
+
+    if (offsets.length > 0) {
+      this.writeColor(s.fontColor, true);
+      this.write(`${n(Math.max(1, size / 14))} w [] 0 d`);
+      offsets.forEach((dy) =>
+        this.write(`${n(x)} ${n(y + dy)} m ${n(x + width)} ${n(y + dy)} l S`)
+      );
+    }
+  }
+
+  /**
+   * Returns the content of the PDF document.
+   */
+  toPdf(): Uint8Array {
+    const objects: (string | Uint8Array)[][] = [];
+    const addObject = (...parts: (string | Uint8Array)[]): number => {
+      objects.push(parts);
+      return objects.length;
+    };
+    const addStream = (dict: string, data: string | Uint8Array): number => {
+      const length = typeof data === 'string' ? data.length : data.byteLength;
+      return addObject(
+        `<< ${dict}${dict ? ' ' : ''}/Length ${length} >>\nstream\n`,
+        data,
+        '\nendstream'
+      );
+    };
+
+    // Reserves the catalog and the page tree
+    addObject('');
+    addObject('');
+
+    const resources: string[] = [];
+
+    const fonts: string[] = [];
+    for (const font of this.fonts.values()) {
+      fonts.push(
+        `/${font.resourceName} ${this.addFontObjects(font, addObject, addStream)} 0 R`
+      );
+    }
+    fonts.length > 0 && resources.push(`/Font << ${fonts.join(' ')} >>`);
+
+    const states = [...this.alphaStates.entries()].map(([key, name]) => {
+      const [fillAlpha, strokeAlpha] = key.split(' ');
+      return `/${name} ${addObject(`<< /Type /ExtGState /ca ${fillAlpha} /CA ${strokeAlpha} >>`)} 0 R`;
+    });
+    states.length > 0 && resources.push(`/ExtGState << ${states.join(' ')} >>`);
+
+    const shadings = this.shadings.map(
+      ({ name, dict }) => `/${name} ${addObject(dict)} 0 R`
+    );
+    shadings.length > 0 && resources.push(`/Shading << ${shadings.join(' ')} >>`);
+
+    const images = [...this.imageResources.entries()].map(([img, name]) => {
+      const id = addStream(
+        `/Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /${img.colorSpace ?? 'DeviceRGB'} /BitsPerComponent 8 /Filter /DCTDecode`,
+        img.data
+      );
+      return `/${name} ${id} 0 R`;
+    });
+    images.length > 0 && resources.push(`/XObject << ${images.join(' ')} >>`);
+
+    const resourcesId = addObject(`<< ${resources.join(' ')} >>`);
+    const pageIds = this.pages.map((page) => {
+      const contentId = addStream('', page.content.join('\n'));
+      return addObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${n(page.width)} ${n(page.height)}] /Resources ${resourcesId} 0 R /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[0] = ['<< /Type /Catalog /Pages 2 0 R >>'];
+    objects[1] = [
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    ];
+
+    return writeDocument(objects);
+  }
+
+  private addFontObjects(
+    font: PdfFont,
+    addObject: (...parts: (string | Uint8Array)[]) => number,
+    addStream: (dict: string, data: string | Uint8Array) => number
+  ): number {
+    if (!font.embedded) {
+      return addObject(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`
+      );
+    }
+    const { data, metrics } = font.embedded;
+    const fileId = addStream(`/Length1 ${data.byteLength}`, data);
+    const flags = 32 + (metrics.italicAngle !== 0 ? 64 : 0);
+    const descriptorId = addObject(
+      `<< /Type /FontDescriptor /FontName /${font.baseFont} /Flags ${flags} /FontBBox [${metrics.bbox.join(' ')}] /ItalicAngle ${metrics.italicAngle} /Ascent ${metrics.ascent} /Descent ${metrics.descent} /CapHeight ${metrics.capHeight} /StemV 80 /FontFile2 ${fileId} 0 R >>`
+    );
+    const widths: number[] = [];
+    for (let code = 32; code <= 255; code++) {
+      widths.push(font.getCharWidth(code));
+    }
+    return addObject(
+      `<< /Type /Font /Subtype /TrueType /BaseFont /${font.baseFont} /FirstChar 32 /LastChar 255 /Widths [${widths.join(' ')}] /Encoding /WinAnsiEncoding /FontDescriptor ${descriptorId} 0 R >>`
+    );
+  }
+}
+
+/**
+ * Writes the objects, the cross-reference table and the trailer of a PDF document.
+ */
+const writeDocument = (objects: (string | Uint8Array)[][]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const append = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? toLatin1Bytes(part) : part;
+    chunks.push(bytes);
+    length += bytes.byteLength;
+  };
+
+  // The binary comment tells that the file contains binary data
+  append('%PDF-1.4\n%âãÏÓ\n');
+  const offsets = objects.map((parts, i) => {
+    const offset = length;
+    append(`${i + 1} 0 obj\n`);
+    parts.forEach(append);
+    append('\nendobj\n');
+    return offset;
+  });
+
+  const xref = length;
+  append(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => append(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  append(
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+  );
+
+  const result = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.byteLength;
+  }
+  return result;
+};
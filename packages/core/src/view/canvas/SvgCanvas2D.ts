@@ -16,7 +16,7 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { isNullish, matchBinaryMask } from '../../internal/utils.js';
+import { isNullish, matchBinaryMask, sanitizeHtmlLabel } from '../../internal/utils.js';
 import { mod } from '../../util/mathUtils.js';
 import { getAlignmentAsPoint } from '../../util/styleUtils.js';
 import Client from '../../Client.js';
@@ -1109,12 +1109,14 @@ class SvgCanvas2D extends AbstractCanvas2D {
   /**
    * Private helper function to create SVG elements
    * Note: signature changed in mxgraph 4.1.0
+   *
+   * The HTML markup is sanitized if {@link HtmlSanitizerConfig.enabled} is `true`.
    */
   createDiv(str: string | HTMLElement) {
     let val = str;
 
     if (!isNode(val)) {
-      val = `<div><div>${this.convertHtml(val)}</div></div>`;
+      val = `<div><div>${this.convertHtml(sanitizeHtmlLabel(val))}</div></div>`;
     }
 
     if (document.createElementNS) {
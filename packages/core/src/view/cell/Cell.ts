@@ -23,7 +23,7 @@ import Point from '../geometry/Point.js';
 import CellPath from './CellPath.js';
 import type { CellStyle, FilterFunction, IdentityObject } from '../../types.js';
 import type { UserObject } from '../../internal/types.js';
-import { isElement, isNullish } from '../../internal/utils.js';
+import { isElement, isNullish, markClonedCell } from '../../internal/utils.js';
 
 /**
  * Cells are the elements of the graph model. They represent the state
@@ -608,6 +608,7 @@ export class Cell implements IdentityObject {
   clone(): Cell {
     const c = clone(this, this.mxTransient);
     c.setValue(this.cloneValue());
+    markClonedCell(this, c);
     return c;
   }
 
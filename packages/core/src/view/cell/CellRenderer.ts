@@ -109,6 +109,39 @@ class CellRenderer {
    */
   forceControlClickHandler = false;
 
+  /**
+   * Specifies if the shapes are only created for the states that intersect the visible viewport of the graph extended by
+   * {@link virtualizationMargin}. The shapes of the other states are destroyed, and created again when the states are
+   * scrolled, panned or zoomed into the viewport. This reduces the number of DOM nodes of very large diagrams.
+   *
+   * The states are still created for all cells, so the cells that are not painted can be selected and are included in
+   * the graph bounds.
+   *
+   * @experimental
+   * @since 0.25.0
+   * @default false
+   */
+  virtualization = false;
+
+  /**
+   * Margin added around the visible viewport, in screen pixels, when {@link virtualization} is enabled. It avoids
+   * showing empty areas while panning and covers the labels that are drawn outside the bounds of their cells.
+   *
+   * @experimental
+   * @since 0.25.0
+   * @default 200
+   */
+  virtualizationMargin = 200;
+
+  /**
+   * The area, in view coordinates, outside which no shapes are created when {@link virtualization} is enabled. It is
+   * updated by {@link GraphView.updateVirtualViewport}. `null` if all the states are rendered.
+   *
+   * @experimental
+   * @since 0.25.0
+   */
+  virtualViewport: Rectangle | null = null;
+
   /**
    * Initializes the shape in the given state by calling its init method with
    * the correct container after configuring it using {@link configureShape}.
@@ -1310,6 +1343,10 @@ class CellRenderer {
    * will not be called on the shape.
    */
   redraw(state: CellState, force = false, rendering = true): void {
+    if (this.isVirtualized(state)) {
+      this.destroy(state);
+      return;
+    }
     const shapeChanged = this.redrawShape(state, force, rendering);
 
     if (state.shape != null && rendering) {
@@ -1319,6 +1356,29 @@ class CellRenderer {
     }
   }
 
+  /**
+   * Returns `true` if the shapes of the given state must not be created because the state does not intersect
+   * {@link virtualViewport}. This always returns `false` if {@link virtualization} is disabled.
+   *
+   * @param state {@link CellState} to be checked.
+   * @experimental
+   * @since 0.25.0
+   */
+  isVirtualized(state: CellState): boolean {
+    const viewport = this.virtualViewport;
+
+    if (!this.virtualization || viewport == null) {
+      return false;
+    }
+    // The bounds of the state do not include the stroke and the label, the margin of the viewport covers them
+    return !(
+      state.x <= viewport.x + viewport.width &&
+      state.x + state.width >= viewport.x &&
+      state.y <= viewport.y + viewport.height &&
+      state.y + state.height >= viewport.y
+    );
+  }
+
   /**
    * Redraws the shape for the given cell state.
    *
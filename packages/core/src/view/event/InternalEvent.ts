@@ -1006,6 +1006,27 @@ class InternalEvent {
    */
   static RESET = 'reset';
 
+  /**
+   * Specifies the event name for remoteCursor.
+   */
+  static REMOTE_CURSOR = 'remoteCursor';
+
+  /**
+   * Specifies the event name for remoteSelection.
+   */
+  static REMOTE_SELECTION = 'remoteSelection';
+
+  /**
+   * Specifies the event name for validate.
+   */
+  static VALIDATE = 'validate';
+
+  /**
+   * Specifies the event name for themeChanged.
+   * @since 0.25.0
+   */
+  static THEME_CHANGED = 'themeChanged';
+
   /**
    * Threshold for pinch gestures to fire a mouse wheel event.
    * Default value is 10.
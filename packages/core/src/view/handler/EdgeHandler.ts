@@ -68,6 +68,13 @@ import EventSource from '../event/EventSource.js';
 import type SelectionHandler from '../plugin/SelectionHandler.js';
 import { equalPoints } from '../../util/arrayUtils.js';
 import { EdgeHandlerConfig, HandleConfig } from './config.js';
+import {
+  getHandleFillColor,
+  getHandleStrokeColor,
+  getInvalidColor,
+  getLabelHandleFillColor,
+  getValidColor,
+} from '../../internal/theme-utils.js';
 
 /**
  * Graph event handler that reconnects edges, modifies control points and the edge label location.
@@ -485,10 +492,12 @@ class EdgeHandler implements MouseListenerSet {
   }
 
   /**
-   * Returns {@link EdgeHandlerConfig.selectionColor}.
+   * Returns the {@link ThemeColors.edgeSelectionColor} of the theme of the graph or {@link EdgeHandlerConfig.selectionColor}.
    */
   getSelectionColor() {
-    return EdgeHandlerConfig.selectionColor;
+    return (
+      this.graph.getThemeColor('edgeSelectionColor') ?? EdgeHandlerConfig.selectionColor
+    );
   }
 
   /**
@@ -524,7 +533,12 @@ class EdgeHandler implements MouseListenerSet {
    * Creates and returns the {@link CellMarker} used in {@link marker}.
    */
   createMarker() {
-    return new EdgeHandlerCellMarker(this.graph, this);
+    return new EdgeHandlerCellMarker(
+      this.graph,
+      this,
+      getValidColor(this.graph),
+      getInvalidColor(this.graph)
+    );
   }
 
   /**
@@ -659,8 +673,8 @@ class EdgeHandler implements MouseListenerSet {
       EdgeHandlerConfig.handleShape === 'circle' ? EllipseShape : RectangleShape;
     return new shapeConstructor(
       new Rectangle(0, 0, s, s),
-      HandleConfig.fillColor,
-      HandleConfig.strokeColor
+      getHandleFillColor(this.graph),
+      getHandleStrokeColor(this.graph)
     );
   }
 
@@ -682,8 +696,8 @@ class EdgeHandler implements MouseListenerSet {
     const s = HandleConfig.labelSize;
     return new RectangleShape(
       new Rectangle(0, 0, s, s),
-      HandleConfig.labelFillColor,
-      HandleConfig.strokeColor
+      getLabelHandleFillColor(this.graph),
+      getHandleStrokeColor(this.graph)
     );
   }
 
@@ -1275,7 +1289,7 @@ class EdgeHandler implements MouseListenerSet {
         this.marker.highlight.shape.stroke =
           cell && cell.isConnectable() && this.marker.getValidState() !== me.getState()
             ? 'transparent'
-            : DEFAULT_VALID_COLOR;
+            : getValidColor(this.graph);
         this.marker.highlight.shape.strokeWidth = HIGHLIGHT_STROKEWIDTH / s / s;
         this.marker.highlight.repaint();
       }
@@ -1614,7 +1628,7 @@ class EdgeHandler implements MouseListenerSet {
       }
     }
 
-    this.setPreviewColor(EdgeHandlerConfig.selectionColor);
+    this.setPreviewColor(this.getSelectionColor());
     this.removeHint();
     this.redraw();
   }
@@ -1866,7 +1880,7 @@ class EdgeHandler implements MouseListenerSet {
     const isSource = index === 0;
     const { cell } = this.state;
     const terminal = cell.getTerminal(isSource);
-    let color = HandleConfig.fillColor;
+    let color = getHandleFillColor(this.graph);
 
     if (
       (terminal != null && !this.graph.isCellDisconnectable(cell, terminal, isSource)) ||
@@ -1877,7 +1891,9 @@ class EdgeHandler implements MouseListenerSet {
       terminal != null &&
       this.graph.isCellDisconnectable(cell, terminal, isSource)
     ) {
-      color = EdgeHandlerConfig.connectFillColor;
+      color =
+        this.graph.getThemeColor('connectHandleFillColor') ??
+        EdgeHandlerConfig.connectFillColor;
     }
 
     return color;
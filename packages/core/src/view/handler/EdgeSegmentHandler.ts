@@ -37,7 +37,7 @@ import { EdgeHandlerConfig } from './config.js';
  *
  * This is the handler of the `'segment'` {@link EdgeStyleHandlerKind}. {@link SelectionCellsHandler} creates it for
  * each selected edge whose `EdgeStyle` is registered under that kind in {@link EdgeStyleRegistry}, which the built-in
- * `manhattanEdgeStyle`, `orthogonalEdgeStyle` and `segmentEdgeStyle` are.
+ * `manhattanEdgeStyle`, `obstacleAvoidingEdgeStyle`, `orthogonalEdgeStyle` and `segmentEdgeStyle` are.
  *
  * To have maxGraph create a custom implementation instead, register a factory on the plugin:
  * ```typescript
@@ -27,6 +27,13 @@ import {
   isShiftDown,
 } from '../../util/EventUtils.js';
 import type CellEditorHandler from '../plugin/CellEditorHandler.js';
+import {
+  type ShortcutBinding,
+  type ShortcutBindingOptions,
+  type ShortcutContext,
+  type ShortcutFunction,
+  ShortcutRegistry,
+} from './ShortcutRegistry.js';
 
 /**
  * Event handler that listens to keystroke events.
@@ -48,6 +55,19 @@ import type CellEditorHandler from '../plugin/CellEditorHandler.js';
  * });
  * ```
  *
+ * ### Shortcuts
+ *
+ * Since 0.25.0, keystrokes can also be bound with {@link bindShortcut} using strings based on `KeyboardEvent.key` or
+ * `KeyboardEvent.code`, including the Alt and Meta modifiers and chords. See {@link ShortcutRegistry} for the format.
+ * The shortcuts take precedence over the keycodes bindings.
+ *
+ * ```javascript
+ * keyHandler.bindShortcut('Mod+Shift+G', () => graph.setSelectionCell(graph.groupCells()), {
+ *   description: 'Group the selection cells',
+ * });
+ * keyHandler.bindShortcut('Mod+K Mod+U', () => graph.ungroupCells());
+ * ```
+ *
  * ### Keycodes
  *
  * See http://tinyurl.com/yp8jgl or http://tinyurl.com/229yqw for a list of keycodes
@@ -120,6 +140,12 @@ class KeyHandler {
    */
   controlShiftKeys: { [key: number]: Function } = {};
 
+  /**
+   * The shortcuts bound with {@link bindShortcut}.
+   * @since 0.25.0
+   */
+  shortcuts = new ShortcutRegistry();
+
   /**
    * Specifies if events are handled.
    * @default true
@@ -187,6 +213,47 @@ class KeyHandler {
     this.controlShiftKeys[code] = funct;
   }
 
+  /**
+   * Binds the given shortcut to the given function in {@link shortcuts}. See {@link ShortcutRegistry} for the format
+   * of the shortcut.
+   *
+   * The shortcuts are active in the `canvas` context by default, that is when the graph is not being edited. Use the
+   * `editing` context for the shortcuts active during the in-place editing, see {@link getShortcutContexts}.
+   *
+   * @param shortcut String that specifies the shortcut, for instance `Mod+Shift+G`.
+   * @param funct JavaScript function that takes the key event as an argument.
+   * @param options Optional context and description of the shortcut.
+   * @since 0.25.0
+   */
+  bindShortcut(
+    shortcut: string,
+    funct: ShortcutFunction,
+    options?: ShortcutBindingOptions
+  ): ShortcutBinding {
+    return this.shortcuts.bind(shortcut, funct, options);
+  }
+
+  /**
+   * Returns the contexts in which the shortcuts are active for the given event, the first contexts having the highest
+   * priority. This implementation returns `editing` if the graph is being edited, so that the other shortcuts do not
+   * consume the keystrokes typed in the editor, and `canvas` and `global` otherwise.
+   *
+   * @param _evt Optional key event that represents the keystroke.
+   * @since 0.25.0
+   */
+  getShortcutContexts(_evt?: KeyboardEvent): ShortcutContext[] {
+    return this.graph?.isEditing() ? ['editing'] : ['canvas', 'global'];
+  }
+
+  /**
+   * Returns the shortcuts active in the current contexts, for instance to display them in a help dialog.
+   *
+   * @since 0.25.0
+   */
+  getActiveShortcuts(): ShortcutBinding[] {
+    return this.shortcuts.getBindings(this.getShortcutContexts());
+  }
+
   /**
    * Returns true if the control key is pressed. This uses {@link Event#isControlDown}.
    *
@@ -250,12 +317,22 @@ class KeyHandler {
    * {@link isEventIgnored} returns `false`, except for escape for which
    * {@link isEventIgnored} is not invoked.
    *
+   * The {@link shortcuts} active in the contexts returned by {@link getShortcutContexts} are processed first, if
+   * {@link isEventIgnored} returns `false` or if the graph is being edited (`editing` context).
+   *
    * @param evt Key event that represents the keystroke.
    */
   keyDown(evt: KeyboardEvent) {
     if (this.isEnabledForEvent(evt)) {
+      if (
+        (this.graph?.isEditing() || !this.isEventIgnored(evt)) &&
+        this.shortcuts.handle(evt, this.getShortcutContexts(evt))
+      ) {
+        InternalEvent.consume(evt);
+      }
+
       // Cancels the editing if escape is pressed
-      if (evt.keyCode === 27 /* Escape */) {
+      else if (evt.keyCode === 27 /* Escape */) {
         this.escape(evt);
       }
 
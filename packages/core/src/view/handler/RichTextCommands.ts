@@ -0,0 +1,421 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { isSafeRichTextUrl, sanitizeRichText } from '../../internal/rich-text-utils.js';
+
+/**
+ * The type of list created by {@link RichTextCommands.toggleList}: `ul` for a bulleted list and `ol` for a numbered list.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Editing
+ */
+export type RichTextListType = 'ul' | 'ol';
+
+/**
+ * Formatting commands for a contentEditable element, used by {@link CellEditorHandler} to edit the HTML labels as
+ * rich text.
+ *
+ * The commands apply to the current selection and change the DOM of the element directly rather than using
+ * `document.execCommand`. The toggle commands remove the formatting if the selection is inside a formatted element.
+ *
+ * The commands have their own undo history: {@link record} adds the current content to the history, and is called
+ * after each command. The owner of the element must call it after the user input.
+ *
+ * ```javascript
+ * const commands = graph.getPlugin('CellEditorHandler').getRichTextCommands();
+ * commands.bold();
+ * commands.setFontColor('#ff0000');
+ * commands.undo();
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Editing
+ */
+export class RichTextCommands {
+  /**
+   * @param root The contentEditable element. Its current content is the first step of the undo history.
+   */
+  constructor(root: HTMLElement) {
+    this.root = root;
+    this.record();
+  }
+
+  root: HTMLElement;
+
+  /**
+   * The maximum number of steps of the undo history.
+   * @default 100
+   */
+  maxHistorySize = 100;
+
+  private history: string[] = [];
+
+  private historyIndex = -1;
+
+  private savedRange: Range | null = null;
+
+  /**
+   * Toggles the bold formatting of the selection.
+   */
+  bold(): void {
+    this.toggleInline('b', ['B', 'STRONG']);
+  }
+
+  /**
+   * Toggles the italic formatting of the selection.
+   */
+  italic(): void {
+    this.toggleInline('i', ['I', 'EM']);
+  }
+
+  /**
+   * Toggles the underline formatting of the selection.
+   */
+  underline(): void {
+    this.toggleInline('u', ['U']);
+  }
+
+  /**
+   * Turns the selected lines into a list of the given type. If the selection is in a list of this type, the items of
+   * the list are turned into lines. If the selection is in a list of another type, the type of the list is changed.
+   * The whole content is used if the selection is collapsed.
+   */
+  toggleList(type: RichTextListType): void {
+    const range = this.getRange();
+
+    if (!range) {
+      return;
+    }
+    const list = this.findAncestor(
+      range.startContainer,
+      (elt) => elt.nodeName === 'UL' || elt.nodeName === 'OL'
+    );
+
+    if (list?.nodeName.toLowerCase() === type) {
+      const lines = Array.from(list.children).map((item) => {
+        const line = document.createElement('div');
+        line.append(...Array.from(item.childNodes));
+        return line;
+      });
+      list.replaceWith(...lines);
+    } else if (list) {
+      const other = document.createElement(type);
+      other.append(...Array.from(list.childNodes));
+      list.replaceWith(other);
+      this.select(other);
+    } else {
+      if (range.collapsed) {
+        range.selectNodeContents(this.root);
+      }
+      const contents = range.extractContents();
+      const newList = document.createElement(type);
+      let item: HTMLElement | null = null;
+
+      for (const node of Array.from(contents.childNodes)) {
+        if (node.nodeName === 'BR') {
+          item = null;
+        } else if (['DIV', 'P', 'LI'].includes(node.nodeName)) {
+          const blockItem = document.createElement('li');
+          blockItem.append(...Array.from(node.childNodes));
+          newList.append(blockItem);
+          item = null;
+        } else {
+          if (!item) {
+            item = document.createElement('li');
+            newList.append(item);
+          }
+          item.append(node);
+        }
+      }
+      range.insertNode(newList);
+      this.select(newList);
+    }
+    this.record();
+  }
+
+  /**
+   * Links the selection to the given URL, or changes the URL of the link containing the selection.
+   *
+   * @returns `false` if the URL uses a scheme which is not allowed, such as `javascript:`, or if there is no
+   * selected text.
+   */
+  createLink(href: string): boolean {
+    const range = this.getRange();
+
+    if (!range || !isSafeRichTextUrl(href)) {
+      return false;
+    }
+    const link = this.findAncestor(
+      range.commonAncestorContainer,
+      (elt) => elt.nodeName === 'A'
+    );
+
+    if (link) {
+      link.setAttribute('href', href);
+    } else if (!range.collapsed) {
+      const newLink = document.createElement('a');
+      newLink.setAttribute('href', href);
+      this.wrap(range, newLink, (elt) => elt.nodeName === 'A');
+    } else {
+      return false;
+    }
+    this.record();
+    return true;
+  }
+
+  /**
+   * Removes the links containing or intersecting the selection. Their text is kept.
+   */
+  removeLink(): void {
+    const range = this.getRange();
+
+    if (range) {
+      for (const link of Array.from(this.root.querySelectorAll('a'))) {
+        if (range.intersectsNode(link)) {
+          this.unwrap(link);
+        }
+      }
+      this.record();
+    }
+  }
+
+  /**
+   * Sets the font size of the selection in pixels.
+   */
+  setFontSize(size: number): void {
+    this.setStyle('font-size', `${size}px`);
+  }
+
+  /**
+   * Sets the font color of the selection.
+   */
+  setFontColor(color: string): void {
+    this.setStyle('color', color);
+  }
+
+  /**
+   * Replaces the selection with the given HTML, for instance the pasted content, and moves the caret after it. Only the
+   * formatting produced by the commands is kept: the other elements are replaced by their content, and the attributes,
+   * styles and URLs which are not allowed are removed.
+   *
+   * @returns `false` if there is no selection in the root element.
+   */
+  insertHtml(html: string): boolean {
+    const range = this.getRange();
+
+    if (!range) {
+      return false;
+    }
+    const template = document.createElement('template');
+    template.innerHTML = sanitizeRichText(html);
+    const last = template.content.lastChild;
+    range.deleteContents();
+    range.insertNode(template.content);
+
+    if (last) {
+      range.setStartAfter(last);
+      range.collapse(true);
+    }
+    this.record();
+    return true;
+  }
+
+  /**
+   * Adds the current content to the undo history, unless it is the content of the current step. The steps that have
+   * been undone are removed.
+   */
+  record(): void {
+    const html = this.root.innerHTML;
+
+    if (this.history[this.historyIndex] !== html) {
+      this.history.splice(this.historyIndex + 1);
+      this.history.push(html);
+
+      if (this.history.length > this.maxHistorySize) {
+        this.history.shift();
+      }
+      this.historyIndex = this.history.length - 1;
+    }
+  }
+
+  canUndo(): boolean {
+    return this.historyIndex > 0;
+  }
+
+  canRedo(): boolean {
+    return this.historyIndex < this.history.length - 1;
+  }
+
+  /**
+   * Restores the previous step of the undo history.
+   */
+  undo(): void {
+    if (this.canUndo()) {
+      this.historyIndex--;
+      this.restore();
+    }
+  }
+
+  /**
+   * Restores the next step of the undo history.
+   */
+  redo(): void {
+    if (this.canRedo()) {
+      this.historyIndex++;
+      this.restore();
+    }
+  }
+
+  /**
+   * Saves the selection, for instance before a control of a toolbar takes the focus.
+   */
+  saveSelection(): void {
+    this.savedRange = this.getRange()?.cloneRange() ?? null;
+  }
+
+  /**
+   * Restores the selection saved by {@link saveSelection}.
+   */
+  restoreSelection(): void {
+    const selection = window.getSelection();
+
+    if (this.savedRange && selection) {
+      selection.removeAllRanges();
+      selection.addRange(this.savedRange);
+    }
+    this.savedRange = null;
+  }
+
+  /**
+   * Returns the selected range if it is in the root element.
+   */
+  private getRange(): Range | null {
+    const selection = window.getSelection();
+
+    if (!selection || selection.rangeCount === 0) {
+      return null;
+    }
+    const range = selection.getRangeAt(0);
+    return this.root.contains(range.commonAncestorContainer) ? range : null;
+  }
+
+  /**
+   * Returns the given node or its first ancestor in the root element matching the given predicate.
+   */
+  private findAncestor(node: Node | null, predicate: (elt: HTMLElement) => boolean) {
+    while (node && node !== this.root) {
+      if (node.nodeType === Node.ELEMENT_NODE && predicate(<HTMLElement>node)) {
+        return <HTMLElement>node;
+      }
+      node = node.parentNode;
+    }
+    return null;
+  }
+
+  private toggleInline(tagName: string, names: string[]) {
+    const range = this.getRange();
+
+    if (!range || range.collapsed) {
+      return;
+    }
+    const matches = (elt: Element) => names.includes(elt.nodeName);
+    const ancestor = this.findAncestor(range.commonAncestorContainer, matches);
+
+    if (ancestor) {
+      this.unwrap(ancestor);
+    } else {
+      this.wrap(range, document.createElement(tagName), matches);
+    }
+    this.record();
+  }
+
+  private setStyle(name: string, value: string) {
+    const range = this.getRange();
+
+    if (!range || range.collapsed) {
+      return;
+    }
+    const ancestor = this.findAncestor(
+      range.commonAncestorContainer,
+      (elt) => elt.nodeName === 'SPAN'
+    );
+
+    // Updates the span if it is exactly the selection
+    if (ancestor && ancestor.textContent === range.toString()) {
+      ancestor.style.setProperty(name, value);
+    } else {
+      const span = document.createElement('span');
+      span.style.setProperty(name, value);
+      this.wrap(range, span);
+
+      for (const nested of Array.from(span.querySelectorAll('span'))) {
+        nested.style.removeProperty(name);
+
+        if (!nested.getAttribute('style')) {
+          this.unwrap(nested);
+        }
+      }
+    }
+    this.record();
+  }
+
+  /**
+   * Moves the content of the given range into the given wrapper and selects it. The elements of the content matching
+   * the given predicate are unwrapped.
+   */
+  private wrap(range: Range, wrapper: HTMLElement, matches?: (elt: Element) => boolean) {
+    const contents = range.extractContents();
+
+    if (matches) {
+      for (const elt of Array.from(contents.querySelectorAll('*'))) {
+        if (matches(elt)) {
+          this.unwrap(elt);
+        }
+      }
+    }
+    wrapper.append(contents);
+    range.insertNode(wrapper);
+    this.select(wrapper);
+  }
+
+  private unwrap(elt: Element) {
+    elt.replaceWith(...Array.from(elt.childNodes));
+  }
+
+  private select(node: Node) {
+    const selection = window.getSelection();
+
+    if (selection) {
+      const range = document.createRange();
+      range.selectNodeContents(node);
+      selection.removeAllRanges();
+      selection.addRange(range);
+    }
+  }
+
+  /**
+   * Restores the content of the current step of the history and moves the caret to the end.
+   */
+  private restore() {
+    this.root.innerHTML = this.history[this.historyIndex];
+    this.select(this.root);
+    window.getSelection()?.collapseToEnd();
+  }
+}
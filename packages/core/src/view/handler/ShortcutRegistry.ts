@@ -0,0 +1,394 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import Client from '../../Client.js';
+
+/**
+ * The function called when a shortcut is pressed.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Event
+ */
+export type ShortcutFunction = (evt: KeyboardEvent) => void;
+
+/**
+ * The context in which a shortcut is active:
+ * - `canvas`: the graph is not being edited.
+ * - `editing`: a cell label is being edited in-place.
+ * - `global`: in all contexts except the in-place editing, where the keystrokes are left to the editor.
+ *
+ * Other contexts can be used, see {@link KeyHandler.getShortcutContexts}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Event
+ */
+export type ShortcutContext =
+  | 'canvas'
+  | 'editing'
+  | 'global'
+  | (string & Record<never, never>);
+
+/**
+ * Options of {@link ShortcutRegistry.bind}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Event
+ */
+export interface ShortcutBindingOptions {
+  /**
+   * The context in which the shortcut is active.
+   * @default 'canvas'
+   */
+  context?: ShortcutContext;
+  /**
+   * A description of the shortcut, for instance to be displayed in a help dialog.
+   */
+  description?: string;
+}
+
+/**
+ * A shortcut bound in a {@link ShortcutRegistry}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Event
+ */
+export interface ShortcutBinding {
+  /**
+   * The normalized shortcut. The modifiers are sorted and `Mod` is replaced by `Meta` on macOS and by `Ctrl` elsewhere.
+   * The single characters are upper-cased and the other keys are lower-cased, for instance `Ctrl+Shift+G`,
+   * `Ctrl+K Ctrl+C` or `Ctrl+enter`.
+   */
+  shortcut: string;
+  context: ShortcutContext;
+  description: string | null;
+  funct: ShortcutFunction;
+}
+
+interface KeyStroke {
+  key: string;
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+interface RegisteredShortcut extends ShortcutBinding {
+  strokes: KeyStroke[];
+}
+
+const keyAliases: Record<string, string> = {
+  esc: 'Escape',
+  del: 'Delete',
+  return: 'Enter',
+  space: ' ',
+  plus: '+',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+};
+
+const modifierKeys = ['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'OS'];
+
+/**
+ * Registry of keyboard shortcuts described by strings like `Mod+Shift+G`, used by {@link KeyHandler.bindShortcut}.
+ *
+ * A shortcut is a sequence of keystrokes separated by spaces. Each keystroke is a key preceded by optional modifiers
+ * separated by `+`:
+ * - the modifiers are `Ctrl`, `Alt`, `Shift`, `Meta` and `Mod`, which stands for `Meta` (the Command key) on macOS
+ *   and for `Ctrl` elsewhere.
+ * - the key is a value of `KeyboardEvent.key` (`G`, `Delete`, `ArrowUp`, `?`...) or of `KeyboardEvent.code`
+ *   (`KeyG`, `Digit1`, `NumpadAdd`...). The letters and digits also match the physical key when the typed character is
+ *   not a letter or a digit, so that `Alt+G` works on macOS where the Option key changes `KeyboardEvent.key`. The aliases `Esc`, `Del`, `Return`, `Space`, `Plus`, `Up`,
+ *   `Down`, `Left` and `Right` are supported.
+ *
+ * Several keystrokes define a chord: `Mod+K Mod+C` is triggered by pressing `Mod+K` then `Mod+C` within
+ * {@link chordTimeout} milliseconds.
+ *
+ * ```javascript
+ * const registry = new ShortcutRegistry();
+ * registry.bind('Mod+Shift+G', () => graph.setSelectionCell(graph.groupCells()), { description: 'Group' });
+ * registry.bind('Escape', () => graph.stopEditing(true), { context: 'editing' });
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Event
+ */
+export class ShortcutRegistry {
+  /**
+   * @param isMac Specifies if `Mod` stands for the Command key. Default is {@link Client.IS_MAC}.
+   */
+  constructor(isMac = Client.IS_MAC) {
+    this.isMac = isMac;
+  }
+
+  /**
+   * Specifies if `Mod` stands for the Command key (macOS) or for the Control key.
+   */
+  isMac: boolean;
+
+  /**
+   * The maximal delay in milliseconds between two keystrokes of a chord.
+   * @default 1500
+   */
+  chordTimeout = 1500;
+
+  private shortcuts: RegisteredShortcut[] = [];
+
+  /**
+   * The shortcuts whose first keystrokes were pressed, with the index of their next keystroke.
+   */
+  private chord: { shortcuts: RegisteredShortcut[]; index: number; time: number } | null =
+    null;
+
+  /**
+   * Binds the given shortcut to the given function. A previous binding of the same shortcut in the same context is
+   * replaced.
+   *
+   * @param shortcut The shortcut, for instance `Mod+Shift+G` or `Mod+K Mod+C`.
+   * @param funct Function called with the key event when the shortcut is pressed.
+   * @param options Options of the binding.
+   * @returns the new binding.
+   * @throws Error if the shortcut is invalid.
+   */
+  bind(
+    shortcut: string,
+    funct: ShortcutFunction,
+    options: ShortcutBindingOptions = {}
+  ): ShortcutBinding {
+    const strokes = this.parse(shortcut);
+    const registered: RegisteredShortcut = {
+      shortcut: this.normalize(shortcut),
+      context: options.context ?? 'canvas',
+      description: options.description ?? null,
+      funct,
+      strokes,
+    };
+    this.unbind(shortcut, registered.context);
+    this.shortcuts.push(registered);
+    return this.toBinding(registered);
+  }
+
+  /**
+   * Removes the binding of the given shortcut in the given context.
+   *
+   * @param shortcut The shortcut, in the format of {@link bind}.
+   * @param context The context of the binding. Default is `canvas`.
+   * @returns `true` if a binding was removed.
+   */
+  unbind(shortcut: string, context: ShortcutContext = 'canvas'): boolean {
+    const normalized = this.normalize(shortcut);
+    const count = this.shortcuts.length;
+    this.shortcuts = this.shortcuts.filter(
+      (s) => s.shortcut !== normalized || s.context !== context
+    );
+    return this.shortcuts.length !== count;
+  }
+
+  /**
+   * Returns the bindings in the order they were added, for instance to display them in a help dialog.
+   *
+   * @param contexts Optional contexts to return only the bindings active in these contexts.
+   */
+  getBindings(contexts?: ShortcutContext[]): ShortcutBinding[] {
+    return this.shortcuts
+      .filter((s) => !contexts || contexts.includes(s.context))
+      .map((s) => this.toBinding(s));
+  }
+
+  /**
+   * Returns the normalized form of the given shortcut, see {@link ShortcutBinding.shortcut}.
+   *
+   * @throws Error if the shortcut is invalid.
+   */
+  normalize(shortcut: string): string {
+    return this.parse(shortcut)
+      .map((stroke) => this.formatStroke(stroke))
+      .join(' ');
+  }
+
+  /**
+   * Processes the given key event. If it completes a shortcut active in the given contexts, the function of the
+   * shortcut is called. If the contexts contain several matching bindings, the binding of the first context is used.
+   *
+   * @param evt The `keydown` event.
+   * @param contexts The active contexts.
+   * @returns `true` if the event completed a shortcut or started a chord, in which case it should be consumed.
+   */
+  handle(evt: KeyboardEvent, contexts: ShortcutContext[]): boolean {
+    if (modifierKeys.includes(evt.key)) {
+      return false;
+    }
+    const chord =
+      this.chord && Date.now() - this.chord.time <= this.chordTimeout ? this.chord : null;
+    this.chord = null;
+
+    const index = chord?.index ?? 0;
+    const matching = (
+      chord?.shortcuts ?? this.shortcuts.filter((s) => contexts.includes(s.context))
+    ).filter((s) => s.strokes.length > index && this.matches(s.strokes[index], evt));
+
+    if (matching.length === 0) {
+      // Starts again with the keystroke that did not continue the chord
+      return chord ? this.handle(evt, contexts) : false;
+    }
+    const complete = matching
+      .filter((s) => s.strokes.length === index + 1)
+      .sort((a, b) => contexts.indexOf(a.context) - contexts.indexOf(b.context))[0];
+
+    if (complete) {
+      complete.funct(evt);
+    } else {
+      this.chord = { shortcuts: matching, index: index + 1, time: Date.now() };
+    }
+    return true;
+  }
+
+  /**
+   * Returns `true` if the first keystrokes of a chord were pressed.
+   */
+  isChordPending(): boolean {
+    return this.chord != null && Date.now() - this.chord.time <= this.chordTimeout;
+  }
+
+  /**
+   * Cancels the pending chord.
+   */
+  reset(): void {
+    this.chord = null;
+  }
+
+  private parse(shortcut: string): KeyStroke[] {
+    const strokes = shortcut
+      .trim()
+      .split(/\s+/)
+      .map((stroke) => this.parseStroke(stroke));
+
+    if (strokes.some((stroke) => !stroke)) {
+      throw new Error(`Invalid shortcut: ${shortcut}`);
+    }
+    return <KeyStroke[]>strokes;
+  }
+
+  private parseStroke(stroke: string): KeyStroke | null {
+    // The plus key, for instance in 'Ctrl++'
+    const plus = stroke === '+' || stroke.endsWith('++');
+    const tokens = plus ? stroke.slice(0, -1).split('+') : stroke.split('+');
+
+    if (plus) {
+      tokens[tokens.length - 1] = '+';
+    }
+    const result: KeyStroke = {
+      key: '',
+      ctrl: false,
+      alt: false,
+      shift: false,
+      meta: false,
+    };
+
+    for (const token of tokens) {
+      const lower = token.toLowerCase();
+
+      switch (lower) {
+        case 'mod': {
+          result[this.isMac ? 'meta' : 'ctrl'] = true;
+
+          break;
+        }
+        case 'ctrl':
+        case 'control': {
+          result.ctrl = true;
+
+          break;
+        }
+        case 'alt':
+        case 'option': {
+          result.alt = true;
+
+          break;
+        }
+        case 'shift': {
+          result.shift = true;
+
+          break;
+        }
+        case 'meta':
+        case 'cmd':
+        case 'command': {
+          result.meta = true;
+
+          break;
+        }
+        default:
+          if (token && !result.key) {
+            // The multi-character keys are compared without case, for instance 'Delete' and 'delete'
+            const key = keyAliases[lower] ?? token;
+            result.key = key.length === 1 ? key.toUpperCase() : key.toLowerCase();
+          } else {
+            return null;
+          }
+      }
+    }
+    return result.key ? result : null;
+  }
+
+  private formatStroke(stroke: KeyStroke): string {
+    const modifiers = [
+      stroke.ctrl ? 'Ctrl' : null,
+      stroke.alt ? 'Alt' : null,
+      stroke.shift ? 'Shift' : null,
+      stroke.meta ? 'Meta' : null,
+    ].filter((modifier) => modifier != null);
+    return [...modifiers, stroke.key === ' ' ? 'Space' : stroke.key].join('+');
+  }
+
+  private matches(stroke: KeyStroke, evt: KeyboardEvent): boolean {
+    const { key } = stroke;
+    const isLetter = /^[A-Z]$/.test(key);
+    const isDigit = /^[0-9]$/.test(key);
+    // Shift is often needed to type the symbols, for instance '?'
+    const isSymbol = key.length === 1 && !isLetter && !isDigit && key !== ' ';
+
+    if (
+      stroke.ctrl !== evt.ctrlKey ||
+      stroke.alt !== evt.altKey ||
+      stroke.meta !== evt.metaKey ||
+      (stroke.shift !== evt.shiftKey && !(isSymbol && !stroke.shift))
+    ) {
+      return false;
+    }
+    if (evt.key?.toLowerCase() === key.toLowerCase() || evt.code?.toLowerCase() === key) {
+      return true;
+    }
+    // The physical key is only used if the typed character is not a letter or a digit, for instance with the Option
+    // key of macOS. Otherwise, the shortcuts would not follow the keyboard layout.
+    return (
+      !/^[a-z0-9]$/i.test(evt.key ?? '') &&
+      ((isLetter && evt.code === `Key${key}`) || (isDigit && evt.code === `Digit${key}`))
+    );
+  }
+
+  private toBinding({ shortcut, context, description, funct }: RegisteredShortcut) {
+    return { shortcut, context, description, funct };
+  }
+}
@@ -39,6 +39,11 @@ import type SelectionHandler from '../plugin/SelectionHandler.js';
 import type SelectionCellsHandler from '../plugin/SelectionCellsHandler.js';
 import { HandleConfig, VertexHandlerConfig } from './config.js';
 import { isNullish } from '../../internal/utils.js';
+import {
+  getHandleFillColor,
+  getHandleStrokeColor,
+  getLabelHandleFillColor,
+} from '../../internal/theme-utils.js';
 
 /**
  * Event handler for resizing cells.
@@ -293,7 +298,7 @@ class VertexHandler implements MouseListenerSet {
             HandleConfig.labelCursor,
             InternalEvent.LABEL_HANDLE,
             HandleConfig.labelSize,
-            HandleConfig.labelFillColor
+            getLabelHandleFillColor(this.graph)
           );
           this.sizers.push(this.labelShape);
         }
@@ -307,7 +312,7 @@ class VertexHandler implements MouseListenerSet {
           VertexHandlerConfig.cursorMovable,
           InternalEvent.LABEL_HANDLE,
           undefined,
-          HandleConfig.labelFillColor
+          getLabelHandleFillColor(this.graph)
         );
         this.sizers.push(this.labelShape);
       }
@@ -319,7 +324,7 @@ class VertexHandler implements MouseListenerSet {
         this.rotationCursor,
         InternalEvent.ROTATION_HANDLE,
         HandleConfig.size + 3,
-        HandleConfig.fillColor
+        getHandleFillColor(this.graph)
       );
       this.sizers.push(this.rotationShape);
     }
@@ -454,10 +459,13 @@ class VertexHandler implements MouseListenerSet {
   }
 
   /**
-   * Returns {@link VertexHandlerConfig.selectionColor}.
+   * Returns the {@link ThemeColors.vertexSelectionColor} of the theme of the graph or {@link VertexHandlerConfig.selectionColor}.
    */
   getSelectionColor() {
-    return VertexHandlerConfig.selectionColor;
+    return (
+      this.graph.getThemeColor('vertexSelectionColor') ??
+      VertexHandlerConfig.selectionColor
+    );
   }
 
   /**
@@ -482,7 +490,7 @@ class VertexHandler implements MouseListenerSet {
     cursor: string,
     index: number,
     size = HandleConfig.size,
-    fillColor = HandleConfig.fillColor
+    fillColor = getHandleFillColor(this.graph)
   ) {
     const bounds = new Rectangle(0, 0, size, size);
     const sizer = this.createSizerShape(bounds, index, fillColor);
@@ -529,7 +537,11 @@ class VertexHandler implements MouseListenerSet {
    * index. Only images and rectangles should be returned if support for HTML
    * labels with not foreign objects is required.
    */
-  createSizerShape(bounds: Rectangle, index: number, fillColor = HandleConfig.fillColor) {
+  createSizerShape(
+    bounds: Rectangle,
+    index: number,
+    fillColor = getHandleFillColor(this.graph)
+  ) {
     if (this.handleImage) {
       bounds = new Rectangle(
         bounds.x,
@@ -544,7 +556,7 @@ class VertexHandler implements MouseListenerSet {
 
       return shape;
     }
-    const strokeColor = HandleConfig.strokeColor;
+    const strokeColor = getHandleStrokeColor(this.graph);
     if (index === InternalEvent.ROTATION_HANDLE) {
       return new EllipseShape(bounds, fillColor, strokeColor);
     }
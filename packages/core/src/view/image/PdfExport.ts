@@ -0,0 +1,143 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import ImageExport from './ImageExport.js';
+import Rectangle from '../geometry/Rectangle.js';
+import { PdfCanvas2D } from '../canvas/PdfCanvas2D.js';
+import type { AbstractGraph } from '../AbstractGraph.js';
+
+/**
+ * A TrueType font to embed in the PDF document. See {@link PdfCanvas2D.addFont}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization
+ */
+export interface PdfFontDefinition {
+  family: string;
+  data: ArrayBuffer | Uint8Array;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/**
+ * Exports a graph to a multi-page vector PDF document using a {@link PdfCanvas2D}.
+ *
+ * The graph is split into pages using the page format and the page scale of the graph ({@link AbstractGraph.pageFormat}
+ * and {@link AbstractGraph.pageScale}). When the page breaks are displayed ({@link AbstractGraph.pageBreaksVisible}),
+ * the pages of the PDF document match the page breaks displayed in the graph. Otherwise, the first page starts at the
+ * top left corner of the graph bounds.
+ *
+ * ```javascript
+ * const pdfExport = new PdfExport();
+ * const pdf = pdfExport.export(graph); // Uint8Array
+ * const url = URL.createObjectURL(new Blob([pdf], { type: 'application/pdf' }));
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Serialization
+ */
+export class PdfExport {
+  /**
+   * The {@link ImageExport} used to paint the cells.
+   */
+  imageExport = new ImageExport();
+
+  /**
+   * TrueType fonts to embed in the PDF document.
+   * @default []
+   */
+  fonts: PdfFontDefinition[] = [];
+
+  /**
+   * Creates the canvas used to write the PDF document. This implementation registers the {@link fonts}.
+   */
+  createCanvas(): PdfCanvas2D {
+    const canvas = new PdfCanvas2D();
+    for (const font of this.fonts) {
+      canvas.addFont(font.family, font.data, font.bold, font.italic);
+    }
+    return canvas;
+  }
+
+  /**
+   * Returns the bounds of the pages to export, in the coordinates of the view, ordered by row.
+   */
+  getPages(graph: AbstractGraph): Rectangle[] {
+    const view = graph.getView();
+    const { scale, translate: tr } = view;
+    const fmt = graph.getPageFormat();
+    const ps = scale * graph.getPageScale();
+    const pageWidth = fmt.width * ps;
+    const pageHeight = fmt.height * ps;
+    const gb = graph.getGraphBounds();
+
+    // Same grid as the page breaks, see PageBreaksMixin
+    const alignToGrid = graph.isPageBreaksVisible();
+    const x0 = alignToGrid
+      ? Math.floor((gb.x - tr.x * scale) / pageWidth) * pageWidth + tr.x * scale
+      : gb.x;
+    const y0 = alignToGrid
+      ? Math.floor((gb.y - tr.y * scale) / pageHeight) * pageHeight + tr.y * scale
+      : gb.y;
+    const columns = Math.max(1, Math.ceil((gb.x + gb.width - x0) / pageWidth));
+    const rows = Math.max(1, Math.ceil((gb.y + gb.height - y0) / pageHeight));
+
+    const pages: Rectangle[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        pages.push(
+          new Rectangle(
+            x0 + column * pageWidth,
+            y0 + row * pageHeight,
+            pageWidth,
+            pageHeight
+          )
+        );
+      }
+    }
+    return pages;
+  }
+
+  /**
+   * Exports the given graph and returns the content of the PDF document.
+   */
+  export(graph: AbstractGraph): Uint8Array {
+    const canvas = this.createCanvas();
+    const view = graph.getView();
+    const root = graph.getDataModel().getRoot();
+    const rootState = root ? view.getState(root) : null;
+    const fmt = graph.getPageFormat();
+    // The page format is expressed in 1/100 inch and the PDF units are 1/72 inch
+    const pageWidth = (fmt.width * 72) / 100;
+    const pageHeight = (fmt.height * 72) / 100;
+    const pageScale = pageWidth / (fmt.width * view.scale * graph.getPageScale());
+
+    for (const page of this.getPages(graph)) {
+      canvas.addPage(pageWidth, pageHeight);
+      canvas.scale(pageScale);
+      canvas.translate(-page.x, -page.y);
+
+      if (rootState) {
+        this.imageExport.drawState(rootState, canvas);
+      }
+    }
+    return canvas.toPdf();
+  }
+}
@@ -0,0 +1,392 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import Point from '../geometry/Point.js';
+import type Cell from '../cell/Cell.js';
+import type { AbstractGraph } from '../AbstractGraph.js';
+
+/**
+ * A vertex of a {@link LayoutSnapshot}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export interface LayoutSnapshotVertex {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**
+   * `false` if the vertex must not be moved by the layout.
+   */
+  movable: boolean;
+}
+
+/**
+ * An edge of a {@link LayoutSnapshot}. The terminals are the IDs of the vertices of the snapshot.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export interface LayoutSnapshotEdge {
+  id: string;
+  source: string;
+  target: string;
+}
+
+/**
+ * A plain-data copy of the children of a cell, which can be sent to a Web Worker with `postMessage`.
+ *
+ * It contains the visible child vertices of the parent and the edges connecting them, directly or through their
+ * descendants. The geometries are relative to the parent.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export interface LayoutSnapshot {
+  /**
+   * The ID of the parent cell.
+   */
+  parent: string;
+  vertices: LayoutSnapshotVertex[];
+  edges: LayoutSnapshotEdge[];
+}
+
+/**
+ * The geometries computed by an {@link AsyncLayout}. Only the vertices and edges to be changed need to be listed, and
+ * the cells that no longer exist are ignored.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export interface LayoutGeometryDiff {
+  /**
+   * The new bounds of the vertices. The size is kept if `width` or `height` is not set.
+   */
+  vertices: { id: string; x: number; y: number; width?: number; height?: number }[];
+  /**
+   * The new control points of the edges. The control points are removed if `points` is `null`.
+   */
+  edges?: { id: string; points: { x: number; y: number }[] | null }[];
+}
+
+/**
+ * A layout computing the geometries from a {@link LayoutSnapshot}, typically outside the main thread, see
+ * {@link WorkerLayout}. It is executed by {@link LayoutManager.executeAsyncLayout}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export interface AsyncLayout {
+  /**
+   * Computes the new geometries of the cells of the snapshot.
+   *
+   * @param snapshot The cells to lay out.
+   * @param signal Aborted when the result is no longer needed, for instance because the model has changed.
+   */
+  execute(snapshot: LayoutSnapshot, signal: AbortSignal): Promise<LayoutGeometryDiff>;
+}
+
+/**
+ * Messages sent by a {@link WorkerLayout} to its worker.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export type LayoutWorkerRequest =
+  | { type: 'layout'; id: number; snapshot: LayoutSnapshot; options: unknown }
+  | { type: 'cancel'; id: number };
+
+/**
+ * Messages sent by the worker of a {@link WorkerLayout} to answer a `layout` request.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export interface LayoutWorkerResponse {
+  /**
+   * The ID of the request.
+   */
+  id: number;
+  diff?: LayoutGeometryDiff;
+  /**
+   * The error message if the layout failed.
+   */
+  error?: string;
+}
+
+/**
+ * The part of the `Worker` API used by {@link WorkerLayout}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export type LayoutWorker = Pick<
+  Worker,
+  'postMessage' | 'addEventListener' | 'removeEventListener'
+>;
+
+/**
+ * An {@link AsyncLayout} running in a Web Worker.
+ *
+ * The worker receives the {@link LayoutWorkerRequest}s and answers with {@link LayoutWorkerResponse}s. Use
+ * {@link registerLayoutWorker} to implement it:
+ *
+ * ```javascript
+ * // layout-worker.js
+ * registerLayoutWorker((snapshot, options) => ({
+ *   vertices: snapshot.vertices.map((vertex, index) => ({ id: vertex.id, x: index * options.spacing, y: 0 })),
+ * }));
+ *
+ * // main thread
+ * const layout = new WorkerLayout(new Worker(new URL('./layout-worker.js', import.meta.url), { type: 'module' }), {
+ *   spacing: 120,
+ * });
+ * layoutManager.getAsyncLayout = (cell) => (cell === graph.getDefaultParent() ? layout : null);
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export class WorkerLayout implements AsyncLayout {
+  /**
+   * @param worker The worker running the layout.
+   * @param options Options sent to the worker with each snapshot. They must be cloneable with `structuredClone`.
+   */
+  constructor(worker: LayoutWorker, options: unknown = null) {
+    this.worker = worker;
+    this.options = options;
+  }
+
+  worker: LayoutWorker;
+
+  options: unknown;
+
+  private lastId = 0;
+
+  execute(snapshot: LayoutSnapshot, signal: AbortSignal): Promise<LayoutGeometryDiff> {
+    const id = ++this.lastId;
+
+    return new Promise((resolve, reject) => {
+      const cleanUp = () => {
+        this.worker.removeEventListener('message', onMessage);
+        signal.removeEventListener('abort', onAbort);
+      };
+      const onMessage = (evt: MessageEvent<LayoutWorkerResponse>) => {
+        if (evt.data?.id === id) {
+          cleanUp();
+
+          if (evt.data.error == null && evt.data.diff) {
+            resolve(evt.data.diff);
+          } else {
+            reject(new Error(evt.data.error ?? 'The layout worker returned no result'));
+          }
+        }
+      };
+      const onAbort = () => {
+        cleanUp();
+        this.post({ type: 'cancel', id });
+        reject(new Error('The layout was cancelled'));
+      };
+
+      if (signal.aborted) {
+        reject(new Error('The layout was cancelled'));
+        return;
+      }
+      this.worker.addEventListener('message', onMessage);
+      signal.addEventListener('abort', onAbort);
+      this.post({ type: 'layout', id, snapshot, options: this.options });
+    });
+  }
+
+  private post(request: LayoutWorkerRequest) {
+    this.worker.postMessage(request);
+  }
+}
+
+/**
+ * Implements the worker side of a {@link WorkerLayout}: computes the layout of the received snapshots with the given
+ * function and posts the results. The results of the cancelled requests are not posted.
+ *
+ * @param compute Function computing the geometries of a snapshot with the options of the {@link WorkerLayout}.
+ * @param scope The global scope of the worker. Default is `self`.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export const registerLayoutWorker = (
+  compute: (
+    snapshot: LayoutSnapshot,
+    options: any
+  ) => LayoutGeometryDiff | Promise<LayoutGeometryDiff>,
+  scope: LayoutWorker = <LayoutWorker>(<unknown>self)
+): void => {
+  const cancelled = new Set<number>();
+
+  scope.addEventListener('message', async (evt: MessageEvent<LayoutWorkerRequest>) => {
+    const request = evt.data;
+
+    if (request.type === 'cancel') {
+      cancelled.add(request.id);
+      return;
+    }
+    let response: LayoutWorkerResponse;
+
+    try {
+      response = {
+        id: request.id,
+        diff: await compute(request.snapshot, request.options),
+      };
+    } catch (e) {
+      response = { id: request.id, error: e instanceof Error ? e.message : String(e) };
+    }
+
+    if (!cancelled.delete(request.id)) {
+      scope.postMessage(response);
+    }
+  });
+};
+
+/**
+ * Returns the child of the given parent that is the given cell or one of its ancestors.
+ */
+const getChildOfParent = (parent: Cell, cell: Cell | null) => {
+  while (cell && cell.getParent() !== parent) {
+    cell = cell.getParent();
+  }
+  return cell;
+};
+
+/**
+ * Creates a {@link LayoutSnapshot} of the children of the given parent.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export const createLayoutSnapshot = (
+  graph: AbstractGraph,
+  parent: Cell
+): LayoutSnapshot => {
+  const vertices: LayoutSnapshotVertex[] = [];
+  const ids = new Set<string>();
+
+  for (const cell of parent.getChildren()) {
+    const geo = cell.getGeometry();
+
+    if (cell.isVertex() && cell.isVisible() && geo && cell.getId()) {
+      const id = <string>cell.getId();
+      vertices.push({
+        id,
+        x: geo.x,
+        y: geo.y,
+        width: geo.width,
+        height: geo.height,
+        movable: graph.isCellMovable(cell),
+      });
+      ids.add(id);
+    }
+  }
+
+  const edges: LayoutSnapshotEdge[] = [];
+  const visited = new Set<Cell>();
+
+  for (const cell of parent.getChildren()) {
+    if (!ids.has(<string>cell.getId())) {
+      continue;
+    }
+    for (const descendant of cell.getDescendants()) {
+      for (const edge of descendant.getEdges()) {
+        if (visited.has(edge) || !edge.isVisible() || !edge.getId()) {
+          continue;
+        }
+        visited.add(edge);
+        const source = getChildOfParent(parent, edge.getTerminal(true))?.getId();
+        const target = getChildOfParent(parent, edge.getTerminal(false))?.getId();
+
+        if (source && target && ids.has(source) && ids.has(target)) {
+          edges.push({ id: <string>edge.getId(), source, target });
+        }
+      }
+    }
+  }
+  return { parent: <string>parent.getId(), vertices, edges };
+};
+
+/**
+ * Applies the given {@link LayoutGeometryDiff} to the model of the graph in a single update.
+ *
+ * @returns the changed cells.
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export const applyLayoutGeometryDiff = (
+  graph: AbstractGraph,
+  diff: LayoutGeometryDiff
+): Cell[] => {
+  const model = graph.getDataModel();
+  const changed: Cell[] = [];
+
+  model.batchUpdate(() => {
+    for (const { id, x, y, width, height } of diff.vertices) {
+      const cell = model.getCell(id);
+      const geo = cell?.getGeometry();
+
+      if (cell && geo) {
+        const clone = geo.clone();
+        clone.x = x;
+        clone.y = y;
+        clone.width = width ?? geo.width;
+        clone.height = height ?? geo.height;
+
+        if (!clone.equals(geo)) {
+          model.setGeometry(cell, clone);
+          changed.push(cell);
+        }
+      }
+    }
+
+    for (const { id, points } of diff.edges ?? []) {
+      const cell = model.getCell(id);
+      const geo = cell?.getGeometry();
+
+      if (cell && geo) {
+        const clone = geo.clone();
+        clone.points = points ? points.map((point) => new Point(point.x, point.y)) : null;
+
+        if (!clone.equals(geo)) {
+          model.setGeometry(cell, clone);
+          changed.push(cell);
+        }
+      }
+    }
+  });
+  return changed;
+};
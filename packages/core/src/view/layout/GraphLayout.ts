@@ -19,15 +19,20 @@ limitations under the License.
 import Rectangle from '../geometry/Rectangle.js';
 import Geometry from '../geometry/Geometry.js';
 import Point from '../geometry/Point.js';
+import GeometryChange from '../undoable-change/GeometryChange.js';
+import StyleChange from '../undoable-change/StyleChange.js';
+import { LayoutResult } from './LayoutResult.js';
 import type { AbstractGraph } from '../AbstractGraph.js';
 import type Cell from '../cell/Cell.js';
 import { GraphLayoutTraverseArgs } from './types.js';
+import type { CellStyle } from '../../types.js';
 
 /**
  * Base class for all layout algorithms in maxGraph.
  *
  * Main public methods are {@link moveCell} for handling a moved cell within a layouted parent,
- * and {@link execute} for running the layout on a given parent cell.
+ * {@link execute} for running the layout on a given parent cell, and {@link preview} for computing
+ * the result of the layout without applying it.
  *
  * @category Layout
  */
@@ -92,6 +97,59 @@ class GraphLayout {
     return;
   }
 
+  /**
+   * Executes the layout algorithm for the children of the given parent in preview mode: the geometries and styles
+   * computed by the layout are collected into a {@link LayoutResult} instead of being applied to the model.
+   *
+   * The layout is executed in a model update whose changes are reverted before the end of the update, so no
+   * {@link InternalEvent.CHANGE} event is fired and nothing is added to the undo history.
+   *
+   * @param parent {@link Cell} whose children should be layed out.
+   * @experimental
+   * @since 0.25.0
+   */
+  preview(parent: Cell): LayoutResult {
+    const model = this.graph.getDataModel();
+    const result = new LayoutResult(this.graph);
+
+    model.beginUpdate();
+    const edit = model.currentEdit;
+    const start = edit.changes.length;
+
+    try {
+      this.execute(parent);
+    } finally {
+      const changes = edit.changes.splice(start);
+      const geometries = new Map<Cell, Geometry | null>();
+      const styles = new Map<Cell, CellStyle>();
+
+      // Collects the final geometries and styles, then reverts the changes in reverse order
+      for (const change of changes) {
+        if (change instanceof GeometryChange) {
+          geometries.set(change.cell, change.cell.getGeometry());
+        } else if (change instanceof StyleChange) {
+          styles.set(change.cell, change.cell.getStyle());
+        }
+      }
+      for (let i = changes.length - 1; i >= 0; i--) {
+        changes[i].execute();
+      }
+
+      for (const [cell, geometry] of geometries) {
+        if (geometry && !geometry.equals(cell.getGeometry())) {
+          result.setGeometry(cell, geometry);
+        }
+      }
+      for (const [cell, style] of styles) {
+        if (style !== cell.getStyle()) {
+          result.setStyle(cell, style);
+        }
+      }
+      model.endUpdate();
+    }
+    return result;
+  }
+
   /**
    * Returns the graph that this layout operates on.
    */
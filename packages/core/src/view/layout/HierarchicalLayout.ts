@@ -26,7 +26,11 @@ import MedianHybridCrossingReduction from './hierarchical/MedianHybridCrossingRe
 import CoordinateAssignment from './hierarchical/CoordinateAssignment.js';
 import type { AbstractGraph } from '../AbstractGraph.js';
 import type Cell from '../cell/Cell.js';
-import { HierarchicalGraphLayoutTraverseArgs } from './types.js';
+import { getLayoutPortConstraint } from './hierarchical/port-utils.js';
+import type {
+  HierarchicalGraphLayoutTraverseArgs,
+  HierarchicalPortConstraint,
+} from './types.js';
 
 /**
  * A hierarchical layout algorithm.
@@ -161,6 +165,9 @@ class HierarchicalLayout extends GraphLayout {
   /**
    * The style to apply between cell layers to edge segments.
    * Default is {@link HierarchicalEdgeStyle#POLYLINE}.
+   *
+   * Since 0.25.0, {@link HierarchicalEdgeStyle#ORTHOGONAL_PORTS} routes the edges with horizontal and vertical segments only,
+   * connecting them to the ports of the terminals (see {@link getPortConstraint}).
    */
   edgeStyle = HierarchicalEdgeStyle.POLYLINE;
 
@@ -548,6 +555,26 @@ class HierarchicalLayout extends GraphLayout {
     return false;
   }
 
+  /**
+   * Returns the port used by the given edge on its {@link getVisibleTerminal | visible} source or target terminal.
+   *
+   * The port is the port cell of the edge (see {@link isPort}) or, if the edge is not connected to a port, the first
+   * direction of {@link CellStateStyle.portConstraint} of the terminal or of
+   * {@link CellStateStyle.sourcePortConstraint}/{@link CellStateStyle.targetPortConstraint} of the edge.
+   *
+   * The ports are used to order the edges in {@link MedianHybridCrossingReduction} and to route the edges in
+   * {@link CoordinateAssignment} when {@link edgeStyle} is {@link HierarchicalEdgeStyle.ORTHOGONAL_PORTS}.
+   * Override this method and return `null` to ignore the ports.
+   *
+   * @param edge the edge.
+   * @param source `true` for the source terminal, `false` for the target terminal.
+   * @returns the port or `null` if the edge can connect anywhere on the terminal.
+   * @since 0.25.0
+   */
+  getPortConstraint(edge: Cell, source: boolean): HierarchicalPortConstraint | null {
+    return getLayoutPortConstraint(this, edge, source);
+  }
+
   /**
    * Returns the edges between the given source and target. This takes into
    * account collapsed and invisible cells and ports.
@@ -32,6 +32,16 @@ import { getClientX, getClientY } from '../../util/EventUtils.js';
 import type { AbstractGraph } from '../AbstractGraph.js';
 import GraphLayout from './GraphLayout.js';
 import UndoableEdit from '../undoable-change/UndoableEdit.js';
+import Morphing from '../animate/Morphing.js';
+import CellStatePreview from '../cell/CellStatePreview.js';
+import Point from '../geometry/Point.js';
+import { GlobalConfig } from '../../util/config.js';
+import {
+  type AsyncLayout,
+  type LayoutGeometryDiff,
+  applyLayoutGeometryDiff,
+  createLayoutSnapshot,
+} from './AsyncLayout.js';
 
 /**
  * Implements a layout manager that runs a given layout after any changes to the graph:
@@ -47,6 +57,15 @@ import UndoableEdit from '../undoable-change/UndoableEdit.js';
  *
  * See {@link getLayout} for a description of the possible eventNames.
  *
+ * ### Asynchronous layouts
+ *
+ * The layouts returned by {@link getLayout} are executed synchronously in the model update. To keep the UI responsive
+ * with expensive layouts, {@link getAsyncLayout} can return an {@link AsyncLayout}, for instance a {@link WorkerLayout}
+ * running in a Web Worker. After the changes, it receives a {@link LayoutSnapshot} of the children of the cell and its
+ * result is applied in a new model update. If {@link animate} is `true`, the new positions are then animated in the view
+ * with {@link Morphing}, without changing the model. If the model changes while the layout is running, the layout is
+ * cancelled and executed again with the new model.
+ *
  * #### Event: mxEvent.LAYOUT_CELLS
  *
  * Fires between begin- and endUpdate after all cells have been layouted in
@@ -74,6 +93,29 @@ class LayoutManager extends EventSource {
    */
   enabled = true;
 
+  /**
+   * Specifies if the results of the asynchronous layouts are animated in the view with {@link Morphing}.
+   * @default false
+   * @since 0.25.0
+   */
+  animate = false;
+
+  /**
+   * The controllers of the running asynchronous layouts by cell.
+   */
+  private asyncLayouts = new Map<Cell, AbortController>();
+
+  /**
+   * Greater than 0 while the result of an asynchronous layout is applied, so that it doesn't execute the asynchronous
+   * layouts again.
+   */
+  private applyingLayoutResult = 0;
+
+  /**
+   * The running animation of the result of an asynchronous layout.
+   */
+  private morphing: Morphing | null = null;
+
   /**
    * Holds the function that handles the endUpdate event.
    */
@@ -190,7 +232,9 @@ class LayoutManager extends EventSource {
    * {@link Event#BEGIN_UPDATE} or {@link Event#END_UPDATE}.
    */
   hasLayout(cell: Cell | null) {
-    return !!this.getLayout(cell, InternalEvent.LAYOUT_CELLS);
+    return (
+      !!this.getLayout(cell, InternalEvent.LAYOUT_CELLS) || !!this.getAsyncLayout(cell)
+    );
   }
 
   /**
@@ -204,16 +248,35 @@ class LayoutManager extends EventSource {
     return null;
   }
 
+  /**
+   * Returns the asynchronous layout for the given cell. It is executed after the changes of the children of the cell,
+   * after the layouts returned by {@link getLayout}.
+   *
+   * This implementation returns `null`.
+   *
+   * @since 0.25.0
+   */
+  getAsyncLayout(cell: Cell | null): AsyncLayout | null {
+    return null;
+  }
+
   /**
    * Called from {@link undoHandler}.
    *
-   * @param cell Array of {@link Cell} that have been moved.
-   * @param evt Mouse event that represents the mousedown.
+   * The running asynchronous layouts are cancelled and executed again after the layouts of the changed cells.
    *
-   * TODO: what is undoableEdit type?
+   * @param undoableEdit The {@link UndoableEdit} of the changes.
    */
   beforeUndo(undoableEdit: UndoableEdit) {
+    const cancelled = this.applyingLayoutResult > 0 ? [] : this.cancelAsyncLayouts();
     this.executeLayoutForCells(this.getCellsForChanges(undoableEdit.changes));
+    const model = this.getGraph().getDataModel();
+
+    for (const cell of cancelled) {
+      if (!this.asyncLayouts.has(cell) && model.contains(cell)) {
+        this.startAsyncLayout(cell);
+      }
+    }
   }
 
   /**
@@ -385,12 +448,176 @@ class LayoutManager extends EventSource {
     if (layout) {
       layout.execute(cell);
     }
+
+    if (!bubble && this.applyingLayoutResult === 0) {
+      this.startAsyncLayout(cell);
+    }
+  }
+
+  /**
+   * Returns `true` if an asynchronous layout is running for the given cell or for any cell if no cell is given.
+   *
+   * @since 0.25.0
+   */
+  isAsyncLayoutRunning(cell?: Cell): boolean {
+    return cell ? this.asyncLayouts.has(cell) : this.asyncLayouts.size > 0;
+  }
+
+  /**
+   * Executes the given asynchronous layout on the children of the given cell and applies its result in a single model
+   * update, animated in the view with {@link Morphing} if {@link animate} is `true`. A running asynchronous layout of
+   * the cell is cancelled.
+   *
+   * @param cell The {@link Cell} whose children are laid out.
+   * @param layout The {@link AsyncLayout} to execute. Default is the result of {@link getAsyncLayout}.
+   * @returns a promise resolved with `true` when the result has been applied and animated or with `false` if the layout
+   * was cancelled. It is rejected if the layout fails.
+   * @since 0.25.0
+   */
+  async executeAsyncLayout(
+    cell: Cell,
+    layout: AsyncLayout | null = this.getAsyncLayout(cell)
+  ): Promise<boolean> {
+    if (!layout) {
+      return false;
+    }
+    this.asyncLayouts.get(cell)?.abort();
+    const controller = new AbortController();
+    this.asyncLayouts.set(cell, controller);
+    let diff: LayoutGeometryDiff;
+
+    try {
+      diff = await layout.execute(
+        createLayoutSnapshot(this.getGraph(), cell),
+        controller.signal
+      );
+    } catch (e) {
+      if (controller.signal.aborted) {
+        return false;
+      }
+      this.asyncLayouts.delete(cell);
+      throw e;
+    }
+
+    if (controller.signal.aborted) {
+      return false;
+    }
+    this.asyncLayouts.delete(cell);
+    await this.applyLayoutResult(cell, diff);
+    return true;
+  }
+
+  /**
+   * Cancels the running asynchronous layouts.
+   *
+   * @returns the cells whose layout was cancelled.
+   * @since 0.25.0
+   */
+  cancelAsyncLayouts(): Cell[] {
+    const cells = [...this.asyncLayouts.keys()];
+
+    for (const controller of this.asyncLayouts.values()) {
+      controller.abort();
+    }
+    this.asyncLayouts.clear();
+    return cells;
+  }
+
+  /**
+   * Executes the asynchronous layout of the given cell, if any, and logs its errors.
+   */
+  private startAsyncLayout(cell: Cell) {
+    const layout = this.getAsyncLayout(cell);
+
+    if (layout) {
+      this.executeAsyncLayout(cell, layout).catch((e) => {
+        GlobalConfig.logger.error('Asynchronous layout failed', e);
+      });
+    }
+  }
+
+  /**
+   * Applies the result of an asynchronous layout in a single model update and animates it in the view if
+   * {@link animate} is `true`.
+   */
+  private applyLayoutResult(cell: Cell, diff: LayoutGeometryDiff): Promise<void> {
+    const graph = this.getGraph();
+    const model = graph.getDataModel();
+    const view = graph.getView();
+    // The displayed positions of the vertices, from where the animation starts
+    const origins = new Map<Cell, Point>();
+
+    if (this.animate) {
+      for (const { id } of diff.vertices) {
+        const vertex = model.getCell(id);
+        const state = vertex ? view.getState(vertex) : null;
+
+        if (state) {
+          origins.set(state.cell, new Point(state.x, state.y));
+        }
+      }
+    }
+    this.applyingLayoutResult++;
+    model.beginUpdate();
+
+    try {
+      applyLayoutGeometryDiff(graph, diff);
+      this.fireEvent(new EventObject(InternalEvent.LAYOUT_CELLS, { cells: [cell] }));
+    } finally {
+      try {
+        model.endUpdate();
+      } finally {
+        this.applyingLayoutResult--;
+      }
+    }
+    return origins.size > 0 ? this.animateLayoutResult(origins) : Promise.resolve();
+  }
+
+  /**
+   * Moves the given vertices back to their displayed positions and animates them to their new positions with
+   * {@link Morphing}. The model is not changed by the animation, so the changes made in the meantime are independent of
+   * the result of the layout.
+   */
+  private animateLayoutResult(origins: Map<Cell, Point>): Promise<void> {
+    const graph = this.getGraph();
+    const view = graph.getView();
+    const preview = new CellStatePreview(graph);
+
+    for (const [cell, origin] of origins) {
+      const state = view.getState(cell);
+
+      if (state) {
+        preview.moveState(state, origin.x - state.x, origin.y - state.y);
+      }
+    }
+    preview.show();
+    this.morphing?.stopAnimation();
+
+    return new Promise((resolve) => {
+      const morph = new Morphing(graph);
+      morph.cells = [...origins.keys()];
+      morph.addListener(InternalEvent.DONE, () => {
+        if (this.morphing === morph) {
+          this.morphing = null;
+        }
+        // The last step of the animation may not have reached the new positions
+        for (const cell of origins.keys()) {
+          view.invalidate(cell);
+        }
+        view.validate();
+        resolve();
+      });
+      this.morphing = morph;
+      morph.startAnimation();
+    });
   }
 
   /**
    * Removes all handlers from the {@link graph} and deletes the reference to it.
    */
   override destroy(): void {
+    this.cancelAsyncLayouts();
+    this.morphing?.stopAnimation();
     this.setGraph(null);
 
     super.destroy();
@@ -0,0 +1,229 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import CellStatePreview from '../cell/CellStatePreview.js';
+import type Cell from '../cell/Cell.js';
+import type Geometry from '../geometry/Geometry.js';
+import type { AbstractGraph } from '../AbstractGraph.js';
+import type { CellStyle } from '../../types.js';
+import type { LayoutGeometryDiff } from './AsyncLayout.js';
+
+/**
+ * The geometries and styles computed by a layout executed with {@link GraphLayout.preview}, which have not been
+ * applied to the model.
+ *
+ * The result can be displayed with {@link show}, and then applied to the model with {@link commit} or dropped with
+ * {@link discard}:
+ *
+ * ```javascript
+ * const result = new CircleLayout(graph).preview(graph.getDefaultParent());
+ * result.show();
+ *
+ * // later, when the user accepts or rejects the layout
+ * accepted ? result.commit() : result.discard();
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Layout
+ */
+export class LayoutResult {
+  constructor(graph: AbstractGraph) {
+    this.graph = graph;
+  }
+
+  graph: AbstractGraph;
+
+  private geometries = new Map<Cell, Geometry>();
+
+  private styles = new Map<Cell, CellStyle>();
+
+  private shown = false;
+
+  /**
+   * Sets the geometry computed by the layout for the given cell.
+   */
+  setGeometry(cell: Cell, geometry: Geometry): void {
+    this.geometries.set(cell, geometry);
+  }
+
+  /**
+   * Returns the geometry computed by the layout for the given cell or `null` if the layout does not change it.
+   */
+  getGeometry(cell: Cell): Geometry | null {
+    return this.geometries.get(cell) ?? null;
+  }
+
+  /**
+   * Sets the style computed by the layout for the given cell, for instance to disable the edge style of the edges.
+   */
+  setStyle(cell: Cell, style: CellStyle): void {
+    this.styles.set(cell, style);
+  }
+
+  /**
+   * Returns the style computed by the layout for the given cell or `null` if the layout does not change it.
+   */
+  getStyle(cell: Cell): CellStyle | null {
+    return this.styles.get(cell) ?? null;
+  }
+
+  /**
+   * Returns the cells whose geometry or style is changed by the layout.
+   */
+  getCells(): Cell[] {
+    return [...new Set([...this.geometries.keys(), ...this.styles.keys()])];
+  }
+
+  /**
+   * Returns `true` if the layout does not change any cell.
+   */
+  isEmpty(): boolean {
+    return this.geometries.size === 0 && this.styles.size === 0;
+  }
+
+  /**
+   * Returns `true` if the result is currently displayed, see {@link show}.
+   */
+  isShown(): boolean {
+    return this.shown;
+  }
+
+  /**
+   * Returns the new bounds of the vertices and the new control points of the edges as a {@link LayoutGeometryDiff}.
+   * The cells without ID are ignored.
+   */
+  getGeometryDiff(): LayoutGeometryDiff {
+    const diff: Required<LayoutGeometryDiff> = { vertices: [], edges: [] };
+
+    for (const [cell, geo] of this.geometries) {
+      const id = cell.getId();
+
+      if (id == null) {
+        continue;
+      }
+      if (cell.isEdge()) {
+        diff.edges.push({
+          id,
+          points: geo.points?.map((point) => ({ x: point.x, y: point.y })) ?? null,
+        });
+      } else {
+        diff.vertices.push({
+          id,
+          x: geo.x,
+          y: geo.y,
+          width: geo.width,
+          height: geo.height,
+        });
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * Displays the computed geometries by updating the cell states of the changed cells and of their connected edges
+   * with a {@link CellStatePreview}. The model is not changed: the states are restored by {@link discard} or by the
+   * next validation of the view.
+   */
+  show(): void {
+    const previous = new Map<Cell, Geometry | null>();
+
+    // Replaces the geometries in the cells without going through the model so that no change is recorded
+    for (const [cell, geo] of this.geometries) {
+      previous.set(cell, cell.getGeometry());
+      cell.setGeometry(geo);
+    }
+
+    try {
+      this.revalidate();
+    } finally {
+      for (const [cell, geo] of previous) {
+        cell.setGeometry(geo);
+      }
+    }
+    this.shown = true;
+  }
+
+  /**
+   * Applies the computed geometries and styles to the cells that are still in the model, in a single update.
+   *
+   * @returns the changed cells.
+   */
+  commit(): Cell[] {
+    const model = this.graph.getDataModel();
+    const changed = new Set<Cell>();
+
+    model.batchUpdate(() => {
+      for (const [cell, style] of this.styles) {
+        if (model.contains(cell)) {
+          model.setStyle(cell, style);
+          changed.add(cell);
+        }
+      }
+      for (const [cell, geo] of this.geometries) {
+        if (model.contains(cell)) {
+          model.setGeometry(cell, geo.clone());
+          changed.add(cell);
+        }
+      }
+    });
+
+    // The view is updated by the change of the model
+    this.shown = false;
+    this.clear();
+    return [...changed];
+  }
+
+  /**
+   * Drops the computed geometries and styles and restores the cell states if the result is displayed.
+   */
+  discard(): void {
+    if (this.shown) {
+      this.revalidate();
+      this.shown = false;
+    }
+    this.clear();
+  }
+
+  private clear() {
+    this.geometries.clear();
+    this.styles.clear();
+  }
+
+  /**
+   * Updates and redraws the states of the changed cells, of their descendants and of their connected edges from the
+   * current geometries of the cells.
+   */
+  private revalidate() {
+    const view = this.graph.getView();
+    const preview = new CellStatePreview(this.graph);
+
+    for (const cell of this.geometries.keys()) {
+      for (const descendant of cell.getDescendants()) {
+        const state = view.getState(descendant);
+
+        if (state) {
+          preview.moveState(state, 0, 0, true, false);
+          // The edges connected to the moved vertices follow them, even if the layout does not change them
+          preview.addEdges(state);
+        }
+      }
+    }
+    preview.show();
+  }
+}
@@ -0,0 +1,613 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import GraphLayout from './GraphLayout.js';
+import Rectangle from '../geometry/Rectangle.js';
+import type { AbstractGraph } from '../AbstractGraph.js';
+import type Cell from '../cell/Cell.js';
+
+/**
+ * A vertex positioned by the layout. The coordinates are the center of the vertex, relative to the layout parent.
+ */
+interface StressNode {
+  cell: Cell;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pinned: boolean;
+}
+
+/**
+ * A group whose children are laid out with the other vertices.
+ */
+interface StressCluster {
+  cell: Cell;
+  /** The laid out children of the group, vertices or groups. */
+  children: Cell[];
+  /** The indices of all the vertices contained in the group and its descendant groups. */
+  members: Set<number>;
+}
+
+/**
+ * Extends {@link GraphLayout} to implement a force-directed layout based on stress majorization.
+ *
+ * The layout places the vertices so that their distances match their distances in the graph, the distance of two
+ * connected vertices being {@link edgeLength}. Unlike {@link FastOrganicLayout}, the algorithm does not use random
+ * values: the same input always produces the same result.
+ *
+ * The following constraints are supported:
+ * - the vertices that are not movable or whose style defines {@link CellStateStyle.pinned} keep their location.
+ * - the bounds of the vertices are separated by at least {@link minSeparation}.
+ * - the children of the groups (see {@link isCluster}) are laid out with the other vertices and are kept together. The
+ *   groups are resized to contain their children and the other vertices are moved out of their bounds.
+ *
+ * Example:
+ *
+ * ```javascript
+ * const layout = new StressLayout(graph);
+ * layout.execute(graph.getDefaultParent());
+ * ```
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Layout
+ */
+class StressLayout extends GraphLayout {
+  constructor(graph: AbstractGraph) {
+    super(graph);
+  }
+
+  /**
+   * The ideal distance between the centers of two connected vertices.
+   * @default 100
+   */
+  edgeLength = 100;
+
+  /**
+   * The minimal distance between the bounds of two vertices.
+   * @default 20
+   */
+  minSeparation = 20;
+
+  /**
+   * The distance between the bounds of a group and the bounds of its children.
+   * @default 20
+   */
+  groupPadding = 20;
+
+  /**
+   * Specifies if the children of the groups are laid out with the other vertices. If `false`, the groups are handled
+   * like the other vertices.
+   * @default true
+   */
+  clusterGroups = true;
+
+  /**
+   * The maximal number of iterations.
+   * @default 200
+   */
+  maxIterations = 200;
+
+  /**
+   * The iterations stop when the stress decreases by less than this ratio.
+   * @default 0.0001
+   */
+  tolerance = 0.0001;
+
+  /**
+   * Specifies if the top left corner of the input cells should be the origin of the layout result. This is ignored if
+   * some vertices are pinned.
+   * @default true
+   */
+  useInputOrigin = true;
+
+  /**
+   * Specifies if all edge points of traversed edges should be removed.
+   * @default true
+   */
+  resetEdges = true;
+
+  /**
+   * Specifies if the STYLE_NOEDGESTYLE flag should be set on edges that are modified by the result.
+   * @default true
+   */
+  disableEdgeStyle = true;
+
+  /**
+   * Returns `true` if the given vertex must keep its location. This implementation returns `true` if the vertex is
+   * not movable or if {@link CellStateStyle.pinned} is set in its style.
+   *
+   * @param vertex {@link Cell} whose pinned state should be returned.
+   */
+  isVertexPinned(vertex: Cell): boolean {
+    return (
+      !this.isVertexMovable(vertex) || !!this.graph.getCurrentCellStyle(vertex).pinned
+    );
+  }
+
+  /**
+   * Returns `true` if the children of the given vertex are laid out with the other vertices. This implementation
+   * returns `true` if {@link clusterGroups} is `true` and the vertex is an expanded group that is not pinned.
+   *
+   * @param vertex {@link Cell} that should be checked.
+   */
+  isCluster(vertex: Cell): boolean {
+    return (
+      this.clusterGroups &&
+      !vertex.isCollapsed() &&
+      !this.isVertexPinned(vertex) &&
+      this.graph
+        .getChildVertices(vertex)
+        .some((child) => !this.isVertexIgnored(child) && !child.getGeometry()?.relative)
+    );
+  }
+
+  /**
+   * Implements {@link GraphLayout.execute}. This operates on all children of the given parent where
+   * {@link isVertexIgnored} returns `false`, and on the children of the groups if {@link clusterGroups} is `true`.
+   */
+  override execute(parent: Cell): void {
+    const nodes: StressNode[] = [];
+    const indices = new Map<Cell, number>();
+    const clusters = new Map<Cell, StressCluster>();
+    const children = this.collectVertices(parent, 0, 0, nodes, indices, clusters);
+
+    if (nodes.length === 0) {
+      return;
+    }
+    const origin = this.graph.getBoundingBoxFromGeometry(children);
+    const edges = this.collectEdges(parent, indices);
+    const distances = this.computeDistances(nodes.length, edges, indices, clusters);
+    this.initPositions(nodes);
+
+    const clusterList = [...clusters.values()];
+    let stress = this.computeStress(nodes, distances);
+
+    for (let i = 0; i < this.maxIterations; i++) {
+      this.majorize(nodes, distances);
+      this.removeOverlaps(nodes, indices, clusters, clusterList);
+      const next = this.computeStress(nodes, distances);
+
+      if (stress === 0 || Math.abs(stress - next) / stress < this.tolerance) {
+        break;
+      }
+      stress = next;
+    }
+
+    // Settles the constraints that the last iterations may not have satisfied
+    for (let i = 0; i < 10; i++) {
+      if (!this.removeOverlaps(nodes, indices, clusters, clusterList)) {
+        break;
+      }
+    }
+
+    if (origin && this.useInputOrigin && !nodes.some((node) => node.pinned)) {
+      const bounds = this.getBounds(children, nodes, indices, clusters);
+
+      for (const node of nodes) {
+        node.x += origin.x - bounds.x;
+        node.y += origin.y - bounds.y;
+      }
+    }
+
+    this.graph.batchUpdate(() => {
+      for (const edge of edges) {
+        if (this.resetEdges) {
+          this.graph.resetEdge(edge);
+        }
+        if (this.disableEdgeStyle) {
+          this.setEdgeStyleEnabled(edge, false);
+        }
+      }
+      this.applyPositions(children, 0, 0, nodes, indices, clusters);
+    });
+  }
+
+  /**
+   * Adds the vertices to lay out in the given parent and returns the laid out children of the parent.
+   */
+  private collectVertices(
+    parent: Cell,
+    dx: number,
+    dy: number,
+    nodes: StressNode[],
+    indices: Map<Cell, number>,
+    clusters: Map<Cell, StressCluster>
+  ): Cell[] {
+    const result: Cell[] = [];
+
+    for (const cell of this.graph.getChildVertices(parent)) {
+      const geo = cell.getGeometry();
+
+      if (this.isVertexIgnored(cell) || !geo || geo.relative) {
+        continue;
+      }
+      result.push(cell);
+
+      if (this.isCluster(cell)) {
+        const children = this.collectVertices(
+          cell,
+          dx + geo.x,
+          dy + geo.y,
+          nodes,
+          indices,
+          clusters
+        );
+        const members = new Set<number>();
+
+        for (const child of children) {
+          const index = indices.get(child);
+
+          if (index != null) {
+            members.add(index);
+          } else {
+            clusters.get(child)!.members.forEach((member) => members.add(member));
+          }
+        }
+        clusters.set(cell, { cell, children, members });
+      } else {
+        indices.set(cell, nodes.length);
+        nodes.push({
+          cell,
+          x: dx + geo.x + geo.width / 2,
+          y: dy + geo.y + geo.height / 2,
+          width: geo.width,
+          height: geo.height,
+          pinned: this.isVertexPinned(cell),
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns the edges of the given parent and its descendants that connect two laid out vertices.
+   */
+  private collectEdges(parent: Cell, indices: Map<Cell, number>): Cell[] {
+    return parent.filterDescendants(
+      (cell) =>
+        cell.isEdge() &&
+        !this.isEdgeIgnored(cell) &&
+        this.getTerminalIndex(cell, true, indices) != null &&
+        this.getTerminalIndex(cell, false, indices) != null
+    );
+  }
+
+  /**
+   * Returns the index of the laid out vertex containing the given terminal of the edge, for instance when the edge
+   * is connected to a port.
+   */
+  private getTerminalIndex(
+    edge: Cell,
+    source: boolean,
+    indices: Map<Cell, number>
+  ): number | undefined {
+    let terminal = this.graph.view.getVisibleTerminal(edge, source);
+
+    while (terminal && !indices.has(terminal)) {
+      terminal = terminal.getParent();
+    }
+    return terminal ? indices.get(terminal) : undefined;
+  }
+
+  /**
+   * Computes the ideal distances between the vertices from the length of the shortest paths. The vertices of a group
+   * are connected through a virtual vertex so that they stay close to each other.
+   */
+  private computeDistances(
+    n: number,
+    edges: Cell[],
+    indices: Map<Cell, number>,
+    clusters: Map<Cell, StressCluster>
+  ): number[][] {
+    const neighbours: number[][] = [];
+
+    for (let i = 0; i < n + clusters.size; i++) {
+      neighbours.push([]);
+    }
+    for (const edge of edges) {
+      const source = this.getTerminalIndex(edge, true, indices)!;
+      const target = this.getTerminalIndex(edge, false, indices)!;
+
+      if (source !== target) {
+        neighbours[source].push(target);
+        neighbours[target].push(source);
+      }
+    }
+    let hub = n;
+
+    for (const cluster of clusters.values()) {
+      for (const member of cluster.members) {
+        neighbours[hub].push(member);
+        neighbours[member].push(hub);
+      }
+      hub++;
+    }
+
+    const result: number[][] = [];
+    let max = 0;
+
+    for (let i = 0; i < n; i++) {
+      const hops = new Array<number>(neighbours.length).fill(Infinity);
+      const queue = [i];
+      hops[i] = 0;
+
+      for (let q = 0; q < queue.length; q++) {
+        const current = queue[q];
+
+        for (const next of neighbours[current]) {
+          if (hops[next] === Infinity) {
+            hops[next] = hops[current] + 1;
+            queue.push(next);
+          }
+        }
+      }
+      result.push(hops.slice(0, n).map((value) => value * this.edgeLength));
+      max = Math.max(max, ...result[i].filter((value) => value !== Infinity));
+    }
+
+    // Places the disconnected parts of the graph next to each other
+    for (const row of result) {
+      for (let j = 0; j < n; j++) {
+        if (row[j] === Infinity) {
+          row[j] = max + this.edgeLength;
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Spreads the vertices sharing the same location on a spiral, so that the result does not depend on random values.
+   */
+  private initPositions(nodes: StressNode[]): void {
+    const used = new Set<string>();
+    let k = 0;
+
+    for (const node of nodes) {
+      let key = `${node.x},${node.y}`;
+
+      while (!node.pinned && used.has(key)) {
+        k++;
+        const radius = (this.edgeLength / 2) * Math.sqrt(k);
+        const angle = k * 2.399963; // golden angle
+        node.x += radius * Math.cos(angle);
+        node.y += radius * Math.sin(angle);
+        key = `${node.x},${node.y}`;
+      }
+      used.add(key);
+    }
+  }
+
+  /**
+   * Returns the weighted sum of the squared differences between the actual and the ideal distances.
+   */
+  private computeStress(nodes: StressNode[], distances: number[][]): number {
+    let result = 0;
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const d = distances[i][j];
+
+        if (d > 0) {
+          const diff = Math.hypot(nodes[i].x - nodes[j].x, nodes[i].y - nodes[j].y) - d;
+          result += (diff * diff) / (d * d);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Moves each vertex that is not pinned to the location minimizing the stress, the other vertices being fixed.
+   */
+  private majorize(nodes: StressNode[], distances: number[][]): void {
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+
+      if (node.pinned) {
+        continue;
+      }
+      let sumX = 0;
+      let sumY = 0;
+      let sumWeight = 0;
+
+      for (let j = 0; j < nodes.length; j++) {
+        const d = distances[i][j];
+
+        if (i === j || !(d > 0)) {
+          continue;
+        }
+        const other = nodes[j];
+        const dx = node.x - other.x;
+        const dy = node.y - other.y;
+        const dist = Math.hypot(dx, dy);
+        const weight = 1 / (d * d);
+        sumX += weight * (dist > 0 ? other.x + (d * dx) / dist : other.x);
+        sumY += weight * (dist > 0 ? other.y + (d * dy) / dist : other.y);
+        sumWeight += weight;
+      }
+
+      if (sumWeight > 0) {
+        node.x = sumX / sumWeight;
+        node.y = sumY / sumWeight;
+      }
+    }
+  }
+
+  /**
+   * Moves the vertices to satisfy the minimal separation and to move the vertices out of the groups they are not part
+   * of. Returns `true` if a vertex was moved.
+   */
+  private removeOverlaps(
+    nodes: StressNode[],
+    indices: Map<Cell, number>,
+    clusters: Map<Cell, StressCluster>,
+    clusterList: StressCluster[]
+  ): boolean {
+    let moved = false;
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = nodes[i];
+        const b = nodes[j];
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const overlapX = (a.width + b.width) / 2 + this.minSeparation - Math.abs(dx);
+        const overlapY = (a.height + b.height) / 2 + this.minSeparation - Math.abs(dy);
+
+        if (overlapX > 0 && overlapY > 0 && !(a.pinned && b.pinned)) {
+          const shareA = a.pinned ? 0 : b.pinned ? 1 : 0.5;
+
+          if (overlapX < overlapY) {
+            const sign = dx < 0 ? -1 : 1;
+            a.x -= sign * overlapX * shareA;
+            b.x += sign * overlapX * (1 - shareA);
+          } else {
+            const sign = dy < 0 ? -1 : 1;
+            a.y -= sign * overlapY * shareA;
+            b.y += sign * overlapY * (1 - shareA);
+          }
+          moved = true;
+        }
+      }
+    }
+
+    for (const cluster of clusterList) {
+      let bounds = this.getBounds([cluster.cell], nodes, indices, clusters);
+
+      for (let i = 0; i < nodes.length; i++) {
+        if (cluster.members.has(i)) {
+          continue;
+        }
+        const node = nodes[i];
+        const sep = this.minSeparation;
+        // The distances to move the vertex out of each side of the group
+        const left = node.x + node.width / 2 + sep - bounds.x;
+        const right = bounds.x + bounds.width + sep - (node.x - node.width / 2);
+        const top = node.y + node.height / 2 + sep - bounds.y;
+        const bottom = bounds.y + bounds.height + sep - (node.y - node.height / 2);
+
+        if (left > 0 && right > 0 && top > 0 && bottom > 0) {
+          const min = Math.min(left, right, top, bottom);
+          const dx = min === left ? -left : min === right ? right : 0;
+          const dy = dx !== 0 ? 0 : min === top ? -top : bottom;
+
+          if (!node.pinned) {
+            node.x += dx;
+            node.y += dy;
+          } else {
+            for (const member of cluster.members) {
+              if (!nodes[member].pinned) {
+                nodes[member].x -= dx;
+                nodes[member].y -= dy;
+              }
+            }
+            bounds = this.getBounds([cluster.cell], nodes, indices, clusters);
+          }
+          moved = true;
+        }
+      }
+    }
+    return moved;
+  }
+
+  /**
+   * Returns the bounds of the given laid out cells, a group containing its children and {@link groupPadding}.
+   */
+  private getBounds(
+    cells: Cell[],
+    nodes: StressNode[],
+    indices: Map<Cell, number>,
+    clusters: Map<Cell, StressCluster>
+  ): Rectangle {
+    let result: Rectangle | null = null;
+
+    for (const cell of cells) {
+      const index = indices.get(cell);
+      let bounds: Rectangle;
+
+      if (index != null) {
+        const node = nodes[index];
+        bounds = new Rectangle(
+          node.x - node.width / 2,
+          node.y - node.height / 2,
+          node.width,
+          node.height
+        );
+      } else {
+        bounds = this.getBounds(clusters.get(cell)!.children, nodes, indices, clusters);
+        bounds.grow(this.groupPadding);
+      }
+
+      if (result) {
+        result.add(bounds);
+      } else {
+        result = bounds;
+      }
+    }
+    return result ?? new Rectangle();
+  }
+
+  /**
+   * Updates the geometries of the given cells, the coordinates of the result being relative to the given offset.
+   */
+  private applyPositions(
+    cells: Cell[],
+    dx: number,
+    dy: number,
+    nodes: StressNode[],
+    indices: Map<Cell, number>,
+    clusters: Map<Cell, StressCluster>
+  ): void {
+    const model = this.graph.getDataModel();
+
+    for (const cell of cells) {
+      const bounds = this.getBounds([cell], nodes, indices, clusters);
+      const index = indices.get(cell);
+
+      // Keeps the exact location of the pinned vertices
+      if (index == null || !nodes[index].pinned) {
+        bounds.x = Math.round(bounds.x);
+        bounds.y = Math.round(bounds.y);
+      }
+      const { x, y } = bounds;
+      let geometry = cell.getGeometry()!;
+
+      if (
+        geometry.x !== x - dx ||
+        geometry.y !== y - dy ||
+        geometry.width !== bounds.width ||
+        geometry.height !== bounds.height
+      ) {
+        geometry = geometry.clone();
+        geometry.x = x - dx;
+        geometry.y = y - dy;
+        geometry.width = bounds.width;
+        geometry.height = bounds.height;
+        model.setGeometry(cell, geometry);
+      }
+      const cluster = clusters.get(cell);
+
+      if (cluster) {
+        this.applyPositions(cluster.children, x, y, nodes, indices, clusters);
+      }
+    }
+  }
+}
+
+export default StressLayout;
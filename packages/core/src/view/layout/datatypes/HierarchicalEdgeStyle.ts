@@ -22,6 +22,12 @@ const HierarchicalEdgeStyle = {
   POLYLINE: 2,
   STRAIGHT: 3,
   CURVE: 4,
+  /**
+   * Routes the edges with horizontal and vertical segments only, connecting them to the ports of the terminals (see
+   * {@link HierarchicalLayout.getPortConstraint}). {@link ORTHOGONAL} routes the edges like {@link POLYLINE}.
+   * @since 0.25.0
+   */
+  ORTHOGONAL_PORTS: 5,
 };
 
 export default HierarchicalEdgeStyle;
@@ -31,6 +31,30 @@ import Geometry from '../../../view/geometry/Geometry.js';
 import GraphHierarchyEdge from '../datatypes/GraphHierarchyEdge.js';
 import SwimlaneLayout from '../SwimlaneLayout.js';
 import { log } from '../../../internal/utils.js';
+import { getPortSideVector } from './port-utils.js';
+import type { HierarchicalPortConstraint } from '../types.js';
+
+/**
+ * Route of an edge computed by {@link CoordinateAssignment.setOrthogonalEdgePositions}, from the source to the target
+ * of the internal edge. The coordinates are the ones of the layout stages, where the ranks are horizontal.
+ */
+interface OrthogonalRoute {
+  realEdge: Cell;
+  /** `true` if the real edge goes from the target to the source of the internal edge. */
+  reversed: boolean;
+  /** The points of the port on the source and on the target. */
+  anchors: [Point, Point];
+  /** The points between the source port and the first channel. */
+  exit: Point[];
+  /** The abscissa of the vertical segments, from the source to the target. */
+  lanes: number[];
+  /** The points between the last channel and the target port. */
+  entry: Point[];
+  /** The ranks above the channels crossed by the route. */
+  channels: number[];
+  /** The ordinate of the horizontal segment in each channel. */
+  tracks: number[];
+}
 
 /**
  * Sets the horizontal locations of node and edge dummy nodes on each layer.
@@ -1045,6 +1069,7 @@ class CoordinateAssignment extends HierarchicalLayoutStage {
     // values of the top and bottoms of each rank
     if (
       this.layout.edgeStyle === HierarchicalEdgeStyle.ORTHOGONAL ||
+      this.layout.edgeStyle === HierarchicalEdgeStyle.ORTHOGONAL_PORTS ||
       this.layout.edgeStyle === HierarchicalEdgeStyle.POLYLINE ||
       this.layout.edgeStyle === HierarchicalEdgeStyle.CURVE
     ) {
@@ -1052,11 +1077,275 @@ class CoordinateAssignment extends HierarchicalLayoutStage {
     }
 
     const edges = Array.from(model.edgeMapper.values());
+
+    if (this.layout.edgeStyle === HierarchicalEdgeStyle.ORTHOGONAL_PORTS) {
+      this.setOrthogonalEdgePositions(model, edges);
+      return;
+    }
+
     for (let i = 0; i < edges.length; i += 1) {
       this.setEdgePosition(edges[i]);
     }
   }
 
+  /**
+   * Sets orthogonal control points to the edges.
+   *
+   * The edges leave and enter the vertices through their ports (see {@link HierarchicalLayout.getPortConstraint}),
+   * cross the ranks vertically at the position of their dummy nodes and change position in the channels between the
+   * ranks. The horizontal segments sharing a channel are spread on distinct tracks so that they do not overlap.
+   *
+   * @param model the layout model
+   * @param edges the internal edges of the model
+   * @since 0.25.0
+   */
+  setOrthogonalEdgePositions(model: GraphHierarchyModel, edges: GraphHierarchyEdge[]) {
+    const routes: OrthogonalRoute[] = [];
+    const processed = new Set<GraphHierarchyEdge>();
+
+    for (const cell of edges) {
+      if (!processed.has(cell)) {
+        processed.add(cell);
+        routes.push(...this.createOrthogonalRoutes(cell));
+      }
+    }
+
+    // Spread the horizontal segments of each channel on distinct tracks
+    const segmentsByChannel = new Map<number, [OrthogonalRoute, number][]>();
+
+    for (const route of routes) {
+      route.channels.forEach((channel, i) => {
+        const segments = segmentsByChannel.get(channel) ?? [];
+        segments.push([route, i]);
+        segmentsByChannel.set(channel, segments);
+      });
+    }
+
+    for (const [channel, segments] of segmentsByChannel) {
+      const [top, bottom] = this.getChannelBounds(model, channel);
+      const range = ([route, i]: [OrthogonalRoute, number]) => [
+        Math.min(route.lanes[i], route.lanes[i + 1]),
+        Math.max(route.lanes[i], route.lanes[i + 1]),
+      ];
+      segments.sort((a, b) => range(a)[0] - range(b)[0]);
+
+      const trackEnds: number[] = [];
+      const assigned = segments.map((segment) => {
+        const [min, max] = range(segment);
+
+        if (max - min < 1e-6) {
+          return -1;
+        }
+        let track = trackEnds.findIndex((end) => end < min);
+
+        if (track === -1) {
+          track = trackEnds.length;
+        }
+        trackEnds[track] = max;
+        return track;
+      });
+
+      const spacing = Math.min(
+        this.parallelEdgeSpacing,
+        Math.abs(bottom - top) / (trackEnds.length + 1)
+      );
+      const middle = (top + bottom) / 2;
+
+      segments.forEach(([route, i], j) => {
+        route.tracks[i] =
+          assigned[j] === -1
+            ? middle
+            : middle + (assigned[j] - (trackEnds.length - 1) / 2) * spacing;
+      });
+    }
+
+    for (const route of routes) {
+      let points = [route.anchors[0], ...route.exit];
+
+      route.channels.forEach((_channel, i) => {
+        points.push(new Point(route.lanes[i], route.tracks[i]));
+        points.push(new Point(route.lanes[i + 1], route.tracks[i]));
+      });
+      points.push(...route.entry, route.anchors[1]);
+
+      // Remove the duplicated and the aligned points, then the anchors
+      points = points.filter(
+        (point, i) =>
+          i === 0 || point.x !== points[i - 1].x || point.y !== points[i - 1].y
+      );
+      points = points
+        .filter(
+          (point, i) =>
+            i === 0 ||
+            i === points.length - 1 ||
+            !(
+              (points[i - 1].x === point.x && point.x === points[i + 1].x) ||
+              (points[i - 1].y === point.y && point.y === points[i + 1].y)
+            )
+        )
+        .slice(1, -1);
+
+      if (route.reversed) {
+        points.reverse();
+      }
+
+      for (const lane of route.lanes) {
+        this.limitX = Math.max(<number>this.limitX, lane);
+      }
+      this.layout.setEdgePoints(
+        route.realEdge,
+        points.map((point) =>
+          this.orientation === 'north' || this.orientation === 'south'
+            ? point
+            : new Point(point.y, point.x)
+        )
+      );
+    }
+  }
+
+  /**
+   * Creates the routes of the real edges of the given internal edge. The tracks of the routes are set to the middle of
+   * the channels.
+   */
+  private createOrthogonalRoutes(cell: GraphHierarchyEdge): OrthogonalRoute[] {
+    const source = <GraphHierarchyNode>cell.source;
+    const target = <GraphHierarchyNode>cell.target;
+    const sourceRank = source.maxRank;
+    const targetRank = target.minRank;
+    const flow = this.orientation === 'south' || this.orientation === 'east' ? -1 : 1;
+    const jettys = (<{ [key: string]: number[] }>this.jettyPositions)[cell.ids[0]];
+    const routes: OrthogonalRoute[] = [];
+    let offsetX = 0;
+
+    cell.edges.forEach((realEdge, m) => {
+      const reversed = this.layout.getVisibleTerminal(realEdge, true) !== source.cell;
+      const lanes: number[] = [];
+
+      // Dummy nodes, parallel edges are drawn next to each other
+      for (let rank = sourceRank - 1; rank > targetRank; rank--) {
+        lanes.push(cell.getX(rank) + offsetX);
+      }
+      const exit = this.getOrthogonalEnd(
+        source,
+        this.layout.getPortConstraint(realEdge, !reversed),
+        jettys?.[m * 4] ?? source.x[0],
+        lanes[0] ?? target.x[0],
+        flow
+      );
+      const entry = this.getOrthogonalEnd(
+        target,
+        this.layout.getPortConstraint(realEdge, reversed),
+        jettys?.[m * 4 + 2] ?? target.x[0],
+        lanes[lanes.length - 1] ?? source.x[0],
+        -flow
+      );
+      const channels = [];
+
+      for (let rank = sourceRank; rank > targetRank; rank--) {
+        channels.push(rank);
+      }
+
+      routes.push({
+        realEdge,
+        reversed,
+        anchors: [exit.anchor, entry.anchor],
+        exit: exit.points,
+        lanes: [exit.lane, ...lanes, entry.lane],
+        entry: entry.points.reverse(),
+        channels,
+        tracks: [],
+      });
+
+      if (cell.isReversed) {
+        this.processReversedEdge(cell, realEdge);
+      }
+
+      if (offsetX === 0.0) {
+        offsetX = this.parallelEdgeSpacing;
+      } else if (offsetX > 0) {
+        offsetX = -offsetX;
+      } else {
+        offsetX = -offsetX + this.parallelEdgeSpacing;
+      }
+    });
+    return routes;
+  }
+
+  /**
+   * Computes the connection of an orthogonal route to a vertex, from the port to the vertical segment leaving the
+   * vertex in the direction of `flow`.
+   *
+   * @param node the vertex
+   * @param port the port of the edge on the vertex
+   * @param jettyX the abscissa of the edge computed by {@link localEdgeProcessing}, used if the port has no position
+   * @param nextX the abscissa of the next vertical segment of the route
+   * @param flow 1 if the route leaves the vertex downwards, -1 if it leaves upwards
+   */
+  private getOrthogonalEnd(
+    node: GraphHierarchyNode,
+    port: HierarchicalPortConstraint | null,
+    jettyX: number,
+    nextX: number,
+    flow: number
+  ): { anchor: Point; points: Point[]; lane: number } {
+    const left = node.x[0] - node.width / 2;
+    const right = left + node.width;
+    const top = node.y[0] - node.height / 2;
+    const bottom = top + node.height;
+    const front = flow > 0 ? bottom : top;
+    const back = flow > 0 ? top : bottom;
+    const [dx, dy] = port ? getPortSideVector(port, this.orientation) : [0, flow];
+    const position = port?.position ?? null;
+
+    if (dx !== 0) {
+      // Lateral port, go around the vertex
+      const y = position == null ? node.y[0] : top + position * node.height;
+      const lane = dx > 0 ? right + this.minEdgeJetty : left - this.minEdgeJetty;
+      return {
+        anchor: new Point(dx > 0 ? right : left, y),
+        points: [new Point(lane, y)],
+        lane,
+      };
+    }
+    const x = position == null ? jettyX : left + position * node.width;
+
+    if (dy === flow) {
+      return { anchor: new Point(x, front), points: [], lane: x };
+    }
+    // Port on the back of the vertex, turn around it on the side of the next segment
+    const y = back - flow * this.minEdgeJetty;
+    const lane =
+      nextX >= node.x[0] ? right + this.minEdgeJetty : left - this.minEdgeJetty;
+    return {
+      anchor: new Point(x, back),
+      points: [new Point(x, y), new Point(lane, y)],
+      lane,
+    };
+  }
+
+  /**
+   * Returns the ordinates of the limits of the channel between the given rank and the next rank below.
+   */
+  private getChannelBounds(model: GraphHierarchyModel, rank: number): [number, number] {
+    const ranks = <GraphAbstractHierarchyCell[][]>model.ranks;
+    const getRankBounds = (value: number): [number, number] => {
+      const rankTop = (<number[]>this.rankTopY)[value];
+      const rankBottom = (<number[]>this.rankBottomY)[value];
+
+      if (rankTop <= rankBottom) {
+        return [rankTop, rankBottom];
+      }
+      // The rank only contains dummy nodes
+      const cell = ranks[value][0];
+      const y = cell.isVertex() ? cell.y[0] : cell.y[value - cell.minRank - 1];
+      return [y, y];
+    };
+    const upper = getRankBounds(rank);
+    const lower = getRankBounds(rank - 1);
+
+    return upper[1] <= lower[0] ? [upper[1], lower[0]] : [lower[1], upper[0]];
+  }
+
   /**
    * Separates the x position of edges as they connect to vertices
    *
@@ -22,12 +22,23 @@ import GraphHierarchyModel from './GraphHierarchyModel.js';
 import HierarchicalLayoutStage from './HierarchicalLayoutStage.js';
 import MedianCellSorter from '../util/MedianCellSorter.js';
 import SwimlaneLayout from '../SwimlaneLayout.js';
+import type GraphHierarchyEdge from '../datatypes/GraphHierarchyEdge.js';
+import type GraphHierarchyNode from '../datatypes/GraphHierarchyNode.js';
+import { getPortOffset } from './port-utils.js';
+
+/**
+ * Number of distinct port positions per cell used when counting the crossings.
+ */
+const PORT_RESOLUTION = 8;
 
 /**
  * Sets the horizontal locations of node and edge dummy nodes on each layer.
  * Uses median down and up weightings as well heuristic to straighten edges as
  * far as possible.
  *
+ * Since 0.25.0, the ports returned by {@link HierarchicalLayout.getPortConstraint} are taken into account: the edges
+ * connected to the same vertex are ordered by the position of their port along the rank.
+ *
  * @category Layout
  */
 class MedianHybridCrossingReduction extends HierarchicalLayoutStage {
@@ -69,6 +80,14 @@ class MedianHybridCrossingReduction extends HierarchicalLayoutStage {
    */
   maxNoImprovementIterations = 2;
 
+  /**
+   * Cache of the offsets computed by {@link getPortOffset}.
+   */
+  private portOffsets = new Map<
+    GraphAbstractHierarchyCell,
+    Map<GraphAbstractHierarchyCell, number>
+  >();
+
   /**
    * Performs a vertex ordering within ranks as described by Gansner et al
    * 1993
@@ -76,6 +95,7 @@ class MedianHybridCrossingReduction extends HierarchicalLayoutStage {
   execute(parent: any) {
     const model = <GraphHierarchyModel>this.layout.getDataModel();
     let ranks = <GraphAbstractHierarchyCell[][]>model.ranks;
+    this.portOffsets.clear();
 
     // Stores initial ordering as being the best one found so far
     this.nestedBestRanks = [];
@@ -189,20 +209,27 @@ class MedianHybridCrossingReduction extends HierarchicalLayoutStage {
       const connectedCells = <GraphAbstractHierarchyCell[]>(
         node.getPreviousLayerConnectedCells(i)
       );
-      const nodeIndices = [];
+      const connections = [];
 
       for (let k = 0; k < connectedCells.length; k += 1) {
         const connectedNode = connectedCells[k];
         const otherCellRankPosition = <number>(
           connectedNode.getGeneralPurposeVariable(i - 1)
         );
-        nodeIndices.push(otherCellRankPosition);
+        // The position includes the port on the connected cell, the connections are also ordered by the port on the node
+        const portPosition = Math.round(
+          (this.getPortOffset(connectedNode, node) + 0.5) * (PORT_RESOLUTION - 1)
+        );
+        connections.push({
+          index: otherCellRankPosition * PORT_RESOLUTION + portPosition,
+          nodePortOffset: this.getPortOffset(node, connectedNode),
+        });
       }
 
-      nodeIndices.sort((x: number, y: number) => {
-        return x - y;
+      connections.sort((x, y) => {
+        return x.nodePortOffset - y.nodePortOffset || x.index - y.index;
       });
-      tmpIndices[rankPosition] = nodeIndices;
+      tmpIndices[rankPosition] = connections.map((connection) => connection.index);
     }
 
     let indices: number[] = [];
@@ -211,7 +238,7 @@ class MedianHybridCrossingReduction extends HierarchicalLayoutStage {
     }
 
     let firstIndex = 1;
-    while (firstIndex < previousRank.length) {
+    while (firstIndex < previousRank.length * PORT_RESOLUTION) {
       firstIndex <<= 1;
     }
 
@@ -308,15 +335,15 @@ class MedianHybridCrossingReduction extends HierarchicalLayoutStage {
             leftBelowPositions = [];
 
             for (let k = 0; k < leftCellAboveConnections.length; k++) {
-              leftAbovePositions[k] = <number>(
-                leftCellAboveConnections[k].getGeneralPurposeVariable(i + 1)
-              );
+              leftAbovePositions[k] =
+                <number>leftCellAboveConnections[k].getGeneralPurposeVariable(i + 1) +
+                this.getPortOffset(leftCellAboveConnections[k], leftCell);
             }
 
             for (let k = 0; k < leftCellBelowConnections.length; k++) {
-              leftBelowPositions[k] = <number>(
-                leftCellBelowConnections[k].getGeneralPurposeVariable(i - 1)
-              );
+              leftBelowPositions[k] =
+                <number>leftCellBelowConnections[k].getGeneralPurposeVariable(i - 1) +
+                this.getPortOffset(leftCellBelowConnections[k], leftCell);
             }
           } else {
             leftCellAboveConnections = rightCellAboveConnections;
@@ -338,15 +365,15 @@ class MedianHybridCrossingReduction extends HierarchicalLayoutStage {
           rightBelowPositions = [];
 
           for (let k = 0; k < rightCellAboveConnections.length; k++) {
-            rightAbovePositions[k] = <number>(
-              rightCellAboveConnections[k].getGeneralPurposeVariable(i + 1)
-            );
+            rightAbovePositions[k] =
+              <number>rightCellAboveConnections[k].getGeneralPurposeVariable(i + 1) +
+              this.getPortOffset(rightCellAboveConnections[k], rightCell);
           }
 
           for (let k = 0; k < rightCellBelowConnections.length; k++) {
-            rightBelowPositions[k] = <number>(
-              rightCellBelowConnections[k].getGeneralPurposeVariable(i - 1)
-            );
+            rightBelowPositions[k] =
+              <number>rightCellBelowConnections[k].getGeneralPurposeVariable(i - 1) +
+              this.getPortOffset(rightCellBelowConnections[k], rightCell);
           }
 
           let totalCurrentCrossings = 0;
@@ -465,7 +492,8 @@ class MedianHybridCrossingReduction extends HierarchicalLayoutStage {
       if (nextLevelConnectedCells != null && nextLevelConnectedCells.length !== 0) {
         sorterEntry.medianValue = this.medianValue(
           nextLevelConnectedCells,
-          nextRankValue
+          nextRankValue,
+          cell
         );
         medianValues.push(sorterEntry);
       } else {
@@ -497,14 +525,22 @@ class MedianHybridCrossingReduction extends HierarchicalLayoutStage {
    * @param connectedCells the cells on the specified rank connected to the
    * specified cell
    * @param rankValue the rank that the connected cell lie upon
+   * @param cell the cell connected to the connected cells. If set, the positions of the connected cells include the
+   * offset of the ports used by the connections (since 0.25.0).
    */
-  medianValue(connectedCells: GraphAbstractHierarchyCell[], rankValue: number) {
+  medianValue(
+    connectedCells: GraphAbstractHierarchyCell[],
+    rankValue: number,
+    cell?: GraphAbstractHierarchyCell
+  ) {
     const medianValues = [];
     let arrayCount = 0;
 
     for (let i = 0; i < connectedCells.length; i += 1) {
-      const cell = connectedCells[i];
-      medianValues[arrayCount++] = <number>cell.getGeneralPurposeVariable(rankValue);
+      const connectedCell = connectedCells[i];
+      medianValues[arrayCount++] =
+        <number>connectedCell.getGeneralPurposeVariable(rankValue) +
+        (cell ? this.getPortOffset(connectedCell, cell) : 0);
     }
 
     // Sort() sorts lexicographically by default (i.e. 11 before 9) so force
@@ -530,6 +566,53 @@ class MedianHybridCrossingReduction extends HierarchicalLayoutStage {
       (leftMedian + rightMedian)
     );
   }
+
+  /**
+   * Returns the offset of the port used on `cell` by the connection with `connectedCell`, along the rank of `cell`.
+   *
+   * The offset is between -0.5 (start of the cell) and 0.5 (end of the cell), and is 0 if `cell` is not a vertex or if
+   * the connection has no port.
+   *
+   * @param cell the cell owning the port.
+   * @param connectedCell the cell connected to `cell` on an adjacent rank.
+   * @since 0.25.0
+   */
+  getPortOffset(
+    cell: GraphAbstractHierarchyCell,
+    connectedCell: GraphAbstractHierarchyCell
+  ): number {
+    if (!cell.isVertex()) {
+      return 0;
+    }
+    let offsets = this.portOffsets.get(cell);
+
+    if (offsets == null) {
+      offsets = new Map();
+      this.portOffsets.set(cell, offsets);
+    }
+    let offset = offsets.get(connectedCell);
+
+    if (offset == null) {
+      const node = <GraphHierarchyNode>cell;
+      const edge = connectedCell.isEdge()
+        ? <GraphHierarchyEdge>connectedCell
+        : [...node.connectsAsSource, ...node.connectsAsTarget].find(
+            (candidate) =>
+              candidate.source === connectedCell || candidate.target === connectedCell
+          );
+      const realEdge = edge?.edges[0];
+      const port = realEdge
+        ? this.layout.getPortConstraint(
+            realEdge,
+            this.layout.getVisibleTerminal(realEdge, true) === node.cell
+          )
+        : null;
+
+      offset = port ? getPortOffset(port, this.layout.orientation) : 0;
+      offsets.set(connectedCell, offset);
+    }
+    return offset;
+  }
 }
 
 export default MedianHybridCrossingReduction;
@@ -0,0 +1,159 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import type { AbstractGraph } from '../../AbstractGraph.js';
+import type HierarchicalLayout from '../HierarchicalLayout.js';
+import type SwimlaneLayout from '../SwimlaneLayout.js';
+import type Cell from '../../cell/Cell.js';
+import type { HierarchicalPortConstraint } from '../types.js';
+import type { DirectionValue } from '../../../types.js';
+
+const sideVectors: Record<DirectionValue, [number, number]> = {
+  north: [0, -1],
+  south: [0, 1],
+  east: [1, 0],
+  west: [-1, 0],
+};
+
+/**
+ * Returns the port used by the edge on the given terminal vertex.
+ *
+ * The port is, by order of priority:
+ * - the port cell of the edge, if it is a child of the vertex. Its side is the side of the vertex closest to its center.
+ * - the first direction of {@link CellStateStyle.portConstraint} of the vertex.
+ * - the first direction of {@link CellStateStyle.sourcePortConstraint} or {@link CellStateStyle.targetPortConstraint} of the edge.
+ *
+ * @param graph the graph containing the cells.
+ * @param edge the edge.
+ * @param vertex the visible terminal of the edge.
+ * @param source `true` if the vertex is the source terminal of the edge.
+ * @param isPort function returning `true` if a cell is a port.
+ * @returns the port or `null` if the edge can connect anywhere.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ * @since 0.25.0
+ */
+export const getEdgePortConstraint = (
+  graph: AbstractGraph,
+  edge: Cell,
+  vertex: Cell,
+  source: boolean,
+  isPort: (cell: Cell) => boolean
+): HierarchicalPortConstraint | null => {
+  const edgeStyle = graph.getCellStyle(edge);
+  let port = edge.getTerminal(source);
+  const portId = source ? edgeStyle.sourcePort : edgeStyle.targetPort;
+
+  if ((port == null || port === vertex) && portId) {
+    port = graph.getDataModel().getCell(portId);
+  }
+
+  if (port != null && port !== vertex && port.getParent() === vertex) {
+    const geometry = port.getGeometry();
+    const vertexGeometry = vertex.getGeometry();
+
+    if (
+      geometry &&
+      vertexGeometry &&
+      vertexGeometry.width > 0 &&
+      vertexGeometry.height > 0 &&
+      (isPort(port) || graph.isPort(port))
+    ) {
+      const { width, height } = vertexGeometry;
+      const cx = geometry.relative
+        ? geometry.x + ((geometry.offset?.x ?? 0) + geometry.width / 2) / width
+        : (geometry.x + geometry.width / 2) / width;
+      const cy = geometry.relative
+        ? geometry.y + ((geometry.offset?.y ?? 0) + geometry.height / 2) / height
+        : (geometry.y + geometry.height / 2) / height;
+
+      const distances: [DirectionValue, number][] = [
+        ['north', cy],
+        ['south', 1 - cy],
+        ['west', cx],
+        ['east', 1 - cx],
+      ];
+      const [side] = distances.reduce((closest, current) =>
+        current[1] < closest[1] ? current : closest
+      );
+      const position = side === 'north' || side === 'south' ? cx : cy;
+
+      return { side, position: Math.min(1, Math.max(0, position)) };
+    }
+  }
+
+  const constraint =
+    graph.getCellStyle(vertex).portConstraint ??
+    (source ? edgeStyle.sourcePortConstraint : edgeStyle.targetPortConstraint);
+  const side = Array.isArray(constraint) ? constraint[0] : constraint;
+
+  return side && sideVectors[side] ? { side, position: null } : null;
+};
+
+/**
+ * Returns the port used by the edge on its visible source or target terminal, see
+ * {@link HierarchicalLayout.getPortConstraint}.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ * @since 0.25.0
+ */
+export const getLayoutPortConstraint = (
+  layout: HierarchicalLayout | SwimlaneLayout,
+  edge: Cell,
+  source: boolean
+): HierarchicalPortConstraint | null => {
+  const vertex = layout.getVisibleTerminal(edge, source);
+
+  return vertex
+    ? getEdgePortConstraint(layout.graph, edge, vertex, source, (cell) =>
+        layout.isPort(cell)
+      )
+    : null;
+};
+
+/**
+ * Returns the unit vector of the side of the port in the coordinates used by the hierarchical layout stages, where the
+ * ranks are horizontal. The coordinates are swapped for the `west` and `east` orientations.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ * @since 0.25.0
+ */
+export const getPortSideVector = (
+  port: HierarchicalPortConstraint,
+  orientation: DirectionValue
+): [number, number] => {
+  const [dx, dy] = sideVectors[port.side];
+  return orientation === 'north' || orientation === 'south' ? [dx, dy] : [dy, dx];
+};
+
+/**
+ * Returns the offset of the port along the rank, from -0.5 (start of the vertex) to 0.5 (end of the vertex), in the
+ * coordinates used by the hierarchical layout stages.
+ *
+ * @private not part of the public API, can be removed or changed without prior notice
+ * @since 0.25.0
+ */
+export const getPortOffset = (
+  port: HierarchicalPortConstraint,
+  orientation: DirectionValue
+): number => {
+  const [dx] = getPortSideVector(port, orientation);
+
+  if (dx !== 0) {
+    return dx / 2;
+  }
+  return port.position == null ? 0 : port.position - 0.5;
+};
@@ -16,6 +16,7 @@ limitations under the License.
 
 import type Cell from '../cell/Cell.js';
 import type GraphHierarchyNode from './datatypes/GraphHierarchyNode.js';
+import type { DirectionValue } from '../../types.js';
 
 /**
  * @category Layout
@@ -44,3 +45,23 @@ export interface HierarchicalGraphLayoutTraverseArgs extends GraphLayoutTraverse
 export interface SwimlaneGraphLayoutTraverseArgs extends HierarchicalGraphLayoutTraverseArgs {
   swimlaneIndex: number;
 }
+
+/**
+ * The port used by an edge on one of its terminals in {@link HierarchicalLayout}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Layout
+ */
+export interface HierarchicalPortConstraint {
+  /**
+   * The side of the terminal where the edge connects.
+   */
+  side: DirectionValue;
+  /**
+   * The relative position of the port along the side, from 0 (left or top) to 1 (right or bottom).
+   *
+   * `null` if the edge can connect anywhere on the side.
+   */
+  position: number | null;
+}
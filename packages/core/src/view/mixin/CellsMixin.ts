@@ -35,10 +35,12 @@ import InternalEvent from '../event/InternalEvent.js';
 import Rectangle from '../geometry/Rectangle.js';
 import Point from '../geometry/Point.js';
 import { htmlEntities } from '../../util/StringUtils.js';
+import { sanitizeHtmlLabel } from '../../internal/utils.js';
 import CellState from '../cell/CellState.js';
 import type { AbstractGraph } from '../AbstractGraph.js';
 import { cloneCells, getTopmostCells } from '../../util/cellArrayUtils.js';
 import type { ImageBundlePlugin } from '../plugin/ImageBundlePlugin.js';
+import type { StyleRulesPlugin } from '../plugin/StyleRulesPlugin.js';
 
 type PartialGraph = Pick<
   AbstractGraph,
@@ -264,9 +266,14 @@ export const CellsMixin: PartialType = {
       ? stylesheet.getDefaultEdgeStyle()
       : stylesheet.getDefaultVertexStyle();
 
+    // The selection and the hovered cell are only tracked by the plugin
+    const context = this.getPlugin<StyleRulesPlugin>('style-rules')?.getStyleRuleContext(
+      cell
+    ) ?? { cell };
+
     // Resolves the stylename using the above as the default
     const style = this.postProcessCellStyle(
-      stylesheet.getCellStyle(cellStyle, defaultStyle ?? {})
+      stylesheet.getCellStyle(cellStyle, defaultStyle ?? {}, context)
     );
 
     return style;
@@ -1015,6 +1022,8 @@ export const CellsMixin: PartialType = {
       if (value && value.length > 0) {
         if (!this.isHtmlLabel(state.cell)) {
           value = htmlEntities(value, false);
+        } else {
+          value = sanitizeHtmlLabel(value, state.cell);
         }
 
         value = value.replace(/\n/g, '<br>');
@@ -139,6 +139,9 @@ declare module '../AbstractGraph' {
      * Returns the computed style of the Cell using the edge or vertex default style regarding of the type of the cell.
      * The actual computation is done by {@link Stylesheet.getCellStyle}.
      *
+     * The {@link StyleRule}s of the stylesheet are evaluated against the cell. Its selection and hovered states are provided
+     * by the {@link StyleRulesPlugin} (id `'style-rules'`), they are considered `false` when the plugin is not registered.
+     *
      * **Note**: You should try and get the cell state for the given cell and use the cached style in the state before using this method.
      *
      * @param cell {@link Cell} whose style should be returned as an array.
@@ -105,6 +105,8 @@ export const PageBreaksMixin: PartialType = {
 
         if (breaks[i] != null) {
           breaks[i].points = pts;
+          // Applies the color of the current theme
+          breaks[i].stroke = this.getPageBreakColor();
           breaks[i].redraw();
         } else {
           const pageBreak = new PolylineShape(pts, this.getPageBreakColor());
@@ -19,6 +19,7 @@ import { isNode } from '../../util/domUtils.js';
 import type { AbstractGraph } from '../AbstractGraph.js';
 import { translate } from '../../internal/i18n-utils.js';
 import { isNullish } from '../../internal/utils.js';
+import type { ValidationResult } from '../other/ValidationRules.js';
 
 type PartialGraph = Pick<
   AbstractGraph,
@@ -43,6 +44,7 @@ type PartialValidation = Pick<
   | 'validateGraph'
   | 'getCellValidationError'
   | 'validateCell'
+  | 'getValidationResults'
 >;
 type PartialType = PartialGraph & PartialValidation;
 
@@ -237,4 +239,30 @@ export const ValidationMixin: PartialType = {
   validateCell(cell: Cell, context) {
     return null;
   },
+
+  getValidationResults(rules, cells) {
+    const root = this.getDataModel().getRoot();
+    cells = cells ?? root?.getDescendants().filter((cell) => cell !== root) ?? [];
+    const results: ValidationResult[] = [];
+
+    for (const cell of cells) {
+      for (const rule of rules) {
+        const issues = rule.validate(cell, <AbstractGraph>(<unknown>this)) ?? [];
+
+        for (const issue of Array.isArray(issues) ? issues : [issues]) {
+          results.push(
+            typeof issue === 'string'
+              ? { cell, rule: rule.id, severity: rule.severity, message: issue }
+              : {
+                  cell,
+                  rule: rule.id,
+                  severity: issue.severity ?? rule.severity,
+                  message: issue.message,
+                }
+          );
+        }
+      }
+    }
+    return results;
+  },
 };
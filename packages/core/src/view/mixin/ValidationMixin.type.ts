@@ -16,6 +16,7 @@ limitations under the License.
 
 import type Cell from '../cell/Cell.js';
 import type CellState from '../cell/CellState.js';
+import type { ValidationResult, ValidationRule } from '../other/ValidationRules.js';
 
 declare module '../AbstractGraph' {
   interface AbstractGraph {
@@ -124,5 +125,18 @@ declare module '../AbstractGraph' {
      * @param context Object that represents the global validation state.
      */
     validateCell: (cell: Cell, context: CellState) => string | null;
+
+    /**
+     * Validates the given cells with the given rules and returns the issues as structured objects. Unlike
+     * {@link validateGraph}, no warning is displayed. To re-validate the cells when the model changes, use a
+     * {@link ValidationEngine}.
+     *
+     * @param rules The {@link ValidationRule}s to check.
+     * @param cells Optional {@link Cell}s to validate. Default is all the descendants of the root.
+     * @returns the {@link ValidationResult}s in the order of the cells and of the rules.
+     * @experimental
+     * @since 0.25.0
+     */
+    getValidationResults: (rules: ValidationRule[], cells?: Cell[]) => ValidationResult[];
   }
 }
@@ -0,0 +1,666 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import EventSource from '../event/EventSource.js';
+import EventObject from '../event/EventObject.js';
+import InternalEvent from '../event/InternalEvent.js';
+import Cell from '../cell/Cell.js';
+import Geometry from '../geometry/Geometry.js';
+import UndoableEdit from '../undoable-change/UndoableEdit.js';
+import CellAttributeChange from '../undoable-change/CellAttributeChange.js';
+import { ChildChange } from '../undoable-change/ChildChange.js';
+import CollapseChange from '../undoable-change/CollapseChange.js';
+import GeometryChange from '../undoable-change/GeometryChange.js';
+import StyleChange from '../undoable-change/StyleChange.js';
+import { TerminalChange } from '../undoable-change/TerminalChange.js';
+import ValueChange from '../undoable-change/ValueChange.js';
+import VisibleChange from '../undoable-change/VisibleChange.js';
+import { JsonCodec } from '../../serialization/JsonCodec.js';
+import { registerModelJsonCodecs } from '../../serialization/register-model-json-codecs.js';
+import type { JsonValue } from '../../serialization/json-types.js';
+import type GraphDataModel from '../GraphDataModel.js';
+import type GraphSelectionModel from '../GraphSelectionModel.js';
+import type { UndoableChange } from '../../types.js';
+import { markImportedCells } from '../../internal/utils.js';
+
+/**
+ * Properties of the cells that are synchronized by the {@link CollaborationManager}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Collaboration
+ */
+export type CollaborationProperty =
+  | 'parent'
+  | 'geometry'
+  | 'style'
+  | 'value'
+  | 'visible'
+  | 'collapsed'
+  | 'source'
+  | 'target';
+
+/**
+ * Assignment of a property of a cell, stamped with a Lamport clock and the ID of the peer that produced it.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Collaboration
+ */
+export interface CollaborationOperation {
+  /** ID of the cell. */
+  cell: string;
+  property: CollaborationProperty;
+  /**
+   * The new value of the property, encoded with a {@link JsonCodec}. Terminals are stored as cell IDs, and the parent as
+   * `{ parent, index }` or `null` when the cell is removed.
+   */
+  value: JsonValue;
+  clock: number;
+  peer: string;
+  /**
+   * For the `parent` property only, the JSON cells describing the cell and its descendants. They are used to create the
+   * cell when it doesn't exist yet in the receiving model.
+   */
+  content?: JsonValue[];
+}
+
+/**
+ * Messages exchanged by the {@link CollaborationManager} through the {@link CollaborationTransport}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Collaboration
+ */
+export type CollaborationMessage =
+  | { type: 'operations'; peer: string; operations: CollaborationOperation[] }
+  | { type: 'cursor'; peer: string; x: number; y: number }
+  | { type: 'selection'; peer: string; cells: string[] };
+
+/**
+ * Sends the messages of a {@link CollaborationManager} to the other peers. The messages received from the other peers
+ * must be passed to {@link CollaborationManager.receive}.
+ *
+ * The messages are plain JSON objects, so they can be sent with `JSON.stringify`.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Collaboration
+ */
+export interface CollaborationTransport {
+  send(message: CollaborationMessage): void;
+}
+
+/**
+ * @experimental
+ * @since 0.25.0
+ * @category Collaboration
+ */
+export interface CollaborationManagerOptions {
+  /**
+   * Unique ID of the local peer. It is used to order concurrent operations having the same clock, so all peers must use
+   * a distinct ID.
+   */
+  peerId: string;
+  transport: CollaborationTransport;
+  /**
+   * If set, the selection of this model is sent to the other peers.
+   */
+  selectionModel?: GraphSelectionModel;
+}
+
+interface Stamp {
+  clock: number;
+  peer: string;
+}
+
+/**
+ * Returned by `createChange` when an operation is accepted but there is nothing to execute.
+ */
+const NO_CHANGE: UndoableChange = { execute: () => {} };
+
+/**
+ * Synchronizes a {@link GraphDataModel} with the models of other peers and merges concurrent changes without conflict.
+ *
+ * Each property of each cell (see {@link CollaborationProperty}) is a "last writer wins" register: every assignment is
+ * stamped with a Lamport clock and the ID of the peer that produced it. A remote assignment is only applied if its stamp
+ * is greater than the stamp of the last assignment of the property, the clock being compared first and then the peer ID.
+ * So, when two users concurrently change the geometry and the style of the same cell, both changes are kept, and when
+ * they concurrently change the same property, all peers converge to the same value whatever the order in which the
+ * messages are received.
+ *
+ * The local changes are collected when the model notifies an edit, i.e. at the end of the outermost
+ * {@link GraphDataModel.beginUpdate}/{@link GraphDataModel.endUpdate} block, and after undo or redo. They are sent as a
+ * single message. Remote operations received during an update are queued and applied once the update is ended. The
+ * remote operations which refer to a cell that has not been received yet, for instance when the change of a cell by a
+ * peer is received before the creation of the cell by another peer, are kept and applied when the cell is created.
+ *
+ * The remote changes are executed without firing {@link InternalEvent.UNDO} and {@link InternalEvent.NOTIFY}, so they are
+ * neither stored by an {@link UndoManager} nor sent back to the other peers. The {@link InternalEvent.CHANGE} event is
+ * fired, so the view of the graph is refreshed.
+ *
+ * The transport must deliver the messages of a peer in the order they are sent, for instance by using a relay server.
+ * To prevent ID collisions when several peers create cells concurrently, configure a distinct
+ * {@link GraphDataModel.prefix} on each peer. The order of the children of a cell and the replacement of the root
+ * (see {@link RootChange}) are not merged.
+ *
+ * ```javascript
+ * const manager = new CollaborationManager(graph.getDataModel(), {
+ *   peerId: 'alice',
+ *   transport: { send: (message) => socket.send(JSON.stringify(message)) },
+ *   selectionModel: graph.getSelectionModel(),
+ * });
+ * socket.onmessage = (evt) => manager.receive(JSON.parse(evt.data));
+ * manager.addListener(InternalEvent.REMOTE_CURSOR, (sender, evt) => {
+ *   showCursor(evt.getProperty('peer'), evt.getProperty('x'), evt.getProperty('y'));
+ * });
+ * ```
+ *
+ * ### Events
+ *
+ * #### InternalEvent.REMOTE_CURSOR
+ *
+ * Fires when the cursor of a remote peer has moved. The `peer` property contains the ID of the peer and the `x` and `y`
+ * properties contain the position sent with {@link sendCursor}.
+ *
+ * #### InternalEvent.REMOTE_SELECTION
+ *
+ * Fires when the selection of a remote peer has changed. The `peer` property contains the ID of the peer and the `cells`
+ * property contains the selected {@link Cell}s that exist in the local model.
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Collaboration
+ */
+export class CollaborationManager extends EventSource {
+  constructor(model: GraphDataModel, options: CollaborationManagerOptions) {
+    super();
+
+    this.model = model;
+    this.peerId = options.peerId;
+    this.transport = options.transport;
+    registerModelJsonCodecs();
+
+    this.notifyHandler = (_sender: EventSource, evt: EventObject) => {
+      this.sendOperations(evt.getProperty('edit'));
+      this.flush();
+    };
+    this.endUpdateHandler = (_sender: EventSource, evt: EventObject) => {
+      const edit: UndoableEdit = evt.getProperty('edit');
+      // Otherwise, the queue is flushed when the edit is notified
+      if (this.model.updateLevel === 0 && edit.isEmpty()) {
+        this.flush();
+      }
+    };
+    model.addListener(InternalEvent.NOTIFY, this.notifyHandler);
+    model.addListener(InternalEvent.END_UPDATE, this.endUpdateHandler);
+
+    this.selectionHandler = () => this.sendSelection();
+    this.selectionModel = options.selectionModel ?? null;
+    this.selectionModel?.addListener(InternalEvent.CHANGE, this.selectionHandler);
+  }
+
+  model: GraphDataModel;
+
+  /**
+   * ID of the local peer.
+   */
+  peerId: string;
+
+  transport: CollaborationTransport;
+
+  selectionModel: GraphSelectionModel | null;
+
+  /**
+   * The Lamport clock. It is greater than the clock of all the operations produced or received by this manager.
+   */
+  clock = 0;
+
+  /**
+   * Maps the `<cell id>/<property>` keys to the stamp of the last assignment of the property.
+   */
+  private stamps = new Map<string, Stamp>();
+
+  /**
+   * Removed cells by ID, so they can be restored or modified by remote operations.
+   */
+  private tombstones = new Map<string, Cell>();
+
+  /**
+   * Remote operations received during an update of the model.
+   */
+  private pending: CollaborationOperation[][] = [];
+
+  /**
+   * Maps the IDs of the cells that have not been received yet to the remote operations which refer to them. The
+   * operations are applied again when the cell is created.
+   */
+  private deferred = new Map<string, CollaborationOperation[]>();
+
+  private notifyHandler: (sender: EventSource, evt: EventObject) => void;
+
+  private endUpdateHandler: (sender: EventSource, evt: EventObject) => void;
+
+  private selectionHandler: () => void;
+
+  /**
+   * Processes a message sent by the {@link CollaborationManager} of another peer.
+   */
+  receive(message: CollaborationMessage): void {
+    if (message.peer === this.peerId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'operations': {
+        if (this.model.updateLevel > 0) {
+          this.pending.push(message.operations);
+        } else {
+          this.applyOperations(message.operations);
+        }
+
+        break;
+      }
+      case 'cursor': {
+        this.fireEvent(
+          new EventObject(InternalEvent.REMOTE_CURSOR, {
+            peer: message.peer,
+            x: message.x,
+            y: message.y,
+          })
+        );
+
+        break;
+      }
+      case 'selection': {
+        const cells = message.cells
+          .map((id) => this.model.getCell(id))
+          .filter((cell): cell is Cell => cell != null);
+        this.fireEvent(
+          new EventObject(InternalEvent.REMOTE_SELECTION, { peer: message.peer, cells })
+        );
+
+        break;
+      }
+      // No default
+    }
+  }
+
+  /**
+   * Sends the position of the cursor of the local user to the other peers.
+   */
+  sendCursor(x: number, y: number): void {
+    this.transport.send({ type: 'cursor', peer: this.peerId, x, y });
+  }
+
+  /**
+   * Sends the IDs of the cells selected in the {@link selectionModel} to the other peers. This is called automatically
+   * when the selection changes.
+   */
+  sendSelection(): void {
+    const cells = (this.selectionModel?.cells ?? [])
+      .map((cell) => cell.getId())
+      .filter((id): id is string => id != null);
+    this.transport.send({ type: 'selection', peer: this.peerId, cells });
+  }
+
+  /**
+   * Returns the cell with the given ID, searching in the model and then in the removed cells.
+   */
+  getCell(id: string): Cell | null {
+    return this.model.getCell(id) ?? this.tombstones.get(id) ?? null;
+  }
+
+  /**
+   * Returns the property of the cell that is changed by the given change, or `null` if the change is not synchronized.
+   */
+  protected getChangedProperty(
+    change: UndoableChange
+  ): [Cell, CollaborationProperty] | null {
+    if (change instanceof ChildChange) {
+      return [change.child, 'parent'];
+    } else if (change instanceof GeometryChange) {
+      return [change.cell, 'geometry'];
+    } else if (change instanceof StyleChange) {
+      return [change.cell, 'style'];
+    } else if (change instanceof ValueChange || change instanceof CellAttributeChange) {
+      return [change.cell, 'value'];
+    } else if (change instanceof VisibleChange) {
+      return [change.cell, 'visible'];
+    } else if (change instanceof CollapseChange) {
+      return [change.cell, 'collapsed'];
+    } else if (change instanceof TerminalChange) {
+      return [change.cell, change.source ? 'source' : 'target'];
+    }
+    return null;
+  }
+
+  /**
+   * Creates the operations for the properties changed by the given local edit and sends them to the other peers.
+   */
+  protected sendOperations(edit: UndoableEdit): void {
+    const changed = new Map<string, [Cell, CollaborationProperty]>();
+
+    for (const change of edit.changes) {
+      const property = this.getChangedProperty(change);
+      const id = property?.[0].getId();
+
+      if (property && id != null && !changed.has(`${id}/${property[1]}`)) {
+        changed.set(`${id}/${property[1]}`, property);
+      }
+    }
+
+    if (changed.size === 0) {
+      return;
+    }
+    this.clock += 1;
+    const operations: CollaborationOperation[] = [];
+
+    for (const [key, [cell, property]] of changed) {
+      const operation: CollaborationOperation = {
+        cell: cell.getId()!,
+        property,
+        value: this.encodeProperty(cell, property),
+        clock: this.clock,
+        peer: this.peerId,
+      };
+
+      if (property === 'parent') {
+        if (operation.value == null) {
+          this.addTombstones(cell);
+        } else {
+          operation.content = [];
+          new JsonCodec().encodeCell(cell, operation.content);
+        }
+      }
+      this.stamps.set(key, { clock: this.clock, peer: this.peerId });
+      operations.push(operation);
+    }
+
+    this.transport.send({ type: 'operations', peer: this.peerId, operations });
+  }
+
+  /**
+   * Applies the given remote operations whose stamp is greater than the stamp of the last assignment of their property.
+   */
+  protected applyOperations(operations: CollaborationOperation[]): void {
+    const model = this.model;
+    const edit = new UndoableEdit(model, false);
+    edit.notify = () => {
+      model.fireEvent(
+        new EventObject(InternalEvent.CHANGE, { edit, changes: edit.changes })
+      );
+    };
+
+    model.fireEvent(new EventObject(InternalEvent.START_EDIT));
+    const queue = [...operations];
+
+    while (queue.length > 0) {
+      const operation = queue.shift()!;
+      this.clock = Math.max(this.clock, operation.clock);
+      const key = `${operation.cell}/${operation.property}`;
+
+      if (this.isNewer(operation, this.stamps.get(key))) {
+        const change = this.createChange(operation);
+
+        // The stamp is kept only if the operation has been applied, otherwise the operation is applied again when the
+        // missing cell is created
+        if (change) {
+          this.stamps.set(key, { clock: operation.clock, peer: operation.peer });
+
+          if (change !== NO_CHANGE) {
+            change.execute();
+            edit.add(change);
+            model.fireEvent(new EventObject(InternalEvent.EXECUTED, { change }));
+          }
+          if (operation.property === 'parent') {
+            queue.push(...this.takeDeferredOperations(this.getCell(operation.cell)));
+          }
+        } else {
+          this.deferOperation(operation);
+        }
+      }
+    }
+    model.fireEvent(new EventObject(InternalEvent.END_EDIT));
+
+    if (!edit.isEmpty()) {
+      edit.notify();
+    }
+  }
+
+  /**
+   * Keeps the given operation, which cannot be applied because a cell is missing, until the missing cell is created.
+   */
+  private deferOperation(operation: CollaborationOperation): void {
+    const id = this.getMissingCellId(operation);
+    const operations = this.deferred.get(id);
+
+    if (operations) {
+      operations.push(operation);
+    } else {
+      this.deferred.set(id, [operation]);
+    }
+  }
+
+  /**
+   * Returns the ID of the cell which is missing to apply the given operation: the parent, the terminal or the cell of
+   * the operation.
+   */
+  private getMissingCellId(operation: CollaborationOperation): string {
+    const { property, value } = operation;
+
+    if (
+      property === 'parent' &&
+      value != null &&
+      typeof value === 'object' &&
+      !Array.isArray(value)
+    ) {
+      const parent = String(value.parent);
+
+      if (this.getCell(parent) == null) {
+        return parent;
+      }
+    } else if ((property === 'source' || property === 'target') && value != null) {
+      const terminal = String(value);
+
+      if (this.getCell(terminal) == null) {
+        return terminal;
+      }
+    }
+    return operation.cell;
+  }
+
+  /**
+   * Removes and returns the deferred operations which refer to the given cell or to its descendants.
+   */
+  private takeDeferredOperations(cell: Cell | null): CollaborationOperation[] {
+    const operations: CollaborationOperation[] = [];
+
+    for (const descendant of cell?.getDescendants() ?? []) {
+      const id = descendant.getId();
+      const deferred = id == null ? undefined : this.deferred.get(id);
+
+      if (deferred) {
+        this.deferred.delete(id!);
+        operations.push(...deferred);
+      }
+    }
+    return operations;
+  }
+
+  /**
+   * Returns `true` if the stamp of the operation is greater than the given stamp.
+   */
+  protected isNewer(operation: CollaborationOperation, stamp?: Stamp): boolean {
+    return (
+      stamp == null ||
+      operation.clock > stamp.clock ||
+      (operation.clock === stamp.clock && operation.peer > stamp.peer)
+    );
+  }
+
+  /**
+   * Creates the change that assigns the value of the operation.
+   *
+   * @returns the change, `NO_CHANGE` if there is nothing to execute, or `null` if the operation cannot be applied because
+   *          a cell is missing.
+   */
+  private createChange(operation: CollaborationOperation): UndoableChange | null {
+    const model = this.model;
+    const { property, value } = operation;
+    let cell = this.getCell(operation.cell);
+
+    if (property === 'parent') {
+      if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+        if (cell == null || model.getCell(operation.cell) == null) {
+          return cell == null ? null : NO_CHANGE;
+        }
+        this.addTombstones(cell);
+        return new ChildChange(model, null, cell);
+      }
+
+      const parent = this.getCell(String(value.parent));
+      cell ??= this.decodeContent(operation.content);
+
+      if (parent == null || cell == null) {
+        return null;
+      }
+      this.removeTombstones(cell);
+      const index = Math.min(Number(value.index ?? 0), parent.getChildCount());
+      return new ChildChange(model, parent, cell, index);
+    }
+
+    if (cell == null) {
+      return null;
+    }
+
+    switch (property) {
+      case 'geometry':
+        return new GeometryChange(model, cell, this.decode(value, new Geometry()));
+      case 'style':
+        return new StyleChange(model, cell, this.decode(value) ?? {});
+      case 'value':
+        // The remote values are untrusted content, as the imported ones
+        markImportedCells([cell]);
+        return new ValueChange(model, cell, this.decode(value));
+      case 'visible':
+        return new VisibleChange(model, cell, value === true);
+      case 'collapsed':
+        return new CollapseChange(model, cell, value === true);
+      case 'source':
+      case 'target': {
+        const terminal = value == null ? null : this.getCell(String(value));
+        return value != null && terminal == null
+          ? null
+          : new TerminalChange(model, cell, terminal, property === 'source');
+      }
+    }
+    return NO_CHANGE;
+  }
+
+  /**
+   * Returns the current value of the property of the cell as a JSON value.
+   */
+  protected encodeProperty(cell: Cell, property: CollaborationProperty): JsonValue {
+    const codec = new JsonCodec();
+
+    switch (property) {
+      case 'parent': {
+        const parent = cell.getParent();
+        return parent == null || this.model.getCell(cell.getId()!) == null
+          ? null
+          : { parent: codec.getId(parent), index: parent.getIndex(cell) };
+      }
+      case 'geometry':
+        return codec.encode(cell.getGeometry()) ?? null;
+      case 'style':
+        return codec.encode(cell.getStyle()) ?? null;
+      case 'value':
+        return codec.encode(cell.getValue()) ?? null;
+      case 'visible':
+        return cell.isVisible();
+      case 'collapsed':
+        return cell.isCollapsed();
+      case 'source':
+      case 'target':
+        return codec.getId(cell.getTerminal(property === 'source'));
+    }
+  }
+
+  private decode(value: JsonValue, into?: any): any {
+    if (value == null) {
+      return null;
+    }
+    const codec = new JsonCodec();
+    codec.lookup = (id: string) => this.getCell(id);
+    return codec.decode(value, into);
+  }
+
+  /**
+   * Decodes the cell and its descendants sent with a `parent` operation. The returned cell is not inserted into its
+   * parent, this is done by the {@link ChildChange} that adds it to the model.
+   */
+  private decodeContent(content?: JsonValue[]): Cell | null {
+    if (!content || content.length === 0) {
+      return null;
+    }
+    const codec = new JsonCodec(content);
+    codec.lookup = (id: string) => this.getCell(id);
+    const cell = codec.decodeCell(content[0], false);
+
+    if (cell) {
+      cell.parent = null;
+
+      for (let i = 1; i < content.length; i++) {
+        codec.decodeCell(content[i]);
+      }
+      markImportedCells([cell]);
+    }
+    return cell;
+  }
+
+  private addTombstones(cell: Cell): void {
+    const id = cell.getId();
+    id != null && this.tombstones.set(id, cell);
+    cell.getChildren().forEach((child) => this.addTombstones(child));
+  }
+
+  private removeTombstones(cell: Cell): void {
+    const id = cell.getId();
+    id != null && this.tombstones.delete(id);
+    cell.getChildren().forEach((child) => this.removeTombstones(child));
+  }
+
+  private flush(): void {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((operations) => this.applyOperations(operations));
+  }
+
+  /**
+   * Removes all handlers from the model and the selection model.
+   */
+  override destroy(): void {
+    this.model.removeListener(this.notifyHandler);
+    this.model.removeListener(this.endUpdateHandler);
+    this.selectionModel?.removeListener(this.selectionHandler);
+    this.pending = [];
+
+    super.destroy();
+  }
+}
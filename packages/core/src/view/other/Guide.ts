@@ -104,13 +104,17 @@ class Guide {
   /**
    * Returns the mxShape to be used for painting the respective guide. This
    * implementation returns a new, dashed and crisp {@link PolylineShape} using
-   * {@link GUIDE_COLOR} and {@link GUIDE_STROKEWIDTH} as the format.
+   * the guide color of the theme of the graph (or {@link GUIDE_COLOR}) and {@link GUIDE_STROKEWIDTH} as the format.
    *
    * @param horizontal Boolean that specifies which guide should be created.
    */
   createGuideShape(horizontal = false) {
     // TODO: Should vertical guides be supported here?? ============================
-    const guide = new PolylineShape([], GUIDE_COLOR, GUIDE_STROKEWIDTH);
+    const guide = new PolylineShape(
+      [],
+      this.graph.getThemeColor('guideColor') ?? GUIDE_COLOR,
+      GUIDE_STROKEWIDTH
+    );
     guide.isDashed = true;
     return guide;
   }
@@ -354,7 +358,7 @@ class Guide {
    * Hides all current guides.
    */
   getGuideColor(state: CellState, horizontal: boolean) {
-    return GUIDE_COLOR;
+    return this.graph.getThemeColor('guideColor') ?? GUIDE_COLOR;
   }
 
   /**
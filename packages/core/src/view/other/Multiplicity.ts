@@ -21,11 +21,14 @@ import type Cell from '../cell/Cell.js';
 import type { AbstractGraph } from '../AbstractGraph.js';
 import { translate } from '../../internal/i18n-utils.js';
 import { isNullish } from '../../internal/utils.js';
+import type { ValidationSeverity } from './ValidationRules.js';
 
 /**
  * Defines invalid connections along with the error messages that they produce.
  * To add or remove rules on a graph, you must add/remove instances of this class to {@link AbstractGraph.multiplicities}.
  *
+ * The multiplicities can also be checked with the other validation rules using a {@link MultiplicityRule}.
+ *
  * ### Example
  *
  * Defines a rule where each rectangle must be connected to no more than 2 circles and no other types of targets are allowed.
@@ -124,6 +127,13 @@ class Multiplicity {
    */
   typeError: string;
 
+  /**
+   * The severity of the errors of this rule in the {@link ValidationResult}s of the {@link MultiplicityRule}.
+   * @default 'error'
+   * @since 0.25.0
+   */
+  severity: ValidationSeverity = 'error';
+
   /**
    * Checks the multiplicity for the given arguments and returns the error for the given connection or `null` if the multiplicity does not apply.
    *
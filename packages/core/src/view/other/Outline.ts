@@ -44,6 +44,9 @@ import { getDefaultPlugins } from '../plugin/index.js';
  *
  * Set {@link updateOnPan} to true to enable updates while the source graph is panning.
  *
+ * The cells are displayed by a second {@link AbstractGraph} sharing the model of the source graph. For large diagrams,
+ * consider using {@link SnapshotOutline} that paints a simplified rendering of the cells instead.
+ *
  * ### Example
  *
  * ```javascript
@@ -135,6 +138,12 @@ class Outline implements MouseListenerSet {
       const outline = this.outline;
       outline?.setStylesheet(this.source.getStylesheet());
       outline?.refresh();
+
+      // Applies the color of the theme of the source graph
+      if (this.selectionBorder) {
+        this.selectionBorder.stroke = this.getOutlineColor();
+        this.selectionBorder.redraw();
+      }
     };
     this.source.addListener(InternalEvent.REFRESH, this.refreshHandler);
 
@@ -143,7 +152,7 @@ class Outline implements MouseListenerSet {
     this.selectionBorder = new RectangleShape(
       this.bounds,
       NONE,
-      OUTLINE_COLOR,
+      this.getOutlineColor(),
       OUTLINE_STROKEWIDTH
     );
     this.selectionBorder.dialect = this.outline.dialect;
@@ -363,6 +372,14 @@ class Outline implements MouseListenerSet {
     this.update(true);
   }
 
+  /**
+   * Returns the color of the viewport: the outline color of the theme of the source graph or {@link OUTLINE_COLOR}.
+   * @since 0.25.0
+   */
+  getOutlineColor(): string {
+    return this.source.getThemeColor('outlineColor') ?? OUTLINE_COLOR;
+  }
+
   /**
    * Creates the shape used as the sizer.
    */
@@ -472,10 +489,7 @@ class Outline implements MouseListenerSet {
         }
 
         const navView = this.outline.getView();
-
-        if (navView.currentRoot !== this.source.getView().currentRoot) {
-          navView.setCurrentRoot(this.source.getView().currentRoot);
-        }
+        this.updateCurrentRoot();
 
         const t = this.source.view.translate;
         let tx = t.x + this.source.panDx;
@@ -564,6 +578,17 @@ class Outline implements MouseListenerSet {
     }
   }
 
+  /**
+   * Displays the current root of the source graph in the outline graph.
+   */
+  updateCurrentRoot(): void {
+    const navView = this.outline?.getView();
+
+    if (navView && navView.currentRoot !== this.source.getView().currentRoot) {
+      navView.setCurrentRoot(this.source.getView().currentRoot);
+    }
+  }
+
   /**
    * Handles the event by starting a translation or zoom.
    */
@@ -0,0 +1,438 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import CellHighlight from '../cell/CellHighlight.js';
+import InternalEvent from '../event/InternalEvent.js';
+import { HIGHLIGHT_STROKEWIDTH } from '../../util/Constants.js';
+import { getHighlightColor } from '../../internal/theme-utils.js';
+import { isNode } from '../../util/domUtils.js';
+import type Cell from '../cell/Cell.js';
+import type { AbstractGraph } from '../AbstractGraph.js';
+import type { CellStyle } from '../../types.js';
+
+/**
+ * Where a {@link SearchMatch} has been found:
+ * - `label`: the label of the cell returned by {@link AbstractGraph.getLabel}.
+ * - `attribute`: an attribute of the XML user object of the cell.
+ * - `style`: a property of the style of the cell.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Search
+ */
+export type SearchField = 'label' | 'attribute' | 'style';
+
+/**
+ * @experimental
+ * @since 0.25.0
+ * @category Search
+ */
+export interface SearchOptions {
+  /**
+   * Specifies if the query is a regular expression. Otherwise, the query is matched literally.
+   * @default false
+   */
+  regex?: boolean;
+  /**
+   * @default false
+   */
+  caseSensitive?: boolean;
+  /**
+   * Specifies if the query must match whole words only.
+   * @default false
+   */
+  wholeWord?: boolean;
+  /**
+   * Specifies if the labels are searched.
+   * @default true
+   */
+  labels?: boolean;
+  /**
+   * Specifies if the attributes of the XML user objects are searched. If this is an array, only the attributes with
+   * these names are searched.
+   * @default true
+   */
+  attributes?: boolean | string[];
+  /**
+   * Specifies if the string properties of the cell styles are searched. If this is an array, only these properties
+   * are searched.
+   * @default false
+   */
+  styles?: boolean | (keyof CellStyle)[];
+  /**
+   * Optional function returning `false` for the cells to be ignored.
+   */
+  filter?: (cell: Cell) => boolean;
+}
+
+/**
+ * A value of a cell matching the query of a search.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Search
+ */
+export interface SearchMatch {
+  field: SearchField;
+  /**
+   * The name of the attribute or of the style property. `null` for the label.
+   */
+  name: string | null;
+  /**
+   * The value containing the query when the search was done.
+   */
+  value: string;
+}
+
+/**
+ * A cell matching the query of a search, with all its matching values.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Search
+ */
+export interface SearchResult {
+  cell: Cell;
+  matches: SearchMatch[];
+}
+
+/**
+ * Returns the given string with the special characters of regular expressions escaped.
+ */
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Searches the labels, the XML user objects and the styles of the cells of the model, and navigates through the
+ * results.
+ *
+ * The results are in the order of the cells in the model. {@link next} and {@link previous} move the cursor to a
+ * result and reveal its cell: the cell is selected, highlighted with a {@link CellHighlight} and scrolled into view
+ * with {@link AbstractGraph.scrollCellToVisible}.
+ *
+ * ```javascript
+ * const search = new SearchManager(graph);
+ * search.search('task', { attributes: ['name'] });
+ * search.next(); // reveals the first result
+ * search.replaceAll('activity'); // undoable
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Search
+ */
+export class SearchManager {
+  constructor(graph: AbstractGraph) {
+    this.graph = graph;
+    this.highlight = new CellHighlight(
+      graph,
+      getHighlightColor(graph),
+      HIGHLIGHT_STROKEWIDTH
+    );
+    graph.addListener(InternalEvent.THEME_CHANGED, this.themeHandler);
+  }
+
+  graph: AbstractGraph;
+
+  private readonly themeHandler = () => {
+    this.highlight.setHighlightColor(getHighlightColor(this.graph));
+
+    // The states are re-created when the theme changes
+    const current = this.getCurrent();
+    current && this.highlight.highlight(this.graph.getView().getState(current.cell));
+  };
+
+  /**
+   * Highlights the cell of the current result.
+   */
+  highlight: CellHighlight;
+
+  /**
+   * Specifies if the cell of the current result is selected.
+   * @default true
+   */
+  selectResults = true;
+
+  /**
+   * Specifies if the cell of the current result is centered in the container when it is scrolled into view.
+   * @default false
+   */
+  centerResults = false;
+
+  private results: SearchResult[] = [];
+
+  private index = -1;
+
+  private pattern: RegExp | null = null;
+
+  private options: SearchOptions = {};
+
+  /**
+   * Searches the cells of the model for the given query, replaces the previous results and resets the cursor.
+   *
+   * @param query The text or the regular expression to search for.
+   * @param options The {@link SearchOptions}.
+   * @returns the {@link SearchResult}s.
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    this.clear();
+    this.options = options;
+
+    if (query.length === 0) {
+      return this.results;
+    }
+    let source = options.regex ? query : escapeRegExp(query);
+
+    if (options.wholeWord) {
+      source = `\\b(?:${source})\\b`;
+    }
+    this.pattern = new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+
+    const model = this.graph.getDataModel();
+    const root = model.getRoot();
+
+    for (const cell of root?.getDescendants() ?? []) {
+      if (cell === root || model.isLayer(cell) || options.filter?.(cell) === false) {
+        continue;
+      }
+      const matches = this.getValues(cell).filter((match) => this.test(match.value));
+
+      if (matches.length > 0) {
+        this.results.push({ cell, matches });
+      }
+    }
+    return this.results;
+  }
+
+  /**
+   * Returns the results of the last search.
+   */
+  getResults(): SearchResult[] {
+    return this.results;
+  }
+
+  /**
+   * Returns the index of the current result or -1 if there is no current result.
+   */
+  getIndex(): number {
+    return this.index;
+  }
+
+  /**
+   * Returns the current result or `null` if there is no current result.
+   */
+  getCurrent(): SearchResult | null {
+    return this.results[this.index] ?? null;
+  }
+
+  /**
+   * Moves the cursor to the next result, or to the first result after the last one, and reveals it.
+   */
+  next(): SearchResult | null {
+    return this.goTo(this.index + 1);
+  }
+
+  /**
+   * Moves the cursor to the previous result, or to the last result before the first one, and reveals it.
+   */
+  previous(): SearchResult | null {
+    return this.goTo(this.index < 0 ? -1 : this.index - 1);
+  }
+
+  /**
+   * Moves the cursor to the result with the given index and reveals it. The index wraps around the results.
+   */
+  goTo(index: number): SearchResult | null {
+    const count = this.results.length;
+
+    if (count === 0) {
+      return null;
+    }
+    this.index = ((index % count) + count) % count;
+    const result = this.results[this.index];
+    this.reveal(result);
+    return result;
+  }
+
+  /**
+   * Selects, highlights and scrolls to the cell of the given result.
+   */
+  reveal(result: SearchResult): void {
+    if (this.selectResults) {
+      this.graph.setSelectionCell(result.cell);
+    }
+    this.graph.scrollCellToVisible(result.cell, this.centerResults);
+    this.highlight.highlight(this.graph.getView().getState(result.cell));
+  }
+
+  /**
+   * Replaces the occurrences of the query of the last search in the matching values of the results, in a single
+   * undoable update. In regular expression mode, the replacement may refer to the groups of the query with `$1`, `$2`,
+   * etc.
+   *
+   * The current values of the cells are replaced: the cells removed from the model since the search are ignored, as well
+   * as the values which no longer match the query.
+   *
+   * The labels are only replaced in the cells whose value is a string: the labels of the XML user objects are changed
+   * through their attributes.
+   *
+   * @returns the changed cells.
+   */
+  replaceAll(replacement: string): Cell[] {
+    const changed: Cell[] = [];
+
+    this.graph.batchUpdate(() => {
+      for (const result of this.results) {
+        if (this.replace(result, replacement)) {
+          changed.push(result.cell);
+        }
+      }
+    });
+    this.clear();
+    return changed;
+  }
+
+  /**
+   * Removes the results and the highlight.
+   */
+  clear(): void {
+    this.results = [];
+    this.index = -1;
+    this.pattern = null;
+    this.highlight.hide();
+  }
+
+  destroy(): void {
+    this.clear();
+    this.graph.removeListener(this.themeHandler);
+    this.highlight.destroy();
+  }
+
+  /**
+   * Returns the searchable values of the given cell according to the options of the search.
+   */
+  private getValues(cell: Cell): SearchMatch[] {
+    const { labels = true, attributes = true, styles = false } = this.options;
+    const values: SearchMatch[] = [];
+
+    if (labels) {
+      const label = this.graph.getLabel(cell);
+
+      if (label) {
+        values.push({ field: 'label', name: null, value: label });
+      }
+    }
+    const value = cell.getValue();
+
+    if (attributes && isNode(value)) {
+      for (const attribute of Array.from(value.attributes)) {
+        if (attributes === true || attributes.includes(attribute.name)) {
+          values.push({
+            field: 'attribute',
+            name: attribute.name,
+            value: attribute.value,
+          });
+        }
+      }
+    }
+
+    if (styles) {
+      for (const [name, property] of Object.entries(cell.getStyle())) {
+        if (
+          typeof property === 'string' &&
+          (styles === true || styles.includes(<keyof CellStyle>name))
+        ) {
+          values.push({ field: 'style', name, value: property });
+        }
+      }
+    }
+    return values;
+  }
+
+  private test(value: string): boolean {
+    const pattern = <RegExp>this.pattern;
+    pattern.lastIndex = 0;
+    return pattern.test(value);
+  }
+
+  /**
+   * Returns the current value of the given match, which may have changed since the search, or `null` if the cell has
+   * no such value anymore.
+   */
+  private getCurrentValue(cell: Cell, match: SearchMatch): string | null {
+    const value = cell.getValue();
+
+    if (match.field === 'label') {
+      return typeof value === 'string' ? this.graph.getLabel(cell) : null;
+    }
+    if (match.field === 'attribute') {
+      return isNode(value) ? (<Element>value).getAttribute(<string>match.name) : null;
+    }
+    const property = (<Record<string, unknown>>cell.getStyle())[<string>match.name];
+    return typeof property === 'string' ? property : null;
+  }
+
+  /**
+   * Replaces the query in the matching values of the given result. The values are read again, so that the cells
+   * removed from the model and the values which no longer match the query are ignored. Returns `true` if the cell has
+   * been changed.
+   */
+  private replace(result: SearchResult, replacement: string): boolean {
+    const model = this.graph.getDataModel();
+    const { cell, matches } = result;
+
+    if (!model.contains(cell)) {
+      return false;
+    }
+    const pattern = <RegExp>this.pattern;
+    const value = cell.getValue();
+    let node: Element | null = null;
+    let style: CellStyle | null = null;
+    let changed = false;
+
+    for (const match of matches) {
+      const current = this.getCurrentValue(cell, match);
+
+      if (current == null || !this.test(current)) {
+        continue;
+      }
+      const replaced = current.replace(pattern, replacement);
+
+      if (replaced === current) {
+        continue;
+      }
+      if (match.field === 'label') {
+        this.graph.cellLabelChanged(cell, replaced, this.graph.isAutoSizeCell(cell));
+        changed = true;
+      } else if (match.field === 'attribute') {
+        node ??= <Element>value.cloneNode(true);
+        node.setAttribute(<string>match.name, replaced);
+      } else {
+        style ??= cell.getClonedStyle();
+        (<Record<string, unknown>>style)[<string>match.name] = replaced;
+      }
+    }
+
+    if (node) {
+      model.setValue(cell, node);
+    }
+    if (style) {
+      model.setStyle(cell, style);
+    }
+    return changed || node != null || style != null;
+  }
+}
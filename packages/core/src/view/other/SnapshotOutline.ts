@@ -0,0 +1,365 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import Outline from './Outline.js';
+import { BaseGraph } from '../BaseGraph.js';
+import InternalEvent from '../event/InternalEvent.js';
+import type EventObject from '../event/EventObject.js';
+import type EventSource from '../event/EventSource.js';
+import Point from '../geometry/Point.js';
+import { ChildChange } from '../undoable-change/ChildChange.js';
+import { RootChange } from '../undoable-change/RootChange.js';
+import type { AbstractGraph } from '../AbstractGraph.js';
+import Cell from '../cell/Cell.js';
+import type CellState from '../cell/CellState.js';
+import { NONE } from '../../util/Constants.js';
+import type { UndoableChange } from '../../types.js';
+
+/**
+ * Simplified rendering of a {@link CellState} in a {@link SnapshotOutline}. The coordinates are unscaled and untranslated.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Navigation
+ */
+export interface OutlineSnapshotEntry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fillColor: string | null;
+  strokeColor: string | null;
+  /** The points of the edges, `null` for vertices. */
+  points: Point[] | null;
+}
+
+/**
+ * An {@link Outline} that draws a simplified and cached rendering of the source graph in a `canvas` element instead of
+ * displaying the cells in a second {@link AbstractGraph} sharing the model of the source graph.
+ *
+ * The vertices are painted as rectangles filled with their fill color and the edges as polylines, so the
+ * {@link CellState}s of the source graph are not duplicated. This reduces the memory consumption and the time needed to
+ * update the outline of large diagrams.
+ *
+ * The snapshot is updated incrementally: after a change of the model, only the entries of the changed cells, their
+ * descendants and their connected edges are read again from the view of the source graph, as well as the entries of the
+ * edges whose points have been computed again by the view, for instance the edges routed around the changed cells. The
+ * viewport and the sizer work the same way as in {@link Outline}.
+ *
+ * ```javascript
+ * const outline = new SnapshotOutline(graph, div);
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Navigation
+ */
+export class SnapshotOutline extends Outline {
+  constructor(source: AbstractGraph, container?: HTMLElement | null) {
+    super(source);
+
+    if (container) {
+      this.init(container);
+    }
+  }
+
+  /**
+   * The `canvas` element in which the snapshot is painted.
+   */
+  canvas: HTMLCanvasElement | null = null;
+
+  /**
+   * The simplified rendering of the {@link CellState}s of the source graph, in painting order.
+   */
+  snapshot = new Map<Cell, OutlineSnapshotEntry>();
+
+  /**
+   * The color used to fill the vertices that have no fill color.
+   * @default '#f2f2f2'
+   */
+  defaultFillColor = '#f2f2f2';
+
+  /**
+   * The color used to paint the edges and the borders of the vertices that have no stroke color.
+   * @default '#999999'
+   */
+  defaultStrokeColor = '#999999';
+
+  /**
+   * `true` if the snapshot must be rebuilt from all the states of the source view at the next {@link update}.
+   */
+  private invalid = true;
+
+  /**
+   * The key of the last painting, used to skip the painting when neither the snapshot nor the viewport changed.
+   */
+  private paintedKey: string | null = null;
+
+  /**
+   * The points of the edge states read by {@link updateEntry}. The view replaces the points of a state when it is
+   * validated, so the edges whose points differ have been rerouted since their entry was updated.
+   */
+  private edgePoints = new Map<Cell, (Point | null)[]>();
+
+  private changeHandler: ((sender: EventSource, evt: EventObject) => void) | null = null;
+
+  private invalidateHandler: (() => void) | null = null;
+
+  /**
+   * Initializes the outline inside the given container and adds the `canvas` element.
+   */
+  override init(container: HTMLElement): void {
+    const canvas = document.createElement('canvas');
+    canvas.style.position = 'absolute';
+    canvas.style.left = '0px';
+    canvas.style.top = '0px';
+    canvas.style.pointerEvents = 'none';
+    container.insertBefore(canvas, container.firstChild);
+    this.canvas = canvas;
+
+    // Registered before the listeners of the outline so that the snapshot is up-to-date when the outline is updated
+    this.changeHandler = (_sender: EventSource, evt: EventObject) => {
+      this.snapshotChanged(evt.getProperty('edit').changes);
+    };
+    this.source.getDataModel().addListener(InternalEvent.CHANGE, this.changeHandler);
+
+    this.invalidateHandler = () => {
+      this.invalid = true;
+    };
+    this.source.getView().addListener(InternalEvent.DOWN, this.invalidateHandler);
+    this.source.getView().addListener(InternalEvent.UP, this.invalidateHandler);
+
+    super.init(container);
+
+    // The snapshot is updated after the refresh of the source graph
+    this.source.removeListener(this.refreshHandler!);
+    this.refreshHandler = () => {
+      this.invalid = true;
+      this.update();
+    };
+    this.source.addListener(InternalEvent.REFRESH, this.refreshHandler);
+  }
+
+  /**
+   * Creates an {@link AbstractGraph} with an empty model and without plugins. It only displays the viewport and the
+   * sizer, the cells being painted in {@link canvas}.
+   */
+  override createGraph(container: HTMLElement): AbstractGraph {
+    const graph = new BaseGraph({ container, plugins: [] });
+    graph.options.foldingEnabled = false;
+    graph.autoScroll = false;
+    return graph;
+  }
+
+  /**
+   * Does nothing, as the snapshot only contains the states displayed by the source view.
+   */
+  override updateCurrentRoot(): void {
+    // nop
+  }
+
+  /**
+   * Updates the outline and repaints the snapshot. If `revalidate` is `true`, the snapshot is rebuilt from all the states
+   * of the source view.
+   */
+  override update(revalidate = false): void {
+    if (revalidate) {
+      this.invalid = true;
+    }
+    super.update(revalidate);
+
+    if (this.outline != null && !this.suspended) {
+      if (this.invalid) {
+        this.rebuildSnapshot();
+      }
+      this.paintSnapshot();
+    }
+  }
+
+  /**
+   * Updates the entries of the cells affected by the given changes and of the edges rerouted by the view.
+   */
+  snapshotChanged(changes: UndoableChange[]): void {
+    if (this.invalid || this.suspended) {
+      this.invalid = true;
+      return;
+    }
+    const cells = new Set<Cell>();
+
+    for (const change of changes) {
+      if (change instanceof RootChange) {
+        this.invalid = true;
+        return;
+      }
+      const cell =
+        change instanceof ChildChange ? change.child : (<{ cell?: unknown }>change).cell;
+
+      if (cell instanceof Cell) {
+        for (const descendant of cell.getDescendants()) {
+          cells.add(descendant);
+
+          for (let i = 0; i < descendant.getEdgeCount(); i++) {
+            cells.add(descendant.getEdgeAt(i));
+          }
+        }
+      }
+    }
+
+    // The edges revalidated because of the changes of other cells, for instance by an edge style avoiding the obstacles
+    for (const [cell, state] of this.source.getView().getStates()) {
+      if (cell.isEdge() && this.edgePoints.get(cell) !== state.absolutePoints) {
+        cells.add(cell);
+      }
+    }
+
+    for (const cell of cells) {
+      this.updateEntry(cell);
+    }
+    this.paintedKey = null;
+  }
+
+  /**
+   * Rebuilds the snapshot from all the states of the source view.
+   */
+  rebuildSnapshot(): void {
+    this.snapshot.clear();
+    this.edgePoints.clear();
+
+    for (const cell of this.source.getView().getStates().keys()) {
+      this.updateEntry(cell);
+    }
+    this.invalid = false;
+    this.paintedKey = null;
+  }
+
+  /**
+   * Updates the entry of the given cell from its state in the source view. The entry is removed if the cell has no
+   * state.
+   */
+  updateEntry(cell: Cell): void {
+    const state = this.source.getView().getState(cell);
+    const entry = state ? this.createEntry(state) : null;
+
+    if (entry) {
+      this.snapshot.set(cell, entry);
+    } else {
+      this.snapshot.delete(cell);
+    }
+
+    if (state && cell.isEdge()) {
+      this.edgePoints.set(cell, state.absolutePoints);
+    } else {
+      this.edgePoints.delete(cell);
+    }
+  }
+
+  /**
+   * Creates the entry for the given state. Returns `null` if the state must not be painted.
+   */
+  createEntry(state: CellState): OutlineSnapshotEntry | null {
+    const { cell, style } = state;
+
+    if (!cell.isVertex() && !cell.isEdge()) {
+      return null;
+    }
+    const view = this.source.getView();
+    const { scale, translate: t } = view;
+    const fillColor =
+      style.fillColor && style.fillColor !== NONE ? style.fillColor : null;
+    const strokeColor =
+      style.strokeColor && style.strokeColor !== NONE ? style.strokeColor : null;
+
+    return {
+      x: state.x / scale - t.x,
+      y: state.y / scale - t.y,
+      width: state.width / scale,
+      height: state.height / scale,
+      fillColor: cell.isVertex() ? fillColor : null,
+      strokeColor,
+      points: cell.isEdge()
+        ? state.absolutePoints
+            .filter((point): point is Point => point != null)
+            .map((point) => new Point(point.x / scale - t.x, point.y / scale - t.y))
+        : null,
+    };
+  }
+
+  /**
+   * Paints the snapshot in {@link canvas} using the scale and the translate of the outline view. The painting is
+   * skipped if neither the snapshot nor the viewport changed since the last painting.
+   */
+  paintSnapshot(): void {
+    const container = this.outline?.container;
+    const ctx = this.canvas?.getContext('2d');
+
+    if (!container || !this.canvas || !ctx) {
+      return;
+    }
+    const { scale, translate: t } = this.outline!.getView();
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    const key = `${scale},${t.x},${t.y},${width},${height}`;
+
+    if (key === this.paintedKey) {
+      return;
+    }
+    this.paintedKey = key;
+
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    ctx.clearRect(0, 0, width, height);
+    ctx.lineWidth = 1;
+
+    for (const entry of this.snapshot.values()) {
+      ctx.strokeStyle = entry.strokeColor ?? this.defaultStrokeColor;
+
+      if (entry.points) {
+        ctx.beginPath();
+        entry.points.forEach((point, i) => {
+          const x = (point.x + t.x) * scale;
+          const y = (point.y + t.y) * scale;
+          i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+      } else {
+        const x = (entry.x + t.x) * scale;
+        const y = (entry.y + t.y) * scale;
+        ctx.fillStyle = entry.fillColor ?? this.defaultFillColor;
+        ctx.fillRect(x, y, entry.width * scale, entry.height * scale);
+        ctx.strokeRect(x, y, entry.width * scale, entry.height * scale);
+      }
+    }
+  }
+
+  /**
+   * Destroys this outline and removes the `canvas` element and all listeners.
+   */
+  override destroy(): void {
+    if (this.source != null) {
+      this.source.getDataModel().removeListener(this.changeHandler!);
+      this.source.getView().removeListener(this.invalidateHandler!);
+    }
+    this.canvas?.remove();
+    this.canvas = null;
+    this.snapshot.clear();
+    this.edgePoints.clear();
+    super.destroy();
+  }
+}
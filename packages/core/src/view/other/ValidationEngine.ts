@@ -0,0 +1,296 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import EventSource from '../event/EventSource.js';
+import EventObject from '../event/EventObject.js';
+import InternalEvent from '../event/InternalEvent.js';
+import Cell from '../cell/Cell.js';
+import RootChange from '../undoable-change/RootChange.js';
+import { MultiplicityRule } from './ValidationRules.js';
+import type { AbstractGraph } from '../AbstractGraph.js';
+import type {
+  ValidationResult,
+  ValidationRule,
+  ValidationSeverity,
+} from './ValidationRules.js';
+import type { UndoableChange } from '../../types.js';
+
+/**
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export interface ValidationEngineOptions {
+  /**
+   * The rules to check. Default is a {@link MultiplicityRule}.
+   */
+  rules?: ValidationRule[];
+  /**
+   * Specifies if the cells are re-validated when the model changes, see {@link ValidationEngine.setIncremental}.
+   * @default false
+   */
+  incremental?: boolean;
+  /**
+   * Specifies if the issues are displayed as warnings on the cells with {@link AbstractGraph.setCellWarning}.
+   * @default false
+   */
+  showWarnings?: boolean;
+}
+
+/**
+ * Validates the cells of a graph with pluggable {@link ValidationRule}s and keeps the {@link ValidationResult}s.
+ *
+ * {@link validate} validates all the cells. In incremental mode, only the cells touched by a change of the model are
+ * re-validated, together with the cells whose validity depends on them: their parent, children, edges and terminals,
+ * and the cells returned by {@link ValidationRule.getDependentCells}.
+ *
+ * ```javascript
+ * const engine = new ValidationEngine(graph, {
+ *   rules: [
+ *     new MultiplicityRule(),
+ *     new RequiredLabelRule({ severity: 'warning' }),
+ *     new AcyclicRule(),
+ *     new ContainmentRule({ allowedChildren: { pool: ['lane'] } }),
+ *   ],
+ *   incremental: true,
+ * });
+ * engine.addListener(InternalEvent.VALIDATE, () => showIssues(engine.getResults()));
+ * engine.validate();
+ * ```
+ *
+ * ### Events
+ *
+ * #### InternalEvent.VALIDATE
+ *
+ * Fires after cells have been validated. The `cells` property contains the validated {@link Cell}s and the `results`
+ * property contains all the {@link ValidationResult}s.
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export class ValidationEngine extends EventSource {
+  constructor(graph: AbstractGraph, options: ValidationEngineOptions = {}) {
+    super();
+
+    this.graph = graph;
+    this.rules = options.rules ?? [new MultiplicityRule()];
+    this.showWarnings = options.showWarnings ?? false;
+
+    this.changeHandler = (_sender: EventSource, evt: EventObject) => {
+      this.handleChanges(evt.getProperty('changes'));
+    };
+    this.setIncremental(options.incremental ?? false);
+  }
+
+  graph: AbstractGraph;
+
+  rules: ValidationRule[];
+
+  /**
+   * Specifies if the issues are displayed as warnings on the cells.
+   */
+  showWarnings: boolean;
+
+  private incremental = false;
+
+  private results = new Map<Cell, ValidationResult[]>();
+
+  private changeHandler: (sender: EventSource, evt: EventObject) => void;
+
+  /**
+   * Returns `true` if the cells are re-validated when the model changes.
+   */
+  isIncremental(): boolean {
+    return this.incremental;
+  }
+
+  /**
+   * Specifies if the cells touched by a change of the model are re-validated when the change is complete.
+   */
+  setIncremental(value: boolean): void {
+    if (value !== this.incremental) {
+      const model = this.graph.getDataModel();
+      this.incremental = value;
+
+      if (value) {
+        model.addListener(InternalEvent.CHANGE, this.changeHandler);
+      } else {
+        model.removeListener(this.changeHandler);
+      }
+    }
+  }
+
+  /**
+   * Validates all the cells of the model.
+   *
+   * @returns all the {@link ValidationResult}s.
+   */
+  validate(): ValidationResult[] {
+    const previous = [...this.results.keys()];
+    this.results.clear();
+
+    const root = this.graph.getDataModel().getRoot();
+    const cells = root?.getDescendants().filter((cell) => cell !== root) ?? [];
+    this.update(cells, previous);
+    return this.getResults();
+  }
+
+  /**
+   * Re-validates the given cells and the cells whose validity depends on them. The results of the cells that are no
+   * longer in the model are removed.
+   *
+   * @returns all the {@link ValidationResult}s.
+   */
+  validateCells(cells: Cell[]): ValidationResult[] {
+    const model = this.graph.getDataModel();
+    const removed = [...this.results.keys()].filter((cell) => !model.contains(cell));
+
+    for (const cell of removed) {
+      this.results.delete(cell);
+    }
+    const root = model.getRoot();
+    const dependents = this.getDependentCells(cells).filter(
+      (cell) => cell !== root && model.contains(cell)
+    );
+    this.update(dependents, removed);
+    return this.getResults();
+  }
+
+  /**
+   * Returns the results of the last validation.
+   *
+   * @param cell Optional {@link Cell} to return only its results.
+   * @param severity Optional severity to return only the results with this severity.
+   */
+  getResults(cell?: Cell, severity?: ValidationSeverity): ValidationResult[] {
+    const results = cell
+      ? (this.results.get(cell) ?? [])
+      : [...this.results.values()].flat();
+    return severity ? results.filter((result) => result.severity === severity) : results;
+  }
+
+  /**
+   * Returns `true` if the last validation found an issue with the `error` severity.
+   */
+  hasErrors(): boolean {
+    return this.getResults(undefined, 'error').length > 0;
+  }
+
+  /**
+   * Stops the incremental validation and removes the warnings.
+   */
+  override destroy(): void {
+    this.setIncremental(false);
+
+    if (this.showWarnings) {
+      for (const cell of this.results.keys()) {
+        this.graph.setCellWarning(cell, null);
+      }
+    }
+    this.results.clear();
+    super.destroy();
+  }
+
+  /**
+   * Validates the given cells, updates the warnings of the given cells and of the given previous cells, and fires
+   * {@link InternalEvent.VALIDATE}.
+   */
+  private update(cells: Cell[], previous: Cell[]) {
+    const results = this.graph.getValidationResults(this.rules, cells);
+
+    for (const cell of cells) {
+      this.results.set(cell, []);
+    }
+    for (const result of results) {
+      this.results.get(result.cell)!.push(result);
+    }
+    for (const cell of cells) {
+      if (this.results.get(cell)!.length === 0) {
+        this.results.delete(cell);
+      }
+    }
+
+    if (this.showWarnings) {
+      for (const cell of new Set([...previous, ...cells])) {
+        const messages = this.getResults(cell).map((result) => result.message);
+        this.graph.setCellWarning(
+          cell,
+          messages.length > 0 ? messages.join('<br>') : null
+        );
+      }
+    }
+    this.fireEvent(
+      new EventObject(InternalEvent.VALIDATE, { cells, results: this.getResults() })
+    );
+  }
+
+  private handleChanges(changes: UndoableChange[]) {
+    if (changes.some((change) => change instanceof RootChange)) {
+      this.validate();
+      return;
+    }
+    const cells = new Set<Cell>();
+
+    for (const change of changes) {
+      for (const key of ['cell', 'child', 'parent', 'previous', 'terminal']) {
+        const value = (<Record<string, unknown>>(<unknown>change))[key];
+
+        if (value instanceof Cell) {
+          cells.add(value);
+        }
+      }
+      // The descendants of the cells added to the model are also new
+      const child = (<{ child?: unknown }>change).child;
+
+      if (child instanceof Cell) {
+        for (const descendant of child.getDescendants()) {
+          cells.add(descendant);
+        }
+      }
+    }
+    this.validateCells([...cells]);
+  }
+
+  /**
+   * Returns the given cells and the cells whose validity depends on them.
+   */
+  private getDependentCells(cells: Cell[]): Cell[] {
+    const result = new Set<Cell>();
+
+    for (const cell of cells) {
+      const parent = cell.getParent();
+      const dependents = [
+        cell,
+        ...(parent ? [parent] : []),
+        ...cell.getChildren(),
+        ...cell.getEdges(),
+        cell.getTerminal(true),
+        cell.getTerminal(false),
+        ...this.rules.flatMap((rule) => rule.getDependentCells?.(cell, this.graph) ?? []),
+      ];
+
+      for (const dependent of dependents) {
+        if (dependent) {
+          result.add(dependent);
+        }
+      }
+    }
+    return [...result];
+  }
+}
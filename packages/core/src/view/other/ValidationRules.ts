@@ -0,0 +1,498 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { isNode } from '../../util/domUtils.js';
+import { translate } from '../../internal/i18n-utils.js';
+import { isNullish } from '../../internal/utils.js';
+import type Cell from '../cell/Cell.js';
+import type { AbstractGraph } from '../AbstractGraph.js';
+import type Multiplicity from './Multiplicity.js';
+
+/**
+ * The severity of a {@link ValidationResult}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * An issue returned by {@link ValidationRule.validate}. If the severity is not set, the severity of the rule is used.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export interface ValidationIssue {
+  message: string;
+  severity?: ValidationSeverity;
+}
+
+/**
+ * An issue found by a {@link ValidationRule} on a cell.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export interface ValidationResult {
+  cell: Cell;
+  /**
+   * The {@link ValidationRule.id} of the rule that found the issue.
+   */
+  rule: string;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+/**
+ * A rule checked by {@link AbstractGraph.getValidationResults} and the {@link ValidationEngine}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export interface ValidationRule {
+  /**
+   * Identifies the rule in the {@link ValidationResult}s.
+   */
+  id: string;
+
+  /**
+   * The severity of the issues found by the rule.
+   */
+  severity: ValidationSeverity;
+
+  /**
+   * Returns the issues of the given cell, as messages or {@link ValidationIssue}s, or `null` if the cell is valid.
+   */
+  validate(
+    cell: Cell,
+    graph: AbstractGraph
+  ): string | ValidationIssue | (string | ValidationIssue)[] | null;
+
+  /**
+   * Returns the cells whose validity depends on the given cell, in addition to its parent, children, edges and
+   * terminals. It is used by the incremental mode of the {@link ValidationEngine} to re-validate them when the given cell
+   * changes.
+   */
+  getDependentCells?(cell: Cell, graph: AbstractGraph): Cell[];
+}
+
+/**
+ * Options of the built-in {@link ValidationRule}s.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export interface ValidationRuleOptions {
+  /**
+   * The ID of the rule. The default value depends on the rule.
+   */
+  id?: string;
+  /**
+   * @default 'error'
+   */
+  severity?: ValidationSeverity;
+  /**
+   * Returns `true` if the rule applies to the given cell. The default value depends on the rule.
+   */
+  filter?: (cell: Cell) => boolean;
+  /**
+   * The message of the issues. It is translated with {@link GlobalConfig.i18n}. The default value depends on the rule.
+   */
+  message?: string;
+}
+
+const isVertex = (cell: Cell) => cell.isVertex();
+
+/**
+ * Returns the value of the given property of the cell: the attribute of an XML value or the property of an object value.
+ */
+const getCellProperty = (cell: Cell, property: string): unknown => {
+  const value = cell.getValue();
+
+  if (isNode(value)) {
+    return value.getAttribute(property);
+  }
+  return value !== null && typeof value === 'object' ? value[property] : null;
+};
+
+/**
+ * Base class of the built-in {@link ValidationRule}s: the rule only applies to the cells accepted by {@link filter}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export abstract class BaseValidationRule implements ValidationRule {
+  constructor(
+    options: ValidationRuleOptions,
+    defaults: { id: string; message: string; filter: (cell: Cell) => boolean }
+  ) {
+    this.id = options.id ?? defaults.id;
+    this.severity = options.severity ?? 'error';
+    this.filter = options.filter ?? defaults.filter;
+    const message = options.message ?? defaults.message;
+    this.message = translate(message) || message;
+  }
+
+  id: string;
+
+  severity: ValidationSeverity;
+
+  filter: (cell: Cell) => boolean;
+
+  /**
+   * The translated message of the issues.
+   */
+  message: string;
+
+  validate(cell: Cell, graph: AbstractGraph) {
+    return this.filter(cell) ? this.check(cell, graph) : null;
+  }
+
+  /**
+   * Returns the issues of a cell accepted by {@link filter}.
+   */
+  protected abstract check(
+    cell: Cell,
+    graph: AbstractGraph
+  ): string | ValidationIssue | (string | ValidationIssue)[] | null;
+}
+
+/**
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export interface PropertyRuleOptions extends ValidationRuleOptions {
+  /**
+   * The name of the property: the attribute of an XML value or the property of an object value.
+   */
+  property: string;
+  /**
+   * Returns `true` if the value of the property is valid. The value is `null` or `undefined` if the property is not set.
+   */
+  test: (value: any, cell: Cell) => boolean;
+}
+
+/**
+ * Checks a property of the value of the vertices: the attribute of an XML value or the property of an object value.
+ *
+ * ```javascript
+ * new PropertyRule({
+ *   property: 'capacity',
+ *   test: (value) => Number(value) > 0,
+ *   message: 'The capacity must be positive',
+ * });
+ * ```
+ *
+ * The default ID is `property:<property>` and the rule applies to the vertices by default.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export class PropertyRule extends BaseValidationRule {
+  constructor(options: PropertyRuleOptions) {
+    super(options, {
+      id: `property:${options.property}`,
+      message: `Invalid ${options.property}`,
+      filter: isVertex,
+    });
+    this.property = options.property;
+    this.test = options.test;
+  }
+
+  property: string;
+
+  test: (value: any, cell: Cell) => boolean;
+
+  protected check(cell: Cell) {
+    return this.test(getCellProperty(cell, this.property), cell) ? null : this.message;
+  }
+}
+
+/**
+ * Checks that the label of the vertices, as returned by {@link AbstractGraph.convertValueToString}, is not blank.
+ *
+ * The default ID is `requiredLabel` and the rule applies to the vertices by default.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export class RequiredLabelRule extends BaseValidationRule {
+  constructor(options: ValidationRuleOptions = {}) {
+    super(options, {
+      id: 'requiredLabel',
+      message: 'Label is required',
+      filter: isVertex,
+    });
+  }
+
+  protected check(cell: Cell, graph: AbstractGraph) {
+    const label = graph.convertValueToString(cell);
+    return isNullish(label) || String(label).trim().length === 0 ? this.message : null;
+  }
+}
+
+/**
+ * Forbids the directed cycles: an edge is invalid if its source can be reached from its target by following the edges
+ * accepted by the filter.
+ *
+ * The default ID is `acyclic` and the rule applies to all the edges by default.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export class AcyclicRule extends BaseValidationRule {
+  constructor(options: ValidationRuleOptions = {}) {
+    super(options, {
+      id: 'acyclic',
+      message: 'Cycles are not allowed',
+      filter: (cell) => cell.isEdge(),
+    });
+  }
+
+  protected check(edge: Cell) {
+    const source = edge.getTerminal(true);
+    const target = edge.getTerminal(false);
+
+    if (!source || !target) {
+      return null;
+    }
+    const visited = new Set<Cell>([target]);
+    const stack = [target];
+
+    while (stack.length > 0) {
+      const vertex = stack.pop()!;
+
+      if (vertex === source) {
+        return this.message;
+      }
+      for (const next of vertex.getEdges(false, true)) {
+        const terminal = next.getTerminal(false);
+
+        if (
+          terminal &&
+          next.getTerminal(true) === vertex &&
+          this.filter(next) &&
+          !visited.has(terminal)
+        ) {
+          visited.add(terminal);
+          stack.push(terminal);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns the edges connected to the terminals of the given edge or to the given vertex, directly or not, as adding
+   * or removing an edge can create or break a cycle that goes through them.
+   */
+  getDependentCells(cell: Cell): Cell[] {
+    const start = cell.isEdge()
+      ? [cell.getTerminal(true), cell.getTerminal(false)].filter(
+          (terminal): terminal is Cell => terminal != null
+        )
+      : [cell];
+    const vertices = new Set<Cell>(start);
+    const edges = new Set<Cell>();
+    const stack = [...start];
+
+    while (stack.length > 0) {
+      for (const edge of stack.pop()!.getEdges()) {
+        if (this.filter(edge) && !edges.has(edge)) {
+          edges.add(edge);
+
+          for (const terminal of [edge.getTerminal(true), edge.getTerminal(false)]) {
+            if (terminal && !vertices.has(terminal)) {
+              vertices.add(terminal);
+              stack.push(terminal);
+            }
+          }
+        }
+      }
+    }
+    return [...edges];
+  }
+}
+
+/**
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export interface ContainmentRuleOptions extends ValidationRuleOptions {
+  /**
+   * Maps the type of a parent to the types of the children allowed in this parent. The children of the parents whose
+   * type is not a key of the map are not checked.
+   */
+  allowedChildren: Record<string, string[]>;
+  /**
+   * Returns the type of the given cell. The default implementation returns the lowercase name of an XML value or the
+   * first {@link CellStyle.baseStyleNames} otherwise.
+   */
+  getType?: (cell: Cell) => string | null;
+}
+
+/**
+ * Defines which types of cells may be children of which types of cells.
+ *
+ * ```javascript
+ * new ContainmentRule({ allowedChildren: { pool: ['lane'], lane: ['task', 'event'] } });
+ * ```
+ *
+ * The default ID is `containment` and the rule applies to the vertices by default.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export class ContainmentRule extends BaseValidationRule {
+  constructor(options: ContainmentRuleOptions) {
+    super(options, {
+      id: 'containment',
+      message: 'This cell is not allowed in its parent',
+      filter: isVertex,
+    });
+    this.allowedChildren = options.allowedChildren;
+
+    if (options.getType) {
+      this.getType = options.getType;
+    }
+  }
+
+  allowedChildren: Record<string, string[]>;
+
+  getType(cell: Cell): string | null {
+    const value = cell.getValue();
+    return isNode(value)
+      ? value.nodeName.toLowerCase()
+      : (cell.getStyle().baseStyleNames?.[0] ?? null);
+  }
+
+  protected check(cell: Cell) {
+    const parent = cell.getParent();
+    const parentType = parent ? this.getType(parent) : null;
+
+    if (
+      parentType === null ||
+      !Object.prototype.hasOwnProperty.call(this.allowedChildren, parentType)
+    ) {
+      return null;
+    }
+    const type = this.getType(cell);
+    return type !== null && this.allowedChildren[parentType].includes(type)
+      ? null
+      : this.message;
+  }
+}
+
+/**
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export interface MultiplicityRuleOptions {
+  /**
+   * @default 'multiplicity'
+   */
+  id?: string;
+  /**
+   * The multiplicities to check. Default is {@link AbstractGraph.multiplicities}.
+   */
+  multiplicities?: Multiplicity[];
+}
+
+/**
+ * Checks the {@link Multiplicity} rules like {@link AbstractGraph.validateGraph}: the connections of the edges with
+ * {@link Multiplicity.check} and the number of edges of the vertices with {@link Multiplicity.min} and
+ * {@link Multiplicity.max}. The severity of the issues is the {@link Multiplicity.severity}.
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Validation
+ */
+export class MultiplicityRule implements ValidationRule {
+  constructor(options: MultiplicityRuleOptions = {}) {
+    this.id = options.id ?? 'multiplicity';
+    this.multiplicities = options.multiplicities ?? null;
+  }
+
+  id: string;
+
+  /**
+   * Not used, the severity of the issues is the {@link Multiplicity.severity}.
+   */
+  severity: ValidationSeverity = 'error';
+
+  /**
+   * The multiplicities to check or `null` to check {@link AbstractGraph.multiplicities}.
+   */
+  multiplicities: Multiplicity[] | null;
+
+  validate(cell: Cell, graph: AbstractGraph): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const source = cell.getTerminal(true);
+    const target = cell.getTerminal(false);
+    const outCount = cell.getDirectedEdgeCount(true);
+    const inCount = cell.getDirectedEdgeCount(false);
+
+    for (const multiplicity of this.multiplicities ?? graph.multiplicities) {
+      const { severity } = multiplicity;
+
+      if (cell.isEdge()) {
+        if (source && target) {
+          const error = multiplicity.check(
+            graph,
+            cell,
+            source,
+            target,
+            source.getDirectedEdgeCount(true, cell),
+            target.getDirectedEdgeCount(false, cell)
+          );
+          const messages = error?.split('\n').filter((message) => message.length > 0);
+          issues.push(...(messages ?? []).map((message) => ({ message, severity })));
+        }
+      } else if (
+        isNode(cell.getValue(), multiplicity.type, multiplicity.attr, multiplicity.value)
+      ) {
+        const count = multiplicity.source ? outCount : inCount;
+
+        if (count > multiplicity.max || count < multiplicity.min) {
+          issues.push({ message: multiplicity.countError, severity });
+        }
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Returns the edges of the terminals of the given edge, as their number of connections is checked.
+   */
+  getDependentCells(cell: Cell): Cell[] {
+    return [cell.getTerminal(true), cell.getTerminal(false)].flatMap(
+      (terminal) => terminal?.getEdges() ?? []
+    );
+  }
+}
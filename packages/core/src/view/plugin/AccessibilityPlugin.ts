@@ -0,0 +1,542 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import CellHighlight from '../cell/CellHighlight.js';
+import InternalEvent from '../event/InternalEvent.js';
+import { HIGHLIGHT_STROKEWIDTH } from '../../util/Constants.js';
+import { getHighlightColor } from '../../internal/theme-utils.js';
+import { translate } from '../../internal/i18n-utils.js';
+import type Cell from '../cell/Cell.js';
+import type { AbstractGraph } from '../AbstractGraph.js';
+import type { GraphPlugin } from '../../types.js';
+
+let instanceCount = 0;
+
+/**
+ * A plugin making the graph accessible to the screen readers and navigable with the keyboard.
+ *
+ * The plugin maintains a visually hidden ARIA tree in the container of the graph: the vertices are the items of the tree,
+ * nested in their parent vertex, and the edges are items named after their source and target terminals. The tree is
+ * updated when the model changes, and the tree items reflect the selection.
+ *
+ * When the tree has the focus, the focused cell is highlighted and the following keys are handled:
+ * - ArrowDown and ArrowUp: move the focus to the next or previous cell of the tree. When the focus has been moved to an
+ *   edge from a vertex, they move it to the next or previous edge of this vertex.
+ * - ArrowRight: on a vertex, moves the focus to its first outgoing edge. On an edge, moves it to the target terminal.
+ * - ArrowLeft: on a vertex, moves the focus to its first incoming edge. On an edge, moves it to the source terminal.
+ * - Home and End: move the focus to the first or last cell.
+ * - Enter and Space: select the focused cell. With Ctrl or Meta, Space toggles its selection.
+ * - Escape: clears the selection.
+ *
+ * The selection changes are announced through an ARIA live region.
+ *
+ * The accessible name of the cells is their label as plain text. Override {@link getAccessibleName} to provide custom
+ * names:
+ *
+ * ```javascript
+ * class CustomAccessibilityPlugin extends AccessibilityPlugin {
+ *   getAccessibleName(cell) {
+ *     return cell.getValue()?.getAttribute?.('description') ?? super.getAccessibleName(cell);
+ *   }
+ * }
+ *
+ * const graph = new Graph(container, undefined, [...getDefaultPlugins(), CustomAccessibilityPlugin]);
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Plugin
+ */
+export class AccessibilityPlugin implements GraphPlugin {
+  static readonly pluginId = 'accessibility';
+
+  /**
+   * Constructs the plugin and adds the ARIA tree and the live region to the container of the graph.
+   *
+   * @param graph Reference to the enclosing {@link AbstractGraph}.
+   */
+  constructor(graph: AbstractGraph) {
+    this.graph = graph;
+    this.idPrefix = `mxAccessibility${instanceCount++}`;
+    this.highlight = new CellHighlight(
+      graph,
+      getHighlightColor(graph),
+      HIGHLIGHT_STROKEWIDTH
+    );
+
+    this.tree = this.createTree();
+    this.liveRegion = this.createLiveRegion();
+    graph.container.appendChild(this.tree);
+    graph.container.appendChild(this.liveRegion);
+
+    InternalEvent.addListener(this.tree, 'keydown', this.keyHandler);
+    InternalEvent.addListener(this.tree, 'focus', this.focusHandler);
+    InternalEvent.addListener(this.tree, 'blur', this.blurHandler);
+
+    graph.getDataModel().addListener(InternalEvent.CHANGE, this.refreshHandler);
+    graph.getView().addListener(InternalEvent.DOWN, this.refreshHandler);
+    graph.getView().addListener(InternalEvent.UP, this.refreshHandler);
+    graph.getSelectionModel().addListener(InternalEvent.CHANGE, this.selectionHandler);
+    graph.addListener(InternalEvent.THEME_CHANGED, this.themeHandler);
+
+    this.refresh();
+  }
+
+  graph: AbstractGraph;
+
+  /**
+   * The ARIA tree representing the cells. It is visually hidden and receives the keyboard focus.
+   */
+  tree: HTMLElement;
+
+  /**
+   * The ARIA live region announcing the selection changes.
+   */
+  liveRegion: HTMLElement;
+
+  /**
+   * Highlights the focused cell while the tree has the focus.
+   */
+  highlight: CellHighlight;
+
+  /**
+   * Specifies if the selection changes are announced.
+   * @default true
+   */
+  announceSelection = true;
+
+  /**
+   * Specifies if the focused cell is scrolled into view.
+   * @default true
+   */
+  scrollToFocusedCell = true;
+
+  private readonly idPrefix: string;
+
+  private cells: Cell[] = [];
+
+  private items = new Map<Cell, HTMLElement>();
+
+  private focusedCell: Cell | null = null;
+
+  /**
+   * The edges of the vertex from which the focus has been moved to one of these edges.
+   */
+  private navigationEdges: Cell[] | null = null;
+
+  private readonly refreshHandler = () => {
+    this.refresh();
+  };
+
+  private readonly selectionHandler = () => {
+    this.updateSelection();
+
+    if (this.announceSelection) {
+      const message = this.getSelectionAnnouncement(this.graph.getSelectionCells());
+
+      if (message) {
+        this.announce(message);
+      }
+    }
+  };
+
+  private readonly keyHandler = (evt: KeyboardEvent) => {
+    if (this.handleKeyDown(evt)) {
+      InternalEvent.consume(evt);
+    }
+  };
+
+  private readonly focusHandler = () => {
+    if (!this.focusedCell && this.cells.length > 0) {
+      this.focus(this.cells[0]);
+    } else {
+      this.updateHighlight();
+    }
+  };
+
+  private readonly blurHandler = () => {
+    this.highlight.hide();
+  };
+
+  private readonly themeHandler = () => {
+    this.highlight.setHighlightColor(getHighlightColor(this.graph));
+    // The states are re-created when the theme changes
+    this.updateHighlight();
+  };
+
+  /**
+   * Rebuilds the ARIA tree from the model. The focused cell is kept if it is still in the tree.
+   */
+  refresh(): void {
+    this.cells = [];
+    this.items.clear();
+    this.tree.replaceChildren();
+
+    const root = this.graph.getView().currentRoot ?? this.graph.getDataModel().getRoot();
+
+    if (root) {
+      const model = this.graph.getDataModel();
+      const parents = root === model.getRoot() ? root.getChildren() : [root];
+
+      for (const parent of parents) {
+        this.addItems(this.tree, parent, 1);
+      }
+    }
+
+    if (this.focusedCell && !this.items.has(this.focusedCell)) {
+      this.focusedCell = null;
+      this.navigationEdges = null;
+    }
+    this.updateSelection();
+    this.updateActiveDescendant();
+    this.updateHighlight();
+  }
+
+  /**
+   * Returns the cells of the tree, in the navigation order.
+   */
+  getCells(): Cell[] {
+    return this.cells;
+  }
+
+  /**
+   * Returns the tree item of the given cell or `undefined` if the cell is not in the tree.
+   */
+  getItem(cell: Cell): HTMLElement | undefined {
+    return this.items.get(cell);
+  }
+
+  getFocusedCell(): Cell | null {
+    return this.focusedCell;
+  }
+
+  /**
+   * Moves the focus of the tree to the given cell, which is highlighted and scrolled into view if the tree has the focus.
+   * This does not change the focus of the document.
+   */
+  focus(cell: Cell | null): void {
+    this.navigationEdges = null;
+    this.setFocusedCell(cell);
+  }
+
+  /**
+   * Returns `true` if the given cell is represented in the tree. This implementation returns `true` for the visible
+   * vertices and edges.
+   */
+  isNavigable(cell: Cell): boolean {
+    return (cell.isVertex() || cell.isEdge()) && cell.isVisible();
+  }
+
+  /**
+   * Returns the accessible name of the given cell. This implementation returns the label of the cell as plain text, or
+   * a generic name if the cell has no label.
+   *
+   * Override this method to provide custom names.
+   */
+  getAccessibleName(cell: Cell): string {
+    let label = this.graph.getLabel(cell) ?? '';
+
+    if (this.graph.isHtmlLabel(cell)) {
+      label = this.toPlainText(label);
+    }
+    const name = label.replace(/\s+/g, ' ').trim();
+
+    if (name.length > 0) {
+      return name;
+    }
+    return cell.isEdge()
+      ? (translate('edge', null, 'Edge') ?? 'Edge')
+      : (translate('vertex', null, 'Vertex') ?? 'Vertex');
+  }
+
+  /**
+   * Returns the label of the tree item of the given cell. For the edges, this is the accessible name of the edge
+   * followed by the accessible names of its terminals.
+   */
+  getItemLabel(cell: Cell): string {
+    const name = this.getAccessibleName(cell);
+
+    if (!cell.isEdge()) {
+      return name;
+    }
+    const source = cell.getTerminal(true);
+    const target = cell.getTerminal(false);
+
+    if (source && target) {
+      return this.format('edgeFromTo', '{1}, from {2} to {3}', [
+        name,
+        this.getAccessibleName(source),
+        this.getAccessibleName(target),
+      ]);
+    } else if (source) {
+      return this.format('edgeFrom', '{1}, from {2}', [
+        name,
+        this.getAccessibleName(source),
+      ]);
+    } else if (target) {
+      return this.format('edgeTo', '{1}, to {2}', [name, this.getAccessibleName(target)]);
+    }
+    return name;
+  }
+
+  /**
+   * Returns the message announced when the selection changes or `null` to announce nothing.
+   *
+   * @param cells The selected cells.
+   */
+  getSelectionAnnouncement(cells: Cell[]): string | null {
+    if (cells.length === 0) {
+      return (
+        translate('selectionCleared', null, 'Selection cleared') ?? 'Selection cleared'
+      );
+    } else if (cells.length === 1) {
+      return this.format('cellSelected', '{1} selected', [
+        this.getAccessibleName(cells[0]),
+      ]);
+    }
+    return this.format('cellsSelected', '{1} cells selected', [cells.length]);
+  }
+
+  /**
+   * Announces the given message through the live region.
+   */
+  announce(message: string): void {
+    this.liveRegion.textContent = message;
+  }
+
+  /**
+   * Handles the given `keydown` event of the tree and returns `true` if it has been handled.
+   */
+  handleKeyDown(evt: KeyboardEvent): boolean {
+    const cell = this.focusedCell;
+
+    switch (evt.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        const delta = evt.key === 'ArrowDown' ? 1 : -1;
+        const edges = this.navigationEdges;
+
+        if (edges && cell) {
+          const index = edges.indexOf(cell);
+          this.setFocusedCell(edges[(index + delta + edges.length) % edges.length]);
+        } else {
+          const index = cell ? this.cells.indexOf(cell) : -1;
+          this.focus(
+            this.cells[Math.max(0, Math.min(this.cells.length - 1, index + delta))]
+          );
+        }
+        return true;
+      }
+      case 'ArrowRight':
+      case 'ArrowLeft': {
+        const forward = evt.key === 'ArrowRight';
+
+        if (cell?.isEdge()) {
+          const terminal = cell.getTerminal(!forward);
+
+          if (terminal && this.items.has(terminal)) {
+            this.focus(terminal);
+          }
+        } else if (cell) {
+          const edges = (
+            forward
+              ? this.graph.getOutgoingEdges(cell, null)
+              : this.graph.getIncomingEdges(cell, null)
+          ).filter((edge) => this.items.has(edge));
+
+          if (edges.length > 0) {
+            this.navigationEdges = edges;
+            this.setFocusedCell(edges[0]);
+          }
+        }
+        return true;
+      }
+      case 'Home':
+      case 'End':
+        this.focus(this.cells[evt.key === 'Home' ? 0 : this.cells.length - 1] ?? null);
+        return true;
+      case 'Enter':
+      case ' ':
+        if (cell) {
+          if (evt.key === ' ' && (evt.ctrlKey || evt.metaKey)) {
+            if (this.graph.isCellSelected(cell)) {
+              this.graph.removeSelectionCell(cell);
+            } else {
+              this.graph.addSelectionCell(cell);
+            }
+          } else {
+            this.graph.setSelectionCell(cell);
+          }
+        }
+        return true;
+      case 'Escape':
+        this.graph.clearSelection();
+        return true;
+    }
+    return false;
+  }
+
+  /**
+   * Removes the tree and the live region, and the listeners.
+   */
+  onDestroy(): void {
+    this.graph.getDataModel().removeListener(this.refreshHandler);
+    this.graph.getView().removeListener(this.refreshHandler);
+    this.graph.getSelectionModel().removeListener(this.selectionHandler);
+    this.graph.removeListener(this.themeHandler);
+    InternalEvent.release(this.tree);
+    this.tree.remove();
+    this.liveRegion.remove();
+    this.highlight.destroy();
+    this.cells = [];
+    this.items.clear();
+    this.focusedCell = null;
+    this.navigationEdges = null;
+  }
+
+  /**
+   * Creates the element of the ARIA tree.
+   */
+  protected createTree(): HTMLElement {
+    const tree = document.createElement('div');
+    tree.className = 'mxAccessibilityTree';
+    tree.setAttribute('role', 'tree');
+    tree.setAttribute('aria-multiselectable', 'true');
+    tree.setAttribute('aria-label', translate('diagram', null, 'Diagram') ?? 'Diagram');
+    tree.tabIndex = 0;
+    this.hide(tree);
+    return tree;
+  }
+
+  /**
+   * Creates the element of the live region.
+   */
+  protected createLiveRegion(): HTMLElement {
+    const region = document.createElement('div');
+    region.setAttribute('role', 'status');
+    region.setAttribute('aria-live', 'polite');
+    this.hide(region);
+    return region;
+  }
+
+  /**
+   * Adds the items of the given cell and of its descendants to the given element.
+   */
+  private addItems(container: HTMLElement, parent: Cell, level: number) {
+    for (const cell of parent.getChildren()) {
+      if (!this.isNavigable(cell)) {
+        continue;
+      }
+      const item = document.createElement('div');
+      item.id = `${this.idPrefix}-${this.cells.length}`;
+      item.setAttribute('role', 'treeitem');
+      item.setAttribute('aria-level', String(level));
+      item.setAttribute('aria-label', this.getItemLabel(cell));
+      container.appendChild(item);
+
+      this.cells.push(cell);
+      this.items.set(cell, item);
+
+      if (
+        cell.isVertex() &&
+        cell.getChildren().some((child) => this.isNavigable(child))
+      ) {
+        const collapsed = cell.isCollapsed();
+        item.setAttribute('aria-expanded', String(!collapsed));
+
+        if (!collapsed) {
+          const group = document.createElement('div');
+          group.setAttribute('role', 'group');
+          item.appendChild(group);
+          this.addItems(group, cell, level + 1);
+        }
+      }
+    }
+  }
+
+  private setFocusedCell(cell: Cell | null) {
+    this.focusedCell = cell;
+    this.updateActiveDescendant();
+
+    if (cell && this.hasFocus() && this.scrollToFocusedCell) {
+      this.graph.scrollCellToVisible(cell);
+    }
+    this.updateHighlight();
+  }
+
+  private updateSelection() {
+    for (const [cell, item] of this.items) {
+      item.setAttribute('aria-selected', String(this.graph.isCellSelected(cell)));
+    }
+  }
+
+  private updateActiveDescendant() {
+    const item = this.focusedCell ? this.items.get(this.focusedCell) : null;
+
+    if (item) {
+      this.tree.setAttribute('aria-activedescendant', item.id);
+    } else {
+      this.tree.removeAttribute('aria-activedescendant');
+    }
+  }
+
+  private updateHighlight() {
+    const state =
+      this.focusedCell && this.hasFocus()
+        ? this.graph.getView().getState(this.focusedCell)
+        : null;
+    this.highlight.highlight(state);
+  }
+
+  private hasFocus() {
+    return this.tree.ownerDocument.activeElement === this.tree;
+  }
+
+  /**
+   * Returns the text of the given HTML label. The label is parsed in an inert document so that no script runs.
+   */
+  private toPlainText(label: string) {
+    const body = document.implementation.createHTMLDocument('').body;
+    body.innerHTML = label.replace(/<br\s*\/?>/gi, ' ');
+    return body.textContent ?? '';
+  }
+
+  private format(key: string, defaultValue: string, params: unknown[]) {
+    return (
+      translate(key, params) ??
+      defaultValue.replace(/\{(\d+)\}/g, (_match, index) => String(params[index - 1]))
+    );
+  }
+
+  /**
+   * Hides the given element visually while keeping it available to the assistive technologies.
+   */
+  private hide(elt: HTMLElement) {
+    Object.assign(elt.style, {
+      position: 'absolute',
+      width: '1px',
+      height: '1px',
+      margin: '-1px',
+      padding: '0',
+      overflow: 'hidden',
+      clip: 'rect(0 0 0 0)',
+      whiteSpace: 'nowrap',
+      border: '0',
+    });
+  }
+}
@@ -47,11 +47,13 @@ import {
   isShiftDown,
 } from '../../util/EventUtils.js';
 import EventSource from '../event/EventSource.js';
-import { matchBinaryMask } from '../../internal/utils.js';
+import { matchBinaryMask, sanitizeHtmlLabel } from '../../internal/utils.js';
 import type { AbstractGraph } from '../AbstractGraph.js';
 import type { AlignValue, GraphPlugin } from '../../types.js';
 import type TooltipHandler from './TooltipHandler.js';
 import { StyleDefaultsConfig } from '../../util/config.js';
+import { RichTextCommands } from '../handler/RichTextCommands.js';
+import { translate } from '../../internal/i18n-utils.js';
 
 /**
  * In-place editor for the graph.
@@ -100,6 +102,18 @@ import { StyleDefaultsConfig } from '../../util/config.js';
  * });
  * ```
  *
+ * ### Rich text
+ *
+ * If {@link richText} is `true`, the HTML labels (see {@link AbstractGraph.isHtmlLabel}) are edited as rich text: the
+ * formatting is applied with the {@link RichTextCommands} returned by {@link getRichTextCommands}, either with the
+ * toolbar displayed above the editor (see {@link richTextToolbar}) or with the following shortcuts:
+ * - Ctrl+B, Ctrl+I and Ctrl+U: bold, italic and underline.
+ * - Ctrl+Z, and Ctrl+Shift+Z or Ctrl+Y: undo and redo within the editing session.
+ *
+ * The markup of the label is kept when the editing starts. It is only sanitized according to {@link HtmlSanitizerConfig},
+ * as when the label is displayed. The pasted HTML is inserted with {@link RichTextCommands.insertHtml}, so that only the
+ * formatting produced by the commands is kept.
+ *
  * ### Placeholder
  *
  * To implement a placeholder for cells without a label, use the {@link emptyLabelText} variable.
@@ -279,6 +293,33 @@ class CellEditorHandler implements GraphPlugin {
    */
   align: AlignValue | null = null;
 
+  /**
+   * Specifies if the HTML labels are edited as rich text, see {@link isRichText}.
+   * @default false
+   * @since 0.25.0
+   */
+  richText = false;
+
+  /**
+   * Specifies if a formatting toolbar is displayed above the editor when editing rich text.
+   * @default true
+   * @since 0.25.0
+   */
+  richTextToolbar = true;
+
+  /**
+   * The font sizes proposed by the formatting toolbar, in pixels.
+   * @since 0.25.0
+   */
+  richTextFontSizes = [8, 10, 12, 14, 18, 24, 36];
+
+  /**
+   * Holds the formatting toolbar while rich text is edited.
+   */
+  toolbar: HTMLElement | null = null;
+
+  private richTextCommands: RichTextCommands | null = null;
+
   /**
    * Creates the {@link textarea} and installs the event listeners. The key handler
    * updates the {@link modified} state.
@@ -320,9 +361,12 @@ class CellEditorHandler implements GraphPlugin {
    * Gets the initial editing value for the given cell.
    */
   getInitialValue(state: CellState, trigger: MouseEvent | null) {
-    let result = htmlEntities(this.graph.getEditingValue(state.cell, trigger), false);
+    const value = this.graph.getEditingValue(state.cell, trigger);
+    const richText = this.isRichText(state.cell);
+    let result = richText ? String(value ?? '') : htmlEntities(value, false);
     result = replaceTrailingNewlines(result, '<div><br></div>');
-    return result.replace(/\n/g, '<br>');
+    result = result.replace(/\n/g, '<br>');
+    return richText ? sanitizeHtmlLabel(result, state.cell) : result;
   }
 
   /**
@@ -331,6 +375,9 @@ class CellEditorHandler implements GraphPlugin {
   getCurrentValue(state: CellState) {
     if (!this.textarea) return null;
 
+    if (this.isRichText(state.cell)) {
+      return sanitizeHtmlLabel(this.textarea.innerHTML, state.cell);
+    }
     return extractTextWithWhitespace(<Element[]>Array.from(this.textarea.childNodes));
   }
 
@@ -373,6 +420,8 @@ class CellEditorHandler implements GraphPlugin {
         if (this.isStopEditingEvent(evt)) {
           this.graph.stopEditing(false);
           InternalEvent.consume(evt);
+        } else if (this.richTextCommands && this.handleRichTextKey(evt)) {
+          InternalEvent.consume(evt);
         } else if (evt.keyCode === 27 /* Escape */) {
           this.graph.stopEditing(this.isCancelEditingKeyEvent(evt));
           InternalEvent.consume(evt);
@@ -419,6 +468,20 @@ class CellEditorHandler implements GraphPlugin {
     };
 
     InternalEvent.addListener(elt, 'input', keyupHandler);
+
+    // Adds the user input to the undo history of the rich text
+    InternalEvent.addListener(elt, 'input', () => {
+      this.richTextCommands?.record();
+    });
+
+    // Inserts the pasted HTML of the rich text with the formatting produced by the commands only
+    InternalEvent.addListener(elt, 'paste', (evt: Event) => {
+      const html = (<ClipboardEvent>evt).clipboardData?.getData('text/html');
+
+      if (html && this.richTextCommands?.insertHtml(html)) {
+        evt.preventDefault();
+      }
+    });
     InternalEvent.addListener(elt, 'cut', keyupHandler);
     InternalEvent.addListener(elt, 'paste', keyupHandler);
 
@@ -654,6 +717,7 @@ class CellEditorHandler implements GraphPlugin {
           m == null ? '' : ` translate(${m.x * 100}%,${m.y * 100}%)`
         }`
       );
+      this.updateToolbar();
     }
   }
 
@@ -744,6 +808,9 @@ class CellEditorHandler implements GraphPlugin {
         textarea.removeAttribute('dir');
       }
 
+      const richText = this.isRichText(cell);
+      textarea.className = `mxCellEditor ${richText ? 'mxRichTextEditor' : 'mxPlainTextEditor'}`;
+
       // Sets the initial editing value
       textarea.innerHTML = this.getInitialValue(state, trigger) || '';
       this.initialValue = textarea.innerHTML;
@@ -761,6 +828,15 @@ class CellEditorHandler implements GraphPlugin {
       // @ts-ignore
       this.graph.container.appendChild(textarea);
 
+      if (richText) {
+        this.richTextCommands = new RichTextCommands(textarea);
+
+        if (this.richTextToolbar) {
+          this.toolbar = this.createToolbar(this.richTextCommands);
+          this.graph.container.appendChild(this.toolbar);
+        }
+      }
+
       // Update this after firing all potential events that could update the cleanOnChange flag
       this.editingCell = cell;
       this.trigger = trigger;
@@ -828,6 +904,7 @@ class CellEditorHandler implements GraphPlugin {
       if (textarea.parentNode) {
         textarea.parentNode.removeChild(textarea);
       }
+      this.removeToolbar();
 
       if (this.clearOnChange && textarea.innerHTML === this.getEmptyLabelText()) {
         textarea.innerHTML = '';
@@ -849,6 +926,7 @@ class CellEditorHandler implements GraphPlugin {
         });
       }
       this.trigger = null;
+      this.richTextCommands = null;
       // Forces new instance on next edit for undo history reset
       if (this.textarea) InternalEvent.release(this.textarea);
 
@@ -857,6 +935,183 @@ class CellEditorHandler implements GraphPlugin {
     }
   }
 
+  /**
+   * Returns `true` if the label of the given cell is edited as rich text. This implementation returns `true` if
+   * {@link richText} is `true` and the label is HTML.
+   *
+   * @since 0.25.0
+   */
+  isRichText(cell: Cell): boolean {
+    return this.richText && this.graph.isHtmlLabel(cell);
+  }
+
+  /**
+   * Returns the formatting commands of the current editing session, or `null` if no rich text is being edited.
+   *
+   * @since 0.25.0
+   */
+  getRichTextCommands(): RichTextCommands | null {
+    return this.richTextCommands;
+  }
+
+  /**
+   * Handles the formatting and undo shortcuts of the rich text. Returns `true` if the given keydown event has been
+   * handled.
+   *
+   * @since 0.25.0
+   */
+  handleRichTextKey(evt: KeyboardEvent): boolean {
+    const commands = this.richTextCommands;
+
+    if (!commands || !(isControlDown(evt) || isMetaDown(evt)) || evt.altKey) {
+      return false;
+    }
+    switch (evt.key.toLowerCase()) {
+      case 'z':
+        if (isShiftDown(evt)) {
+          commands.redo();
+        } else {
+          commands.undo();
+        }
+        break;
+      case 'y':
+        commands.redo();
+        break;
+      case 'b':
+        commands.bold();
+        break;
+      case 'i':
+        commands.italic();
+        break;
+      case 'u':
+        commands.underline();
+        break;
+      default:
+        return false;
+    }
+    this.resize();
+    return true;
+  }
+
+  /**
+   * Creates the formatting toolbar for the given commands. The buttons keep the focus in the editor.
+   *
+   * @since 0.25.0
+   */
+  createToolbar(commands: RichTextCommands): HTMLElement {
+    const toolbar = document.createElement('div');
+    toolbar.className = 'mxCellEditorToolbar';
+    toolbar.style.position = 'absolute';
+    toolbar.style.zIndex = String(this.zIndex + 1);
+
+    const apply = (action: () => void) => {
+      action();
+      this.resize();
+    };
+    const addButton = (label: string, key: string, title: string, action: () => void) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.innerHTML = label;
+      button.title = translate(key, null, title) ?? title;
+
+      // Prevents the focus change so that the selection is kept in the editor
+      InternalEvent.addListener(button, 'mousedown', (evt: MouseEvent) => {
+        InternalEvent.consume(evt);
+      });
+      InternalEvent.addListener(button, 'click', (evt: MouseEvent) => {
+        apply(action);
+        InternalEvent.consume(evt);
+      });
+      toolbar.appendChild(button);
+    };
+    const addInput = (elt: HTMLInputElement | HTMLSelectElement, action: () => void) => {
+      // The input takes the focus so the selection must be restored to apply the change
+      InternalEvent.addListener(elt, 'mousedown', (evt: MouseEvent) => {
+        commands.saveSelection();
+        evt.stopPropagation();
+      });
+      InternalEvent.addListener(elt, 'change', () => {
+        this.textarea?.focus();
+        commands.restoreSelection();
+        apply(action);
+      });
+      toolbar.appendChild(elt);
+    };
+
+    addButton('<b>B</b>', 'bold', 'Bold', () => commands.bold());
+    addButton('<i>I</i>', 'italic', 'Italic', () => commands.italic());
+    addButton('<u>U</u>', 'underline', 'Underline', () => commands.underline());
+    addButton('&bull;', 'bulletedList', 'Bulleted list', () => commands.toggleList('ul'));
+    addButton('1.', 'numberedList', 'Numbered list', () => commands.toggleList('ol'));
+    addButton('&#128279;', 'link', 'Link', () => {
+      const href = this.promptLink();
+
+      if (href) {
+        commands.createLink(href);
+      }
+    });
+    addButton('&#10005;', 'removeLink', 'Remove link', () => commands.removeLink());
+
+    const fontSize = document.createElement('select');
+    fontSize.title = translate('fontSize', null, 'Font size') ?? 'Font size';
+    fontSize.appendChild(document.createElement('option'));
+
+    for (const size of this.richTextFontSizes) {
+      const option = document.createElement('option');
+      option.value = String(size);
+      option.textContent = `${size}px`;
+      fontSize.appendChild(option);
+    }
+    addInput(fontSize, () => {
+      if (fontSize.value) {
+        commands.setFontSize(Number(fontSize.value));
+      }
+    });
+
+    const fontColor = document.createElement('input');
+    fontColor.type = 'color';
+    fontColor.title = translate('fontColor', null, 'Font color') ?? 'Font color';
+    addInput(fontColor, () => commands.setFontColor(fontColor.value));
+
+    return toolbar;
+  }
+
+  /**
+   * Returns the URL of the link to be created with the formatting toolbar, or `null` to cancel. This implementation
+   * uses `window.prompt`.
+   *
+   * @since 0.25.0
+   */
+  promptLink(): string | null {
+    return window.prompt(translate('enterUrl', null, 'URL') ?? 'URL', 'https://');
+  }
+
+  /**
+   * Places the {@link toolbar} above the editor.
+   */
+  updateToolbar() {
+    const container = this.graph.container;
+
+    if (this.toolbar && this.textarea && container) {
+      const bounds = this.textarea.getBoundingClientRect();
+      const origin = container.getBoundingClientRect();
+
+      this.toolbar.style.left = `${Math.max(0, bounds.left - origin.left + container.scrollLeft)}px`;
+      this.toolbar.style.top = `${Math.max(
+        0,
+        bounds.top - origin.top + container.scrollTop - this.toolbar.offsetHeight
+      )}px`;
+    }
+  }
+
+  private removeToolbar() {
+    if (this.toolbar) {
+      InternalEvent.release(this.toolbar);
+      this.toolbar.remove();
+      this.toolbar = null;
+    }
+  }
+
   /**
    * Prepares the textarea for getting its value in <stopEditing>.
    * This implementation removes the extra trailing linefeed in Firefox.
@@ -1034,6 +1289,7 @@ class CellEditorHandler implements GraphPlugin {
       }
       this.textarea = null;
     }
+    this.removeToolbar();
 
     this.graph.getDataModel().removeListener(this.changeHandler);
     this.graph.getView().removeListener(this.zoomHandler);
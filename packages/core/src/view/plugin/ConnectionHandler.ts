@@ -61,6 +61,7 @@ import type {
   MouseListenerSet,
 } from '../../types.js';
 import { log } from '../../internal/utils.js';
+import { getInvalidColor, getValidColor } from '../../internal/theme-utils.js';
 
 type FactoryMethod = (
   source: Cell | null,
@@ -394,6 +395,12 @@ export default class ConnectionHandler
 
   escapeHandler: () => void;
 
+  /**
+   * Re-creates the {@link marker} with the colors of the new theme of the graph.
+   * @since 0.25.0
+   */
+  themeHandler: () => void;
+
   /**
    * Constructs an event handler that connects vertices using the specified
    * factory method to create the new edges.
@@ -450,6 +457,14 @@ export default class ConnectionHandler
     };
 
     this.graph.addListener(InternalEvent.ESCAPE, this.escapeHandler);
+
+    this.themeHandler = () => {
+      this.reset();
+      this.marker.destroy();
+      this.marker = this.createMarker();
+    };
+
+    this.graph.addListener(InternalEvent.THEME_CHANGED, this.themeHandler);
   }
 
   /**
@@ -522,7 +537,7 @@ export default class ConnectionHandler
     const shape =
       this.livePreview && this.edgeState
         ? this.graph.cellRenderer.createShape(this.edgeState)
-        : new PolylineShape([], INVALID_COLOR);
+        : new PolylineShape([], getInvalidColor(this.graph, INVALID_COLOR));
 
     if (shape && shape.node) {
       shape.dialect = 'svg';
@@ -548,7 +563,12 @@ export default class ConnectionHandler
    * Creates and returns the {@link CellMarker} used in {@link marker}.
    */
   createMarker() {
-    return new ConnectionHandlerCellMarker(this.graph, this);
+    return new ConnectionHandlerCellMarker(
+      this.graph,
+      this,
+      getValidColor(this.graph, VALID_COLOR),
+      getInvalidColor(this.graph)
+    );
   }
 
   /**
@@ -994,7 +1014,7 @@ export default class ConnectionHandler
               this.marker.highlight.shape.stroke = 'transparent';
               this.currentState = null;
             } else {
-              this.marker.highlight.shape.stroke = VALID_COLOR;
+              this.marker.highlight.shape.stroke = getValidColor(this.graph, VALID_COLOR);
             }
 
             this.marker.highlight.shape.strokeWidth = HIGHLIGHT_STROKEWIDTH / s / s;
@@ -1629,12 +1649,15 @@ export default class ConnectionHandler
   /**
    * Returns the color used to draw the preview edge.
    *
-   * This returns green if there is no edge validation error and red otherwise.
+   * This returns the valid color of the theme of the graph (green by default) if there is no edge validation error and
+   * the invalid color (red by default) otherwise.
    *
    * @param valid Boolean indicating if the color for a valid edge should be returned.
    */
   getEdgeColor(valid: boolean) {
-    return valid ? VALID_COLOR : INVALID_COLOR;
+    return valid
+      ? getValidColor(this.graph, VALID_COLOR)
+      : getInvalidColor(this.graph, INVALID_COLOR);
   }
 
   /**
@@ -2013,6 +2036,10 @@ export default class ConnectionHandler
     if (this.escapeHandler) {
       this.graph.removeListener(this.escapeHandler);
     }
+
+    if (this.themeHandler) {
+      this.graph.removeListener(this.themeHandler);
+    }
   }
 }
 
@@ -17,7 +17,7 @@ limitations under the License.
 */
 
 import EventSource from '../event/EventSource.js';
-import { hasScrollbars } from '../../util/styleUtils.js';
+import { convertPoint, hasScrollbars } from '../../util/styleUtils.js';
 import EventObject from '../event/EventObject.js';
 import InternalEvent from '../event/InternalEvent.js';
 import {
@@ -27,13 +27,51 @@ import {
   isMultiTouchEvent,
   isPopupTrigger,
   isShiftDown,
+  isTouchEvent,
 } from '../../util/EventUtils.js';
 import PanningManager from '../other/PanningManager.js';
 import InternalMouseEvent from '../event/InternalMouseEvent.js';
+import Point from '../geometry/Point.js';
 
 import type { GraphPlugin, MouseEventListener, MouseListenerSet } from '../../types.js';
 import type { AbstractGraph } from '../AbstractGraph.js';
 
+/**
+ * State of a multi-touch gesture.
+ */
+interface TouchGesture {
+  /**
+   * The distance between the touch points when the gesture started.
+   */
+  distance: number;
+  /**
+   * The scale of the view when the gesture started.
+   */
+  scale: number;
+  /**
+   * The point of the graph under the midpoint of the touch points, in unscaled and untranslated coordinates.
+   */
+  point: Point;
+  /**
+   * The last midpoint of the touch points, in client coordinates.
+   */
+  midpoint: Point;
+  /**
+   * The time of the last move of the touch points.
+   */
+  time: number;
+  /**
+   * The velocity of the midpoint in pixels per millisecond, used for the inertial scrolling.
+   */
+  velocity: Point;
+  /**
+   * The last event of the gesture.
+   */
+  event: PointerEvent;
+}
+
+const touchEventNames = ['pointerdown', 'pointermove', 'pointerup', 'pointercancel'];
+
 /**
  * Event handler that pans and creates popupmenus.
  *
@@ -41,6 +79,8 @@ import type { AbstractGraph } from '../AbstractGraph.js';
  *
  * For grid size steps while panning, use {@link useGrid}.
  *
+ * To pinch zoom and pan with two fingers on touch devices, use {@link setMultiTouchEnabled}.
+ *
  * When registered in the {@link AbstractGraph.constructor} plugins list, it can be enabled using {@link AbstractGraph.setPanning}.
  *
  * ### Events
@@ -80,7 +120,10 @@ class PanningHandler extends EventSource implements GraphPlugin, MouseListenerSe
       const evtName = eo.getProperty('eventName');
       const me = eo.getProperty('event');
 
-      if (evtName === InternalEvent.MOUSE_DOWN && this.isForcePanningEvent(me)) {
+      if (this.isMultiTouchGestureEvent(evtName, me)) {
+        // Mouse events are ignored during multi-touch gestures
+        me.consume();
+      } else if (evtName === InternalEvent.MOUSE_DOWN && this.isForcePanningEvent(me)) {
         this.start(me);
         this.active = true;
         this.fireEvent(new EventObject(InternalEvent.PAN_START, { event: me }));
@@ -92,7 +135,8 @@ class PanningHandler extends EventSource implements GraphPlugin, MouseListenerSe
 
     // Handles pinch gestures
     this.gestureHandler = (_sender: EventSource, eo: EventObject) => {
-      if (this.isPinchEnabled()) {
+      // Pinch gestures are handled with the pointer events if multi-touch is enabled
+      if (this.isPinchEnabled() && !this.isMultiTouchEnabled()) {
         const evt = eo.getProperty('event');
 
         if (!isConsumed(evt) && evt.type === 'gesturestart') {
@@ -115,6 +159,17 @@ class PanningHandler extends EventSource implements GraphPlugin, MouseListenerSe
 
     this.graph.addListener(InternalEvent.GESTURE, this.gestureHandler);
 
+    // Handles multi-touch gestures
+    this.touchHandler = (evt: MouseEvent) => {
+      if (this.isMultiTouchEnabled() && isTouchEvent(evt)) {
+        this.handleTouchEvent(<PointerEvent>evt);
+      }
+    };
+
+    for (const eventName of touchEventNames) {
+      InternalEvent.addListener(this.graph.container, eventName, this.touchHandler);
+    }
+
     this.mouseUpListener = () => {
       if (this.active) {
         this.reset();
@@ -182,6 +237,48 @@ class PanningHandler extends EventSource implements GraphPlugin, MouseListenerSe
 
   initialScale = 0;
 
+  /**
+   * Specifies if multi-touch gestures are handled using Pointer Events:
+   * - two-finger pinch zooms the graph around the midpoint of the fingers if {@link pinchEnabled} is `true`.
+   * - two-finger drag pans the graph.
+   * - the graph keeps scrolling after the gesture if {@link inertiaEnabled} is `true`.
+   *
+   * Use {@link setMultiTouchEnabled} to change this value, as it also prevents the browser from zooming and scrolling
+   * the page during the gestures.
+   *
+   * @default false
+   * @since 0.25.0
+   */
+  multiTouchEnabled = false;
+
+  /**
+   * Specifies if the graph keeps scrolling after a two-finger pan.
+   * @default true
+   * @since 0.25.0
+   */
+  inertiaEnabled = true;
+
+  /**
+   * The factor applied to the velocity of the inertial scrolling every {@link inertiaDelay} milliseconds.
+   * @default 0.92
+   * @since 0.25.0
+   */
+  inertiaFriction = 0.92;
+
+  /**
+   * The delay in milliseconds between two steps of the inertial scrolling.
+   * @default 16
+   * @since 0.25.0
+   */
+  inertiaDelay = 16;
+
+  /**
+   * The velocity in pixels per millisecond below which the inertial scrolling stops.
+   * @default 0.05
+   * @since 0.25.0
+   */
+  inertiaMinVelocity = 0.05;
+
   /**
    * Specifies the maximum scale.
    * @default 8
@@ -226,8 +323,19 @@ class PanningHandler extends EventSource implements GraphPlugin, MouseListenerSe
 
   mouseUpListener: MouseEventListener;
 
+  touchHandler: MouseEventListener;
+
   mouseDownEvent: InternalMouseEvent | null = null;
 
+  /**
+   * The touch points in client coordinates by pointer ID.
+   */
+  private touchPoints = new Map<number, Point>();
+
+  private gesture: TouchGesture | null = null;
+
+  private inertiaThread: number | null = null;
+
   /**
    * Returns true if the handler is currently active.
    */
@@ -263,6 +371,61 @@ class PanningHandler extends EventSource implements GraphPlugin, MouseListenerSe
     this.pinchEnabled = value;
   }
 
+  /**
+   * Returns {@link multiTouchEnabled}.
+   * @since 0.25.0
+   */
+  isMultiTouchEnabled() {
+    return this.multiTouchEnabled;
+  }
+
+  /**
+   * Sets {@link multiTouchEnabled}. If multi-touch is enabled, the `touch-action` CSS property of the container is set to
+   * `none` so that the browser does not zoom or scroll the page during the gestures.
+   * @since 0.25.0
+   */
+  setMultiTouchEnabled(value: boolean) {
+    this.multiTouchEnabled = value;
+    this.graph.container.style.touchAction = value ? 'none' : '';
+
+    if (!value) {
+      this.touchPoints.clear();
+      this.gesture = null;
+      this.stopInertia();
+    }
+  }
+
+  /**
+   * Returns `true` if a multi-touch gesture or its inertial scrolling is in progress.
+   * @since 0.25.0
+   */
+  isGestureActive() {
+    return this.gesture != null || this.inertiaThread != null;
+  }
+
+  /**
+   * Returns `true` if the given mouse event is part of a multi-touch gesture and must be ignored by the other handlers.
+   * This is the case for the touch events while a gesture is in progress and for the second touch point of a gesture.
+   *
+   * @param eventName The name of the mouse event, for instance {@link InternalEvent.MOUSE_DOWN}.
+   * @param me The mouse event.
+   * @since 0.25.0
+   */
+  isMultiTouchGestureEvent(eventName: string, me: InternalMouseEvent) {
+    const evt = me.getEvent();
+
+    if (!this.isMultiTouchEnabled() || !isTouchEvent(evt)) {
+      return false;
+    }
+    // The graph receives the pointer events before this handler
+    const pointerId = (<PointerEvent>evt).pointerId;
+    return (
+      this.gesture != null ||
+      (eventName === InternalEvent.MOUSE_DOWN &&
+        [...this.touchPoints.keys()].some((id) => id !== pointerId))
+    );
+  }
+
   /**
    * Returns `true` if the given event is a panning trigger for the optional given cell.
    *
@@ -431,6 +594,177 @@ class PanningHandler extends EventSource implements GraphPlugin, MouseListenerSe
     }
   }
 
+  /**
+   * Handles the given touch event to track the touch points and to start, update or end the multi-touch gestures.
+   * @since 0.25.0
+   */
+  handleTouchEvent(evt: PointerEvent) {
+    const point = new Point(evt.clientX, evt.clientY);
+
+    if (evt.type === 'pointerdown') {
+      this.stopInertia();
+      this.touchPoints.set(evt.pointerId, point);
+
+      if (this.touchPoints.size === 2) {
+        this.startGesture(evt);
+      }
+    } else if (evt.type === 'pointermove') {
+      if (this.touchPoints.has(evt.pointerId)) {
+        this.touchPoints.set(evt.pointerId, point);
+
+        if (this.gesture) {
+          this.updateGesture(evt);
+        }
+      }
+    } else {
+      this.touchPoints.delete(evt.pointerId);
+
+      if (this.gesture && this.touchPoints.size < 2) {
+        this.endGesture(evt);
+      }
+    }
+  }
+
+  /**
+   * Starts a multi-touch gesture with the current touch points.
+   */
+  private startGesture(evt: PointerEvent) {
+    // Replaces the panning started with the first touch point
+    this.reset();
+
+    const view = this.graph.getView();
+    const midpoint = this.getTouchMidpoint();
+    const pt = convertPoint(this.graph.container, midpoint.x, midpoint.y);
+
+    this.gesture = {
+      distance: this.getTouchDistance(),
+      scale: view.scale,
+      point: new Point(
+        pt.x / view.scale - view.translate.x,
+        pt.y / view.scale - view.translate.y
+      ),
+      midpoint,
+      time: Date.now(),
+      velocity: new Point(),
+      event: evt,
+    };
+    InternalEvent.consume(evt);
+    this.fireEvent(new EventObject(InternalEvent.PAN_START, { event: evt }));
+  }
+
+  /**
+   * Zooms the graph with the distance between the touch points and pans the graph so that the point under the midpoint
+   * of the touch points when the gesture started stays under the midpoint.
+   */
+  private updateGesture(evt: PointerEvent) {
+    const gesture = <TouchGesture>this.gesture;
+    const midpoint = this.getTouchMidpoint();
+
+    if (this.isPinchEnabled() && gesture.distance > 0) {
+      let scale = (gesture.scale * this.getTouchDistance()) / gesture.distance;
+      scale =
+        Math.round(Math.min(this.maxScale, Math.max(this.minScale, scale)) * 100) / 100;
+
+      if (this.graph.view.scale !== scale) {
+        this.graph.zoomTo(scale);
+      }
+    }
+
+    const { scale, translate } = this.graph.getView();
+    const pt = convertPoint(this.graph.container, midpoint.x, midpoint.y);
+    this.panBy(
+      pt.x - (gesture.point.x + translate.x) * scale,
+      pt.y - (gesture.point.y + translate.y) * scale
+    );
+
+    // Updates the velocity for the inertial scrolling
+    const now = Date.now();
+    const dt = Math.max(1, now - gesture.time);
+    gesture.velocity = new Point(
+      0.8 * ((midpoint.x - gesture.midpoint.x) / dt) + 0.2 * gesture.velocity.x,
+      0.8 * ((midpoint.y - gesture.midpoint.y) / dt) + 0.2 * gesture.velocity.y
+    );
+    gesture.midpoint = midpoint;
+    gesture.time = now;
+    gesture.event = evt;
+
+    InternalEvent.consume(evt);
+    this.fireEvent(new EventObject(InternalEvent.PAN, { event: evt }));
+  }
+
+  /**
+   * Ends the multi-touch gesture and starts the inertial scrolling if the touch points were still moving.
+   */
+  private endGesture(evt: PointerEvent) {
+    const { velocity, time } = <TouchGesture>this.gesture;
+    this.gesture = null;
+    InternalEvent.consume(evt);
+
+    // Ignores the velocity if the touch points stopped before they were released
+    if (
+      this.inertiaEnabled &&
+      Date.now() - time < 100 &&
+      Math.hypot(velocity.x, velocity.y) >= this.inertiaMinVelocity
+    ) {
+      this.startInertia(velocity, evt);
+    } else {
+      this.fireEvent(new EventObject(InternalEvent.PAN_END, { event: evt }));
+    }
+  }
+
+  private startInertia(velocity: Point, evt: PointerEvent) {
+    let { x: vx, y: vy } = velocity;
+
+    this.inertiaThread = window.setInterval(() => {
+      this.panBy(vx * this.inertiaDelay, vy * this.inertiaDelay);
+      this.fireEvent(new EventObject(InternalEvent.PAN, { event: evt }));
+      vx *= this.inertiaFriction;
+      vy *= this.inertiaFriction;
+
+      if (Math.hypot(vx, vy) < this.inertiaMinVelocity) {
+        this.stopInertia();
+        this.fireEvent(new EventObject(InternalEvent.PAN_END, { event: evt }));
+      }
+    }, this.inertiaDelay);
+  }
+
+  /**
+   * Stops the inertial scrolling.
+   * @since 0.25.0
+   */
+  stopInertia() {
+    if (this.inertiaThread != null) {
+      window.clearInterval(this.inertiaThread);
+      this.inertiaThread = null;
+    }
+  }
+
+  private getTouchMidpoint() {
+    const [p1, p2] = this.touchPoints.values();
+    return new Point((p1.x + p2.x) / 2, (p1.y + p2.y) / 2);
+  }
+
+  private getTouchDistance() {
+    const [p1, p2] = this.touchPoints.values();
+    return Math.hypot(p2.x - p1.x, p2.y - p1.y);
+  }
+
+  /**
+   * Moves the graph by the given amount of screen pixels, using the scrollbars if {@link AbstractGraph.useScrollbarsForPanning}
+   * is `true` and the container has scrollbars.
+   */
+  private panBy(dx: number, dy: number) {
+    const { container } = this.graph;
+
+    if (this.graph.isUseScrollbarsForPanning() && hasScrollbars(container)) {
+      container.scrollLeft -= dx;
+      container.scrollTop -= dy;
+    } else if (dx !== 0 || dy !== 0) {
+      const { scale, translate } = this.graph.getView();
+      this.panGraph(translate.x + dx / scale, translate.y + dy / scale);
+    }
+  }
+
   /**
    * Handles the event by setting the translation on the view or showing the
    * popupmenu.
@@ -458,6 +792,11 @@ class PanningHandler extends EventSource implements GraphPlugin, MouseListenerSe
     this.graph.removeListener(this.forcePanningHandler);
     this.graph.removeListener(this.gestureHandler);
     InternalEvent.removeListener(document, 'mouseup', this.mouseUpListener);
+
+    for (const eventName of touchEventNames) {
+      InternalEvent.removeListener(this.graph.container, eventName, this.touchHandler);
+    }
+    this.stopInertia();
     this.panningManager.destroy();
 
     super.destroy();
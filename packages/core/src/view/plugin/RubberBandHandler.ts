@@ -277,6 +277,12 @@ class RubberBandHandler implements GraphPlugin, MouseListenerSet {
       setOpacity(this.sharedDiv, this.defaultOpacity);
     }
 
+    // The colors of the theme override the colors of the CSS rules
+    this.sharedDiv.style.background =
+      this.graph.getThemeColor('rubberBandFillColor') ?? '';
+    this.sharedDiv.style.borderColor =
+      this.graph.getThemeColor('rubberBandStrokeColor') ?? '';
+
     this.graph.container.appendChild(this.sharedDiv);
     const result = this.sharedDiv;
 
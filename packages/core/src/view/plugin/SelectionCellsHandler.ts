@@ -95,6 +95,8 @@ class SelectionCellsHandler extends EventSource implements GraphPlugin, MouseLis
       .addListener(InternalEvent.SCALE_AND_TRANSLATE, this.refreshHandler);
     this.graph.getView().addListener(InternalEvent.DOWN, this.refreshHandler);
     this.graph.getView().addListener(InternalEvent.UP, this.refreshHandler);
+    // The states are re-created when the graph is refreshed, for instance when the theme changes
+    this.graph.addListener(InternalEvent.REFRESH, this.refreshHandler);
   }
 
   /**
@@ -418,6 +420,7 @@ class SelectionCellsHandler extends EventSource implements GraphPlugin, MouseLis
     this.graph.getSelectionModel().removeListener(this.refreshHandler);
     this.graph.getDataModel().removeListener(this.refreshHandler);
     this.graph.getView().removeListener(this.refreshHandler);
+    this.graph.removeListener(this.refreshHandler);
 
     super.destroy();
   }
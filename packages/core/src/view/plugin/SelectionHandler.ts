@@ -50,6 +50,7 @@ import type ConnectionHandler from './ConnectionHandler.js';
 import { EdgeHandlerConfig, VertexHandlerConfig } from '../handler/config.js';
 import type CellEditorHandler from './CellEditorHandler.js';
 import type { ColorValue, GraphPlugin, MouseListenerSet } from '../../types.js';
+import { getInvalidColor, getValidColor } from '../../internal/theme-utils.js';
 
 /**
  * Graph event handler that handles selection.
@@ -273,6 +274,7 @@ class SelectionHandler implements GraphPlugin, MouseListenerSet {
 
   /**
    * Specifies the color of the preview shape. Default is black.
+   * The {@link ThemeColors.previewColor} of the theme of the graph takes precedence over this value.
    */
   previewColor: ColorValue = 'black';
 
@@ -698,7 +700,11 @@ class SelectionHandler implements GraphPlugin, MouseListenerSet {
    * Creates the shape used to draw the preview for the given bounds.
    */
   createPreviewShape(bounds: Rectangle) {
-    const shape = new RectangleShape(bounds, NONE, this.previewColor);
+    const shape = new RectangleShape(
+      bounds,
+      NONE,
+      this.graph.getThemeColor('previewColor') ?? this.previewColor
+    );
     shape.isDashed = true;
 
     if (this.htmlPreview) {
@@ -919,8 +925,10 @@ class SelectionHandler implements GraphPlugin, MouseListenerSet {
         Math.abs(delta.y) > tol
       ) {
         // Highlight is used for highlighting drop targets
+        const dropTargetColor =
+          graph.getThemeColor('dropTargetColor') ?? DROP_TARGET_COLOR;
         if (!this.highlight) {
-          this.highlight = new CellHighlight(this.graph, DROP_TARGET_COLOR, 3);
+          this.highlight = new CellHighlight(this.graph, dropTargetColor, 3);
         }
 
         const clone =
@@ -944,7 +952,7 @@ class SelectionHandler implements GraphPlugin, MouseListenerSet {
         if (state && (clone || (target && this.isValidDropTarget(target, me)))) {
           if (this.target !== target) {
             this.target = target;
-            this.setHighlightColor(DROP_TARGET_COLOR);
+            this.setHighlightColor(dropTargetColor);
           }
 
           highlight = true;
@@ -963,7 +971,10 @@ class SelectionHandler implements GraphPlugin, MouseListenerSet {
 
             if (state) {
               const error = graph.getEdgeValidationError(null, this.cell, cell);
-              const color = error === null ? VALID_COLOR : INVALID_CONNECT_TARGET_COLOR;
+              const color =
+                error === null
+                  ? getValidColor(graph, VALID_COLOR)
+                  : getInvalidColor(graph, INVALID_CONNECT_TARGET_COLOR);
               this.setHighlightColor(color);
               highlight = true;
             }
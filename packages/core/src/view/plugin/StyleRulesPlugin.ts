@@ -0,0 +1,162 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import InternalEvent from '../event/InternalEvent.js';
+import type Cell from '../cell/Cell.js';
+import type EventObject from '../event/EventObject.js';
+import type EventSource from '../event/EventSource.js';
+import type InternalMouseEvent from '../event/InternalMouseEvent.js';
+import type { AbstractGraph } from '../AbstractGraph.js';
+import type { GraphPlugin, MouseListenerSet, StyleRuleContext } from '../../types.js';
+
+/**
+ * A plugin tracking the states of the cells used by the {@link StyleRule}s of the {@link Stylesheet}: the selection and
+ * the cell under the mouse.
+ *
+ * Without this plugin, the rules with a `selected` or a `hovered` condition are evaluated as if the cells were neither
+ * selected nor hovered. With this plugin, the style of the cells is recomputed when they are selected, deselected,
+ * hovered or left by the mouse.
+ *
+ * ```javascript
+ * const graph = new Graph(container, undefined, [...getDefaultPlugins(), StyleRulesPlugin]);
+ * graph.getStylesheet().addStyleRule({
+ *   selector: { kind: 'vertex', hovered: true },
+ *   style: { fillColor: 'orange' },
+ * });
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Plugin
+ */
+export class StyleRulesPlugin implements GraphPlugin, MouseListenerSet {
+  static readonly pluginId = 'style-rules';
+
+  /**
+   * Constructs the plugin and starts tracking the selection and the mouse.
+   *
+   * @param graph Reference to the enclosing {@link AbstractGraph}.
+   */
+  constructor(graph: AbstractGraph) {
+    this.graph = graph;
+
+    graph.addMouseListener(this);
+    graph.getSelectionModel().addListener(InternalEvent.CHANGE, this.selectionHandler);
+    InternalEvent.addListener(graph.container, 'mouseleave', this.mouseLeaveHandler);
+  }
+
+  graph: AbstractGraph;
+
+  /**
+   * The cell under the mouse.
+   */
+  private hoveredCell: Cell | null = null;
+
+  private readonly selectionHandler = (_sender: EventSource, evt: EventObject) => {
+    // The added and removed cells are both refreshed, so the swap done by SelectionChange does not matter
+    this.refreshCellStyles([
+      ...(evt.getProperty('added') ?? []),
+      ...(evt.getProperty('removed') ?? []),
+    ]);
+  };
+
+  private readonly mouseLeaveHandler = () => {
+    this.setHoveredCell(null);
+  };
+
+  /**
+   * Returns the cell under the mouse.
+   */
+  getHoveredCell(): Cell | null {
+    return this.hoveredCell;
+  }
+
+  /**
+   * Sets the cell under the mouse and recomputes the style of the previous and the new hovered cells.
+   *
+   * @param cell The new hovered {@link Cell}, or `null` if the mouse is not over a cell.
+   */
+  setHoveredCell(cell: Cell | null): void {
+    const previous = this.hoveredCell;
+
+    if (previous !== cell) {
+      this.hoveredCell = cell;
+      this.refreshCellStyles([previous, cell].filter((c): c is Cell => c != null));
+    }
+  }
+
+  /**
+   * Returns the {@link StyleRuleContext} used to evaluate the {@link StyleRule}s of the given cell.
+   *
+   * @param cell The {@link Cell} whose style is computed.
+   */
+  getStyleRuleContext(cell: Cell): StyleRuleContext {
+    return {
+      cell,
+      selected: this.graph.isCellSelected(cell),
+      hovered: cell === this.hoveredCell,
+    };
+  }
+
+  /**
+   * Recomputes the style of the given cells and redraws them. Nothing is done if the {@link Stylesheet} does not contain
+   * any {@link StyleRule}.
+   *
+   * @param cells The {@link Cell}s to refresh.
+   */
+  refreshCellStyles(cells: Cell[]): void {
+    if (cells.length === 0 || !this.graph.getStylesheet().hasStyleRules()) {
+      return;
+    }
+    const view = this.graph.getView();
+
+    for (const cell of cells) {
+      const state = view.getState(cell);
+
+      if (state) {
+        // The connected edges are also invalidated because the style may change the bounds or the perimeter of the cell
+        view.invalidate(cell, false, true);
+        state.invalidStyle = true;
+      }
+    }
+    view.validate();
+  }
+
+  mouseDown(_sender: EventSource, _me: InternalMouseEvent): void {
+    // Nothing to do
+  }
+
+  mouseMove(_sender: EventSource, me: InternalMouseEvent): void {
+    this.setHoveredCell(me.getCell());
+  }
+
+  mouseUp(_sender: EventSource, _me: InternalMouseEvent): void {
+    // Nothing to do
+  }
+
+  onDestroy(): void {
+    this.graph.removeMouseListener(this);
+    this.graph.getSelectionModel().removeListener(this.selectionHandler);
+    InternalEvent.removeListener(
+      this.graph.container,
+      'mouseleave',
+      this.mouseLeaveHandler
+    );
+    this.hoveredCell = null;
+  }
+}
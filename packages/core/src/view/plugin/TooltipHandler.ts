@@ -29,6 +29,7 @@ import type { GraphPlugin, MouseListenerSet } from '../../types.js';
 import type EventSource from '../event/EventSource.js';
 import { htmlEntities } from '../../util/StringUtils.js';
 import { translate } from '../../internal/i18n-utils.js';
+import { sanitizeHtmlLabel } from '../../internal/utils.js';
 import type Shape from '../shape/Shape.js';
 import type SelectionCellsHandler from './SelectionCellsHandler.js';
 import type Cell from '../cell/Cell.js';
@@ -254,7 +255,7 @@ class TooltipHandler implements GraphPlugin, MouseListenerSet {
             // this (delayed) point in time is not possible in IE as it no
             // longer contains the required information (member not found)
             const tip = this.getTooltip(state, node as HTMLElement | SVGElement, x, y);
-            this.show(tip, x, y);
+            this.show(tip, x, y, state.cell);
             this.state = state;
             this.node = node;
             this.stateSource = stateSource;
@@ -285,8 +286,13 @@ class TooltipHandler implements GraphPlugin, MouseListenerSet {
   /**
    * Shows the tooltip for the specified cell and optional index at the
    * specified location (with a vertical offset of 10 pixels).
+   *
+   * A string tooltip is HTML markup, sanitized if {@link HtmlSanitizerConfig.enabled} is `true` or if the given cell has
+   * been imported and {@link HtmlSanitizerConfig.sanitizeImportedContent} is `true`.
+   *
+   * @param cell The optional {@link Cell} of the tooltip.
    */
-  show(tip: HTMLElement | string | null, x: number, y: number) {
+  show(tip: HTMLElement | string | null, x: number, y: number, cell: Cell | null = null) {
     if (!this.destroyed && tip && tip !== '') {
       const origin = getScrollOrigin();
       if (!this.div) {
@@ -297,7 +303,7 @@ class TooltipHandler implements GraphPlugin, MouseListenerSet {
       this.div!.style.top = `${y + TOOLTIP_VERTICAL_OFFSET + origin.y}px`;
 
       if (!isNode(tip)) {
-        this.div!.innerHTML = tip.replace(/\n/g, '<br>');
+        this.div!.innerHTML = sanitizeHtmlLabel(tip.replace(/\n/g, '<br>'), cell);
       } else {
         this.div!.innerHTML = '';
         this.div!.appendChild(tip);
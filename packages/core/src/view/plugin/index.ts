@@ -26,6 +26,7 @@ import { FitPlugin } from './FitPlugin.js';
 import { ImageBundlePlugin } from './ImageBundlePlugin.js';
 
 // Export all plugins and types to have them in the root barrel file
+export * from './AccessibilityPlugin.js';
 export { default as CellEditorHandler } from './CellEditorHandler.js';
 export { default as ConnectionHandler } from './ConnectionHandler.js';
 export * from './FitPlugin.js';
@@ -35,6 +36,7 @@ export { default as PopupMenuHandler } from './PopupMenuHandler.js';
 export { default as RubberBandHandler } from './RubberBandHandler.js';
 export { default as SelectionCellsHandler } from './SelectionCellsHandler.js';
 export { default as SelectionHandler } from './SelectionHandler.js';
+export * from './StyleRulesPlugin.js';
 export { default as TooltipHandler } from './TooltipHandler.js';
 
 /**
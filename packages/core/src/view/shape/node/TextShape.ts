@@ -47,8 +47,13 @@ import {
   VAlignValue,
 } from '../../../types.js';
 import SvgCanvas2D from '../../canvas/SvgCanvas2D.js';
-import { matchBinaryMask } from '../../../internal/utils.js';
+import {
+  isImportedLabelSanitized,
+  matchBinaryMask,
+  sanitizeHtmlLabel,
+} from '../../../internal/utils.js';
 import { StyleDefaultsConfig } from '../../../util/config.js';
+import { sanitizeHtml } from '../../../util/htmlUtils.js';
 
 /**
  * Extends {@link Shape} to implement a text shape.
@@ -259,6 +264,13 @@ class TextShape extends Shape {
 
       if (!realHtml && fmt === 'html') {
         val = htmlEntities(val, false);
+      } else if (
+        realHtml &&
+        !isNode(this.value) &&
+        isImportedLabelSanitized(this.state?.cell)
+      ) {
+        // The canvas sanitizes the HTML labels only if HtmlSanitizerConfig.enabled is true, it doesn't know the cell
+        val = sanitizeHtml(val);
       }
 
       if (fmt === 'html' && !isNode(this.value)) {
@@ -581,6 +593,8 @@ class TextShape extends Shape {
 
     if (this.dialect !== 'strictHtml') {
       val = htmlEntities(val, false);
+    } else {
+      val = sanitizeHtmlLabel(val, this.state?.cell);
     }
 
     // Handles trailing newlines to make sure they are visible in rendering output
@@ -706,6 +720,8 @@ class TextShape extends Shape {
       if (this.dialect !== 'strictHtml') {
         // LATER: Can be cached in updateValue
         val = htmlEntities(val, false);
+      } else {
+        val = sanitizeHtmlLabel(val, this.state?.cell);
       }
 
       // Handles trailing newlines to make sure they are visible in rendering output
@@ -731,6 +747,8 @@ class TextShape extends Shape {
 
       if (this.dialect !== 'strictHtml') {
         val = htmlEntities(val, false);
+      } else {
+        val = sanitizeHtmlLabel(val, this.state?.cell);
       }
 
       // Handles trailing newlines to make sure they are visible in rendering output
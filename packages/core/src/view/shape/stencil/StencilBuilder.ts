@@ -0,0 +1,403 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { StencilShape } from './StencilShape.js';
+import {
+  parseStencilDescription,
+  type StencilConstraint,
+  type StencilDescription,
+  type StencilDescriptionError,
+  type StencilInstruction,
+  type StencilPathSegment,
+  validateStencilDescription,
+  writeStencilDescription,
+} from './stencil-description.js';
+import type { AlignValue, VAlignValue } from '../../../types.js';
+import { getPrettyXml } from '../../../util/xmlUtils.js';
+
+/**
+ * Options of the {@link StencilBuilder}, written as the attributes of the `shape` element.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export type StencilBuilderOptions = Pick<
+  StencilDescription,
+  'w' | 'h' | 'aspect' | 'strokeWidth'
+>;
+
+/**
+ * Options of the `text` instruction of the {@link StencilBuilder}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export interface StencilTextOptions {
+  /** @default 'left' */
+  align?: AlignValue;
+  /** @default 'top' */
+  valign?: VAlignValue;
+  /** If `true`, the text is translated with the resources of the application. */
+  localized?: boolean;
+  /** If `true`, the text is rotated by -90 degrees. */
+  vertical?: boolean;
+  /** The rotation of the text, in degrees. */
+  rotation?: number;
+  /** If `false`, the text is not rotated with the shape. */
+  alignShape?: boolean;
+}
+
+/**
+ * Adds the segments of a `path` instruction of the {@link StencilBuilder}.
+ *
+ * The coordinates are in the coordinate space of the stencil, see {@link StencilBuilderOptions}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export class StencilPathBuilder {
+  constructor(private readonly segments: StencilPathSegment[]) {}
+
+  /** Starts a new subpath at the given point. */
+  moveTo(x: number, y: number): this {
+    return this.add({ type: 'move', x, y });
+  }
+
+  lineTo(x: number, y: number): this {
+    return this.add({ type: 'line', x, y });
+  }
+
+  /** Adds a quadratic Bézier curve with the control point (x1, y1). */
+  quadTo(x1: number, y1: number, x: number, y: number): this {
+    return this.add({ type: 'quad', x1, y1, x2: x, y2: y });
+  }
+
+  /** Adds a cubic Bézier curve with the control points (x1, y1) and (x2, y2). */
+  curveTo(x1: number, y1: number, x2: number, y2: number, x: number, y: number): this {
+    return this.add({ type: 'curve', x1, y1, x2, y2, x3: x, y3: y });
+  }
+
+  /** Adds an elliptical arc, with the same parameters as the `A` command of the SVG paths. */
+  arcTo(
+    rx: number,
+    ry: number,
+    xAxisRotation: number,
+    largeArc: boolean,
+    sweep: boolean,
+    x: number,
+    y: number
+  ): this {
+    return this.add({ type: 'arc', rx, ry, xAxisRotation, largeArc, sweep, x, y });
+  }
+
+  /** Closes the current subpath. */
+  close(): this {
+    return this.add({ type: 'close' });
+  }
+
+  private add(segment: StencilPathSegment): this {
+    this.segments.push(segment);
+    return this;
+  }
+}
+
+/**
+ * Builds the description of a {@link StencilShape} with a typed API, instead of writing the stencil XML by hand.
+ *
+ * The instructions are added to the `foreground` of the stencil. Call {@link background} to add the next instructions
+ * to the `background`, and {@link foreground} to switch back. The background is the part of the stencil which gets the
+ * shadow and the fill of the cell, see {@link StencilShape}.
+ *
+ * ```javascript
+ * const stencil = new StencilBuilder('tag', { w: 100, h: 50, aspect: 'fixed' })
+ *   .background()
+ *   .path((path) => path.moveTo(0, 0).lineTo(80, 0).lineTo(100, 25).lineTo(80, 50).lineTo(0, 50).close())
+ *   .fillStroke()
+ *   .foreground()
+ *   .ellipse(75, 20, 10, 10)
+ *   .stroke()
+ *   .constraint(0, 0.5, { name: 'W', perimeter: true })
+ *   .createStencil();
+ * StencilShapeRegistry.add('tag', stencil);
+ * ```
+ *
+ * Use {@link toXml} to store the description, and {@link validateStencilDescription} to check the stencils written by
+ * hand.
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Shape
+ */
+export class StencilBuilder {
+  private readonly description: StencilDescription;
+
+  private section: 'background' | 'foreground' = 'foreground';
+
+  /**
+   * @param name The name of the stencil.
+   * @param options The size of the coordinate space of the instructions, the aspect and the stroke width of the stencil.
+   */
+  constructor(name: string, options: StencilBuilderOptions = {}) {
+    this.description = { name, ...options };
+  }
+
+  /**
+   * Adds the next instructions to the `background` of the stencil.
+   */
+  background(): this {
+    this.section = 'background';
+    return this;
+  }
+
+  /**
+   * Adds the next instructions to the `foreground` of the stencil. This is the default.
+   */
+  foreground(): this {
+    this.section = 'foreground';
+    return this;
+  }
+
+  /**
+   * Adds a connection constraint.
+   *
+   * @param x The horizontal position, relative to the width of the stencil.
+   * @param y The vertical position, relative to the height of the stencil.
+   * @param options If `perimeter` is `true`, the connection point is projected on the perimeter of the shape.
+   */
+  constraint(
+    x: number,
+    y: number,
+    options: Omit<StencilConstraint, 'x' | 'y'> = {}
+  ): this {
+    (this.description.constraints ??= []).push({
+      x,
+      y,
+      perimeter: options.perimeter ?? false,
+      ...(options.name !== undefined && { name: options.name }),
+    });
+    return this;
+  }
+
+  /**
+   * Adds a path, whose segments are added by the given function.
+   *
+   * @param build The function adding the segments.
+   * @param options `rounded` and `arcSize` round the corners of the path, `crisp` disables the anti-aliasing.
+   */
+  path(
+    build: (path: StencilPathBuilder) => void,
+    options: { crisp?: boolean; rounded?: boolean; arcSize?: number } = {}
+  ): this {
+    const segments: StencilPathSegment[] = [];
+    build(new StencilPathBuilder(segments));
+    return this.add({ type: 'path', segments, ...options });
+  }
+
+  rect(x: number, y: number, w: number, h: number): this {
+    return this.add({ type: 'rect', x, y, w, h });
+  }
+
+  /**
+   * @param arcSize The size of the arcs, as a percentage of the smallest side.
+   */
+  roundRect(x: number, y: number, w: number, h: number, arcSize?: number): this {
+    return this.add({
+      type: 'roundrect',
+      x,
+      y,
+      w,
+      h,
+      ...(arcSize !== undefined && { arcSize }),
+    });
+  }
+
+  ellipse(x: number, y: number, w: number, h: number): this {
+    return this.add({ type: 'ellipse', x, y, w, h });
+  }
+
+  text(x: number, y: number, str: string, options: StencilTextOptions = {}): this {
+    return this.add({ type: 'text', str, x, y, ...options });
+  }
+
+  image(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    src: string,
+    options: { flipH?: boolean; flipV?: boolean } = {}
+  ): this {
+    return this.add({ type: 'image', src, x, y, w, h, ...options });
+  }
+
+  /**
+   * Draws the stencil registered with the given name in the {@link StencilShapeRegistry}.
+   */
+  includeShape(name: string, x: number, y: number, w: number, h: number): this {
+    return this.add({ type: 'include-shape', name, x, y, w, h });
+  }
+
+  /** Saves the current state of the canvas. */
+  save(): this {
+    return this.add({ type: 'save' });
+  }
+
+  /** Restores the last saved state of the canvas. */
+  restore(): this {
+    return this.add({ type: 'restore' });
+  }
+
+  fill(): this {
+    return this.add({ type: 'fill' });
+  }
+
+  stroke(): this {
+    return this.add({ type: 'stroke' });
+  }
+
+  fillStroke(): this {
+    return this.add({ type: 'fillstroke' });
+  }
+
+  fillColor(color: string): this {
+    return this.add({ type: 'fillcolor', color });
+  }
+
+  strokeColor(color: string): this {
+    return this.add({ type: 'strokecolor', color });
+  }
+
+  fontColor(color: string): this {
+    return this.add({ type: 'fontcolor', color });
+  }
+
+  alpha(alpha: number): this {
+    return this.add({ type: 'alpha', alpha });
+  }
+
+  fillAlpha(alpha: number): this {
+    return this.add({ type: 'fillalpha', alpha });
+  }
+
+  strokeAlpha(alpha: number): this {
+    return this.add({ type: 'strokealpha', alpha });
+  }
+
+  /**
+   * @param fixed If `true`, the width is not scaled with the stencil.
+   */
+  strokeWidth(width: number, fixed?: boolean): this {
+    return this.add({
+      type: 'strokewidth',
+      width,
+      ...(fixed !== undefined && { fixed }),
+    });
+  }
+
+  dashed(dashed = true): this {
+    return this.add({ type: 'dashed', dashed });
+  }
+
+  /**
+   * @param pattern The lengths of the dashes and of the spaces, relative to the stroke width.
+   */
+  dashPattern(pattern: number[] | string): this {
+    return this.add({
+      type: 'dashpattern',
+      pattern: Array.isArray(pattern) ? pattern.join(' ') : pattern,
+    });
+  }
+
+  miterLimit(limit: number): this {
+    return this.add({ type: 'miterlimit', limit });
+  }
+
+  lineJoin(join: 'miter' | 'round' | 'bevel'): this {
+    return this.add({ type: 'linejoin', join });
+  }
+
+  lineCap(cap: 'flat' | 'square' | 'round'): this {
+    return this.add({ type: 'linecap', cap });
+  }
+
+  fontSize(size: number): this {
+    return this.add({ type: 'fontsize', size });
+  }
+
+  /**
+   * @param style The font style, a combination of the values of `FONT_STYLE_MASK`.
+   */
+  fontStyle(style: number): this {
+    return this.add({ type: 'fontstyle', style });
+  }
+
+  fontFamily(family: string): this {
+    return this.add({ type: 'fontfamily', family });
+  }
+
+  /**
+   * Adds an instruction to the current section, see {@link background} and {@link foreground}.
+   */
+  add(instruction: StencilInstruction): this {
+    (this.description[this.section] ??= []).push(instruction);
+    return this;
+  }
+
+  /**
+   * Returns the errors of the description, for example the values which are not finite numbers.
+   */
+  validate(): StencilDescriptionError[] {
+    return validateStencilDescription(this.toElement());
+  }
+
+  /**
+   * Returns a copy of the description built so far.
+   *
+   * @throws {@link StencilDescriptionParseError} if the description is not valid, see {@link validate}.
+   */
+  build(): StencilDescription {
+    return parseStencilDescription(this.toElement());
+  }
+
+  /**
+   * Returns the `shape` element of the stencil XML language.
+   *
+   * @param doc The document used to create the elements. A new XML document is created if not set.
+   */
+  toElement(doc?: XMLDocument): Element {
+    return writeStencilDescription(this.description, doc);
+  }
+
+  /**
+   * Returns the stencil XML, indented to be stored in a file.
+   */
+  toXml(): string {
+    return getPrettyXml(this.toElement());
+  }
+
+  /**
+   * Creates the stencil. It must be added to the {@link StencilShapeRegistry} to be used in the `shape` style
+   * property of the cells.
+   */
+  createStencil(): StencilShape {
+    return new StencilShape(this.toElement());
+  }
+}
@@ -0,0 +1,1183 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { StencilShape } from './StencilShape.js';
+import { StencilShapeRegistry } from './StencilShapeRegistry.js';
+import { FONT_STYLE_MASK } from '../../../util/Constants.js';
+import { createXmlDocument, parseXml } from '../../../util/xmlUtils.js';
+import { getElementPath, isElement } from '../../../internal/utils.js';
+import {
+  arcToCurves,
+  getScaleFactor,
+  IDENTITY_MATRIX,
+  isAxisAligned,
+  type Matrix,
+  multiplyMatrices,
+  parsePathData,
+  parseTransform,
+  type PathSegment,
+  transformPoint,
+  transformSegments,
+} from '../../../internal/svg-path-utils.js';
+
+/**
+ * Options of the {@link SvgStencilImporter}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export interface SvgStencilImportOptions {
+  /**
+   * How the fill and stroke colors of the SVG are converted:
+   * - `placeholder`: the stencil uses the `fillColor`, `strokeColor` and `fontColor` of the cell style, so the colors
+   *   can be changed per cell. Only `none` is kept from the SVG.
+   * - `keep`: the colors of the SVG are written in the stencil. Only `currentColor` is replaced by the colors of the
+   *   cell style.
+   *
+   * @default 'placeholder'
+   */
+  colors?: 'placeholder' | 'keep';
+  /**
+   * The aspect of the stencil. By default, it is `fixed` unless the `preserveAspectRatio` attribute of the root
+   * element is `none`.
+   */
+  aspect?: 'fixed' | 'variable';
+  /**
+   * If `true`, the stencil gets the connection constraints at the middle of its 4 sides when the SVG does not define
+   * any connection constraint. See {@link SvgStencilImporter}.
+   * @default true
+   */
+  defaultConstraints?: boolean;
+  /**
+   * If `true`, the stencil is registered in the {@link StencilShapeRegistry}.
+   * @default true
+   */
+  register?: boolean;
+}
+
+/**
+ * A SVG feature which is not supported or only partially supported by the {@link SvgStencilImporter}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export interface SvgStencilImportWarning {
+  /**
+   * The description of the feature and of how it is converted.
+   */
+  message: string;
+  /**
+   * The path of the SVG element, for example `/svg/g[2]/path[1]`.
+   */
+  path: string;
+}
+
+/**
+ * The result of {@link SvgStencilImporter.import}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export interface SvgStencilImportResult {
+  /**
+   * The stencil created from the description.
+   */
+  stencil: StencilShape;
+  /**
+   * The stencil description, i.e. the `shape` element of the stencil XML language.
+   */
+  description: Element;
+  /**
+   * The SVG features which are not supported or only partially supported.
+   */
+  warnings: SvgStencilImportWarning[];
+}
+
+/**
+ * Converts SVG documents into {@link StencilShape}s.
+ *
+ * The following SVG features are converted:
+ * - the `path`, `rect`, `circle`, `ellipse`, `line`, `polyline`, `polygon`, `text` and `image` elements, and the `g`,
+ *   `a`, `svg` and `use` containers
+ * - the `transform` attribute. The shapes which are rotated or skewed are converted into paths.
+ * - the fill and stroke properties, set as presentation attributes or in the `style` attribute. See
+ *   {@link SvgStencilImportOptions.colors}.
+ * - the font properties and the `text-anchor` of the texts.
+ *
+ * The size of the stencil is the `viewBox` of the SVG, or its `width` and `height`, or the bounds of its content.
+ *
+ * The elements with a `data-constraint` attribute are not drawn. They define a connection constraint at the center of
+ * their bounds, whose name is the value of the attribute.
+ *
+ * The unsupported features (CSS style sheets, gradients, filters, clipping, masks, markers...) are reported in the
+ * {@link SvgStencilImportResult.warnings}, along with the way they are converted.
+ *
+ * ```javascript
+ * const { stencil, warnings } = new SvgStencilImporter().import('server', svgText);
+ * warnings.forEach((warning) => console.warn(`${warning.path}: ${warning.message}`));
+ * graph.insertVertex({ ..., style: { shape: 'server' } });
+ * ```
+ *
+ * **WARN**: this is an experimental feature that is subject to change (class and method names).
+ *
+ * @experimental
+ * @since 0.25.0
+ * @category Shape
+ */
+export class SvgStencilImporter {
+  constructor(private readonly options: SvgStencilImportOptions = {}) {}
+
+  /**
+   * Converts the SVG document into a stencil.
+   *
+   * @param name The name of the stencil, used to register it in the {@link StencilShapeRegistry}.
+   * @param svg The SVG document as a string, or its root element.
+   * @throws {Error} if the string is not a well-formed SVG document.
+   */
+  import(name: string, svg: string | Element): SvgStencilImportResult {
+    const root = typeof svg === 'string' ? parseSvg(svg) : svg;
+    const conversion = new SvgConversion(root, this.options);
+    const description = conversion.convert(name);
+    const stencil = new StencilShape(description);
+
+    if (this.options.register ?? true) {
+      StencilShapeRegistry.add(name, stencil);
+    }
+    return { stencil, description, warnings: conversion.warnings };
+  }
+}
+
+const parseSvg = (svg: string): Element => {
+  const root = parseXml(svg).documentElement;
+
+  if (
+    !root ||
+    root.getElementsByTagName('parsererror').length > 0 ||
+    root.localName === 'parsererror'
+  ) {
+    throw new Error('SvgStencilImporter: the SVG document is not well-formed');
+  }
+  if (root.localName !== 'svg') {
+    throw new Error(
+      `SvgStencilImporter: the root element is '${root.localName}' instead of 'svg'`
+    );
+  }
+  return root;
+};
+
+const PLACEHOLDER = 'currentColor';
+
+// The properties inherited by the child elements
+const INHERITED_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'fill-rule',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'stroke-miterlimit',
+  'font-size',
+  'font-family',
+  'font-weight',
+  'font-style',
+  'text-anchor',
+  'text-decoration',
+  'dominant-baseline',
+  'visibility',
+];
+
+const SILENTLY_IGNORED_ELEMENTS = ['defs', 'symbol', 'title', 'desc', 'metadata'];
+const UNSUPPORTED_ELEMENTS = [
+  'style',
+  'filter',
+  'clipPath',
+  'mask',
+  'pattern',
+  'marker',
+  'linearGradient',
+  'radialGradient',
+  'foreignObject',
+  'switch',
+  'script',
+  'animate',
+  'animateMotion',
+  'animateTransform',
+  'set',
+];
+const UNSUPPORTED_ATTRIBUTES = [
+  'clip-path',
+  'mask',
+  'filter',
+  'marker-start',
+  'marker-mid',
+  'marker-end',
+];
+
+interface Paint {
+  fill: string | null;
+  stroke: string | null;
+  properties: Record<string, string>;
+  opacity: number;
+  scale: number;
+}
+
+type Geometry =
+  | { type: 'path'; segments: PathSegment[] }
+  | {
+      type: 'rect' | 'ellipse';
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+      arcSize?: number;
+    }
+  | { type: 'text'; x: number; y: number; str: string; align: string; valign: string }
+  | {
+      type: 'image';
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+      src: string;
+      flipH: boolean;
+      flipV: boolean;
+    };
+
+interface Item {
+  geometry: Geometry;
+  paint: Paint;
+  constraint: string | null;
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Converts one SVG document. The items are collected first, so the bounds of the content are known when writing the
+ * stencil description.
+ */
+class SvgConversion {
+  readonly warnings: SvgStencilImportWarning[] = [];
+
+  private readonly items: Item[] = [];
+  private readonly elementsById = new Map<string, Element>();
+
+  constructor(
+    private readonly root: Element,
+    private readonly options: SvgStencilImportOptions
+  ) {
+    for (const element of Array.from(root.getElementsByTagName('*'))) {
+      const id = element.getAttribute('id');
+      id && this.elementsById.set(id, element);
+    }
+  }
+
+  convert(name: string): Element {
+    this.convertElement(this.root, IDENTITY_MATRIX, {}, 1, []);
+    const [x, y, w, h] = this.getViewport();
+
+    const doc = createXmlDocument();
+    const shape = doc.createElement('shape');
+    doc.appendChild(shape);
+    shape.setAttribute('name', name);
+    shape.setAttribute('w', format(w));
+    shape.setAttribute('h', format(h));
+    shape.setAttribute('aspect', this.getAspect());
+    shape.setAttribute('strokewidth', 'inherit');
+
+    const writer = new DescriptionWriter(doc, x, y, this.options.colors === 'keep');
+    const connections = doc.createElement('connections');
+    const background = doc.createElement('background');
+    const foreground = doc.createElement('foreground');
+
+    for (const item of this.items) {
+      if (item.constraint !== null) {
+        const bounds = computeBounds([item]);
+        const constraint = doc.createElement('constraint');
+        constraint.setAttribute('x', format(((bounds.minX + bounds.maxX) / 2 - x) / w));
+        constraint.setAttribute('y', format(((bounds.minY + bounds.maxY) / 2 - y) / h));
+        constraint.setAttribute('perimeter', '0');
+        item.constraint && constraint.setAttribute('name', item.constraint);
+        connections.appendChild(constraint);
+      } else {
+        // The first painted element is the background of the shape, i.e. the element with the shadow
+        const parent =
+          background.childNodes.length === 0 && isPainted(item) ? background : foreground;
+        writer.write(item, parent);
+      }
+    }
+    if (
+      connections.childNodes.length === 0 &&
+      (this.options.defaultConstraints ?? true)
+    ) {
+      for (const [constraintName, cx, cy] of DEFAULT_CONSTRAINTS) {
+        const constraint = doc.createElement('constraint');
+        constraint.setAttribute('x', String(cx));
+        constraint.setAttribute('y', String(cy));
+        constraint.setAttribute('perimeter', '1');
+        constraint.setAttribute('name', constraintName);
+        connections.appendChild(constraint);
+      }
+    }
+
+    connections.childNodes.length > 0 && shape.appendChild(connections);
+    shape.appendChild(background);
+    shape.appendChild(foreground);
+    return shape;
+  }
+
+  private getAspect(): string {
+    return (
+      this.options.aspect ??
+      (this.root.getAttribute('preserveAspectRatio')?.trim() === 'none'
+        ? 'variable'
+        : 'fixed')
+    );
+  }
+
+  private getViewport(): [number, number, number, number] {
+    const viewBox = this.root
+      .getAttribute('viewBox')
+      ?.trim()
+      .split(/[\s,]+/)
+      .map(Number);
+
+    if (
+      viewBox?.length === 4 &&
+      viewBox.every(Number.isFinite) &&
+      viewBox[2] > 0 &&
+      viewBox[3] > 0
+    ) {
+      return viewBox as [number, number, number, number];
+    }
+    this.root.hasAttribute('viewBox') &&
+      this.warn(this.root, 'The viewBox is invalid, it is ignored');
+
+    const width = this.getLength(this.root, 'width');
+    const height = this.getLength(this.root, 'height');
+    if (width && height) {
+      return [0, 0, width, height];
+    }
+
+    const bounds = computeBounds(this.items);
+    if (bounds.maxX > bounds.minX && bounds.maxY > bounds.minY) {
+      return [
+        bounds.minX,
+        bounds.minY,
+        bounds.maxX - bounds.minX,
+        bounds.maxY - bounds.minY,
+      ];
+    }
+    this.warn(this.root, 'The size of the SVG cannot be computed, 100x100 is used');
+    return [0, 0, 100, 100];
+  }
+
+  private convertChildren(
+    parent: Element,
+    matrix: Matrix,
+    inherited: Record<string, string>,
+    opacity: number,
+    usePath: Element[]
+  ): void {
+    for (const child of Array.from(parent.childNodes)) {
+      isElement(child) && this.convertElement(child, matrix, inherited, opacity, usePath);
+    }
+  }
+
+  private convertElement(
+    element: Element,
+    parentMatrix: Matrix,
+    parentInherited: Record<string, string>,
+    parentOpacity: number,
+    usePath: Element[]
+  ): void {
+    const name = element.localName;
+
+    if (SILENTLY_IGNORED_ELEMENTS.includes(name)) {
+      return;
+    }
+    if (UNSUPPORTED_ELEMENTS.includes(name)) {
+      this.warn(
+        element,
+        name === 'style'
+          ? 'CSS style sheets are not supported, use presentation attributes or the style attribute'
+          : `The ${name} element is not supported, it is ignored`
+      );
+      return;
+    }
+
+    const styles = parseStyleAttribute(element.getAttribute('style'));
+    const getProperty = (property: string) =>
+      styles[property] ?? element.getAttribute(property) ?? undefined;
+
+    if (getProperty('display') === 'none') {
+      return;
+    }
+    const inherited = { ...parentInherited };
+    for (const property of INHERITED_PROPERTIES) {
+      const value = getProperty(property);
+      value !== undefined && value !== 'inherit' && (inherited[property] = value);
+    }
+    for (const attribute of UNSUPPORTED_ATTRIBUTES) {
+      getProperty(attribute) !== undefined &&
+        getProperty(attribute) !== 'none' &&
+        this.warn(element, `The ${attribute} attribute is not supported, it is ignored`);
+    }
+
+    let matrix = parentMatrix;
+    const transform = element.getAttribute('transform');
+    if (transform) {
+      const parsed = parseTransform(transform);
+      parsed
+        ? (matrix = multiplyMatrices(parentMatrix, parsed))
+        : this.warn(element, `The transform '${transform}' is invalid, it is ignored`);
+    }
+    const opacity = parentOpacity * this.getNumber(getProperty('opacity'), 1);
+
+    switch (name) {
+      case 'g':
+      case 'a':
+        this.convertChildren(element, matrix, inherited, opacity, usePath);
+        break;
+      case 'svg': {
+        if (element === this.root) {
+          this.convertChildren(element, matrix, inherited, opacity, usePath);
+          break;
+        }
+        element.hasAttribute('viewBox') &&
+          this.warn(
+            element,
+            'The viewBox of nested svg elements is not supported, it is ignored'
+          );
+        const translation: Matrix = [
+          1,
+          0,
+          0,
+          1,
+          this.getLength(element, 'x'),
+          this.getLength(element, 'y'),
+        ];
+        this.convertChildren(
+          element,
+          multiplyMatrices(matrix, translation),
+          inherited,
+          opacity,
+          usePath
+        );
+        break;
+      }
+      case 'use':
+        this.convertUse(element, matrix, inherited, opacity, usePath);
+        break;
+      default: {
+        const geometry = this.createGeometry(element, matrix, inherited);
+        if (geometry) {
+          const constraint = element.getAttribute('data-constraint');
+          const paint = this.createPaint(element, name, inherited, opacity, matrix);
+
+          (inherited['visibility'] !== 'hidden' || constraint !== null) &&
+            this.items.push({ geometry, paint, constraint });
+        }
+      }
+    }
+  }
+
+  private convertUse(
+    element: Element,
+    matrix: Matrix,
+    inherited: Record<string, string>,
+    opacity: number,
+    usePath: Element[]
+  ): void {
+    const href =
+      element.getAttribute('href') ?? element.getAttributeNS(XLINK_NAMESPACE, 'href');
+    const referenced = href?.startsWith('#')
+      ? this.elementsById.get(href.slice(1))
+      : undefined;
+
+    if (!referenced) {
+      this.warn(
+        element,
+        `The referenced element '${href}' is not found in the document, it is ignored`
+      );
+      return;
+    }
+    if (usePath.includes(element) || isAncestor(referenced, element)) {
+      this.warn(element, `The reference to '${href}' is circular, it is ignored`);
+      return;
+    }
+    const translation: Matrix = [
+      1,
+      0,
+      0,
+      1,
+      this.getLength(element, 'x'),
+      this.getLength(element, 'y'),
+    ];
+    const useMatrix = multiplyMatrices(matrix, translation);
+    const nextUsePath = [...usePath, element];
+
+    if (referenced.localName === 'symbol') {
+      referenced.hasAttribute('viewBox') &&
+        this.warn(
+          referenced,
+          'The viewBox of symbol elements is not supported, it is ignored'
+        );
+      this.convertChildren(referenced, useMatrix, inherited, opacity, nextUsePath);
+    } else {
+      this.convertElement(referenced, useMatrix, inherited, opacity, nextUsePath);
+    }
+  }
+
+  private createGeometry(
+    element: Element,
+    matrix: Matrix,
+    inherited: Record<string, string>
+  ): Geometry | null {
+    const length = (attribute: string) => this.getLength(element, attribute);
+
+    switch (element.localName) {
+      case 'path': {
+        const data = element.getAttribute('d') ?? '';
+        const { segments, errorIndex } = parsePathData(data);
+        errorIndex !== null &&
+          this.warn(
+            element,
+            `The path data is invalid at position ${errorIndex}, the path is truncated`
+          );
+        return segments.length > 0 ? toPath(segments, matrix) : null;
+      }
+      case 'rect': {
+        const [x, y, w, h] = [
+          length('x'),
+          length('y'),
+          length('width'),
+          length('height'),
+        ];
+        if (w <= 0 || h <= 0) {
+          return null;
+        }
+        // As specified, a missing radius takes the value of the other one
+        const rx = Math.min(length(element.hasAttribute('rx') ? 'rx' : 'ry'), w / 2);
+        const ry = Math.min(length(element.hasAttribute('ry') ? 'ry' : 'rx'), h / 2);
+
+        if (
+          isAxisAligned(matrix) &&
+          rx === ry &&
+          Math.abs(matrix[0]) === Math.abs(matrix[3])
+        ) {
+          return {
+            ...toBox(matrix, x, y, w, h, 'rect'),
+            ...(rx > 0 && { arcSize: (rx / Math.min(w, h)) * 100 }),
+          };
+        }
+        if (rx === 0 && ry === 0) {
+          return isAxisAligned(matrix)
+            ? toBox(matrix, x, y, w, h, 'rect')
+            : toPath(parsePathData(`M${x} ${y}h${w}v${h}h${-w}z`).segments, matrix);
+        }
+        const arc = (dx: number, dy: number) => `a${rx} ${ry} 0 0 1 ${dx} ${dy}`;
+        return toPath(
+          parsePathData(
+            `M${x + rx} ${y}h${w - 2 * rx}${arc(rx, ry)}v${h - 2 * ry}${arc(-rx, ry)}h${2 * rx - w}${arc(-rx, -ry)}v${2 * ry - h}${arc(rx, -ry)}z`
+          ).segments,
+          matrix
+        );
+      }
+      case 'circle':
+      case 'ellipse': {
+        const isCircle = element.localName === 'circle';
+        const [cx, cy] = [length('cx'), length('cy')];
+        const rx = length(isCircle ? 'r' : 'rx');
+        const ry = length(isCircle ? 'r' : 'ry');
+        if (rx <= 0 || ry <= 0) {
+          return null;
+        }
+        if (isAxisAligned(matrix)) {
+          return toBox(matrix, cx - rx, cy - ry, 2 * rx, 2 * ry, 'ellipse');
+        }
+        const arc = (x: number, y: number) => `A${rx} ${ry} 0 0 1 ${x} ${y}`;
+        return toPath(
+          parsePathData(
+            `M${cx + rx} ${cy}${arc(cx, cy + ry)}${arc(cx - rx, cy)}${arc(cx, cy - ry)}${arc(cx + rx, cy)}z`
+          ).segments,
+          matrix
+        );
+      }
+      case 'line':
+        return toPath(
+          [
+            { type: 'move', x: length('x1'), y: length('y1') },
+            { type: 'line', x: length('x2'), y: length('y2') },
+          ],
+          matrix
+        );
+      case 'polyline':
+      case 'polygon': {
+        const values = (element.getAttribute('points') ?? '')
+          .trim()
+          .split(/[\s,]+/)
+          .filter((value) => value !== '')
+          .map(Number);
+        if (values.length % 2 !== 0 || values.some((value) => !Number.isFinite(value))) {
+          this.warn(element, 'The points are invalid, the element is truncated');
+        }
+        const segments: PathSegment[] = [];
+        for (
+          let i = 0;
+          i + 1 < values.length && Number.isFinite(values[i] + values[i + 1]);
+          i += 2
+        ) {
+          segments.push({
+            type: i === 0 ? 'move' : 'line',
+            x: values[i],
+            y: values[i + 1],
+          });
+        }
+        element.localName === 'polygon' &&
+          segments.length > 0 &&
+          segments.push({ type: 'close' });
+        return segments.length > 1 ? toPath(segments, matrix) : null;
+      }
+      case 'text':
+        return this.createText(element, matrix, inherited);
+      case 'image':
+        return this.createImage(element, matrix);
+      default:
+        this.warn(
+          element,
+          `The ${element.localName} element is not supported, it is ignored`
+        );
+        return null;
+    }
+  }
+
+  private createText(
+    element: Element,
+    matrix: Matrix,
+    inherited: Record<string, string>
+  ): Geometry | null {
+    const str = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (!str) {
+      return null;
+    }
+    for (const child of Array.from(element.getElementsByTagName('*'))) {
+      ['x', 'y', 'dx', 'dy', 'rotate', 'transform'].some((attribute) =>
+        child.hasAttribute(attribute)
+      ) &&
+        this.warn(
+          child,
+          `The position of ${child.localName} elements is not supported, the text is written on one line`
+        );
+    }
+    if (!isAxisAligned(matrix)) {
+      this.warn(
+        element,
+        'Rotated and skewed texts are not supported, only the position of the text is transformed'
+      );
+    }
+    const [x, y] = transformPoint(
+      matrix,
+      this.getLength(element, 'x'),
+      this.getLength(element, 'y')
+    );
+    const baseline = inherited['dominant-baseline'] ?? '';
+
+    return {
+      type: 'text',
+      x,
+      y,
+      str,
+      align: { middle: 'center', end: 'right' }[inherited['text-anchor'] ?? ''] ?? 'left',
+      valign: ['middle', 'central'].includes(baseline)
+        ? 'middle'
+        : ['hanging', 'text-before-edge'].includes(baseline)
+          ? 'top'
+          : 'bottom',
+    };
+  }
+
+  private createImage(element: Element, matrix: Matrix): Geometry | null {
+    const src =
+      element.getAttribute('href') ?? element.getAttributeNS(XLINK_NAMESPACE, 'href');
+    if (!src) {
+      return null;
+    }
+    if (!isAxisAligned(matrix)) {
+      this.warn(
+        element,
+        'Rotated and skewed images are not supported, the image is ignored'
+      );
+      return null;
+    }
+    const box = toBox(
+      matrix,
+      this.getLength(element, 'x'),
+      this.getLength(element, 'y'),
+      this.getLength(element, 'width'),
+      this.getLength(element, 'height'),
+      'rect'
+    );
+    return { ...box, type: 'image', src, flipH: matrix[0] < 0, flipV: matrix[3] < 0 };
+  }
+
+  private createPaint(
+    element: Element,
+    name: string,
+    inherited: Record<string, string>,
+    opacity: number,
+    matrix: Matrix
+  ): Paint {
+    if (inherited['fill-rule'] === 'evenodd' && name !== 'text') {
+      this.warn(
+        element,
+        'The evenodd fill rule is not supported, the nonzero fill rule is used'
+      );
+    }
+    return {
+      // The lines are never filled
+      fill: name === 'line' ? null : this.getColor(element, inherited['fill'] ?? 'black'),
+      stroke: this.getColor(element, inherited['stroke'] ?? 'none'),
+      properties: inherited,
+      opacity,
+      scale: getScaleFactor(matrix),
+    };
+  }
+
+  private getColor(element: Element, value: string): string | null {
+    const color = value.trim();
+
+    if (color === 'none' || color === 'transparent') {
+      return null;
+    }
+    if (color.startsWith('url(')) {
+      const fallback = color.slice(color.indexOf(')') + 1).trim();
+      this.warn(
+        element,
+        `Gradients and patterns are not supported, ${fallback ? `the fallback color '${fallback}'` : 'the color of the cell style'} is used`
+      );
+      return fallback ? this.getColor(element, fallback) : PLACEHOLDER;
+    }
+    return this.options.colors === 'keep' ? color : PLACEHOLDER;
+  }
+
+  private getLength(element: Element, attribute: string): number {
+    const value = element.getAttribute(attribute);
+    if (value === null) {
+      return 0;
+    }
+    const match = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)(px)?\s*$/.exec(value);
+    if (!match) {
+      this.warn(
+        element,
+        `The ${attribute} '${value}' is not supported, only lengths in user units or px are supported`
+      );
+      return 0;
+    }
+    return Number(match[1]);
+  }
+
+  private getNumber(value: string | undefined, defaultValue: number): number {
+    const number = Number(value);
+    return value === undefined || !Number.isFinite(number) ? defaultValue : number;
+  }
+
+  private warn(element: Element, message: string): void {
+    this.warnings.push({ message, path: getElementPath(element) });
+  }
+}
+
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+
+const DEFAULT_CONSTRAINTS: [string, number, number][] = [
+  ['N', 0.5, 0],
+  ['E', 1, 0.5],
+  ['S', 0.5, 1],
+  ['W', 0, 0.5],
+];
+
+/**
+ * Writes the items as stencil elements, relative to the origin of the viewport.
+ */
+class DescriptionWriter {
+  constructor(
+    private readonly doc: XMLDocument,
+    private readonly x0: number,
+    private readonly y0: number,
+    private readonly keepColors: boolean
+  ) {}
+
+  write(item: Item, parent: Element): void {
+    const { geometry, paint } = item;
+
+    if (geometry.type === 'text' || geometry.type === 'image') {
+      this.writeShape(item, parent, paint.opacity, null);
+      return;
+    }
+    const fillAlpha = paint.opacity * getOpacity(paint.properties['fill-opacity']);
+    const strokeAlpha = paint.opacity * getOpacity(paint.properties['stroke-opacity']);
+
+    if (paint.fill && paint.stroke && fillAlpha !== strokeAlpha) {
+      // The alpha instruction applies to the fill and to the stroke, so they are drawn separately
+      this.writeShape(item, parent, fillAlpha, 'fill');
+      this.writeShape(item, parent, strokeAlpha, 'stroke');
+    } else if (paint.fill) {
+      this.writeShape(item, parent, fillAlpha, paint.stroke ? 'fillstroke' : 'fill');
+    } else {
+      this.writeShape(item, parent, strokeAlpha, paint.stroke ? 'stroke' : null);
+    }
+  }
+
+  private writeShape(
+    item: Item,
+    parent: Element,
+    alpha: number,
+    operation: 'fill' | 'stroke' | 'fillstroke' | null
+  ): void {
+    const { geometry } = item;
+    const states = this.createStateElements(item, alpha, operation);
+    const target = parent;
+
+    // The state is saved and restored to keep the colors of the cell style for the next elements
+    states.length > 0 && this.append(parent, 'save');
+    states.forEach((state) => target.appendChild(state));
+
+    switch (geometry.type) {
+      case 'path': {
+        const path = this.append(target, 'path');
+        for (const segment of geometry.segments) {
+          this.appendSegment(path, segment);
+        }
+        break;
+      }
+      case 'rect':
+      case 'ellipse':
+        this.append(target, geometry.arcSize ? 'roundrect' : geometry.type, {
+          x: this.x(geometry.x),
+          y: this.y(geometry.y),
+          w: format(geometry.w),
+          h: format(geometry.h),
+          ...(geometry.arcSize && { arcsize: format(geometry.arcSize) }),
+        });
+        break;
+      case 'text':
+        this.append(target, 'text', {
+          str: geometry.str,
+          x: this.x(geometry.x),
+          y: this.y(geometry.y),
+          align: geometry.align,
+          valign: geometry.valign,
+        });
+        break;
+      case 'image':
+        this.append(target, 'image', {
+          src: geometry.src,
+          x: this.x(geometry.x),
+          y: this.y(geometry.y),
+          w: format(geometry.w),
+          h: format(geometry.h),
+          ...(geometry.flipH && { flipH: '1' }),
+          ...(geometry.flipV && { flipV: '1' }),
+        });
+        break;
+    }
+
+    operation && this.append(target, operation);
+    states.length > 0 && this.append(parent, 'restore');
+  }
+
+  private createStateElements(
+    { geometry, paint }: Item,
+    alpha: number,
+    operation: 'fill' | 'stroke' | 'fillstroke' | null
+  ): Element[] {
+    const properties = paint.properties;
+    const states: Element[] = [];
+    const add = (name: string, attributes: Record<string, string>) =>
+      states.push(this.create(name, attributes));
+    const isLiteral = (color: string | null): color is string =>
+      this.keepColors && color !== null && color !== PLACEHOLDER;
+
+    alpha < 1 && add('alpha', { alpha: format(alpha) });
+
+    if (geometry.type === 'text') {
+      isLiteral(paint.fill) && add('fontcolor', { color: paint.fill });
+      properties['font-size'] &&
+        add('fontsize', {
+          size: format(Number.parseFloat(properties['font-size']) * paint.scale),
+        });
+      properties['font-family'] &&
+        add('fontfamily', { family: properties['font-family'] });
+      const fontStyle = getFontStyle(properties);
+      fontStyle > 0 && add('fontstyle', { style: String(fontStyle) });
+      return states;
+    }
+
+    operation !== 'stroke' &&
+      isLiteral(paint.fill) &&
+      add('fillcolor', { color: paint.fill });
+
+    if (operation !== 'fill' && paint.stroke) {
+      isLiteral(paint.stroke) && add('strokecolor', { color: paint.stroke });
+      const strokeWidth =
+        Number.parseFloat(properties['stroke-width'] ?? '1') * paint.scale;
+      (properties['stroke-width'] || this.keepColors) &&
+        add('strokewidth', { width: format(strokeWidth) });
+
+      const dashes = (properties['stroke-dasharray'] ?? 'none')
+        .split(/[\s,]+/)
+        .map(Number.parseFloat)
+        .filter(Number.isFinite);
+      if (dashes.length > 0 && strokeWidth > 0) {
+        add('dashed', { dashed: '1' });
+        // The dash pattern of the canvas is relative to the stroke width
+        add('dashpattern', {
+          pattern: dashes
+            .map((dash) => format((dash * paint.scale) / strokeWidth))
+            .join(' '),
+        });
+      }
+      const lineCap = properties['stroke-linecap'];
+      // The stencils name 'flat' the 'butt' line cap of SVG
+      lineCap && add('linecap', { cap: lineCap === 'butt' ? 'flat' : lineCap });
+      properties['stroke-linejoin'] &&
+        add('linejoin', { join: properties['stroke-linejoin'] });
+      properties['stroke-miterlimit'] &&
+        add('miterlimit', { limit: properties['stroke-miterlimit'] });
+    }
+    return states;
+  }
+
+  private appendSegment(path: Element, segment: PathSegment): void {
+    switch (segment.type) {
+      case 'close':
+        this.append(path, 'close');
+        break;
+      case 'move':
+      case 'line':
+        this.append(path, segment.type, { x: this.x(segment.x), y: this.y(segment.y) });
+        break;
+      case 'quad':
+        this.append(path, 'quad', {
+          x1: this.x(segment.x1),
+          y1: this.y(segment.y1),
+          x2: this.x(segment.x),
+          y2: this.y(segment.y),
+        });
+        break;
+      case 'curve':
+        this.append(path, 'curve', {
+          x1: this.x(segment.x1),
+          y1: this.y(segment.y1),
+          x2: this.x(segment.x2),
+          y2: this.y(segment.y2),
+          x3: this.x(segment.x),
+          y3: this.y(segment.y),
+        });
+        break;
+      case 'arc':
+        this.append(path, 'arc', {
+          rx: format(segment.rx),
+          ry: format(segment.ry),
+          'x-axis-rotation': format(segment.rotation),
+          'large-arc-flag': segment.largeArc ? '1' : '0',
+          'sweep-flag': segment.sweep ? '1' : '0',
+          x: this.x(segment.x),
+          y: this.y(segment.y),
+        });
+        break;
+    }
+  }
+
+  private x(value: number): string {
+    return format(value - this.x0);
+  }
+
+  private y(value: number): string {
+    return format(value - this.y0);
+  }
+
+  private create(name: string, attributes: Record<string, string> = {}): Element {
+    const element = this.doc.createElement(name);
+    for (const [attribute, value] of Object.entries(attributes)) {
+      element.setAttribute(attribute, value);
+    }
+    return element;
+  }
+
+  private append(
+    parent: Element,
+    name: string,
+    attributes?: Record<string, string>
+  ): Element {
+    return parent.appendChild(this.create(name, attributes));
+  }
+}
+
+const format = (value: number): string => String(Math.round(value * 1000) / 1000 || 0);
+
+/**
+ * Returns the value of an opacity property, a number or a percentage, clamped to [0, 1].
+ */
+const getOpacity = (value: string | undefined): number => {
+  const opacity = Number.parseFloat(value ?? '');
+  if (!Number.isFinite(opacity)) {
+    return 1;
+  }
+  return Math.min(Math.max(value!.trim().endsWith('%') ? opacity / 100 : opacity, 0), 1);
+};
+
+const isPainted = ({ geometry, paint }: Item): boolean =>
+  geometry.type !== 'text' &&
+  geometry.type !== 'image' &&
+  (paint.fill !== null || paint.stroke !== null);
+
+const getFontStyle = (properties: Record<string, string>): number => {
+  const weight = properties['font-weight'] ?? '';
+  const bold = weight === 'bold' || weight === 'bolder' || Number(weight) >= 600;
+  const italic = ['italic', 'oblique'].includes(properties['font-style'] ?? '');
+  const underline = (properties['text-decoration'] ?? '').includes('underline');
+
+  return (
+    (bold ? FONT_STYLE_MASK.BOLD : 0) |
+    (italic ? FONT_STYLE_MASK.ITALIC : 0) |
+    (underline ? FONT_STYLE_MASK.UNDERLINE : 0)
+  );
+};
+
+const toPath = (segments: PathSegment[], matrix: Matrix): Geometry => ({
+  type: 'path',
+  segments: transformSegments(segments, matrix),
+});
+
+const toBox = (
+  matrix: Matrix,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  type: 'rect' | 'ellipse'
+): Extract<Geometry, { type: 'rect' | 'ellipse' }> => {
+  const [x1, y1] = transformPoint(matrix, x, y);
+  const [x2, y2] = transformPoint(matrix, x + w, y + h);
+  return {
+    type,
+    x: Math.min(x1, x2),
+    y: Math.min(y1, y2),
+    w: Math.abs(x2 - x1),
+    h: Math.abs(y2 - y1),
+  };
+};
+
+/**
+ * Computes the bounds of the items, using the control points of the curves.
+ */
+const computeBounds = (items: Item[]): Bounds => {
+  const bounds: Bounds = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+  };
+  const add = (x: number, y: number) => {
+    bounds.minX = Math.min(bounds.minX, x);
+    bounds.minY = Math.min(bounds.minY, y);
+    bounds.maxX = Math.max(bounds.maxX, x);
+    bounds.maxY = Math.max(bounds.maxY, y);
+  };
+
+  for (const { geometry } of items) {
+    switch (geometry.type) {
+      case 'path': {
+        let x = 0;
+        let y = 0;
+        for (const segment of geometry.segments) {
+          if (segment.type === 'close') {
+            continue;
+          }
+          switch (segment.type) {
+            case 'arc': {
+              arcToCurves(x, y, segment).forEach(
+                (curve) =>
+                  curve.type === 'curve' &&
+                  (add(curve.x1, curve.y1), add(curve.x2, curve.y2))
+              );
+
+              break;
+            }
+            case 'quad': {
+              add(segment.x1, segment.y1);
+
+              break;
+            }
+            case 'curve': {
+              add(segment.x1, segment.y1);
+              add(segment.x2, segment.y2);
+
+              break;
+            }
+            // No default
+          }
+          add(segment.x, segment.y);
+          x = segment.x;
+          y = segment.y;
+        }
+        break;
+      }
+      case 'text':
+        add(geometry.x, geometry.y);
+        break;
+      default:
+        add(geometry.x, geometry.y);
+        add(geometry.x + geometry.w, geometry.y + geometry.h);
+    }
+  }
+  return bounds;
+};
+
+const parseStyleAttribute = (style: string | null): Record<string, string> => {
+  const properties: Record<string, string> = {};
+
+  for (const declaration of (style ?? '').split(';')) {
+    const index = declaration.indexOf(':');
+    if (index > 0) {
+      properties[declaration.slice(0, index).trim()] = declaration
+        .slice(index + 1)
+        .replace(/!important/, '')
+        .trim();
+    }
+  }
+  return properties;
+};
+
+const isAncestor = (ancestor: Element, element: Element): boolean => {
+  for (let node: Node | null = element; node; node = node.parentNode) {
+    if (node === ancestor) {
+      return true;
+    }
+  }
+  return false;
+};
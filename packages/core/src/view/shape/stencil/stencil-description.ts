@@ -0,0 +1,714 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import type { AlignValue, VAlignValue } from '../../../types.js';
+import { createXmlDocument } from '../../../util/xmlUtils.js';
+import { getElementPath } from '../../../internal/utils.js';
+
+/**
+ * A connection constraint of a {@link StencilDescription}, stored in a `constraint` element.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export interface StencilConstraint {
+  /** The horizontal position, relative to the width of the shape. */
+  x: number;
+  /** The vertical position, relative to the height of the shape. */
+  y: number;
+  /** If `true`, the connection point is projected on the perimeter of the shape. */
+  perimeter?: boolean;
+  /** The name of the constraint. */
+  name?: string;
+}
+
+/**
+ * A segment of a `path` instruction of a {@link StencilDescription}. The `type` is the name of the XML element.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export type StencilPathSegment =
+  | { type: 'move' | 'line'; x: number; y: number }
+  | { type: 'quad'; x1: number; y1: number; x2: number; y2: number }
+  | {
+      type: 'curve';
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      x3: number;
+      y3: number;
+    }
+  | {
+      type: 'arc';
+      rx: number;
+      ry: number;
+      xAxisRotation: number;
+      largeArc: boolean;
+      sweep: boolean;
+      x: number;
+      y: number;
+    }
+  | { type: 'close' };
+
+/**
+ * An instruction of the `background` or the `foreground` of a {@link StencilDescription}. The `type` is the name of the
+ * XML element, and the other properties are its attributes.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export type StencilInstruction =
+  | { type: 'save' | 'restore' | 'fill' | 'stroke' | 'fillstroke' }
+  | {
+      type: 'path';
+      segments: StencilPathSegment[];
+      crisp?: boolean;
+      rounded?: boolean;
+      arcSize?: number;
+    }
+  | { type: 'rect'; x: number; y: number; w: number; h: number; crisp?: boolean }
+  | {
+      type: 'roundrect';
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+      arcSize?: number;
+      crisp?: boolean;
+    }
+  | { type: 'ellipse'; x: number; y: number; w: number; h: number }
+  | {
+      type: 'text';
+      str: string;
+      x: number;
+      y: number;
+      align?: AlignValue;
+      valign?: VAlignValue;
+      localized?: boolean;
+      vertical?: boolean;
+      rotation?: number;
+      alignShape?: boolean;
+    }
+  | {
+      type: 'image';
+      src: string;
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+      flipH?: boolean;
+      flipV?: boolean;
+    }
+  | { type: 'include-shape'; name: string; x: number; y: number; w: number; h: number }
+  | { type: 'strokecolor' | 'fillcolor' | 'fontcolor'; color: string }
+  | { type: 'alpha' | 'fillalpha' | 'strokealpha'; alpha: number }
+  | { type: 'strokewidth'; width: number; fixed?: boolean }
+  | { type: 'dashed'; dashed: boolean }
+  | { type: 'dashpattern'; pattern: string }
+  | { type: 'miterlimit'; limit: number }
+  | { type: 'linejoin'; join: 'miter' | 'round' | 'bevel' }
+  | { type: 'linecap'; cap: 'flat' | 'square' | 'round' }
+  | { type: 'fontsize'; size: number }
+  | { type: 'fontstyle'; style: number }
+  | { type: 'fontfamily'; family: string };
+
+/**
+ * The typed model of a `shape` element of the stencil language, described in the `stencils.xsd` file.
+ *
+ * The properties which are not set are not written in the XML, so the default values of the {@link StencilShape} apply.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export interface StencilDescription {
+  /** The name of the stencil. */
+  name: string;
+  /** The width of the coordinate space of the instructions. */
+  w?: number;
+  /** The height of the coordinate space of the instructions. */
+  h?: number;
+  /** If `fixed`, the aspect ratio of the stencil is kept when it is drawn. */
+  aspect?: 'fixed' | 'variable';
+  /** The stroke width of the stencil. `inherit` uses the `strokeWidth` of the cell style. */
+  strokeWidth?: number | 'inherit';
+  /** The connection constraints. When not set, the description has no `connections` element. */
+  constraints?: StencilConstraint[];
+  /** The instructions of the background. When not set, the description has no `background` element. */
+  background?: StencilInstruction[];
+  /** The instructions of the foreground. When not set, the description has no `foreground` element. */
+  foreground?: StencilInstruction[];
+}
+
+/**
+ * An error reported by {@link validateStencilDescription}.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export interface StencilDescriptionError {
+  message: string;
+  /** The path of the element in the XML, for example `/shape/foreground[1]/path[2]/arc[1]`. */
+  path: string;
+}
+
+/**
+ * Error thrown by {@link parseStencilDescription} when the XML is not a valid stencil description.
+ *
+ * The message lists all errors, use {@link errors} to get their paths.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export class StencilDescriptionParseError extends Error {
+  constructor(readonly errors: StencilDescriptionError[]) {
+    super(errors.map((error) => `${error.path}: ${error.message}`).join('\n'));
+    this.name = 'StencilDescriptionParseError';
+  }
+}
+
+type AttributeType =
+  | 'number'
+  | 'integer'
+  | 'flag'
+  | 'string'
+  | 'number-or-inherit'
+  | readonly string[];
+
+interface AttributeSpec {
+  name: string;
+  /** The property of the model, if it differs from the name of the attribute. */
+  property: string;
+  type: AttributeType;
+  required: boolean;
+}
+
+const required = (name: string, type: AttributeType, property = name): AttributeSpec => ({
+  name,
+  property,
+  type,
+  required: true,
+});
+const optional = (name: string, type: AttributeType, property = name): AttributeSpec => ({
+  name,
+  property,
+  type,
+  required: false,
+});
+
+const POSITION = [required('x', 'number'), required('y', 'number')];
+const BOUNDS = [...POSITION, required('w', 'number'), required('h', 'number')];
+const COLOR = [required('color', 'string')];
+const ALPHA = [required('alpha', 'number')];
+
+const SHAPE_ATTRIBUTES = [
+  required('name', 'string'),
+  optional('w', 'number'),
+  optional('h', 'number'),
+  optional('aspect', ['fixed', 'variable']),
+  optional('strokewidth', 'number-or-inherit', 'strokeWidth'),
+];
+
+const CONSTRAINT_ATTRIBUTES = [
+  ...POSITION,
+  required('perimeter', 'flag'),
+  optional('name', 'string'),
+];
+
+const SEGMENT_ATTRIBUTES: Record<StencilPathSegment['type'], AttributeSpec[]> = {
+  move: POSITION,
+  line: POSITION,
+  quad: [
+    required('x1', 'number'),
+    required('y1', 'number'),
+    required('x2', 'number'),
+    required('y2', 'number'),
+  ],
+  curve: [
+    required('x1', 'number'),
+    required('y1', 'number'),
+    required('x2', 'number'),
+    required('y2', 'number'),
+    required('x3', 'number'),
+    required('y3', 'number'),
+  ],
+  arc: [
+    required('rx', 'number'),
+    required('ry', 'number'),
+    required('x-axis-rotation', 'number', 'xAxisRotation'),
+    required('large-arc-flag', 'flag', 'largeArc'),
+    required('sweep-flag', 'flag', 'sweep'),
+    ...POSITION,
+  ],
+  close: [],
+};
+
+const INSTRUCTION_ATTRIBUTES: Record<StencilInstruction['type'], AttributeSpec[]> = {
+  save: [],
+  restore: [],
+  path: [
+    optional('crisp', 'flag'),
+    optional('rounded', 'flag'),
+    optional('arcSize', 'number'),
+  ],
+  rect: [...BOUNDS, optional('crisp', 'flag')],
+  roundrect: [
+    ...BOUNDS,
+    optional('arcsize', 'number', 'arcSize'),
+    optional('crisp', 'flag'),
+  ],
+  ellipse: BOUNDS,
+  text: [
+    required('str', 'string'),
+    ...POSITION,
+    optional('align', ['left', 'center', 'right']),
+    optional('valign', ['top', 'middle', 'bottom']),
+    optional('localized', 'flag'),
+    optional('vertical', 'flag'),
+    optional('rotation', 'number'),
+    optional('align-shape', 'flag', 'alignShape'),
+  ],
+  image: [
+    required('src', 'string'),
+    ...BOUNDS,
+    optional('flipH', 'flag'),
+    optional('flipV', 'flag'),
+  ],
+  'include-shape': [required('name', 'string'), ...BOUNDS],
+  fill: [],
+  stroke: [],
+  fillstroke: [],
+  strokecolor: COLOR,
+  fillcolor: COLOR,
+  fontcolor: COLOR,
+  alpha: ALPHA,
+  fillalpha: ALPHA,
+  strokealpha: ALPHA,
+  strokewidth: [required('width', 'number'), optional('fixed', 'flag')],
+  dashed: [required('dashed', 'flag')],
+  dashpattern: [required('pattern', 'string')],
+  miterlimit: [required('limit', 'number')],
+  linejoin: [required('join', ['miter', 'round', 'bevel'])],
+  linecap: [required('cap', ['flat', 'square', 'round'])],
+  fontsize: [required('size', 'number')],
+  fontstyle: [required('style', 'integer')],
+  fontfamily: [required('family', 'string')],
+};
+
+const SECTIONS = ['connections', 'background', 'foreground'];
+
+const isNumber = (value: string): boolean =>
+  value.trim() !== '' && Number.isFinite(Number(value));
+
+const isValidValue = (type: AttributeType, value: string): boolean => {
+  switch (type) {
+    case 'number':
+      return isNumber(value);
+    case 'integer':
+      return isNumber(value) && Number.isInteger(Number(value));
+    case 'flag':
+      return value === '0' || value === '1';
+    case 'number-or-inherit':
+      return value === 'inherit' || isNumber(value);
+    case 'string':
+      return true;
+    default:
+      return type.includes(value);
+  }
+};
+
+const describeType = (type: AttributeType): string => {
+  switch (type) {
+    case 'number':
+      return 'a number';
+    case 'integer':
+      return 'an integer';
+    case 'flag':
+      return "'0' or '1'";
+    case 'number-or-inherit':
+      return "a number or 'inherit'";
+    case 'string':
+      return 'a string';
+    default:
+      return `one of ${type.map((value) => `'${value}'`).join(', ')}`;
+  }
+};
+
+/**
+ * Checks the stencil descriptions against the rules of the `stencils.xsd` file, and reports the errors with the path of
+ * the elements.
+ */
+class DescriptionValidator {
+  readonly errors: StencilDescriptionError[] = [];
+
+  // The states saved in the background can be restored in the foreground
+  private savedStates = 0;
+
+  validateRoot(element: Element): void {
+    if (element.localName === 'shape') {
+      this.validateShape(element);
+    } else if (element.localName === 'shapes') {
+      this.validateShapes(element);
+    } else {
+      this.report(
+        element,
+        `Unexpected root element '${element.localName}', expected 'shape' or 'shapes'`
+      );
+    }
+  }
+
+  private validateShapes(element: Element): void {
+    this.validateAttributes(element, [optional('name', 'string')]);
+    const names = new Set<string>();
+
+    for (const child of Array.from(element.children)) {
+      if (child.localName !== 'shape') {
+        this.reportUnexpectedElement(child);
+        continue;
+      }
+      this.validateShape(child);
+      const name = child.getAttribute('name');
+
+      if (name !== null && names.has(name)) {
+        this.report(child, `Duplicate shape '${name}'`);
+      }
+      name !== null && names.add(name);
+    }
+  }
+
+  private validateShape(element: Element): void {
+    this.validateAttributes(element, SHAPE_ATTRIBUTES);
+    const sections = new Set<string>();
+    this.savedStates = 0;
+
+    for (const child of Array.from(element.children)) {
+      const name = child.localName;
+
+      if (!SECTIONS.includes(name)) {
+        this.reportUnexpectedElement(child);
+        continue;
+      }
+      if (sections.has(name)) {
+        this.report(child, `Duplicate '${name}' element`);
+      }
+      sections.add(name);
+      this.validateAttributes(child, []);
+      name === 'connections'
+        ? this.validateConnections(child)
+        : this.validateInstructions(child);
+    }
+  }
+
+  private validateConnections(element: Element): void {
+    for (const child of Array.from(element.children)) {
+      if (child.localName === 'constraint') {
+        this.validateAttributes(child, CONSTRAINT_ATTRIBUTES);
+        this.validateNoChildren(child);
+      } else {
+        this.reportUnexpectedElement(child);
+      }
+    }
+  }
+
+  private validateInstructions(element: Element): void {
+    for (const child of Array.from(element.children)) {
+      const name = child.localName;
+      const attributes = getSpecs(INSTRUCTION_ATTRIBUTES, name);
+
+      if (!attributes) {
+        this.reportUnexpectedElement(child);
+        continue;
+      }
+      this.validateAttributes(child, attributes);
+
+      if (name === 'path') {
+        this.validatePath(child);
+      } else {
+        this.validateNoChildren(child);
+      }
+
+      if (name === 'save') {
+        this.savedStates++;
+      } else if (name === 'restore') {
+        this.savedStates === 0
+          ? this.report(child, "No 'save' element matches this 'restore' element")
+          : this.savedStates--;
+      }
+    }
+  }
+
+  private validatePath(element: Element): void {
+    let started = false;
+
+    for (const child of Array.from(element.children)) {
+      const attributes = getSpecs(SEGMENT_ATTRIBUTES, child.localName);
+
+      if (!attributes) {
+        this.reportUnexpectedElement(child);
+        continue;
+      }
+      this.validateAttributes(child, attributes);
+      this.validateNoChildren(child);
+
+      if (!started && child.localName !== 'move') {
+        this.report(child, "The path must start with a 'move' element");
+      }
+      started = true;
+    }
+  }
+
+  private validateAttributes(element: Element, specs: AttributeSpec[]): void {
+    for (const attribute of Array.from(element.attributes)) {
+      if (attribute.name === 'xmlns' || attribute.prefix === 'xmlns') {
+        continue;
+      }
+      const spec = specs.find((candidate) => candidate.name === attribute.name);
+
+      if (!spec) {
+        this.report(element, `Unknown attribute '${attribute.name}'`);
+      } else if (!isValidValue(spec.type, attribute.value)) {
+        this.report(
+          element,
+          `Invalid value '${attribute.value}' of the '${spec.name}' attribute, expected ${describeType(spec.type)}`
+        );
+      }
+    }
+
+    for (const spec of specs) {
+      if (spec.required && !element.hasAttribute(spec.name)) {
+        this.report(element, `Missing the required '${spec.name}' attribute`);
+      }
+    }
+  }
+
+  private validateNoChildren(element: Element): void {
+    for (const child of Array.from(element.children)) {
+      this.reportUnexpectedElement(child);
+    }
+  }
+
+  private reportUnexpectedElement(element: Element): void {
+    this.report(element, `Unexpected element '${element.localName}'`);
+  }
+
+  private report(element: Element, message: string): void {
+    this.errors.push({ message, path: getElementPath(element) });
+  }
+}
+
+const getSpecs = <T extends string>(
+  specs: Record<T, AttributeSpec[]>,
+  name: string
+): AttributeSpec[] | undefined =>
+  Object.prototype.hasOwnProperty.call(specs, name) ? specs[name as T] : undefined;
+
+const readAttributes = (
+  element: Element,
+  specs: AttributeSpec[]
+): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+
+  for (const spec of specs) {
+    const value = element.getAttribute(spec.name);
+
+    if (value === null) {
+      continue;
+    }
+    switch (spec.type) {
+      case 'number':
+      case 'integer':
+        result[spec.property] = Number(value);
+        break;
+      case 'flag':
+        result[spec.property] = value === '1';
+        break;
+      case 'number-or-inherit':
+        result[spec.property] = value === 'inherit' ? value : Number(value);
+        break;
+      default:
+        result[spec.property] = value;
+    }
+  }
+  return result;
+};
+
+const writeAttributes = (
+  element: Element,
+  values: object,
+  specs: AttributeSpec[]
+): void => {
+  for (const spec of specs) {
+    const value = (values as Record<string, unknown>)[spec.property];
+
+    if (value === undefined || value === null) {
+      continue;
+    }
+    element.setAttribute(
+      spec.name,
+      typeof value === 'boolean' ? (value ? '1' : '0') : String(value)
+    );
+  }
+};
+
+const readInstructions = (element: Element): StencilInstruction[] =>
+  Array.from(element.children).map((child) => {
+    const type = child.localName as StencilInstruction['type'];
+    const instruction = { type, ...readAttributes(child, INSTRUCTION_ATTRIBUTES[type]) };
+
+    if (type === 'path') {
+      return {
+        ...instruction,
+        segments: Array.from(child.children).map((segment) => {
+          const segmentType = segment.localName as StencilPathSegment['type'];
+          return {
+            type: segmentType,
+            ...readAttributes(segment, SEGMENT_ATTRIBUTES[segmentType]),
+          };
+        }),
+      } as StencilInstruction;
+    }
+    return instruction as StencilInstruction;
+  });
+
+/**
+ * Validates a stencil description against the rules of the `stencils.xsd` file.
+ *
+ * The element can be a `shape` element or a `shapes` element containing several stencils. The errors are reported with
+ * the path of the element in the XML, for example `/shapes/shape[2]/foreground[1]/rect[1]`.
+ *
+ * The `fillalpha` and `strokealpha` instructions, and the `rounded` and `arcSize` attributes of the `path` element, are
+ * accepted as they are supported by {@link StencilShape}. In addition to the XSD, the validation reports:
+ * - a `path` which does not start with a `move` element.
+ * - a `restore` element without a previous `save` element.
+ * - the duplicate shape names in a `shapes` element.
+ *
+ * @param element The `shape` or `shapes` element to validate.
+ * @returns The errors, or an empty array if the description is valid.
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export const validateStencilDescription = (
+  element: Element
+): StencilDescriptionError[] => {
+  const validator = new DescriptionValidator();
+  validator.validateRoot(element);
+  return validator.errors;
+};
+
+/**
+ * Reads a `shape` element of the stencil language into a {@link StencilDescription}.
+ *
+ * @param element The `shape` element.
+ * @throws {@link StencilDescriptionParseError} if the element is not valid, see {@link validateStencilDescription}.
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export const parseStencilDescription = (element: Element): StencilDescription => {
+  const errors =
+    element.localName === 'shape'
+      ? validateStencilDescription(element)
+      : [
+          {
+            message: `Unexpected element '${element.localName}', expected 'shape'`,
+            path: getElementPath(element),
+          },
+        ];
+  if (errors.length > 0) {
+    throw new StencilDescriptionParseError(errors);
+  }
+
+  const description = readAttributes(
+    element,
+    SHAPE_ATTRIBUTES
+  ) as object as StencilDescription;
+
+  for (const child of Array.from(element.children)) {
+    if (child.localName === 'connections') {
+      description.constraints = Array.from(child.children).map(
+        (constraint) =>
+          readAttributes(constraint, CONSTRAINT_ATTRIBUTES) as object as StencilConstraint
+      );
+    } else if (child.localName === 'background' || child.localName === 'foreground') {
+      description[child.localName] = readInstructions(child);
+    }
+  }
+  return description;
+};
+
+/**
+ * Writes a {@link StencilDescription} as a `shape` element of the stencil language, which can be used to create a
+ * {@link StencilShape}.
+ *
+ * The numbers are written as is: the values must be finite, use {@link validateStencilDescription} to check the result
+ * when the description is built from user inputs.
+ *
+ * @param description The description to write.
+ * @param doc The document used to create the elements. A new XML document is created if not set.
+ * @returns The `shape` element, which is not attached to the document.
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Shape
+ */
+export const writeStencilDescription = (
+  description: StencilDescription,
+  doc: XMLDocument = createXmlDocument()
+): Element => {
+  const shape = doc.createElement('shape');
+  writeAttributes(shape, description, SHAPE_ATTRIBUTES);
+
+  if (description.constraints) {
+    const connections = doc.createElement('connections');
+    for (const constraint of description.constraints) {
+      const element = doc.createElement('constraint');
+      writeAttributes(element, constraint, CONSTRAINT_ATTRIBUTES);
+      connections.appendChild(element);
+    }
+    shape.appendChild(connections);
+  }
+
+  for (const section of ['background', 'foreground'] as const) {
+    const instructions = description[section];
+    if (!instructions) {
+      continue;
+    }
+    const sectionElement = doc.createElement(section);
+
+    for (const instruction of instructions) {
+      const element = doc.createElement(instruction.type);
+      writeAttributes(element, instruction, INSTRUCTION_ATTRIBUTES[instruction.type]);
+
+      if (instruction.type === 'path') {
+        for (const segment of instruction.segments) {
+          const segmentElement = doc.createElement(segment.type);
+          writeAttributes(segmentElement, segment, SEGMENT_ATTRIBUTES[segment.type]);
+          element.appendChild(segmentElement);
+        }
+      }
+      sectionElement.appendChild(element);
+    }
+    shape.appendChild(sectionElement);
+  }
+  return shape;
+};
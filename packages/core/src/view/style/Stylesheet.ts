@@ -18,7 +18,16 @@ limitations under the License.
 
 import { NONE } from '../../util/Constants.js';
 import { clone } from '../../util/cloneUtils.js';
-import type { CellStateStyle, CellStyle } from '../../types.js';
+import { isNode } from '../../util/domUtils.js';
+import { log } from '../../internal/utils.js';
+import type {
+  CellStateStyle,
+  CellStyle,
+  StyleRule,
+  StyleRuleCondition,
+  StyleRuleContext,
+  Theme,
+} from '../../types.js';
 
 /**
  * Defines the appearance of the cells in a graph. See {@link putCellStyle} for an example
@@ -44,6 +53,16 @@ import type { CellStateStyle, CellStyle } from '../../types.js';
  * defaultEdgeStyle.edgeStyle = EdgeStyle.EntityRelation;
  * ```
  *
+ * ### Style Inheritance
+ *
+ * A named style can extend other named styles by setting its `baseStyleNames`. The inheritance is resolved recursively,
+ * so a style can extend a style that extends other styles. See {@link resolveCellStyle}.
+ *
+ * ### Style Rules
+ *
+ * The stylesheet can also contain {@link StyleRule}s, which apply a style fragment to the cells depending on their kind,
+ * their value or their state. See {@link addStyleRule}.
+ *
  * @category Style
  */
 export class Stylesheet {
@@ -57,8 +76,27 @@ export class Stylesheet {
   /**
    * Maps from names to cell styles. Each cell style is a map of key,
    * value pairs.
+   *
+   * Since 0.25.0, the styles can set `baseStyleNames` to extend other named styles.
    */
-  styles: Map<string, CellStateStyle>;
+  styles: Map<string, CellStyle>;
+
+  /**
+   * The {@link StyleRule}s evaluated by {@link getCellStyle}, in the order in which they have been added.
+   * @since 0.25.0
+   */
+  protected styleRules: StyleRule[] = [];
+
+  /**
+   * The {@link Theme} applied to the styles.
+   * @since 0.25.0
+   */
+  protected theme: Theme | null = null;
+
+  /**
+   * The values replaced by the {@link theme}, keyed by style names. `null` denotes a style created by the theme.
+   */
+  private themeBackup = new Map<string, CellStateStyle | null>();
 
   /**
    * Creates and returns the default vertex style.
@@ -146,11 +184,272 @@ export class Stylesheet {
    * model.setStyle(cell, { baseStyleNames: ['rounded'] });
    * ```
    *
+   * ### Inheritance
+   *
+   * Since 0.25.0, the style can extend other named styles by setting `baseStyleNames`. The properties of the extended
+   * styles, and of the styles they extend themselves, are applied before the properties of the style:
+   * ```javascript
+   * stylesheet.putCellStyle('corporate', { fontFamily: 'Verdana', fontColor: '#003366' });
+   * stylesheet.putCellStyle('box', { baseStyleNames: ['corporate'], rounded: true });
+   * stylesheet.putCellStyle('warningBox', { baseStyleNames: ['box'], fillColor: 'orange' });
+   * ```
+   *
+   * A warning is logged if the style closes an inheritance cycle, see {@link getStyleInheritanceCycle}.
+   *
    * @param name Name for the style to be stored.
    * @param style The instance of the style to be stored.
    */
-  putCellStyle(name: string, style: CellStateStyle) {
+  putCellStyle(name: string, style: CellStyle) {
     this.styles.set(name, style);
+
+    const cycle = style.baseStyleNames ? this.getStyleInheritanceCycle(name) : null;
+    if (cycle) {
+      log().warn(
+        `Stylesheet: inheritance cycle ${cycle.join(' -> ')}, the reference closing the cycle is ignored`
+      );
+    }
+  }
+
+  /**
+   * Returns the properties of the named style, including the properties inherited from the styles referenced in its
+   * `baseStyleNames`, resolved recursively. The extended styles are merged in the order of the array, then the
+   * properties of the style itself are applied.
+   *
+   * Unknown extended styles are ignored. If the inheritance contains a cycle, the reference closing the cycle is ignored.
+   * The cycles are reported when the styles are registered with {@link putCellStyle}, use
+   * {@link getStyleInheritanceCycle} to detect them beforehand.
+   *
+   * @param name The name of the style.
+   * @returns A new object containing the resolved properties, or `undefined` if no style is registered with this name.
+   * @since 0.25.0
+   */
+  resolveCellStyle(name: string): CellStateStyle | undefined {
+    return this.resolveNamedStyle(name, []);
+  }
+
+  /**
+   * Returns the first inheritance cycle found by following the `baseStyleNames` of the named style.
+   *
+   * @param name The name of the style.
+   * @returns The names of the styles forming the cycle, starting and ending with the same name, for example
+   * `['a', 'b', 'a']`. `null` if there is no cycle.
+   * @since 0.25.0
+   */
+  getStyleInheritanceCycle(name: string): string[] | null {
+    const acyclicStyleNames = new Set<string>();
+
+    const visit = (styleName: string, path: string[]): string[] | null => {
+      const index = path.indexOf(styleName);
+      if (index !== -1) {
+        return [...path.slice(index), styleName];
+      }
+      if (acyclicStyleNames.has(styleName)) {
+        return null;
+      }
+
+      for (const baseStyleName of this.styles.get(styleName)?.baseStyleNames ?? []) {
+        const cycle = visit(baseStyleName, [...path, styleName]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      acyclicStyleNames.add(styleName);
+      return null;
+    };
+
+    return visit(name, []);
+  }
+
+  /**
+   * Returns the {@link Theme} applied to the styles, or `null` if no theme is applied.
+   *
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  getTheme(): Theme | null {
+    return this.theme;
+  }
+
+  /**
+   * Applies the default and the named styles of the given {@link Theme}.
+   *
+   * The properties of the theme are merged into the existing styles, so the other properties of the styles are kept.
+   * The values replaced by the previous theme are restored first, so setting `null` restores the styles as they were
+   * before any theme was applied.
+   *
+   * This only updates the styles. Use {@link AbstractGraph.setTheme} to also apply the colors of the theme and re-render
+   * the graph.
+   *
+   * @param theme The theme to apply, or `null` to remove the current theme.
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  setTheme(theme: Theme | null): void {
+    for (const [name, backup] of this.themeBackup) {
+      const style = this.styles.get(name);
+
+      if (backup === null) {
+        this.styles.delete(name);
+      } else if (style) {
+        for (const [key, value] of Object.entries(backup)) {
+          // @ts-ignore
+          value === undefined ? delete style[key] : (style[key] = value);
+        }
+      }
+    }
+    this.themeBackup.clear();
+    this.theme = theme;
+
+    const themeStyles: Record<string, CellStateStyle> = {
+      ...theme?.styles,
+      ...(theme?.vertexStyle && { defaultVertex: theme.vertexStyle }),
+      ...(theme?.edgeStyle && { defaultEdge: theme.edgeStyle }),
+    };
+
+    for (const [name, fragment] of Object.entries(themeStyles)) {
+      const style = this.styles.get(name);
+
+      if (!style) {
+        this.styles.set(name, { ...fragment });
+        this.themeBackup.set(name, null);
+        continue;
+      }
+      const backup: CellStateStyle = {};
+
+      for (const key of Object.keys(fragment)) {
+        // @ts-ignore
+        backup[key] = style[key];
+        // @ts-ignore
+        style[key] = fragment[key];
+      }
+      this.themeBackup.set(name, backup);
+    }
+  }
+
+  /**
+   * Adds a {@link StyleRule} applying a style fragment to the cells matching its selector.
+   *
+   * The rules are evaluated each time the style of a cell is computed, i.e. when the state of the cell is validated in the
+   * {@link GraphView}. The style of a cell is recomputed when its value changes. The styles depending on the selection or
+   * on the cell under the mouse are only updated when the {@link StyleRulesPlugin} is registered in the graph.
+   *
+   * The view is not refreshed when the rules change, call {@link AbstractGraph.refresh} to apply them to the existing cells.
+   *
+   * **WARN**: this is an experimental feature that is subject to change or removal.
+   *
+   * ```javascript
+   * stylesheet.addStyleRule({
+   *   selector: { kind: 'vertex', attributes: { status: 'error' } },
+   *   style: { fillColor: 'red' },
+   * });
+   * stylesheet.addStyleRule({
+   *   selector: { hovered: true },
+   *   style: { strokeWidth: 3 },
+   *   important: true,
+   * });
+   * ```
+   *
+   * @param rule The rule to add.
+   * @returns The added rule.
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  addStyleRule(rule: StyleRule): StyleRule {
+    this.styleRules.push(rule);
+    return rule;
+  }
+
+  /**
+   * Removes the given {@link StyleRule}.
+   *
+   * @param rule The rule to remove.
+   * @returns `true` if the rule has been removed.
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  removeStyleRule(rule: StyleRule): boolean {
+    const index = this.styleRules.indexOf(rule);
+
+    if (index < 0) {
+      return false;
+    }
+    this.styleRules.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Removes all the {@link StyleRule}s.
+   *
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  clearStyleRules(): void {
+    this.styleRules = [];
+  }
+
+  /**
+   * Returns a copy of the {@link StyleRule}s, in the order in which they have been added.
+   *
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  getStyleRules(): StyleRule[] {
+    return this.styleRules.slice();
+  }
+
+  /**
+   * Returns `true` if the stylesheet contains {@link StyleRule}s.
+   *
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  hasStyleRules(): boolean {
+    return this.styleRules.length > 0;
+  }
+
+  /**
+   * Returns `true` if the given {@link StyleRule} applies to the cell of the given context.
+   *
+   * @param rule The rule to evaluate.
+   * @param context The cell and its states.
+   * @experimental subject to change or removal.
+   * @since 0.25.0
+   */
+  isStyleRuleMatching(rule: StyleRule, context: StyleRuleContext): boolean {
+    const { selector } = rule;
+    const { cell } = context;
+
+    if (
+      (selector.kind === 'vertex' && !cell.isVertex()) ||
+      (selector.kind === 'edge' && !cell.isEdge()) ||
+      (selector.selected !== undefined && selector.selected !== !!context.selected) ||
+      (selector.hovered !== undefined && selector.hovered !== !!context.hovered) ||
+      (selector.collapsed !== undefined && selector.collapsed !== cell.isCollapsed())
+    ) {
+      return false;
+    }
+    const value = cell.getValue();
+
+    if (selector.value !== undefined) {
+      const text =
+        typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+
+      if (!matchesCondition(selector.value, text)) {
+        return false;
+      }
+    }
+
+    if (selector.nodeName !== undefined || selector.attributes) {
+      if (!isNode(value, selector.nodeName)) {
+        return false;
+      }
+      for (const [name, condition] of Object.entries(selector.attributes ?? {})) {
+        if (!matchesCondition(condition, value.getAttribute(name))) {
+          return false;
+        }
+      }
+    }
+    return !selector.match || selector.match(context);
   }
 
   /**
@@ -159,34 +458,38 @@ export class Stylesheet {
    *
    * The properties are merged by taking the properties from various styles in the following order:
    *   - default style (if {@link CellStyle.ignoreDefaultStyle} is not set to `true`, otherwise it is ignored)
-   *   - registered styles referenced in `baseStyleNames`, in the order of the array
+   *   - registered styles referenced in `baseStyleNames`, in the order of the array, with the styles they extend (see {@link resolveCellStyle})
+   *   - {@link StyleRule}s matching the `context` which are not `important`, by ascending priority
    *   - `cellStyle` parameter
+   *   - {@link StyleRule}s matching the `context` which are `important`, by ascending priority
    *
    * To fully unset a style property i.e. the property is not set even if a value is set in the default style or in the referenced styles,
    * set the `cellStyle` property to `none`. For example. `cellStyle.fillColor = 'none'`
    *
    * @param cellStyle An object that represents the style.
    * @param defaultStyle Default style used as reference to compute the returned style.
+   * @param context The cell and its states used to evaluate the {@link StyleRule}s. The rules are ignored if it is not set. _since 0.25.0_
    */
-  getCellStyle(cellStyle: CellStyle, defaultStyle: CellStateStyle) {
-    let style = cellStyle.ignoreDefaultStyle ? {} : { ...defaultStyle };
+  getCellStyle(
+    cellStyle: CellStyle,
+    defaultStyle: CellStateStyle,
+    context?: StyleRuleContext
+  ) {
+    let style = cellStyle.ignoreDefaultStyle ? {} : this.resolveStyle(defaultStyle, []);
     if (cellStyle.baseStyleNames) {
       // creates style with the given baseStyleNames. (merges from left to right)
-      style = cellStyle.baseStyleNames.reduce((acc, styleName) => {
-        return {
-          ...acc,
-          ...this.styles.get(styleName),
-        };
-      }, style);
+      style = this.mergeBaseStyles(style, cellStyle.baseStyleNames);
     }
 
-    // Merges cellStyle into style
-    for (const key of Object.keys(cellStyle)) {
-      // @ts-ignore
-      if (cellStyle[key] !== undefined) {
-        // @ts-ignore
-        cellStyle[key] == NONE ? delete style[key] : (style[key] = cellStyle[key]);
-      }
+    const rules = context ? this.getMatchingStyleRules(context) : [];
+    for (const rule of rules.filter((rule) => !rule.important)) {
+      this.mergeStyle(style, rule.style);
+    }
+
+    this.mergeStyle(style, cellStyle, false);
+
+    for (const rule of rules.filter((rule) => rule.important)) {
+      this.mergeStyle(style, rule.style);
     }
 
     // Remove the specific CellStyle properties that may have been copied from the cellStyle parameter to match the method signature
@@ -195,4 +498,81 @@ export class Stylesheet {
 
     return style;
   }
+
+  /**
+   * Returns the {@link StyleRule}s matching the given context, sorted by ascending priority.
+   */
+  private getMatchingStyleRules(context: StyleRuleContext): StyleRule[] {
+    return this.styleRules
+      .filter((rule) => this.isStyleRuleMatching(rule, context))
+      .sort((rule1, rule2) => (rule1.priority ?? 0) - (rule2.priority ?? 0));
+  }
+
+  private mergeBaseStyles(style: CellStateStyle, baseStyleNames: string[]) {
+    return baseStyleNames.reduce((acc, styleName) => {
+      return {
+        ...acc,
+        ...this.resolveCellStyle(styleName),
+      };
+    }, style);
+  }
+
+  /**
+   * Resolves the named style. `path` contains the names of the styles being resolved, to detect the cycles.
+   */
+  private resolveNamedStyle(name: string, path: string[]): CellStateStyle | undefined {
+    const style = this.styles.get(name);
+    return style ? this.resolveStyle(style, [...path, name]) : undefined;
+  }
+
+  /**
+   * Returns a copy of the style in which the styles referenced in its `baseStyleNames` are merged recursively.
+   */
+  private resolveStyle(style: CellStyle, path: string[]): CellStateStyle {
+    const resolved: CellStyle = {};
+
+    for (const baseStyleName of style.baseStyleNames ?? []) {
+      // The cycles are reported when the styles are registered
+      if (path.includes(baseStyleName)) {
+        continue;
+      }
+      Object.assign(resolved, this.resolveNamedStyle(baseStyleName, path));
+    }
+    Object.assign(resolved, style);
+    delete resolved.baseStyleNames;
+    delete resolved.ignoreDefaultStyle;
+
+    return resolved;
+  }
+
+  /**
+   * Merges the properties of the given fragment into the style, after the styles referenced in its `baseStyleNames` if
+   * `withBaseStyles` is `true`.
+   */
+  private mergeStyle(style: CellStateStyle, fragment: CellStyle, withBaseStyles = true) {
+    if (withBaseStyles && fragment.baseStyleNames) {
+      Object.assign(style, this.mergeBaseStyles({}, fragment.baseStyleNames));
+    }
+
+    for (const key of Object.keys(fragment)) {
+      // @ts-ignore
+      if (fragment[key] !== undefined) {
+        // @ts-ignore
+        fragment[key] == NONE ? delete style[key] : (style[key] = fragment[key]);
+      }
+    }
+  }
 }
+
+const matchesCondition = (condition: StyleRuleCondition, value: string | null) => {
+  if (typeof condition === 'function') {
+    return condition(value);
+  }
+  if (typeof condition === 'boolean') {
+    return condition === (value != null && value !== '');
+  }
+  if (condition instanceof RegExp) {
+    return value != null && condition.test(value);
+  }
+  return value === String(condition);
+};
@@ -156,3 +156,46 @@ shallowCopy(ManhattanConnectorConfig, originalManhattanConnectorConfig);
 export const resetManhattanConnectorConfig = (): void => {
   shallowCopy(originalManhattanConnectorConfig, ManhattanConnectorConfig);
 };
+
+/**
+ * Configure the {@link ObstacleAvoidingConnector}.
+ *
+ * @experimental subject to change or removal. maxGraph's global configuration may be modified in the future without prior notice.
+ * @since 0.25.0
+ * @category Configuration
+ * @category EdgeStyle
+ */
+export const ObstacleAvoidingConnectorConfig = {
+  /**
+   * The minimal distance between the route and the vertices, including the terminals.
+   * @default 10
+   */
+  margin: 10,
+
+  /**
+   * The cost of a bend, expressed as a length. The higher the value, the more the router prefers longer routes with
+   * fewer bends.
+   * @default 20
+   */
+  bendPenalty: 20,
+
+  /**
+   * The distance used to spread the segments of parallel edges sharing the same channel. Set to `0` to disable the
+   * nudging.
+   * @default 6
+   */
+  nudgingDistance: 6,
+};
+
+const originalObstacleAvoidingConnectorConfig = { ...ObstacleAvoidingConnectorConfig };
+/**
+ * Resets {@link ObstacleAvoidingConnectorConfig} to default values.
+ *
+ * @experimental Subject to change or removal. maxGraph's global configuration may be modified in the future without prior notice.
+ * @since 0.25.0
+ * @category Configuration
+ * @category EdgeStyle
+ */
+export const resetObstacleAvoidingConnectorConfig = (): void => {
+  shallowCopy(originalObstacleAvoidingConnectorConfig, ObstacleAvoidingConnectorConfig);
+};
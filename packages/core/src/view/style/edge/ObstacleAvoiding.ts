@@ -0,0 +1,575 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import type { EdgeStyleFunction } from '../../../types.js';
+import type Cell from '../../cell/Cell.js';
+import type CellState from '../../cell/CellState.js';
+import type GraphView from '../../GraphView.js';
+import Point from '../../geometry/Point.js';
+import Rectangle from '../../geometry/Rectangle.js';
+import { ObstacleAvoidingConnectorConfig } from '../config.js';
+import { OrthogonalConnector } from './Orthogonal.js';
+import { SegmentConnector } from './Segment.js';
+
+const EPSILON = 1e-6;
+
+// East, south, west, north
+const directions = [
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+  [0, -1],
+];
+
+/**
+ * Minimal binary heap storing the states of the search ordered by their estimated cost.
+ */
+class MinHeap {
+  private costs: number[] = [];
+  private values: number[] = [];
+
+  get size(): number {
+    return this.values.length;
+  }
+
+  push(cost: number, value: number): void {
+    const { costs, values } = this;
+    let i = values.length;
+    costs.push(cost);
+    values.push(value);
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (costs[parent] <= cost) break;
+      costs[i] = costs[parent];
+      values[i] = values[parent];
+      i = parent;
+    }
+    costs[i] = cost;
+    values[i] = value;
+  }
+
+  pop(): number {
+    const { costs, values } = this;
+    const top = values[0];
+    const lastCost = costs.pop()!;
+    const lastValue = values.pop()!;
+    const length = values.length;
+
+    if (length > 0) {
+      let i = 0;
+      while (true) {
+        let child = 2 * i + 1;
+        if (child >= length) break;
+        if (child + 1 < length && costs[child + 1] < costs[child]) child++;
+        if (costs[child] >= lastCost) break;
+        costs[i] = costs[child];
+        values[i] = values[child];
+        i = child;
+      }
+      costs[i] = lastCost;
+      values[i] = lastValue;
+    }
+    return top;
+  }
+}
+
+const expand = (rect: Rectangle, margin: number): Rectangle =>
+  new Rectangle(
+    rect.x - margin,
+    rect.y - margin,
+    rect.width + 2 * margin,
+    rect.height + 2 * margin
+  );
+
+/**
+ * Returns `true` if the axis-aligned segment crosses the interior of the rectangle.
+ */
+const crosses = (rect: Rectangle, p1: Point, p2: Point): boolean => {
+  const left = Math.min(p1.x, p2.x);
+  const right = Math.max(p1.x, p2.x);
+  const top = Math.min(p1.y, p2.y);
+  const bottom = Math.max(p1.y, p2.y);
+
+  return (
+    left < rect.x + rect.width - EPSILON &&
+    right > rect.x + EPSILON &&
+    top < rect.y + rect.height - EPSILON &&
+    bottom > rect.y + EPSILON
+  );
+};
+
+const sortedUnique = (values: number[]): number[] =>
+  values
+    .sort((a, b) => a - b)
+    .filter((value, i, sorted) => i === 0 || value - sorted[i - 1] > EPSILON);
+
+/**
+ * Returns the index of the first of the sorted values which matches the predicate, or the number of values.
+ */
+const findFirst = (values: number[], predicate: (value: number) => boolean): number => {
+  let low = 0;
+  let high = values.length;
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (predicate(values[mid])) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+};
+
+/**
+ * Returns the coordinates of the grid along with the middles of the intervals between them.
+ */
+const withMiddles = (values: number[]): number[] =>
+  values.flatMap((value, i) =>
+    i === 0 ? [value] : [(values[i - 1] + value) / 2, value]
+  );
+
+/**
+ * Returns the blocked points of the grid made of the given coordinates, a point being blocked if it is inside an
+ * obstacle, or inside a terminal and not on its center lines.
+ */
+const getBlockedPoints = (
+  xs: number[],
+  ys: number[],
+  terminals: Rectangle[],
+  obstacles: Rectangle[]
+): Uint8Array => {
+  const blocked = new Uint8Array(xs.length * ys.length);
+  const block = (rect: Rectangle, isTerminal: boolean) => {
+    const i0 = findFirst(xs, (x) => x > rect.x + EPSILON);
+    const i1 = findFirst(xs, (x) => x >= rect.x + rect.width - EPSILON);
+    const j0 = findFirst(ys, (y) => y > rect.y + EPSILON);
+    const j1 = findFirst(ys, (y) => y >= rect.y + rect.height - EPSILON);
+
+    for (let j = j0; j < j1; j++) {
+      if (isTerminal && Math.abs(ys[j] - rect.getCenterY()) <= EPSILON) continue;
+
+      for (let i = i0; i < i1; i++) {
+        if (isTerminal && Math.abs(xs[i] - rect.getCenterX()) <= EPSILON) continue;
+        blocked[j * xs.length + i] = 1;
+      }
+    }
+  };
+
+  obstacles.forEach((rect) => block(rect, false));
+  terminals.forEach((rect) => block(rect, true));
+  return blocked;
+};
+
+/**
+ * Finds the route with the lowest cost between the centers of the terminals in the sparse grid made of the sides of
+ * the obstacles and of the terminals. The terminals can only be crossed along their center lines.
+ *
+ * Returns the points of the route including both centers, or `null` if there is no route.
+ */
+const findRoute = (
+  source: Rectangle,
+  target: Rectangle,
+  terminals: Rectangle[],
+  obstacles: Rectangle[],
+  bendPenalty: number
+): Point[] | null => {
+  const start = new Point(source.getCenterX(), source.getCenterY());
+  const end = new Point(target.getCenterX(), target.getCenterY());
+  const xs = [start.x, end.x];
+  const ys = [start.y, end.y];
+
+  for (const rect of [...terminals, ...obstacles]) {
+    xs.push(rect.x, rect.x + rect.width);
+    ys.push(rect.y, rect.y + rect.height);
+  }
+  const gridX = sortedUnique(xs);
+  const gridY = sortedUnique(ys);
+  const nx = gridX.length;
+  const ny = gridY.length;
+
+  // computed once for the route, the node (i, j) of the grid is the point (2 * i, 2 * j) and the middle of the segment
+  // between 2 neighbor nodes is the point between them
+  const blocked = getBlockedPoints(
+    withMiddles(gridX),
+    withMiddles(gridY),
+    terminals,
+    obstacles
+  );
+  const isFree = (i: number, j: number): boolean => blocked[j * (2 * nx - 1) + i] === 0;
+
+  const indexOf = (values: number[], value: number) =>
+    values.findIndex((v) => Math.abs(v - value) <= EPSILON);
+  const startNode = indexOf(gridY, start.y) * nx + indexOf(gridX, start.x);
+  const endNode = indexOf(gridY, end.y) * nx + indexOf(gridX, end.x);
+
+  // a search state is a node of the grid along with the direction used to reach it
+  const costs = new Float64Array(nx * ny * 4).fill(Infinity);
+  const previous = new Int32Array(nx * ny * 4).fill(-1);
+  const heuristic = (node: number) =>
+    Math.abs(gridX[node % nx] - end.x) + Math.abs(gridY[Math.floor(node / nx)] - end.y);
+  const heap = new MinHeap();
+
+  for (let dir = 0; dir < 4; dir++) {
+    costs[startNode * 4 + dir] = 0;
+  }
+  // the start state has no direction, so the first move is never penalized
+  heap.push(heuristic(startNode), -1);
+  let found = -1;
+
+  while (heap.size > 0) {
+    const current = heap.pop();
+    const node = current === -1 ? startNode : current >> 2;
+    const dir = current === -1 ? -1 : current & 3;
+    const cost = current === -1 ? 0 : costs[current];
+
+    if (node === endNode) {
+      found = current;
+      break;
+    }
+    const i = node % nx;
+    const j = Math.floor(node / nx);
+
+    for (let nextDir = 0; nextDir < 4; nextDir++) {
+      if (dir !== -1 && nextDir === (dir + 2) % 4) continue;
+
+      const ni = i + directions[nextDir][0];
+      const nj = j + directions[nextDir][1];
+      if (ni < 0 || ni >= nx || nj < 0 || nj >= ny) continue;
+
+      const next = nj * nx + ni;
+      if ((next !== endNode && !isFree(2 * ni, 2 * nj)) || !isFree(i + ni, j + nj)) {
+        continue;
+      }
+      const nextCost =
+        cost +
+        Math.abs(gridX[ni] - gridX[i]) +
+        Math.abs(gridY[nj] - gridY[j]) +
+        (dir !== -1 && dir !== nextDir ? bendPenalty : 0);
+      const nextState = next * 4 + nextDir;
+
+      if (nextCost < costs[nextState] - EPSILON) {
+        costs[nextState] = nextCost;
+        previous[nextState] = current;
+        heap.push(nextCost + heuristic(next), nextState);
+      }
+    }
+  }
+
+  if (found === -1) {
+    return null;
+  }
+  // keep the start, the bends and the end
+  const route = [end];
+  let state = found;
+
+  while (state !== -1) {
+    const prev = previous[state];
+    const dir = state & 3;
+
+    if (prev === -1 || (prev & 3) !== dir) {
+      const node = prev === -1 ? startNode : prev >> 2;
+      route.unshift(new Point(gridX[node % nx], gridY[Math.floor(node / nx)]));
+    }
+    state = prev;
+  }
+  return route;
+};
+
+/**
+ * Moves the inner segments of the route which overlap a segment of the other routes by a multiple of `distance`,
+ * as long as the moved segments do not cross a vertex. The first and the last segments of the route start at the
+ * center of the terminals, so they are not checked against the terminals.
+ */
+const nudge = (
+  route: Point[],
+  routes: Point[][],
+  obstacles: Rectangle[],
+  terminals: Rectangle[],
+  distance: number
+): void => {
+  const others = routes.flatMap((other) =>
+    other.slice(1).map((p2, i): [Point, Point] => [other[i], p2])
+  );
+
+  for (let k = 1; k < route.length - 2; k++) {
+    const p1 = route[k];
+    const p2 = route[k + 1];
+    const vertical = Math.abs(p1.x - p2.x) <= EPSILON;
+    const position = vertical ? p1.x : p1.y;
+    const min = vertical ? Math.min(p1.y, p2.y) : Math.min(p1.x, p2.x);
+    const max = vertical ? Math.max(p1.y, p2.y) : Math.max(p1.x, p2.x);
+
+    // positions of the parallel segments sharing a part of the channel
+    const taken = others
+      .filter(([o1, o2]) =>
+        vertical ? Math.abs(o1.x - o2.x) <= EPSILON : Math.abs(o1.y - o2.y) <= EPSILON
+      )
+      .filter(([o1, o2]) => {
+        const oMin = vertical ? Math.min(o1.y, o2.y) : Math.min(o1.x, o2.x);
+        const oMax = vertical ? Math.max(o1.y, o2.y) : Math.max(o1.x, o2.x);
+        return oMin < max - EPSILON && oMax > min + EPSILON;
+      })
+      .map(([o1]) => (vertical ? o1.x : o1.y));
+    const isTaken = (value: number) =>
+      taken.some((t) => Math.abs(t - value) < distance - EPSILON);
+
+    if (!isTaken(position)) continue;
+
+    for (let step = 1; step <= 4; step++) {
+      const candidates = [position + step * distance, position - step * distance];
+      const offset = candidates.find((value) => {
+        if (isTaken(value)) return false;
+
+        const q1 = vertical ? new Point(value, p1.y) : new Point(p1.x, value);
+        const q2 = vertical ? new Point(value, p2.y) : new Point(p2.x, value);
+        const segments = [
+          [q1, q2],
+          [route[k - 1], q1],
+          [q2, route[k + 2]],
+        ];
+        const innerSegments = segments.filter(
+          (_segment, i) => (i !== 1 || k > 1) && (i !== 2 || k < route.length - 3)
+        );
+        return (
+          !obstacles.some((rect) => segments.some(([a, b]) => crosses(rect, a, b))) &&
+          !terminals.some((rect) => innerSegments.some(([a, b]) => crosses(rect, a, b)))
+        );
+      });
+
+      if (offset !== undefined) {
+        route[k] = vertical ? new Point(offset, p1.y) : new Point(p1.x, offset);
+        route[k + 1] = vertical ? new Point(offset, p2.y) : new Point(p2.x, offset);
+        break;
+      }
+    }
+  }
+};
+
+/**
+ * Returns the route of the edge between the given terminals, nudged against the given routes, or `null` if there is
+ * no route.
+ */
+const computeRoute = (
+  source: CellState,
+  target: CellState,
+  vertices: CellState[],
+  routes: Point[][],
+  scale: number
+): Point[] | null => {
+  const { margin, bendPenalty, nudgingDistance } = ObstacleAvoidingConnectorConfig;
+  const obstacles = vertices.filter(
+    (vertex) =>
+      !vertex.cell.isAncestor(source.cell) && !vertex.cell.isAncestor(target.cell)
+  );
+  const sourceBox = expand(source, margin * scale);
+  const targetBox = expand(target, margin * scale);
+  const route = findRoute(
+    sourceBox,
+    targetBox,
+    [sourceBox, targetBox],
+    obstacles.map((rect) => expand(rect, margin * scale)),
+    bendPenalty * scale
+  );
+
+  if (route != null && nudgingDistance > 0) {
+    nudge(route, routes, obstacles, [source, target], nudgingDistance * scale);
+  }
+  return route;
+};
+
+interface CachedRoute {
+  edge: Cell;
+  /** The bounds of the terminals used to compute the route. */
+  key: string;
+  route: Point[] | null;
+}
+
+/**
+ * The routes of the edges of a parent, in the order of the children, for the vertices and the configuration of the key.
+ */
+interface RouteCache {
+  key: string;
+  routes: CachedRoute[];
+}
+
+const routeCaches = new WeakMap<GraphView, WeakMap<Cell, RouteCache>>();
+
+const getBoundsKey = (rect: Rectangle): string =>
+  `${rect.x},${rect.y},${rect.width},${rect.height}`;
+
+const getTerminalState = (view: GraphView, edge: Cell, source: boolean) => {
+  const terminal = view.getVisibleTerminal(edge, source);
+  return terminal ? view.getState(terminal) : null;
+};
+
+const getNudgingRoutes = (routes: CachedRoute[]): Point[][] =>
+  routes.map(({ route }) => route).filter((route) => route != null);
+
+/**
+ * Returns the routes of the edges of the parent routed by the {@link ObstacleAvoidingConnector}, in the order of the
+ * children and up to the given edge. Each route is nudged against the routes of the previous edges, so the routes do
+ * not depend on the order in which the edges are validated. They are cached as long as the vertices, the terminals and
+ * the configuration do not change, and the next edges are invalidated when a route changes.
+ */
+const getRoutes = (
+  view: GraphView,
+  parent: Cell,
+  vertices: CellState[],
+  edge: Cell
+): CachedRoute[] => {
+  const { margin, bendPenalty, nudgingDistance } = ObstacleAvoidingConnectorConfig;
+  const key = [
+    view.scale,
+    margin,
+    bendPenalty,
+    nudgingDistance,
+    ...vertices.map(getBoundsKey),
+  ].join(' ');
+  let parentCaches = routeCaches.get(view);
+
+  if (!parentCaches) {
+    parentCaches = new WeakMap();
+    routeCaches.set(view, parentCaches);
+  }
+  let cache = parentCaches.get(parent);
+
+  if (cache?.key !== key) {
+    cache = { key, routes: [] };
+    parentCaches.set(parent, cache);
+  }
+  const { routes } = cache;
+  let count = 0;
+
+  for (const sibling of parent.getChildEdges()) {
+    const siblingState = view.getState(sibling);
+    const source = getTerminalState(view, sibling, true);
+    const target = getTerminalState(view, sibling, false);
+
+    if (
+      siblingState &&
+      source &&
+      target &&
+      !sibling.getGeometry()?.points?.length &&
+      view.getEdgeStyle(siblingState, [], source, target) === ObstacleAvoidingConnector
+    ) {
+      const edgeKey = `${getBoundsKey(source)} ${getBoundsKey(target)}`;
+      const cached = routes[count];
+
+      if (cached?.edge !== sibling || cached.key !== edgeKey) {
+        // the next routes are nudged against this one, so their edges are validated again
+        for (const { edge: next } of routes.splice(count)) {
+          if (next !== sibling && next !== edge) {
+            view.invalidate(next, false, false);
+          }
+        }
+        routes.push({
+          edge: sibling,
+          key: edgeKey,
+          route: computeRoute(
+            source,
+            target,
+            vertices,
+            getNudgingRoutes(routes),
+            view.scale
+          ),
+        });
+      }
+      count++;
+    }
+
+    if (sibling === edge) {
+      break;
+    }
+  }
+  return routes.slice(0, count);
+};
+
+/**
+ * Orthogonal router avoiding all the vertices which have the same parent as the edge.
+ *
+ * The route is the path between the centers of the terminals with the lowest cost in a sparse grid built from the
+ * bounds of the vertices expanded by {@link ObstacleAvoidingConnectorConfig.margin}. The cost of a route is its length
+ * plus {@link ObstacleAvoidingConnectorConfig.bendPenalty} for each bend.
+ *
+ * The segments of the route which share a channel with a segment of another edge are then spread by
+ * {@link ObstacleAvoidingConnectorConfig.nudgingDistance}. An edge is nudged relative to the edges of the same parent
+ * which precede it in the children of the parent and are routed by this connector, so the routes do not depend on the
+ * order in which the edges are validated.
+ *
+ * If the edge has control points (for instance, after moving a segment with the {@link EdgeSegmentHandler}), the
+ * {@link SegmentConnector} is used instead. If no route is found, the {@link OrthConnector} is used as a fallback.
+ *
+ * This EdgeStyle is registered under `obstacleAvoidingEdgeStyle` in {@link EdgeStyleRegistry} when using {@link Graph} or calling {@link registerDefaultEdgeStyles}.
+ *
+ * To register it on its own (e.g. with {@link BaseGraph}), prefer the dedicated {@link registerObstacleAvoidingEdgeStyle} helper, which sets the correct metadata for you.
+ *
+ * **IMPORTANT**: When registering it manually in {@link EdgeStyleRegistry}, the following metadata must be used:
+ * - handlerKind: 'segment'
+ * - isOrthogonal: true
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ */
+export const ObstacleAvoidingConnector: EdgeStyleFunction = (
+  state: CellState,
+  source: CellState,
+  target: CellState | null,
+  points: Point[],
+  result: Point[]
+) => {
+  const parent = state.cell.getParent();
+
+  if (
+    (points != null && points.length > 0) ||
+    source == null ||
+    target == null ||
+    parent == null
+  ) {
+    SegmentConnector(state, source, target, points, result);
+    return;
+  }
+  const { view } = state;
+  const vertices: CellState[] = [];
+
+  for (const child of parent.getChildVertices()) {
+    const childState = view.getState(child);
+    childState && vertices.push(childState);
+  }
+  const routes = getRoutes(view, parent, vertices, state.cell);
+  const last = routes[routes.length - 1];
+  // the terminals differ from the ones of the view in the previews
+  const route =
+    last?.edge === state.cell &&
+    last.key === `${getBoundsKey(source)} ${getBoundsKey(target)}`
+      ? last.route?.map((point) => point.clone())
+      : computeRoute(
+          source,
+          target,
+          vertices,
+          getNudgingRoutes(routes.filter((cached) => cached.edge !== state.cell)),
+          view.scale
+        );
+
+  if (route == null) {
+    OrthogonalConnector(state, source, target, points, result);
+    return;
+  }
+
+  // the start and the end are the centers of the terminals, the view computes the perimeter points
+  result.push(...route.slice(1, -1));
+};
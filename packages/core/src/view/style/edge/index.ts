@@ -20,6 +20,7 @@ export { ElbowConnector } from './Elbow.js';
 export { EntityRelation } from './EntityRelation.js';
 export { Loop } from './Loop.js';
 export { ManhattanConnector } from './Manhattan.js';
+export { ObstacleAvoidingConnector } from './ObstacleAvoiding.js';
 export { OrthogonalConnector as OrthConnector } from './Orthogonal.js';
 export { SegmentConnector } from './Segment.js';
 export { SideToSide } from './SideToSide.js';
@@ -81,6 +81,24 @@ export const registerManhattanEdgeStyle = (): void => {
   });
 };
 
+/**
+ * Register the {@link ObstacleAvoidingConnector} edge style with its metadata.
+ *
+ * @category Configuration
+ * @category Style
+ * @since 0.25.0
+ */
+export const registerObstacleAvoidingEdgeStyle = (): void => {
+  EdgeStyleRegistry.add(
+    'obstacleAvoidingEdgeStyle',
+    EdgeStyle.ObstacleAvoidingConnector,
+    {
+      handlerKind: 'segment',
+      isOrthogonal: true,
+    }
+  );
+};
+
 /**
  * Register the {@link OrthConnector} edge style with its metadata.
  *
@@ -152,6 +170,7 @@ export const registerDefaultEdgeStyles = (): void => {
     registerEntityRelationEdgeStyle();
     registerLoopEdgeStyle();
     registerManhattanEdgeStyle();
+    registerObstacleAvoidingEdgeStyle();
     registerOrthogonalEdgeStyle();
     registerSegmentEdgeStyle();
     registerSideToSideEdgeStyle();
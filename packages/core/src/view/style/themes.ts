@@ -0,0 +1,111 @@
+/*
+Copyright 2026-present The maxGraph project Contributors
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import type { Theme } from '../../types.js';
+
+/**
+ * The light {@link Theme}, i.e. the default appearance of maxGraph.
+ *
+ * It does not override any property: the default styles of the {@link Stylesheet} are restored and the colors fall back
+ * to the global configuration and to the constants of the library.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Style
+ */
+export const LightTheme: Theme = {
+  name: 'light',
+};
+
+/**
+ * A dark {@link Theme}, with dark cells and UI elements on a dark background.
+ *
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Style
+ */
+export const DarkTheme: Theme = {
+  name: 'dark',
+  vertexStyle: {
+    fillColor: '#2A3F5F',
+    strokeColor: '#8FAADC',
+    fontColor: '#F0E6D2',
+  },
+  edgeStyle: {
+    strokeColor: '#8FAADC',
+    fontColor: '#C9D6EE',
+  },
+  colors: {
+    backgroundColor: '#1E1E1E',
+    handleFillColor: '#3DDC84',
+    handleStrokeColor: '#F0F0F0',
+    labelHandleFillColor: '#FFD54F',
+    connectHandleFillColor: '#64B5F6',
+    vertexSelectionColor: '#3DDC84',
+    edgeSelectionColor: '#3DDC84',
+    highlightColor: '#3DDC84',
+    validColor: '#3DDC84',
+    invalidColor: '#FF6E6E',
+    dropTargetColor: '#64B5F6',
+    previewColor: '#F0F0F0',
+    guideColor: '#FF8A65',
+    rubberBandFillColor: '#3A6EA5',
+    rubberBandStrokeColor: '#90CAF9',
+    outlineColor: '#4FC3F7',
+    pageBackgroundColor: '#2B2B2B',
+    pageBorderColor: '#5C5C5C',
+    pageBreakColor: '#757575',
+    gridColor: '#2A2A2A',
+  },
+};
+
+/**
+ * Creates a {@link Theme} by merging the given properties into a base theme. The default styles, the named styles and
+ * the colors are merged property by property.
+ *
+ * ```javascript
+ * const theme = createTheme('dark-orange', {
+ *   vertexStyle: { fillColor: '#5D4037' },
+ *   colors: { vertexSelectionColor: 'orange' },
+ * }, DarkTheme);
+ * graph.setTheme(theme);
+ * ```
+ *
+ * @param name The name of the new theme.
+ * @param theme The properties overriding the ones of the base theme.
+ * @param base The base theme. Default is {@link LightTheme}.
+ * @experimental subject to change or removal.
+ * @since 0.25.0
+ * @category Style
+ */
+export const createTheme = (
+  name: string,
+  theme: Omit<Theme, 'name'>,
+  base: Theme = LightTheme
+): Theme => {
+  const styles: Record<string, object> = { ...base.styles };
+  for (const [styleName, style] of Object.entries(theme.styles ?? {})) {
+    styles[styleName] = { ...styles[styleName], ...style };
+  }
+
+  return {
+    name,
+    vertexStyle: { ...base.vertexStyle, ...theme.vertexStyle },
+    edgeStyle: { ...base.edgeStyle, ...theme.edgeStyle },
+    styles,
+    colors: { ...base.colors, ...theme.colors },
+  };
+};
@@ -94,6 +94,7 @@ const Template = ({ label, ...args }) => {
 
       var s = 0;
       var gs = 0;
+      var gc = null;
       var tr = new Point();
       var w = 0;
       var h = 0;
@@ -110,11 +111,13 @@ const Template = ({ label, ...args }) => {
             graph.view.translate.x != tr.x ||
             graph.view.translate.y != tr.y ||
             gs != graph.gridSize ||
+            gc != graph.getGridColor() ||
             sizeChanged
           ) {
             tr = graph.view.translate.clone();
             s = graph.view.scale;
             gs = graph.gridSize;
+            gc = graph.getGridColor();
             w = width;
             h = height;
 
@@ -152,7 +155,7 @@ const Template = ({ label, ...args }) => {
             var iye = Math.round(ye);
 
             // Draws the actual grid
-            ctx.strokeStyle = '#f6f6f6';
+            ctx.strokeStyle = gc;
             ctx.beginPath();
 
             for (var x = xs; x <= xe; x += stepping) {